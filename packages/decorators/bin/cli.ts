@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+/**
+ * @playwright-labs/decorators — CLI entry point
+ *
+ * Usage:
+ *   @playwright-labs/decorators convert tests/login.spec.ts --to decorators              # print the result
+ *   @playwright-labs/decorators convert tests/*.spec.ts --to decorators --write         # convert in place
+ *   @playwright-labs/decorators convert tests/*.spec.ts --to functional --out-dir ./out # write copies
+ *   @playwright-labs/decorators convert tests/*.spec.ts --to decorators --write --strict # exit 1 on leftovers
+ */
+
+import { Command } from "commander";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { convert, formatIssue, type ConversionTarget } from "./convert-lib.js";
+
+const program = new Command();
+
+program
+  .name("@playwright-labs/decorators")
+  .description("@playwright-labs/decorators — CLI tools for decorator-based test suites")
+  .version("0.0.1");
+
+const TARGETS = ["decorators", "functional"];
+
+program
+  .command("convert")
+  .description("Convert spec files between test.describe() blocks and @describe classes")
+  .argument("<files...>", "Spec files to convert")
+  .requiredOption("-t, --to <target>", "Style to convert to: decorators | functional")
+  .option("-w, --write", "Overwrite the files with the converted code")
+  .option(
+    "-o, --out-dir <dir>",
+    "Write the converted files to this directory, keeping their paths below the files' common directory",
+  )
+  .option("--strict", "Exit with code 1 if any construct could not be converted")
+  .action(
+    async (
+      files: string[],
+      opts: { to: string; write?: boolean; outDir?: string; strict?: boolean },
+    ) => {
+      if (!TARGETS.includes(opts.to)) {
+        program.error(`Unknown target "${opts.to}". Supported values: ${TARGETS.join(", ")}`);
+      }
+      if (files.length > 1 && !opts.write && !opts.outDir) {
+        program.error("Pass --write or --out-dir to convert more than one file");
+      }
+      const paths = files.map((file) => resolve(process.cwd(), file));
+      const root = commonDirectory(paths);
+
+      let errors = 0;
+      for (const [index, file] of files.entries()) {
+        const path = paths[index];
+        const result = convert(await readFile(path, "utf8"), file, opts.to as ConversionTarget);
+        for (const issue of result.issues) {
+          process.stderr.write(`${formatIssue(file, issue)}\n`);
+          if (issue.severity === "error") errors++;
+        }
+
+        if (opts.outDir) {
+          const outPath = join(resolve(process.cwd(), opts.outDir), relative(root, path));
+          await mkdir(dirname(outPath), { recursive: true });
+          await writeFile(outPath, result.code, "utf8");
+          process.stderr.write(`✔ ${file} → ${outPath}\n`);
+        } else if (opts.write) {
+          if (result.changed) {
+            await writeFile(path, result.code, "utf8");
+            process.stderr.write(`✔ converted ${file}\n`);
+          }
+        } else {
+          process.stdout.write(result.code);
+        }
+      }
+
+      if (errors > 0) {
+        process.stderr.write(`${errors} construct(s) left unconverted\n`);
+        if (opts.strict) process.exitCode = 1;
+      }
+    },
+  );
+
+/** Deepest directory containing all `paths`, so files keep distinct relative paths. */
+function commonDirectory(paths: string[]): string {
+  const [first, ...rest] = paths.map((path) => dirname(path).split(sep));
+  let depth = first.length;
+  for (const parts of rest) {
+    let same = 0;
+    while (same < Math.min(depth, parts.length) && parts[same] === first[same]) same++;
+    depth = same;
+  }
+  return first.slice(0, depth).join(sep) || sep;
+}
+
+program.parseAsync(process.argv).catch((err: unknown) => {
+  process.stderr.write(`Error: ${(err as Error).message}\n`);
+  process.exit(1);
+});
@@ -0,0 +1,1567 @@
+/**
+ * Testable internals of the `convert` CLI.
+ *
+ * Converts Playwright spec files between the functional style
+ * (`test.describe()` / `test()`) and `@describe` classes, in both directions,
+ * with the TypeScript compiler API. Code that is converted keeps its
+ * formatting and comments; code that cannot be converted is left as it is
+ * and reported as a `ConversionIssue`.
+ */
+
+import ts from "typescript";
+import { DEFAULT_FIXTURE_KEYS } from "../src/decorator-describe";
+
+// ─── Public API ────────────────────────────────────────────────────────────
+
+export type ConversionTarget = "decorators" | "functional";
+
+export interface ConversionIssue {
+  /**
+   * `error`: the construct — usually a whole suite — was left unconverted.
+   * `warning`: it was converted, but its behavior or title changes slightly.
+   */
+  severity: "error" | "warning";
+  /** 1-based position of the construct in the source file. */
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface ConversionResult {
+  code: string;
+  issues: ConversionIssue[];
+  /** Whether anything was converted. */
+  changed: boolean;
+}
+
+export const DECORATORS_MODULE = "@playwright-labs/decorators";
+const PLAYWRIGHT_MODULE = "@playwright/test";
+
+export function convert(
+  source: string,
+  fileName: string,
+  target: ConversionTarget,
+): ConversionResult {
+  return target === "decorators"
+    ? toDecorators(source, fileName)
+    : toFunctional(source, fileName);
+}
+
+/** `file:line:column  severity  message`, as the CLI prints issues. */
+export function formatIssue(file: string, issue: ConversionIssue): string {
+  return `${file}:${issue.line}:${issue.column}  ${issue.severity}  ${issue.message}`;
+}
+
+// ─── Shared helpers ────────────────────────────────────────────────────────
+
+/** Thrown while converting a suite: the suite is kept as it is. */
+class Unconvertible extends Error {
+  constructor(
+    readonly node: ts.Node,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Text replacements in the source file, applied to a range at a time. */
+class Edits {
+  private list: Edit[] = [];
+
+  constructor(private sf: ts.SourceFile) {}
+
+  replace(node: ts.Node, text: string) {
+    this.replaceRange(node.getStart(this.sf), node.getEnd(), text);
+  }
+
+  replaceRange(start: number, end: number, text: string) {
+    this.list.push({ start, end, text });
+  }
+
+  /** Source text of `[start, end)` with the replacements inside it. */
+  apply(start: number, end: number): string {
+    let text = this.sf.text.slice(start, end);
+    // An edit inside another one is part of the outer edit's text already;
+    // an insertion at the start of an edit goes before it
+    const inside = (edit: Edit, outer: Edit) =>
+      outer !== edit &&
+      outer.start <= edit.start &&
+      edit.end <= outer.end &&
+      outer.end - outer.start > edit.end - edit.start &&
+      !(edit.start === edit.end && edit.start === outer.start);
+    const inRange = this.list.filter((edit) => edit.start >= start && edit.end <= end);
+    const outermost = inRange
+      .filter((edit) => !inRange.some((outer) => inside(edit, outer)))
+      .sort((a, b) => b.start - a.start || b.end - a.end);
+    for (const edit of outermost) {
+      text =
+        text.slice(0, edit.start - start) + edit.text + text.slice(edit.end - start);
+    }
+    return text;
+  }
+}
+
+/**
+ * Placeholders for names decided once the whole file is converted: the
+ * Playwright `test` object and the decorators' `test`.
+ */
+const PW = "\u0000PW\u0000";
+const TEST = "\u0000TEST\u0000";
+
+function parse(source: string, fileName: string) {
+  return ts.createSourceFile(
+    fileName,
+    source,
+    ts.ScriptTarget.Latest,
+    true,
+    fileName.endsWith(".js") ? ts.ScriptKind.JS : ts.ScriptKind.TS,
+  );
+}
+
+function issueAt(
+  sf: ts.SourceFile,
+  node: ts.Node,
+  severity: ConversionIssue["severity"],
+  message: string,
+): ConversionIssue {
+  const { line, character } = sf.getLineAndCharacterOfPosition(node.getStart(sf));
+  return { severity, line: line + 1, column: character + 1, message };
+}
+
+/** Indentation unit of the file: a tab, or the smallest indentation used. */
+function indentUnit(source: string): string {
+  const match = /^\n?([ \t]+)\S/m.exec(source);
+  if (match?.[1].startsWith("\t")) return "\t";
+  return match && match[1].length <= 4 ? match[1] : "  ";
+}
+
+function reindent(text: string, indent: string): string {
+  const lines = text.replace(/^\s*\n/, "").replace(/\s+$/, "").split("\n");
+  const depth = Math.min(
+    ...lines.filter((line) => line.trim()).map((line) => /^\s*/.exec(line)![0].length),
+  );
+  return lines
+    .map((line) => (line.trim() ? indent + line.slice(depth) : ""))
+    .join("\n");
+}
+
+/** Comments before a node, which its text leaves out, without their indentation. */
+function leadingComments(sf: ts.SourceFile, node: ts.Node): string[] {
+  return (ts.getLeadingCommentRanges(sf.text, node.getFullStart()) ?? []).map((range) => {
+    const column = sf.getLineAndCharacterOfPosition(range.pos).character;
+    return sf.text
+      .slice(range.pos, range.end)
+      .split("\n")
+      .map((line, i) => (i === 0 ? line : line.replace(new RegExp(`^[ \\t]{0,${column}}`), "")))
+      .join("\n");
+  });
+}
+
+/** `head {`, the indented body and `}` — or `head {}` if the body is empty. */
+function block(head: string, body: string, indent: string, close = "}"): string {
+  return body.trim() ? `${head} {\n${reindent(body, indent)}\n${close}` : `${head} {${close}`;
+}
+
+function words(title: string): string[] {
+  return title
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+}
+
+function camelCase(title: string): string {
+  const name = words(title)
+    .map((word, i) =>
+      i === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase(),
+    )
+    .join("");
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function pascalCase(title: string): string {
+  const name = camelCase(title);
+  return name[0] === "_" ? name : name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+/** `name`, or `name2`, `name3`… if already taken. Reserves the result. */
+function uniqueName(name: string, taken: Set<string>): string {
+  let unique = name;
+  for (let i = 2; taken.has(unique); i++) unique = `${name}${i}`;
+  taken.add(unique);
+  return unique;
+}
+
+function stringValue(node: ts.Node | undefined): string | undefined {
+  return node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+    ? node.text
+    : undefined;
+}
+
+function isFunctionLike(node: ts.Node | undefined): node is ts.ArrowFunction | ts.FunctionExpression {
+  return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+/** `test.describe.serial` → `["describe", "serial"]` if it starts at `root`. */
+function memberChain(node: ts.Expression, root: string): string[] | undefined {
+  const chain: string[] = [];
+  while (ts.isPropertyAccessExpression(node)) {
+    chain.unshift(node.name.text);
+    node = node.expression;
+  }
+  return ts.isIdentifier(node) && node.text === root ? chain : undefined;
+}
+
+/** The statement's `root.chain(...)` call, if it is one. */
+function rootCall(statement: ts.Node, root: string) {
+  if (!ts.isExpressionStatement(statement)) return undefined;
+  let call = statement.expression;
+  if (ts.isAwaitExpression(call)) call = call.expression;
+  if (!ts.isCallExpression(call)) return undefined;
+  const chain = memberChain(call.expression, root);
+  return chain && { call, chain };
+}
+
+/** Whether an identifier reads a variable, rather than naming a property or declaring one. */
+function isReference(id: ts.Identifier): boolean {
+  const parent = id.parent;
+  if (ts.isPropertyAccessExpression(parent)) return parent.expression === id;
+  if (ts.isQualifiedName(parent) || ts.isTypeReferenceNode(parent)) return false;
+  if (
+    (ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isGetAccessor(parent) ||
+      ts.isSetAccessor(parent) ||
+      ts.isEnumMember(parent)) &&
+    parent.name === id
+  ) {
+    return false;
+  }
+  if (ts.isBindingElement(parent) || ts.isImportSpecifier(parent)) return false;
+  if (
+    (ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) &&
+    parent.label === id
+  ) {
+    return false;
+  }
+  if (ts.isJsxAttribute(parent)) return false;
+  return !isDeclarationName(id);
+}
+
+function isDeclarationName(id: ts.Identifier): boolean {
+  const parent = id.parent;
+  return (
+    (ts.isVariableDeclaration(parent) ||
+      ts.isParameter(parent) ||
+      ts.isBindingElement(parent) ||
+      ts.isFunctionDeclaration(parent) ||
+      ts.isFunctionExpression(parent) ||
+      ts.isClassDeclaration(parent) ||
+      ts.isClassExpression(parent)) &&
+    parent.name === id
+  );
+}
+
+/** Names declared anywhere inside `node`, except inside `skip`. */
+function declaredNames(node: ts.Node, skip?: ts.Node): Set<string> {
+  const names = new Set<string>();
+  const visit = (child: ts.Node) => {
+    if (child === skip) return;
+    if (ts.isIdentifier(child) && isDeclarationName(child)) names.add(child.text);
+    ts.forEachChild(child, visit);
+  };
+  ts.forEachChild(node, visit);
+  return names;
+}
+
+/** Names `node` reads without declaring them itself. */
+function freeNames(node: ts.Node): Set<string> {
+  const declared = declaredNames(node);
+  const names = new Set<string>();
+  const visit = (child: ts.Node) => {
+    if (ts.isIdentifier(child) && (isReference(child) || ts.isShorthandPropertyAssignment(child.parent))) {
+      if (!declared.has(child.text)) names.add(child.text);
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return names;
+}
+
+/** Names declared at the top level of the file. */
+function moduleNames(sf: ts.SourceFile): Set<string> {
+  const names = new Set<string>();
+  for (const statement of sf.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      const clause = statement.importClause;
+      if (clause?.name) names.add(clause.name.text);
+      const bindings = clause?.namedBindings;
+      if (bindings && ts.isNamespaceImport(bindings)) names.add(bindings.name.text);
+      if (bindings && ts.isNamedImports(bindings)) {
+        for (const element of bindings.elements) names.add(element.name.text);
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        for (const name of declaredNames(declaration)) names.add(name);
+        if (ts.isIdentifier(declaration.name)) names.add(declaration.name.text);
+      }
+    } else if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+      statement.name
+    ) {
+      names.add(statement.name.text);
+    }
+  }
+  return names;
+}
+
+interface NamedImport {
+  declaration: ts.ImportDeclaration;
+  specifier: ts.ImportSpecifier;
+  local: string;
+  module: string;
+}
+
+function findNamedImport(
+  sf: ts.SourceFile,
+  name: string,
+  module?: string,
+): NamedImport | undefined {
+  for (const statement of sf.statements) {
+    if (!ts.isImportDeclaration(statement)) continue;
+    const from = stringValue(statement.moduleSpecifier)!;
+    if (module && from !== module) continue;
+    const bindings = statement.importClause?.namedBindings;
+    if (!bindings || !ts.isNamedImports(bindings) || statement.importClause!.isTypeOnly) {
+      continue;
+    }
+    for (const specifier of bindings.elements) {
+      if ((specifier.propertyName ?? specifier.name).text === name && !specifier.isTypeOnly) {
+        return { declaration: statement, specifier, local: specifier.name.text, module: from };
+      }
+    }
+  }
+  return undefined;
+}
+
+/** An import declaration with `specifiers` instead of its named imports; empty if none are left. */
+function rewriteImport(
+  sf: ts.SourceFile,
+  declaration: ts.ImportDeclaration,
+  specifiers: string[],
+): string {
+  const clause = declaration.importClause!;
+  const parts = [
+    clause.name?.text,
+    specifiers.length ? `{ ${specifiers.join(", ")} }` : undefined,
+  ].filter(Boolean);
+  if (parts.length === 0) return "";
+  return `import ${parts.join(", ")} from ${declaration.moduleSpecifier.getText(sf)};`;
+}
+
+function specifierText(specifier: ts.ImportSpecifier): string {
+  return specifier.getText();
+}
+
+/** Removes a statement with the blank line and comments before it. */
+function removeStatement(edits: Edits, sf: ts.SourceFile, statement: ts.Node) {
+  const start = statement.getFullStart();
+  const end = statement.getEnd();
+  edits.replaceRange(start, start === 0 && sf.text[end] === "\n" ? end + 1 : end, "");
+}
+
+// ─── Functional → decorators ───────────────────────────────────────────────
+
+const BUILTIN_FIXTURES = new Set<string>(DEFAULT_FIXTURE_KEYS);
+
+const HOOKS = ["beforeAll", "beforeEach", "afterEach", "afterAll"];
+
+/** What converting one suite needs from the rest of the file. */
+interface SuiteNeeds {
+  decorators: Set<string>;
+  fixtures: Set<string>;
+  warnings: ConversionIssue[];
+  /** Classes, functions and constants moved to the top level. */
+  names: Set<string>;
+}
+
+/** How fixtures and the test's `TestInfo` are named inside one test or hook. */
+interface FunctionScope {
+  fixtures: Map<string, string>;
+  fixturesObject?: string;
+  testInfo?: string;
+}
+
+/**
+ * Converts the `test.describe()` blocks of a functional spec file to
+ * `@describe` classes.
+ *
+ * - Tests become `@test` methods. Their fixtures are read from `this`, and
+ *   `tag` / `annotation` details become `@tag` / `@annotate`
+ * - `test.step()` calls become `@step` methods, unless they use local
+ *   variables of the test
+ * - Hooks become lifecycle methods, `test.use()` becomes `@use`, and
+ *   `test.describe.configure()` the options of `@describe`
+ * - Custom fixtures — a `test` not imported from `@playwright/test` — are
+ *   wired with `makeDecorators()`
+ *
+ * Top-level tests, nested `test.describe()` blocks, and suites sharing
+ * `let` variables are kept and reported.
+ */
+export function toDecorators(source: string, fileName = "spec.ts"): ConversionResult {
+  const sf = parse(source, fileName);
+  const issues: ConversionIssue[] = [];
+  const testImport = findNamedImport(sf, "test");
+  if (!testImport) {
+    issues.push(issueAt(sf, sf, "error", "No `test` import found — nothing to convert"));
+    return { code: source, issues, changed: false };
+  }
+
+  const quote = testImport.declaration.moduleSpecifier.getText(sf)[0];
+  const unit = indentUnit(source);
+  const edits = new Edits(sf);
+  const taken = moduleNames(sf);
+  const needs: SuiteNeeds = {
+    decorators: new Set(),
+    fixtures: new Set(),
+    warnings: [],
+    names: new Set(),
+  };
+  let kept = false;
+  let converted = 0;
+
+  for (const statement of sf.statements) {
+    const found = rootCall(statement, testImport.local);
+    if (!found) continue;
+    if (found.chain[0] !== "describe" || found.chain[1] === "configure") {
+      kept = true;
+      issues.push(
+        issueAt(
+          sf,
+          statement,
+          "error",
+          `Top-level ${testImport.local}${found.chain.map((k) => `.${k}`).join("")}() is kept — wrap it in test.describe() to convert it`,
+        ),
+      );
+      continue;
+    }
+    const suiteNeeds: SuiteNeeds = {
+      decorators: new Set(),
+      fixtures: new Set(),
+      warnings: [],
+      names: new Set(),
+    };
+    try {
+      const suite = new SuiteToClass(sf, testImport.local, suiteNeeds, taken, quote, unit);
+      edits.replace(statement, suite.convert(found.call, found.chain));
+      for (const key of ["decorators", "fixtures", "names"] as const) {
+        for (const value of suiteNeeds[key]) needs[key].add(value);
+      }
+      issues.push(...suiteNeeds.warnings);
+      converted++;
+    } catch (error) {
+      if (!(error instanceof Unconvertible)) throw error;
+      kept = true;
+      issues.push(issueAt(sf, error.node, "error", `${error.message} — the suite is kept`));
+    }
+  }
+
+  if (converted === 0) {
+    return { code: source, issues, changed: false };
+  }
+
+  const decorators = [...needs.decorators].sort();
+  const clashes = decorators.filter(
+    (name) => name !== "test" && taken.has(name) && !needs.names.has(name),
+  );
+  if (clashes.length > 0) {
+    issues.push(
+      issueAt(
+        sf,
+        sf,
+        "error",
+        `${clashes.join(", ")} ${clashes.length > 1 ? "are" : "is"} already declared — rename ${clashes.length > 1 ? "them" : "it"} to convert this file`,
+      ),
+    );
+    return { code: source, issues: issues.filter((i) => i.severity === "error"), changed: false };
+  }
+
+  // Wire the decorators: straight from the package for built-in fixtures,
+  // through makeDecorators() for custom ones
+  const custom =
+    testImport.module !== PLAYWRIGHT_MODULE ||
+    [...needs.fixtures].some((fixture) => !BUILTIN_FIXTURES.has(fixture));
+  const testName = kept ? "testCase" : "test";
+  let pwName = testImport.local;
+  let importText: string | undefined;
+  if (!kept) {
+    pwName = uniqueName(custom ? "baseTest" : "pwTest", new Set(taken));
+    const pwUsed = custom || edits.apply(0, source.length).includes(PW);
+    const specifiers = (testImport.declaration.importClause!.namedBindings as ts.NamedImports)
+      .elements.flatMap((specifier) =>
+        specifier !== testImport.specifier
+          ? [specifierText(specifier)]
+          : pwUsed
+            ? [`test as ${pwName}`]
+            : [],
+      );
+    importText = rewriteImport(sf, testImport.declaration, specifiers);
+  }
+
+  const bindings = decorators.map((name) =>
+    name === "test" && testName !== "test" ? (custom ? `test: ${testName}` : `test as ${testName}`) : name,
+  );
+  const q = (text: string) => `${quote}${text}${quote}`;
+  let wiring: string;
+  if (custom) {
+    const fixtures = [...needs.fixtures].sort().join(", ");
+    wiring =
+      `import { makeDecorators } from ${q(DECORATORS_MODULE)};\n\n` +
+      `const { ${bindings.join(", ")} } = makeDecorators(\n` +
+      `${unit}${pwName},\n` +
+      `${unit}(${fixtures ? `{ ${fixtures} }` : ""}) => (${fixtures ? `{ ${fixtures} }` : "{}"}),\n` +
+      `);`;
+  } else {
+    wiring = `import { ${bindings.join(", ")} } from ${q(DECORATORS_MODULE)};`;
+  }
+
+  // The decorators are imported after the last import
+  const lastImport = [...sf.statements].reverse().find(ts.isImportDeclaration)!;
+  if (importText !== undefined && testImport.declaration === lastImport) {
+    edits.replace(lastImport, importText ? `${importText}\n${wiring}` : wiring);
+  } else {
+    if (importText) edits.replace(testImport.declaration, importText);
+    else if (importText === "") removeStatement(edits, sf, testImport.declaration);
+    edits.replaceRange(lastImport.getEnd(), lastImport.getEnd(), `\n${wiring}`);
+  }
+
+  const code = edits.apply(0, source.length).split(PW).join(pwName).split(TEST).join(testName);
+  return { code, issues, changed: true };
+}
+
+/** Converts one `test.describe()` call to a class. */
+class SuiteToClass {
+  private members = new Set<string>();
+  private classDecorators: string[] = [];
+  private options: string[] = [];
+  private perTest: string[] = [];
+  private hoisted: string[] = [];
+  private comments: string[] = [];
+  private body: { kind: "test" | "member"; comments: string[]; decorators: string[]; text: string }[] = [];
+  private edits: Edits;
+
+  constructor(
+    private sf: ts.SourceFile,
+    private local: string,
+    private needs: SuiteNeeds,
+    private taken: Set<string>,
+    private quote: string,
+    private unit: string,
+  ) {
+    this.edits = new Edits(sf);
+  }
+
+  convert(call: ts.CallExpression, chain: string[]): string {
+    const modifiers = chain.slice(1);
+    for (const modifier of modifiers) {
+      if (modifier === "serial" || modifier === "parallel") {
+        this.options.push(`mode: ${this.quote}${modifier}${this.quote}`);
+      } else if (modifier === "skip" || modifier === "fixme") {
+        this.perTest.push(this.decorator(modifier, ""));
+      } else if (modifier === "only") {
+        this.warn(call, "test.describe.only() has no decorator equivalent — converted without .only");
+      } else {
+        throw new Unconvertible(call, `test.describe.${modifier}() is not supported`);
+      }
+    }
+
+    const args = [...call.arguments];
+    const callback = args.pop();
+    if (!isFunctionLike(callback) || callback.parameters.length > 0 || !ts.isBlock(callback.body)) {
+      throw new Unconvertible(call, "test.describe() callback must be a function without parameters");
+    }
+    const [title, details] = args;
+    if (details) this.perTest.push(...this.details(details));
+
+    const className = uniqueName(
+      `${pascalCase(stringValue(title) ?? "") || "Suite"}Tests`,
+      this.taken,
+    );
+    this.needs.names.add(className);
+    if (!title) {
+      this.warn(call, `Anonymous test.describe() becomes a suite titled "${className}"`);
+    }
+
+    for (const statement of callback.body.statements) {
+      this.statement(statement);
+    }
+
+    this.needs.decorators.add("describe").add("BaseTest");
+    const u = this.unit;
+    const options = this.options.length ? `{ ${this.options.join(", ")} }` : "";
+    const describeArgs = [title?.getText(this.sf) ?? "", options].filter(Boolean);
+    if (!title && options) describeArgs.unshift("undefined");
+    const members = this.body.map(({ kind, comments, decorators, text }) =>
+      [...comments, ...(kind === "test" ? [...this.perTest, ...decorators] : decorators), text]
+        .map((line) => reindent(line, u))
+        .join("\n"),
+    );
+    return [
+      ...this.hoisted.map((text) => `${text}\n`),
+      ...this.comments,
+      `@describe(${describeArgs.join(", ")})`,
+      ...this.classDecorators,
+      `class ${className} extends BaseTest {`,
+      members.join("\n\n"),
+      `}`,
+    ].join("\n");
+  }
+
+  private warn(node: ts.Node, message: string) {
+    this.needs.warnings.push(issueAt(this.sf, node, "warning", message));
+  }
+
+  private decorator(name: string, args: string): string {
+    this.needs.decorators.add(name);
+    return `@${name === "test" ? TEST : name}(${args})`;
+  }
+
+  /** Converts a statement of the suite, keeping the comments before it. */
+  private statement(statement: ts.Statement) {
+    const comments = leadingComments(this.sf, statement);
+    const { length } = this.body;
+    const found = rootCall(statement, this.local);
+    if (!found) {
+      this.hoist(statement, comments);
+    } else {
+      this.suiteCall(found.call, found.chain);
+      if (this.body.length > length) this.body[length].comments = comments;
+      else this.comments.push(...comments);
+    }
+  }
+
+  private suiteCall(call: ts.CallExpression, chain: string[]) {
+    const [first, second] = chain;
+    const key = chain.join(".");
+    const args = call.arguments;
+
+    const isTest =
+      chain.length === 0 ||
+      (chain.length === 1 &&
+        ["only", "skip", "fixme", "fail"].includes(first) &&
+        isFunctionLike(args.at(-1)));
+    if (isTest) {
+      if (first === "only") {
+        this.warn(call, "test.only() has no decorator equivalent — converted without .only");
+      }
+      this.test(call, first === "only" ? undefined : first);
+    } else if (HOOKS.includes(first) && chain.length === 1) {
+      this.hook(call, first);
+    } else if (key === "use") {
+      this.classDecorators.push(this.decorator("use", args.map((a) => a.getText(this.sf)).join(", ")));
+    } else if (key === "describe.configure") {
+      const options = args[0];
+      if (!options || !ts.isObjectLiteralExpression(options)) {
+        throw new Unconvertible(call, "test.describe.configure() needs an object literal");
+      }
+      this.options.push(...options.properties.map((p) => p.getText(this.sf)));
+    } else if (key === "setTimeout" && args.length === 1) {
+      this.options.push(`timeout: ${args[0].getText(this.sf)}`);
+    } else if ((key === "skip" || key === "fixme" || key === "slow") && args.length === 0) {
+      this.perTest.push(this.decorator(key, ""));
+    } else if (first === "describe" && second !== "configure") {
+      throw new Unconvertible(call, "Nested test.describe() has no decorator equivalent");
+    } else {
+      throw new Unconvertible(call, `${this.local}.${key}() inside test.describe() is not supported`);
+    }
+  }
+
+  /** Constants, functions and classes of the suite move before the class. */
+  private hoist(statement: ts.Statement, comments: string[]) {
+    const names =
+      ts.isVariableStatement(statement) &&
+      statement.declarationList.flags & ts.NodeFlags.Const
+        ? statement.declarationList.declarations.flatMap((d) =>
+            ts.isIdentifier(d.name) ? [d.name.text] : [...declaredNames(d)],
+          )
+        : (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) &&
+            statement.name
+          ? [statement.name.text]
+          : undefined;
+    if (!names) {
+      throw new Unconvertible(
+        statement,
+        ts.isVariableStatement(statement)
+          ? "Variables shared by hooks and tests have no decorator equivalent; use fields set in @beforeEach"
+          : "Only tests, hooks, test.use() and constants are supported inside test.describe()",
+      );
+    }
+    for (const name of names) {
+      if (this.taken.has(name)) {
+        throw new Unconvertible(statement, `"${name}" is also declared at the top level`);
+      }
+      this.taken.add(name);
+      this.needs.names.add(name);
+    }
+    this.hoisted.push([...comments, reindent(statement.getText(this.sf), "")].join("\n"));
+  }
+
+  private test(call: ts.CallExpression, variant?: string) {
+    const [title, ...rest] = call.arguments;
+    const fn = rest.pop();
+    if (!title || !isFunctionLike(fn)) {
+      throw new Unconvertible(call, "test() needs a title and a function");
+    }
+    const titleText = stringValue(title);
+    if (titleText !== undefined && /\$[A-Za-z0-9]/.test(titleText)) {
+      throw new Unconvertible(title, `Title "${titleText}" would be read as a @test template`);
+    }
+    const decorators = rest.length ? this.details(rest[0]) : [];
+    if (variant === "skip" || variant === "fixme") decorators.push(this.decorator(variant, ""));
+    decorators.push(this.decorator("test", title.getText(this.sf)));
+    const name = uniqueName(camelCase(titleText ?? "") || "test", this.members);
+    const prefix = variant === "fail" ? `${PW}.fail();\n` : "";
+    this.method(decorators, `async ${name}()`, fn, prefix, "test");
+  }
+
+  private hook(call: ts.CallExpression, hook: string) {
+    const args = call.arguments;
+    const fn = args.at(-1);
+    if (!isFunctionLike(fn) || args.length > 2) {
+      throw new Unconvertible(call, `test.${hook}() needs a function`);
+    }
+    const isStatic = hook.endsWith("All");
+    if (isStatic && fn.parameters.length > 0) {
+      throw new Unconvertible(
+        call,
+        `test.${hook}() uses fixtures, which static @${hook} hooks do not get`,
+      );
+    }
+    const name = uniqueName(
+      args.length === 2 ? camelCase(stringValue(args[0]) ?? "") || hook : hook,
+      this.members,
+    );
+    this.method(
+      [this.decorator(hook, "")],
+      `${isStatic ? "static " : ""}async ${name}()`,
+      fn,
+      "",
+      "member",
+    );
+  }
+
+  /** `tag` and `annotation` details as decorators. */
+  private details(details: ts.Expression): string[] {
+    if (!ts.isObjectLiteralExpression(details)) {
+      throw new Unconvertible(details, "Test details must be an object literal");
+    }
+    const decorators: string[] = [];
+    for (const property of details.properties) {
+      if (!ts.isPropertyAssignment(property) || !ts.isIdentifier(property.name)) {
+        throw new Unconvertible(property, "Test details must be plain properties");
+      }
+      const value = property.initializer;
+      const items = ts.isArrayLiteralExpression(value) ? [...value.elements] : [value];
+      if (property.name.text === "tag") {
+        const tags = items.map((item) => {
+          const tag = stringValue(item);
+          if (tag === undefined) throw new Unconvertible(item, "Tags must be string literals");
+          return `${this.quote}${tag.replace(/^@/, "")}${this.quote}`;
+        });
+        decorators.push(this.decorator("tag", tags.join(", ")));
+      } else if (property.name.text === "annotation") {
+        for (const item of items) {
+          const fields = ts.isObjectLiteralExpression(item)
+            ? new Map(
+                item.properties.map((p) => [
+                  p.name && ts.isIdentifier(p.name) ? p.name.text : "",
+                  ts.isPropertyAssignment(p) ? p.initializer.getText(this.sf) : undefined,
+                ]),
+              )
+            : undefined;
+          const type = fields?.get("type");
+          if (!fields || !type || [...fields.keys()].some((k) => k !== "type" && k !== "description")) {
+            throw new Unconvertible(item, "Annotations must be { type, description } literals");
+          }
+          const description = fields.get("description");
+          decorators.push(
+            this.decorator("annotate", description ? `${type}, ${description}` : type),
+          );
+        }
+      } else {
+        throw new Unconvertible(property, `Test detail "${property.name.text}" is not supported`);
+      }
+    }
+    return decorators;
+  }
+
+  /** Adds a method with the converted body of `fn`, and the `@step` methods extracted from it. */
+  private method(
+    decorators: string[],
+    signature: string,
+    fn: ts.ArrowFunction | ts.FunctionExpression,
+    prefix: string,
+    kind: "test" | "member",
+  ) {
+    const scope = this.scope(fn);
+    const index = this.body.length;
+    const text = this.functionBody(fn, scope);
+    this.body.splice(index, 0, {
+      kind,
+      comments: [],
+      decorators,
+      text: block(signature, prefix + reindent(text, ""), this.unit),
+    });
+  }
+
+  private scope(fn: ts.ArrowFunction | ts.FunctionExpression): FunctionScope {
+    const [fixtures, testInfo, ...extra] = fn.parameters;
+    if (extra.length > 0) {
+      throw new Unconvertible(fn, "Test functions take at most fixtures and testInfo");
+    }
+    const scope: FunctionScope = { fixtures: new Map() };
+    if (fixtures && ts.isObjectBindingPattern(fixtures.name)) {
+      for (const element of fixtures.name.elements) {
+        if (element.dotDotDotToken || element.initializer || !ts.isIdentifier(element.name)) {
+          throw new Unconvertible(element, "Only plain fixture names can be converted");
+        }
+        const key = element.propertyName ?? element.name;
+        if (!ts.isIdentifier(key)) {
+          throw new Unconvertible(element, "Only plain fixture names can be converted");
+        }
+        scope.fixtures.set(element.name.text, key.text);
+      }
+    } else if (fixtures && ts.isIdentifier(fixtures.name)) {
+      scope.fixturesObject = fixtures.name.text;
+    }
+    if (testInfo) {
+      if (!ts.isIdentifier(testInfo.name)) {
+        throw new Unconvertible(testInfo, "testInfo must be a plain parameter");
+      }
+      scope.testInfo = testInfo.name.text;
+    }
+    return scope;
+  }
+
+  /** Statements of `fn` with fixtures read from `this`; extracts `test.step()` calls. */
+  private functionBody(fn: ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration, scope: FunctionScope): string {
+    const body = fn.body!;
+    const locals = declaredNames(body);
+    const visit = (node: ts.Node, nested: boolean) => {
+      if (
+        !nested &&
+        ts.isCallExpression(node) &&
+        memberChain(node.expression, this.local)?.join(".") === "step" &&
+        this.step(node, fn, scope)
+      ) {
+        return;
+      }
+      if (ts.isIdentifier(node)) {
+        this.identifier(node, scope, nested, locals);
+        return;
+      }
+      const isNested =
+        nested ||
+        ts.isFunctionExpression(node) ||
+        ts.isFunctionDeclaration(node) ||
+        ts.isMethodDeclaration(node) ||
+        ts.isClassLike(node);
+      ts.forEachChild(node, (child) => visit(child, isNested));
+    };
+    visit(body, false);
+
+    if (ts.isBlock(body)) {
+      return this.edits.apply(body.getStart(this.sf) + 1, body.getEnd() - 1);
+    }
+    return `return ${this.edits.apply(body.getStart(this.sf), body.getEnd())};`;
+  }
+
+  private identifier(id: ts.Identifier, scope: FunctionScope, nested: boolean, locals: Set<string>) {
+    const name = id.text;
+    const fixture = scope.fixtures.get(name);
+    const isShorthand = ts.isShorthandPropertyAssignment(id.parent);
+    if (isDeclarationName(id) && (fixture || name === scope.fixturesObject || name === scope.testInfo)) {
+      throw new Unconvertible(id, `"${name}" shadows a fixture`);
+    }
+    if (!isReference(id) && !isShorthand) return;
+    if (name === this.local && !locals.has(name)) {
+      this.edits.replace(id, isShorthand ? `${name}: ${PW}` : PW);
+      return;
+    }
+    if (name === scope.testInfo) {
+      this.edits.replace(id, isShorthand ? `${name}: ${PW}.info()` : `${PW}.info()`);
+      return;
+    }
+    if (!fixture && name !== scope.fixturesObject) return;
+    if (nested) {
+      throw new Unconvertible(id, `Fixture "${name}" is used inside a nested function`);
+    }
+    if (fixture) {
+      this.needs.fixtures.add(fixture);
+      this.edits.replace(id, isShorthand ? `${name}: this.${fixture}` : `this.${fixture}`);
+      return;
+    }
+    const parent = id.parent;
+    if (!ts.isPropertyAccessExpression(parent) || parent.expression !== id) {
+      throw new Unconvertible(id, `The fixtures object "${name}" is passed on as a whole`);
+    }
+    this.needs.fixtures.add(parent.name.text);
+    this.edits.replace(id, "this");
+  }
+
+  /**
+   * Extracts `test.step(title, body)` to a `@step` method. Returns `false` —
+   * the step stays inline — if its body uses local variables of the test.
+   */
+  private step(
+    call: ts.CallExpression,
+    enclosing: ts.ArrowFunction | ts.FunctionExpression | ts.FunctionDeclaration,
+    scope: FunctionScope,
+  ): boolean {
+    const [title, body, options] = call.arguments;
+    const titleText = stringValue(title);
+    const inline = (reason: string) => {
+      this.warn(call, `Step${titleText ? ` "${titleText}"` : ""} stays inline: ${reason}`);
+      return false;
+    };
+    if (!title || !isFunctionLike(body)) return false;
+    if (options) return inline("@step takes no options");
+    if (body.parameters.length > 0) return inline("its body takes a parameter");
+    if (titleText !== undefined && /\$[A-Za-z0-9]/.test(titleText)) {
+      return inline("the title would be read as a @step template");
+    }
+    const outer = declaredNames(enclosing.body!, body);
+    for (const parameter of enclosing.parameters) {
+      for (const name of declaredNames(parameter)) outer.delete(name);
+      if (ts.isIdentifier(parameter.name)) outer.delete(parameter.name.text);
+    }
+    const captured = [...freeNames(call)].filter((name) => outer.has(name));
+    if (captured.length > 0) {
+      return inline(`it uses ${captured.join(", ")} of the test`);
+    }
+
+    const name = uniqueName(camelCase(titleText ?? "") || "step", this.members);
+    this.edits.replace(call, `this.${name}()`);
+    this.body.push({
+      kind: "member",
+      comments: [],
+      decorators: [this.decorator("step", title.getText(this.sf))],
+      text: block(`async ${name}()`, this.functionBody(body, scope), this.unit),
+    });
+    return true;
+  }
+}
+
+// ─── Decorators → functional ───────────────────────────────────────────────
+
+interface DecoratorImports {
+  /** Imported decorator name → local name. */
+  locals: Map<string, string>;
+  /** Statement providing the decorators: an import or a makeDecorators() call. */
+  source: ts.ImportDeclaration | ts.VariableStatement;
+  /** The Playwright `test` object behind makeDecorators(), if used. */
+  base?: string;
+}
+
+function findDecorators(sf: ts.SourceFile): DecoratorImports | undefined {
+  const makeDecorators = findNamedImport(sf, "makeDecorators", DECORATORS_MODULE);
+  if (makeDecorators) {
+    for (const statement of sf.statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      for (const declaration of statement.declarationList.declarations) {
+        const init = declaration.initializer;
+        if (
+          init &&
+          ts.isCallExpression(init) &&
+          ts.isIdentifier(init.expression) &&
+          init.expression.text === makeDecorators.local &&
+          ts.isObjectBindingPattern(declaration.name)
+        ) {
+          const locals = new Map<string, string>();
+          for (const element of declaration.name.elements) {
+            const key = (element.propertyName ?? element.name) as ts.Identifier;
+            locals.set(key.text, (element.name as ts.Identifier).text);
+          }
+          return { locals, source: statement, base: init.arguments[0]?.getText(sf) };
+        }
+      }
+    }
+  }
+  for (const statement of sf.statements) {
+    if (
+      ts.isImportDeclaration(statement) &&
+      stringValue(statement.moduleSpecifier) === DECORATORS_MODULE &&
+      findNamedImport(sf, "describe", DECORATORS_MODULE)?.declaration === statement
+    ) {
+      const locals = new Map<string, string>();
+      const bindings = statement.importClause!.namedBindings as ts.NamedImports;
+      for (const element of bindings.elements) {
+        locals.set((element.propertyName ?? element.name).text, element.name.text);
+      }
+      return { locals, source: statement };
+    }
+  }
+  return undefined;
+}
+
+interface ParsedDecorator {
+  /** Imported name, e.g. `test`, `test.each`, `beforeEach`. */
+  name: string;
+  args: readonly ts.Expression[];
+  node: ts.Decorator;
+}
+
+/**
+ * Converts the `@describe` classes of a spec file to `test.describe()` blocks.
+ *
+ * - `@test` methods become `test()` calls, `@tag` / `@annotate` their details
+ * - `@step` methods become functions of the suite taking the fixtures they
+ *   use, wrapping their body in `test.step()`
+ * - Lifecycle hooks become `test.beforeEach()` and the like, `@use` becomes
+ *   `test.use()`
+ *
+ * Classes with fields, helper methods, inheritance, or data-driven tests
+ * (`@test.each`, `@testData`, `@test.property`, `@param`) are kept and
+ * reported.
+ */
+export function toFunctional(source: string, fileName = "spec.ts"): ConversionResult {
+  const sf = parse(source, fileName);
+  const issues: ConversionIssue[] = [];
+  const imports = findDecorators(sf);
+  if (!imports) {
+    issues.push(issueAt(sf, sf, "error", `No decorators imported from ${DECORATORS_MODULE} — nothing to convert`));
+    return { code: source, issues, changed: false };
+  }
+  if (imports.base !== undefined && !/^[A-Za-z_$][\w$]*$/.test(imports.base)) {
+    issues.push(
+      issueAt(sf, imports.source, "error", "makeDecorators() must be given a named `test` object to convert its classes"),
+    );
+    return { code: source, issues, changed: false };
+  }
+  const byLocal = new Map([...imports.locals].map(([name, local]) => [local, name]));
+  const unit = indentUnit(source);
+  const edits = new Edits(sf);
+  const convertedRanges: ts.Node[] = [];
+  const taken = moduleNames(sf);
+  const fixturesType = uniqueName("Fixtures", new Set(taken));
+  const pwImport = findNamedImport(sf, "test", PLAYWRIGHT_MODULE);
+  let needsFixturesType = false;
+
+  for (const statement of sf.statements) {
+    if (!ts.isClassDeclaration(statement)) continue;
+    const decorators = parseDecorators(statement, byLocal, sf);
+    if (!decorators.some((d) => d.name === "describe" || d.name === "describe.abstract")) continue;
+    try {
+      const suite = new ClassToSuite(
+        sf,
+        statement,
+        byLocal,
+        unit,
+        fixturesType,
+        pwImport?.local ?? imports.base,
+      );
+      edits.replace(statement, suite.convert(decorators));
+      needsFixturesType ||= suite.usesFixturesType;
+      issues.push(...suite.warnings);
+      convertedRanges.push(statement);
+    } catch (error) {
+      if (!(error instanceof Unconvertible)) throw error;
+      issues.push(issueAt(sf, error.node, "error", `${error.message} — the class is kept`));
+    }
+  }
+
+  if (convertedRanges.length === 0) {
+    return { code: source, issues, changed: false };
+  }
+
+  // Names of the decorators' statement still used by the code that is left
+  const stillUsed = new Set<string>();
+  const scan = (node: ts.Node) => {
+    if (convertedRanges.includes(node) || node === imports.source) return;
+    if (ts.isIdentifier(node) && isReference(node)) stillUsed.add(node.text);
+    ts.forEachChild(node, scan);
+  };
+  scan(sf);
+  const kept = [...imports.locals.values()].filter((local) => stillUsed.has(local));
+
+  let pwName: string;
+  if (imports.base) {
+    pwName = imports.base;
+    if (kept.length === 0) {
+      removeStatement(edits, sf, imports.source);
+      const make = findNamedImport(sf, "makeDecorators", DECORATORS_MODULE)!;
+      if (!stillUsed.has(make.local)) {
+        const rest = (make.declaration.importClause!.namedBindings as ts.NamedImports).elements
+          .filter((s) => s !== make.specifier)
+          .map(specifierText);
+        const rewritten = rewriteImport(sf, make.declaration, rest);
+        if (rewritten) edits.replace(make.declaration, rewritten);
+        else removeStatement(edits, sf, make.declaration);
+      }
+    }
+  } else {
+    // Playwright's `test` is imported in place of, or before, the decorators
+    const declaration = imports.source as ts.ImportDeclaration;
+    let pwImportText = "";
+    const freed = imports.locals.get("test");
+    if (pwImport) {
+      // `test as pwTest` goes back to `test` once the decorators' `test` is gone
+      const renamed =
+        pwImport.local !== "test" &&
+        !kept.includes(freed ?? "") &&
+        (!taken.has("test") || freed === "test");
+      pwName = renamed ? "test" : pwImport.local;
+      if (renamed) {
+        edits.replace(pwImport.specifier, "test");
+        const rename = (node: ts.Node) => {
+          if (convertedRanges.includes(node) || ts.isImportDeclaration(node)) return;
+          if (ts.isIdentifier(node) && node.text === pwImport.local && isReference(node)) {
+            edits.replace(node, "test");
+          }
+          ts.forEachChild(node, rename);
+        };
+        rename(sf);
+      }
+    } else {
+      pwName =
+        kept.includes(freed ?? "") || (taken.has("test") && freed !== "test")
+          ? uniqueName("pwTest", taken)
+          : "test";
+      const specifier = pwName === "test" ? "test" : `test as ${pwName}`;
+      const other = sf.statements.find(
+        (s): s is ts.ImportDeclaration =>
+          ts.isImportDeclaration(s) &&
+          stringValue(s.moduleSpecifier) === PLAYWRIGHT_MODULE &&
+          !s.importClause?.isTypeOnly &&
+          !!s.importClause?.namedBindings &&
+          ts.isNamedImports(s.importClause.namedBindings),
+      );
+      if (other) {
+        const specifiers = (other.importClause!.namedBindings as ts.NamedImports).elements;
+        edits.replace(other, rewriteImport(sf, other, [specifier, ...specifiers.map(specifierText)]));
+      } else {
+        const quote = declaration.moduleSpecifier.getText(sf)[0];
+        pwImportText = `import { ${specifier} } from ${quote}${PLAYWRIGHT_MODULE}${quote};`;
+      }
+    }
+    const rewritten = rewriteImport(
+      sf,
+      declaration,
+      (declaration.importClause!.namedBindings as ts.NamedImports).elements
+        .filter((s) => kept.includes(s.name.text))
+        .map(specifierText),
+    );
+    if (rewritten || pwImportText) {
+      edits.replace(declaration, [pwImportText, rewritten].filter(Boolean).join("\n"));
+    } else {
+      removeStatement(edits, sf, declaration);
+    }
+  }
+
+  if (needsFixturesType) {
+    const first = convertedRanges[0].getStart(sf);
+    edits.replaceRange(
+      first,
+      first,
+      `type ${fixturesType} = Parameters<Parameters<typeof ${PW}>[2]>[0];\n\n`,
+    );
+  }
+  const code = edits.apply(0, source.length).split(PW).join(pwName);
+  return { code, issues, changed: true };
+}
+
+function parseDecorators(
+  node: ts.HasDecorators,
+  byLocal: Map<string, string>,
+  sf: ts.SourceFile,
+): ParsedDecorator[] {
+  return (ts.getDecorators(node) ?? []).map((decorator) => {
+    const expression = decorator.expression;
+    const callee = ts.isCallExpression(expression) ? expression.expression : expression;
+    const text = callee.getText(sf);
+    const [root, ...rest] = text.split(".");
+    const name = byLocal.has(root) ? [byLocal.get(root), ...rest].join(".") : `?${text}`;
+    return {
+      name,
+      args: ts.isCallExpression(expression) ? expression.arguments : [],
+      node: decorator,
+    };
+  });
+}
+
+interface StepHelper {
+  name: string;
+  fixtures: Set<string>;
+  calls: Set<string>;
+}
+
+/** Converts one `@describe` class to a `test.describe()` call. */
+class ClassToSuite {
+  warnings: ConversionIssue[] = [];
+  usesFixturesType = false;
+  private edits: Edits;
+  private members = new Map<string, ts.MethodDeclaration>();
+  private steps = new Map<string, StepHelper>();
+
+  constructor(
+    private sf: ts.SourceFile,
+    private cls: ts.ClassDeclaration,
+    private byLocal: Map<string, string>,
+    private unit: string,
+    private fixturesType: string,
+    /** Local name of Playwright's `test`, renamed with the rest of the file. */
+    private pwLocal: string | undefined,
+  ) {
+    this.edits = new Edits(sf);
+  }
+
+  convert(classDecorators: ParsedDecorator[]): string {
+    const cls = this.cls;
+    if (cls.modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+      throw new Unconvertible(cls, "Exported classes may be extended elsewhere");
+    }
+    const heritage = cls.heritageClauses?.[0]?.types[0];
+    if (heritage && this.byLocal.get(heritage.expression.getText(this.sf)) !== "BaseTest") {
+      throw new Unconvertible(heritage, `Inheritance from ${heritage.expression.getText(this.sf)} is not converted`);
+    }
+
+    const u = this.unit;
+    const lines: string[] = [];
+    let title = `"${cls.name?.text ?? "Suite"}"`;
+    for (const decorator of classDecorators) {
+      const args = decorator.args.map((a) => a.getText(this.sf));
+      if (decorator.name === "describe") {
+        if (args[0] && args[0] !== "undefined") title = args[0];
+        if (args[1]) lines.push(`${PW}.describe.configure(${args[1]});`);
+      } else if (decorator.name === "use") {
+        if (args[1]) this.warn(decorator.node, `The scope ${args[1]} of @use is dropped`);
+        lines.push(`${PW}.use(${args[0]});`);
+      } else if (decorator.name === "timeout") {
+        lines.push(`${PW}.describe.configure({ timeout: ${args[0]} });`);
+      } else {
+        throw new Unconvertible(decorator.node, `@${decorator.name.replace(/^\?/, "")} on a class is not supported`);
+      }
+    }
+
+    for (const member of cls.members) {
+      const name = member.name && ts.isIdentifier(member.name) ? member.name.text : undefined;
+      if (!name || !ts.isMethodDeclaration(member)) {
+        throw new Unconvertible(
+          member,
+          ts.isPropertyDeclaration(member)
+            ? `Field "${name}" holds state that test.describe() has no place for`
+            : "Only test, hook and @step methods are supported",
+        );
+      }
+      this.members.set(name, member);
+    }
+    for (const [name, method] of this.members) {
+      const decorators = parseDecorators(method, this.byLocal, this.sf);
+      if (decorators.some((d) => d.name === "step")) {
+        this.steps.set(name, { name, fixtures: new Set(), calls: new Set() });
+      }
+    }
+
+    const blocks: string[] = [];
+    const bodies = new Map<string, string>();
+    for (const [name, step] of this.steps) {
+      bodies.set(name, this.body(this.members.get(name)!, step));
+    }
+    this.resolveStepFixtures();
+
+    for (const [name, method] of this.members) {
+      const decorators = parseDecorators(method, this.byLocal, this.sf);
+      const kinds = decorators.map((d) => d.name);
+      const comments = leadingComments(this.sf, method);
+      if (this.steps.has(name)) {
+        const step = decorators.find((d) => d.name === "step")!;
+        blocks.push([...comments, this.stepFunction(method, step, bodies.get(name)!)].join("\n"));
+      } else if (kinds.some((k) => HOOKS.includes(k))) {
+        blocks.push([...comments, this.hook(method, decorators)].join("\n"));
+      } else if (kinds.includes("test")) {
+        blocks.push([...comments, this.test(method, decorators)].join("\n"));
+      } else if (decorators.length > 0) {
+        this.methodDecorators(method, decorators, []);
+      } else {
+        throw new Unconvertible(method, `Helper method "${name}" is not a test, hook or @step`);
+      }
+    }
+
+    const content = [lines.join("\n"), ...blocks].filter(Boolean).map((block) => reindent(block, u));
+    return `${PW}.describe(${title}, () => {\n${content.join("\n\n")}\n});`;
+  }
+
+  private warn(node: ts.Node, message: string) {
+    this.warnings.push(issueAt(this.sf, node, "warning", message));
+  }
+
+  /** Rejects the decorators of a method not in `allowed`. */
+  private methodDecorators(method: ts.MethodDeclaration, decorators: ParsedDecorator[], allowed: string[]) {
+    for (const decorator of decorators) {
+      if (!allowed.includes(decorator.name)) {
+        const name = decorator.name.replace(/^\?/, "");
+        throw new Unconvertible(
+          decorator.node,
+          ["test.each", "test.property", "testData", "param"].includes(name)
+            ? `@${name} data-driven tests are not converted`
+            : `@${name} on "${method.name.getText(this.sf)}" is not supported`,
+        );
+      }
+    }
+  }
+
+  private test(method: ts.MethodDeclaration, decorators: ParsedDecorator[]): string {
+    this.methodDecorators(method, decorators, ["test", "tag", "annotate", "skip", "fixme", "slow", "timeout"]);
+    if (method.parameters.length > 0) {
+      throw new Unconvertible(method, "@test methods with parameters are not converted");
+    }
+    const testDecorator = decorators.find((d) => d.name === "test")!;
+    const titleNode = testDecorator.args[0];
+    const title = titleNode?.getText(this.sf) ?? `"${method.name.getText(this.sf)}"`;
+    const titleText = stringValue(titleNode);
+    if (titleText !== undefined && /\$[A-Za-z0-9]/.test(titleText)) {
+      throw new Unconvertible(titleNode!, `Title template "${titleText}" needs @param fields`);
+    }
+
+    const tags: string[] = [];
+    const annotations: string[] = [];
+    const prefix: string[] = [];
+    let variant = "";
+    for (const decorator of decorators) {
+      const args = decorator.args;
+      if (decorator.name === "tag") {
+        for (const tag of args) {
+          const value = stringValue(tag);
+          if (value === undefined) throw new Unconvertible(tag, "Tags must be string literals");
+          const quote = tag.getText(this.sf)[0];
+          tags.push(`${quote}@${value.replace(/^@/, "")}${quote}`);
+        }
+      } else if (decorator.name === "annotate") {
+        if (!args[0] || !stringValue(args[0])) {
+          throw new Unconvertible(decorator.node, "@annotate with a function is not converted");
+        }
+        annotations.push(
+          `{ type: ${args[0].getText(this.sf)}${args[1] ? `, description: ${args[1].getText(this.sf)}` : ""} }`,
+        );
+      } else if (decorator.name === "skip" || decorator.name === "fixme") {
+        if (args.some((a) => isFunctionLike(a))) {
+          throw new Unconvertible(decorator.node, `Conditional @${decorator.name} is not converted`);
+        }
+        if (variant) throw new Unconvertible(decorator.node, "A test is either skipped or fixme");
+        if (args[0]) this.warn(decorator.node, `The reason of @${decorator.name} is dropped`);
+        variant = `.${decorator.name}`;
+      } else if (decorator.name === "slow") {
+        if (args.some((a) => isFunctionLike(a))) {
+          throw new Unconvertible(decorator.node, "Conditional @slow is not converted");
+        }
+        prefix.push(`${PW}.slow(${args[0] ? `true, ${args[0].getText(this.sf)}` : ""});`);
+      } else if (decorator.name === "timeout") {
+        prefix.push(`${PW}.setTimeout(${args[0].getText(this.sf)});`);
+      }
+    }
+
+    const details: string[] = [];
+    if (tags.length) details.push(`tag: ${tags.length === 1 ? tags[0] : `[${tags.join(", ")}]`}`);
+    if (annotations.length) {
+      details.push(`annotation: ${annotations.length === 1 ? annotations[0] : `[${annotations.join(", ")}]`}`);
+    }
+    const owner: StepHelper = { name: "", fixtures: new Set(), calls: new Set() };
+    const body = this.stepCalls(this.body(method, owner));
+    const needed = this.withStepFixtures(owner);
+    const args = [title, ...(details.length ? [`{ ${details.join(", ")} }`] : [])];
+    return block(
+      `${PW}${variant}(${args.join(", ")}, async (${this.destructure(needed)}) =>`,
+      [...prefix, reindent(body, "")].join("\n"),
+      this.unit,
+      "});",
+    );
+  }
+
+  private hook(method: ts.MethodDeclaration, decorators: ParsedDecorator[]): string {
+    const hook = decorators.find((d) =>
+      HOOKS.includes(d.name),
+    )!;
+    this.methodDecorators(method, decorators, [hook.name]);
+    const isStatic = !!method.modifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword);
+    const owner: StepHelper = { name: "", fixtures: new Set(), calls: new Set() };
+    const body = this.stepCalls(this.body(method, owner, isStatic));
+    const needed = this.withStepFixtures(owner);
+    return block(
+      `${PW}.${hook.name}(async (${this.destructure(needed)}) =>`,
+      body,
+      this.unit,
+      "});",
+    );
+  }
+
+  private stepFunction(method: ts.MethodDeclaration, decorator: ParsedDecorator, body: string): string {
+    const name = method.name.getText(this.sf);
+    this.methodDecorators(method, parseDecorators(method, this.byLocal, this.sf), ["step"]);
+    if (decorator.args.length > 1) {
+      throw new Unconvertible(decorator.node, "@step formatters are not converted");
+    }
+    const params = method.parameters.map((p) => p.getText(this.sf));
+    const paramNames = method.parameters.map((p) => (ts.isIdentifier(p.name) ? p.name.text : undefined));
+    const titleNode = decorator.args[0];
+    let title = titleNode?.getText(this.sf) ?? `"${name}"`;
+    const titleText = stringValue(titleNode);
+    if (titleText !== undefined && titleText.includes("$")) {
+      const escaped = titleText.replace(/[\\`]/g, "\\$&");
+      title = `\`${escaped.replace(/\$(\d+|[A-Za-z_]\w*)?/g, (match, ref?: string) => {
+        if (ref === undefined) return "\\$";
+        const param = /^\d+$/.test(ref) ? paramNames[Number(ref)] : undefined;
+        if (!param) {
+          throw new Unconvertible(titleNode!, `Step title placeholder "${match}" needs @param fields`);
+        }
+        return `\${${param}}`;
+      })}\``;
+    }
+    const fixtures = [...this.steps.get(name)!.fixtures].sort();
+    if (fixtures.length) {
+      this.usesFixturesType = true;
+      params.unshift(
+        `{ ${fixtures.join(", ")} }: Pick<${this.fixturesType}, ${fixtures.map((f) => `"${f}"`).join(" | ")}>`,
+      );
+    }
+    const returnType = method.type ? `: ${method.type.getText(this.sf)}` : "";
+    return block(
+      `async function ${name}(${params.join(", ")})${returnType}`,
+      block(`return ${PW}.step(${title}, async () =>`, this.stepCalls(body), this.unit, "});"),
+      this.unit,
+    );
+  }
+
+  private destructure(fixtures: Set<string>): string {
+    return fixtures.size ? `{ ${[...fixtures].sort().join(", ")} }` : "";
+  }
+
+  /** Fixtures of a test or hook, including those of the steps it calls. */
+  private withStepFixtures(owner: StepHelper): Set<string> {
+    const needed = new Set(owner.fixtures);
+    for (const callee of owner.calls) {
+      for (const fixture of this.steps.get(callee)!.fixtures) needed.add(fixture);
+    }
+    return needed;
+  }
+
+  /** Fixtures of each step, including those of the steps it calls. */
+  private resolveStepFixtures() {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const step of this.steps.values()) {
+        for (const callee of step.calls) {
+          for (const fixture of this.steps.get(callee)!.fixtures) {
+            if (!step.fixtures.has(fixture)) {
+              step.fixtures.add(fixture);
+              changed = true;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  /** Body of a method with `this.<fixture>` read from the fixtures, `this.<step>()` called as a function. */
+  private body(method: ts.MethodDeclaration, owner: StepHelper, isStatic = false): string {
+    const body = method.body;
+    if (!body) throw new Unconvertible(method, "Methods without a body are not converted");
+    const locals = declaredNames(body);
+    const visit = (node: ts.Node, nested: boolean) => {
+      if (node.kind === ts.SyntaxKind.ThisKeyword) {
+        this.self(node, owner, nested, isStatic, locals);
+        return;
+      }
+      if (
+        ts.isIdentifier(node) &&
+        node.text === this.pwLocal &&
+        isReference(node) &&
+        !locals.has(node.text)
+      ) {
+        this.edits.replace(node, PW);
+        return;
+      }
+      const isNested =
+        nested ||
+        ts.isFunctionExpression(node) ||
+        ts.isFunctionDeclaration(node) ||
+        ts.isClassLike(node);
+      ts.forEachChild(node, (child) => visit(child, isNested));
+    };
+    visit(body, false);
+    return this.edits.apply(body.getStart(this.sf) + 1, body.getEnd() - 1);
+  }
+
+  /** Step calls of a body, passing the fixtures each step needs: known once all steps are read. */
+  private stepCalls(text: string): string {
+    return text.replace(/\u0000STEP:(\w+)\u0000(\(\s*\)?)/g, (_match, name: string, paren: string) => {
+      const fixtures = [...this.steps.get(name)!.fixtures].sort();
+      if (!fixtures.length) return `${name}${paren}`;
+      const object = `{ ${fixtures.join(", ")} }`;
+      return paren.endsWith(")") ? `${name}(${object})` : `${name}(${object}, `;
+    });
+  }
+
+  private self(node: ts.Node, owner: StepHelper, nested: boolean, isStatic: boolean, locals: Set<string>) {
+    const access = node.parent;
+    if (isStatic) {
+      throw new Unconvertible(node, "`this` in a static hook is not converted");
+    }
+    if (nested) {
+      throw new Unconvertible(node, "`this` inside a nested function is not converted");
+    }
+    if (!ts.isPropertyAccessExpression(access) || access.expression !== node) {
+      throw new Unconvertible(node, "`this` is used as a value");
+    }
+    const name = access.name.text;
+    if (this.steps.has(name) && ts.isCallExpression(access.parent) && access.parent.expression === access) {
+      owner.calls.add(name);
+      // `this.step(` → placeholder, completed with the step's fixtures later
+      const call = access.parent;
+      const open = call.arguments.pos;
+      const start = access.getStart(this.sf);
+      const replaced = this.sf.text.slice(access.getEnd(), open);
+      this.edits.replaceRange(
+        start,
+        call.arguments.length ? open : call.getEnd(),
+        `\u0000STEP:${name}\u0000${call.arguments.length ? replaced : "()"}`,
+      );
+      return;
+    }
+    if (name === "testSelf") {
+      const outer = access.parent;
+      if (ts.isPropertyAccessExpression(outer) && outer.name.text === "info") {
+        this.edits.replace(outer, `${PW}.info`);
+        return;
+      }
+      throw new Unconvertible(access, "this.testSelf is only converted for info()");
+    }
+    if (name === "pwSelf") {
+      const outer = access.parent;
+      if (ts.isPropertyAccessExpression(outer)) {
+        this.fixture(outer, outer.name.text, owner, locals);
+        return;
+      }
+      throw new Unconvertible(access, "this.pwSelf is used as a value");
+    }
+    if (this.members.has(name)) {
+      throw new Unconvertible(access, `this.${name} is a method of the class, not a fixture`);
+    }
+    this.fixture(access, name, owner, locals);
+  }
+
+  private fixture(node: ts.Node, name: string, owner: StepHelper, locals: Set<string>) {
+    if (locals.has(name)) {
+      throw new Unconvertible(node, `A local "${name}" shadows the fixture this.${name}`);
+    }
+    owner.fixtures.add(name);
+    this.edits.replace(node, name);
+  }
+}
@@ -121,7 +121,7 @@ export function annotate<const T, const V extends (...args: any[]) => any>(
     }
 
     // Initialize metadata if it doesn't exist
-    if (!context.metadata.annotations) {
+    if (!Object.hasOwn(context.metadata, "annotations")) {
       context.metadata.annotations = {};
     }
 
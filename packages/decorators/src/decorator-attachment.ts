@@ -93,7 +93,7 @@ export function attachment<const T>(
     }
 
     // Initialize metadata if it doesn't exist
-    if (!context.metadata.attachments) {
+    if (!Object.hasOwn(context.metadata, "attachments")) {
       context.metadata.attachments = {};
     }
 
@@ -163,7 +163,7 @@ export function before<T>(
     }
 
     // Initialize metadata if it doesn't exist
-    if (!context.metadata.beforeHooks) {
+    if (!Object.hasOwn(context.metadata, "beforeHooks")) {
       context.metadata.beforeHooks = {};
     }
 
@@ -353,7 +353,7 @@ export function after<T>(
     }
 
     // Initialize metadata if it doesn't exist
-    if (!context.metadata.afterHooks) {
+    if (!Object.hasOwn(context.metadata, "afterHooks")) {
       context.metadata.afterHooks = {};
     }
 
@@ -6,6 +6,10 @@ import {
 } from "./formatStringTemplate";
 import { inspect } from "node:util";
 import { kAnnotate } from "./decorator-step";
+import { applyTestDataRow, type TestDataRow } from "./decorator-test-data";
+import { runProperty, type PropertyConfig } from "./decorator-property";
+import { createPageObject } from "./decorator-page-object";
+import { metadataChain, ownMetadata } from "./metadata";
 
 type DescribeOptions = {
   mode?: "default" | "parallel" | "serial";
@@ -46,11 +50,82 @@ export const DEFAULT_PWSELF_KEYS = [
   'testIdAttribute', 'channel',
 ] as const;
 
+/** Lifecycle hook lists in the decorator metadata of a class. */
+const HOOK_KEYS = ["beforeAll", "beforeEach", "afterEach", "afterAll"] as const;
+
+/** Per-method settings in the decorator metadata of a class, keyed by method name. */
+const METHOD_KEYS = [
+  "tags",
+  "skipped",
+  "fixme",
+  "slow",
+  "annotations",
+  "attachments",
+  "methodUse",
+  "beforeHooks",
+  "afterHooks",
+] as const;
+
+/**
+ * Merges the decorator metadata of a suite class with its ancestors' and
+ * mixed-in classes', root first.
+ *
+ * - Lifecycle hooks and class-level `@use` accumulate parent → child. A hook
+ *   method overridden in a subclass runs once, in the parent's place.
+ * - A method decorated with `@test` again in a subclass replaces the parent's
+ *   tests for it in place, together with its per-method settings (`@tag`,
+ *   `@skip`, `@before`, ...).
+ * - `@describe.abstract()` options are defaults for the suites extending it.
+ */
+function mergeSuiteMetadata(metadata: DecoratorMetadataObject) {
+  const merged: Record<string, any> = {
+    tests: [],
+    classUse: [],
+    pageObjects: {},
+    suiteOptions: {},
+  };
+  for (const key of [...HOOK_KEYS, ...METHOD_KEYS]) {
+    merged[key] = HOOK_KEYS.includes(key as any) ? [] : {};
+  }
+
+  for (const level of metadataChain(metadata)) {
+    for (const key of HOOK_KEYS) {
+      for (const methodName of ownMetadata<string[]>(level, key) ?? []) {
+        if (!merged[key].includes(methodName)) merged[key].push(methodName);
+      }
+    }
+    merged.classUse.push(...(ownMetadata<any[]>(level, "classUse") ?? []));
+    Object.assign(merged.pageObjects, ownMetadata(level, "pageObjects"));
+    Object.assign(merged.suiteOptions, ownMetadata(level, "abstractSuite"));
+
+    const tests = ownMetadata<any[]>(level, "tests") ?? [];
+    for (const methodName of new Set(tests.map((t) => t.methodName))) {
+      const index = merged.tests.findIndex(
+        (t: any) => t.methodName === methodName,
+      );
+      merged.tests = merged.tests.filter(
+        (t: any) => t.methodName !== methodName,
+      );
+      merged.tests.splice(
+        index === -1 ? merged.tests.length : index,
+        0,
+        ...tests.filter((t) => t.methodName === methodName),
+      );
+      for (const key of METHOD_KEYS) delete merged[key][methodName];
+    }
+    for (const key of METHOD_KEYS) {
+      Object.assign(merged[key], ownMetadata(level, key));
+    }
+  }
+
+  return merged;
+}
+
 export function makeDescribe<T extends TestType<any, any>>(
   pwTest: T,
   fixturesToExtract?: string[],
 ) {
-  return function describe<const Name extends string, T extends new () => any>(
+  function describe<const Name extends string, T extends new () => any>(
     name?: Name,
     options?: DescribeOptions,
   ) {
@@ -64,13 +139,16 @@ export function makeDescribe<T extends TestType<any, any>>(
 
       // Register the describe block
       pwTest.describe(describeName, () => {
-        if (options) {
-          pwTest.describe.configure(options);
+        // Decorator metadata of this class and its ancestors, merged
+        const metadata = mergeSuiteMetadata(context.metadata);
+
+        const suiteOptions = { ...metadata.suiteOptions, ...options };
+        if (Object.keys(suiteOptions).length > 0) {
+          pwTest.describe.configure(suiteOptions);
         }
         
-        // Get metadata and apply class-level @use configurations
-        const metadata = context.metadata as any;
-        const classUse = metadata?.classUse || [];
+        // Apply class-level @use configurations
+        const classUse = metadata.classUse;
         for (const useConfig of classUse) {
           pwTest.use(useConfig.options);
         }
@@ -85,53 +163,11 @@ export function makeDescribe<T extends TestType<any, any>>(
           }
         );
 
-        // Find lifecycle hooks from decorator metadata or method names
-        // Walk up the prototype chain to collect all lifecycle hooks (including inherited ones)
-        const beforeEachMethods: string[] = [];
-        const beforeAllMethods: string[] = [];
-        const afterEachMethods: string[] = [];
-        const afterAllMethods: string[] = [];
-
-        // Collect from current class decorator metadata first
-        if (metadata?.beforeEach) {
-          beforeEachMethods.push(...metadata.beforeEach);
-        }
-        if (metadata?.beforeAll) {
-          beforeAllMethods.push(...metadata.beforeAll);
-        }
-        if (metadata?.afterEach) {
-          afterEachMethods.push(...metadata.afterEach);
-        }
-        if (metadata?.afterAll) {
-          afterAllMethods.push(...metadata.afterAll);
-        }
-
-        // Collect lifecycle hooks from parent class metadata (for inheritance)
-        // Walk up the class hierarchy to find lifecycle hooks from parent classes
-        let currentClass: any = target;
-        let parentProto = Object.getPrototypeOf(target.prototype);
-
-        while (parentProto && parentProto !== Object.prototype) {
-          const parentConstructor = parentProto.constructor;
-          const parentMetadata = parentConstructor[Symbol.metadata] as any;
-
-          if (parentMetadata) {
-            if (parentMetadata.beforeEach) {
-              beforeEachMethods.push(...parentMetadata.beforeEach);
-            }
-            if (parentMetadata.beforeAll) {
-              beforeAllMethods.push(...parentMetadata.beforeAll);
-            }
-            if (parentMetadata.afterEach) {
-              afterEachMethods.push(...parentMetadata.afterEach);
-            }
-            if (parentMetadata.afterAll) {
-              afterAllMethods.push(...parentMetadata.afterAll);
-            }
-          }
-
-          parentProto = Object.getPrototypeOf(parentProto);
-        }
+        // Lifecycle hooks of the whole class hierarchy, parent hooks first
+        const beforeEachMethods: string[] = [...metadata.beforeEach];
+        const beforeAllMethods: string[] = [...metadata.beforeAll];
+        const afterEachMethods: string[] = [...metadata.afterEach];
+        const afterAllMethods: string[] = [...metadata.afterAll];
 
         // Note: We only collect lifecycle hooks from decorators, not from method names.
         // Methods must be explicitly decorated with @beforeEach(), @afterEach(), etc.
@@ -188,13 +224,15 @@ export function makeDescribe<T extends TestType<any, any>>(
         afterAllMethods.push(...validAfterAll);
 
         // Find test methods from @test decorator metadata
-        const testMetadata = (metadata?.tests || []) as Array<{
+        const testMetadata = metadata.tests as Array<{
           methodName: string;
           testName: string;
           eachParams?: any[]; // Parameters for @test.each
           eachIndex?: number; // Index for @test.each
           eachDataFn?: (self: any) => any; // Callback data provider for deferred @test.each
           isDeferred?: boolean; // Whether this entry needs runtime resolution
+          dataRow?: TestDataRow; // Row of a @testData file
+          property?: PropertyConfig; // Arbitraries of a @test.property
         }>;
 
         // Expand deferred @test.each entries (callback data providers)
@@ -204,6 +242,8 @@ export function makeDescribe<T extends TestType<any, any>>(
           testName: string;
           eachParams?: any[];
           eachIndex?: number;
+          dataRow?: TestDataRow;
+          property?: PropertyConfig;
         }> = [];
 
         // Create a temp instance for resolving deferred data (if needed)
@@ -268,6 +308,8 @@ export function makeDescribe<T extends TestType<any, any>>(
               testName: t.testName,
               eachParams: t.eachParams,
               eachIndex: t.eachIndex,
+              dataRow: t.dataRow,
+              property: t.property,
             });
           }
         }
@@ -279,6 +321,8 @@ export function makeDescribe<T extends TestType<any, any>>(
           testName: t.testName,
           eachParams: t.eachParams,
           eachIndex: t.eachIndex,
+          dataRow: t.dataRow,
+          property: t.property,
         }));
 
         // Register beforeAll hooks
@@ -363,9 +407,30 @@ export function makeDescribe<T extends TestType<any, any>>(
           });
         }
 
+        // Collect @param metadata from all levels of the class hierarchy
+        // (child params take precedence). @param registers in an initializer,
+        // so call this once an instance has been constructed
+        const collectParamMetadata = () => {
+          const allMetadataParams: Record<
+            string,
+            {
+              name: string;
+              originalName: string;
+              formatter?: (v: any) => string;
+            }
+          > = {};
+
+          for (const level of metadataChain(context.metadata)) {
+            Object.assign(allMetadataParams, ownMetadata(level, "params"));
+          }
+
+          return allMetadataParams;
+        };
+
         // Register each test method as a test case
         for (const testMethod of allTestMethods) {
-          const { methodName, testName, eachParams, eachIndex } = testMethod;
+          const { methodName, testName, eachParams, eachIndex, dataRow, property } =
+            testMethod;
 
           // Try to create instance to access parameter values for test name transformation
           let tempInstance: any = null;
@@ -376,8 +441,14 @@ export function makeDescribe<T extends TestType<any, any>>(
             // we'll use the test name as-is without parameter substitution
           }
 
+          const allMetadataParams = collectParamMetadata();
+
+          // A @testData row sets its @param fields before the name is formatted
+          const rowValues = dataRow
+            ? applyTestDataRow(tempInstance ?? {}, dataRow, allMetadataParams)
+            : undefined;
+
           // Build the ParamContext by extracting actual property values
-          // Walk up the prototype chain to collect all @param decorators (including inherited ones)
           const paramContext: ParamContext = {};
 
           if (tempInstance) {
@@ -392,51 +463,6 @@ export function makeDescribe<T extends TestType<any, any>>(
               currentObj = Object.getPrototypeOf(currentObj);
             }
 
-            // Now collect param metadata from all levels of the prototype chain
-            const allMetadataParams: Record<
-              string,
-              {
-                name: string;
-                originalName: string;
-                formatter?: (v: any) => string;
-              }
-            > = {};
-
-            // First, collect params from the current class's metadata (from context.metadata)
-            const currentClassParams = metadata?.params as
-              | Record<string, any>
-              | undefined;
-            if (currentClassParams) {
-              for (const [paramName, paramInfo] of Object.entries(
-                currentClassParams,
-              )) {
-                allMetadataParams[paramName] = paramInfo;
-              }
-            }
-
-            // Then collect params from parent classes via Symbol.metadata
-            let currentProto: any = target.prototype;
-            while (currentProto && currentProto !== Object.prototype) {
-              const protoConstructor = currentProto.constructor;
-              const protoMetadata = protoConstructor[Symbol.metadata];
-              const protoParams = protoMetadata?.params as
-                | Record<string, any>
-                | undefined;
-
-              if (protoParams) {
-                // Add params from this level (child params take precedence)
-                for (const [paramName, paramInfo] of Object.entries(
-                  protoParams,
-                )) {
-                  if (!allMetadataParams[paramName]) {
-                    allMetadataParams[paramName] = paramInfo;
-                  }
-                }
-              }
-
-              currentProto = Object.getPrototypeOf(currentProto);
-            }
-
             // Build param context with values from instance
             for (const [paramName, paramInfo] of Object.entries(
               allMetadataParams,
@@ -450,6 +476,13 @@ export function makeDescribe<T extends TestType<any, any>>(
             }
           }
 
+          // Columns without a @param field are placeholders too
+          for (const [column, value] of Object.entries(rowValues ?? {})) {
+            if (!paramContext[column] && value !== undefined) {
+              paramContext[column] = { value };
+            }
+          }
+
           // Transform test name with parameter values
           let transformedTestName = testName;
           try {
@@ -530,6 +563,22 @@ export function makeDescribe<T extends TestType<any, any>>(
               (instance as any)[key] = fixtures[key];
             }
 
+            // Build the @use page objects and components on the test's page
+            for (const [field, PageObject] of Object.entries(
+              metadata.pageObjects as Record<string, any>,
+            )) {
+              (instance as any)[field] = createPageObject(
+                PageObject,
+                (instance as any).page,
+                field,
+              );
+            }
+
+            // Assign the @testData row to its @param fields before any hook runs
+            const row = dataRow
+              ? applyTestDataRow(instance, dataRow, collectParamMetadata())
+              : undefined;
+
               // Get testInfo for annotations and attachments
               const testInfo = newPwTest.info();
 
@@ -660,6 +709,19 @@ export function makeDescribe<T extends TestType<any, any>>(
                     return param;
                   });
                   await (instance as any)[methodName](...actualParams);
+                } else if (row) {
+                  // @testData passes the whole row
+                  await (instance as any)[methodName](row);
+                } else if (property) {
+                  // @test.property runs the method once per random input, as steps
+                  await runProperty(
+                    instance,
+                    methodName,
+                    property,
+                    collectParamMetadata(),
+                    (title, body) => newPwTest.step(title, body),
+                    testInfo,
+                  );
                 } else {
                   await (instance as any)[methodName]();
                 }
@@ -681,11 +743,52 @@ export function makeDescribe<T extends TestType<any, any>>(
             };
           
           // Call testFn with the dynamically created wrapper function
-          testFn(transformedTestName, createTestFunction(testImplementation));
+          if (dataRow?.tags.length) {
+            testFn(
+              transformedTestName,
+              { tag: dataRow.tags },
+              createTestFunction(testImplementation),
+            );
+          } else {
+            testFn(transformedTestName, createTestFunction(testImplementation));
+          }
         }
       });
     };
+  }
+
+  /**
+   * Marks a class as an abstract suite: it is never registered with
+   * Playwright, but the suites extending it inherit its tests, hooks,
+   * `@use` fixtures and `@param` fields. `options` are defaults for the
+   * extending suites' own options.
+   *
+   * @example
+   * *\@describe.abstract()
+   * abstract class CheckoutTests extends BaseTest {
+   *   abstract provider: string;
+   *
+   *   *\@test("pays with $provider")
+   *   async pay() { ... }
+   * }
+   *
+   * *\@describe("Stripe")
+   * class StripeCheckoutTests extends CheckoutTests {
+   *   *\@param() provider = "stripe";
+   * }
+   */
+  describe.abstract = function <T extends abstract new () => any>(
+    options?: DescribeOptions,
+  ) {
+    return function (_target: T, context: ClassDecoratorContext<T>) {
+      if (context.kind !== "class") {
+        throw new Error("describe.abstract decorator can only be used on classes");
+      }
+      context.metadata.abstractSuite = { ...options };
+    };
   };
+
+  return describe;
 }
 
 /**
@@ -703,6 +806,13 @@ export function makeDescribe<T extends TestType<any, any>>(
  * - Methods decorated with `@afterAll()` run once after all tests
  * - All other methods (including those starting with "test") are regular helper methods
  *
+ * **Inheritance:**
+ * - Tests, hooks, `@use` fixtures and `@param` fields of parent classes are inherited;
+ *   parent hooks run before the subclass's
+ * - A method decorated with `@test` again in a subclass replaces the parent's test
+ * - `@describe.abstract()` base classes are never registered themselves
+ * - Several base classes can be combined with {@link mixin}
+ *
  * **Key Features:**
  * - Automatic test case generation from class methods
  * - Support for test lifecycle hooks
@@ -98,7 +98,7 @@ export function fixme<
     }
 
     // Initialize metadata if it doesn't exist
-    if (!context.metadata.fixme) {
+    if (!Object.hasOwn(context.metadata, "fixme")) {
       context.metadata.fixme = {};
     }
 
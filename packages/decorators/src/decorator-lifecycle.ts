@@ -122,7 +122,7 @@ export function beforeEach() {
       );
     }
 
-    if (!context.metadata.beforeEach) {
+    if (!Object.hasOwn(context.metadata, "beforeEach")) {
       context.metadata.beforeEach = [];
     }
     (context.metadata.beforeEach as string[]).push(context.name as string);
@@ -236,7 +236,7 @@ export function beforeAll<F extends (...args: any[]) => any, const T>() {
       );
     }
 
-    if (!context.metadata.beforeAll) {
+    if (!Object.hasOwn(context.metadata, "beforeAll")) {
       context.metadata.beforeAll = [];
     }
     (context.metadata.beforeAll as string[]).push(context.name as string);
@@ -375,7 +375,7 @@ export function afterEach() {
       );
     }
 
-    if (!context.metadata.afterEach) {
+    if (!Object.hasOwn(context.metadata, "afterEach")) {
       context.metadata.afterEach = [];
     }
     (context.metadata.afterEach as string[]).push(context.name as string);
@@ -504,7 +504,7 @@ export function afterAll() {
       );
     }
 
-    if (!context.metadata.afterAll) {
+    if (!Object.hasOwn(context.metadata, "afterAll")) {
       context.metadata.afterAll = [];
     }
     (context.metadata.afterAll as string[]).push(context.name as string);
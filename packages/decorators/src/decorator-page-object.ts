@@ -0,0 +1,341 @@
+import { test, type Locator, type Page } from "@playwright/test";
+import { kStep } from "./decorator-step";
+import { kMetadata, metadataChain, ownMetadata } from "./metadata";
+
+/**
+ * Where a `@locator` field or a component points: a selector resolved with
+ * `root.locator()`, or a function building the locator from the root.
+ */
+export type Selector = string | ((root: Page | Locator) => Locator);
+
+type PageObjectClass = abstract new (...args: any[]) => object;
+
+interface PageObjectInfo {
+  kind: "page" | "component";
+  name: string;
+  selector?: Selector;
+}
+
+interface LocatorDefinition {
+  selector?: Selector;
+  component?: PageObjectClass;
+}
+
+/**
+ * Class decorator for a page object: a class wrapping a Playwright `Page`.
+ *
+ * - The first constructor argument is assigned to `this.page`, unless the
+ *   constructor assigned it already. Declare the constructor anyway:
+ *   TypeScript types the class as written, not the one the decorator returns
+ * - `@locator` fields are bound lazily to `this.page` on first access
+ * - Every public async method — not starting with `_` — runs as a
+ *   `test.step` titled `ClassName.method`. Methods decorated with `@step`
+ *   keep their own title, synchronous methods are left as is
+ * - Injectable into `@describe` classes with `@use(PageObjectClass)`
+ *
+ * @param name - Name used in step titles (default: the class name)
+ *
+ * @example
+ * *\@pageObject()
+ * class LoginPage {
+ *   constructor(readonly page: Page) {}
+ *
+ *   *\@locator("#email")
+ *   email!: Locator;
+ *
+ *   *\@locator("role=button[name=Save]")
+ *   save!: Locator;
+ *
+ *   async login(email: string) {
+ *     await this.email.fill(email);
+ *     await this.save.click();
+ *   }
+ * }
+ *
+ * const loginPage = new LoginPage(page);
+ * await loginPage.login("user@example.com"); // step "LoginPage.login"
+ */
+export function pageObject(name?: string) {
+  return function <T extends PageObjectClass>(
+    target: T,
+    context: ClassDecoratorContext<T>,
+  ): T {
+    if (context.kind !== "class") {
+      throw new Error("@pageObject decorator can only be used on classes");
+    }
+    return definePageObject(target, context, {
+      kind: "page",
+      name: name ?? context.name ?? "<anonymous>",
+    });
+  };
+}
+
+/**
+ * Class decorator for a component object: a part of a page, such as a
+ * navigation bar or a data table, wrapping the `Locator` of its root element.
+ *
+ * - The first constructor argument is the root `Locator`, assigned to
+ *   `this.root`; `this.page` is the root's page
+ * - `@locator` fields are bound lazily to `this.root` on first access
+ * - Public async methods run as steps, as in `@pageObject`
+ * - Used as a field of a page object or another component with
+ *   `@locator(ComponentClass)`, or injected with `@use(ComponentClass)`
+ *
+ * @param selector - Default root of the component, resolved from the parent
+ *   page object or component. Needed unless every `@locator` using the
+ *   component passes its own selector
+ * @param name - Name used in step titles (default: the class name)
+ *
+ * @example
+ * *\@component("nav.main")
+ * class NavBar {
+ *   constructor(readonly root: Locator) {}
+ *
+ *   *\@locator("role=link[name=Home]")
+ *   home!: Locator;
+ *
+ *   async goHome() {
+ *     await this.home.click();
+ *   }
+ * }
+ *
+ * *\@pageObject()
+ * class DashboardPage {
+ *   constructor(readonly page: Page) {}
+ *
+ *   *\@locator(NavBar)
+ *   nav!: NavBar; // root: page.locator("nav.main")
+ *
+ *   *\@locator("footer nav", NavBar)
+ *   footerNav!: NavBar; // root: page.locator("footer nav")
+ * }
+ */
+export function component(selector?: Selector, name?: string) {
+  return function <T extends PageObjectClass>(
+    target: T,
+    context: ClassDecoratorContext<T>,
+  ): T {
+    if (context.kind !== "class") {
+      throw new Error("@component decorator can only be used on classes");
+    }
+    return definePageObject(target, context, {
+      kind: "component",
+      name: name ?? context.name ?? "<anonymous>",
+      selector,
+    });
+  };
+}
+
+/**
+ * Field decorator binding a field of a `@pageObject` or `@component` class
+ * to a locator, or to a nested component.
+ *
+ * The locator is created on first access, relative to `this.page` in a page
+ * object and to `this.root` in a component, and reused afterwards.
+ *
+ * @param selector - Selector of the element, or a function building its
+ *   locator from the root
+ * @param component - A `@component` class: the field is an instance of it,
+ *   rooted at `selector`, or at the component's default selector when
+ *   `selector` is omitted
+ *
+ * @example
+ * *\@locator("role=button[name=Save]")
+ * save!: Locator;
+ *
+ * *\@locator((root) => root.getByLabel("Email"))
+ * email!: Locator;
+ *
+ * *\@locator("#users", DataTable)
+ * users!: DataTable;
+ *
+ * *\@locator(NavBar)
+ * nav!: NavBar;
+ */
+export function locator(
+  selector: Selector,
+  component?: PageObjectClass,
+): (target: undefined, context: ClassFieldDecoratorContext) => void;
+export function locator(
+  component: PageObjectClass,
+): (target: undefined, context: ClassFieldDecoratorContext) => void;
+export function locator(
+  selectorOrComponent: Selector | PageObjectClass,
+  component?: PageObjectClass,
+) {
+  return function (_target: undefined, context: ClassFieldDecoratorContext) {
+    if (context.kind !== "field") {
+      throw new Error("@locator decorator can only be used on fields");
+    }
+    const definition: LocatorDefinition =
+      typeof selectorOrComponent === "function" &&
+      pageObjectInfo(selectorOrComponent)
+        ? { component: selectorOrComponent as PageObjectClass }
+        : { selector: selectorOrComponent as Selector, component };
+
+    if (definition.component) {
+      const info = pageObjectInfo(definition.component);
+      if (info?.kind !== "component") {
+        throw new Error(
+          `@locator(${definition.component.name}) on "${String(context.name)}": ` +
+            `${definition.component.name} is not a @component class`,
+        );
+      }
+    }
+
+    if (!Object.hasOwn(context.metadata, "locators")) {
+      context.metadata.locators = {};
+    }
+    (context.metadata.locators as Record<string | symbol, LocatorDefinition>)[
+      context.name
+    ] = definition;
+  };
+}
+
+/** `@pageObject` / `@component` settings of a class, or `undefined` for other classes. */
+export function pageObjectInfo(cls: Function): PageObjectInfo | undefined {
+  return (cls as any)?.[kMetadata]?.pageObject;
+}
+
+/**
+ * Instance of a page object or component injected with `@use` into a test of
+ * a `@describe` class: a page object wraps the test's page, a component its
+ * default root on that page.
+ */
+export function createPageObject(
+  cls: PageObjectClass,
+  page: Page | undefined,
+  field: string,
+): object {
+  if (!page) {
+    throw new Error(
+      `@use(${cls.name}) on "${field}" needs the "page" fixture — ` +
+        `include it in the fixtures passed to makeDecorators()`,
+    );
+  }
+  const info = pageObjectInfo(cls)!;
+  if (info.kind === "page") {
+    return Reflect.construct(cls, [page]);
+  }
+  return Reflect.construct(cls, [resolveComponentRoot(cls, info, page, field)]);
+}
+
+/**
+ * Marks the class, binds its `@locator` fields and wraps its methods in
+ * steps. Returns a subclass whose constructor assigns `page` / `root`.
+ */
+function definePageObject<T extends PageObjectClass>(
+  target: T,
+  context: ClassDecoratorContext<T>,
+  info: PageObjectInfo,
+): T {
+  context.metadata.pageObject = info;
+
+  for (const key of Object.getOwnPropertyNames(target.prototype)) {
+    const descriptor = Object.getOwnPropertyDescriptor(target.prototype, key)!;
+    const method = descriptor.value;
+    if (
+      key === "constructor" ||
+      key.startsWith("_") ||
+      typeof method !== "function" ||
+      method[kStep] ||
+      method[Symbol.toStringTag] !== "AsyncFunction"
+    ) {
+      continue;
+    }
+    const title = `${info.name}.${key}`;
+    Object.defineProperty(target.prototype, key, {
+      ...descriptor,
+      value: {
+        async [key](this: any, ...args: unknown[]) {
+          return test.step(title, async () => Reflect.apply(method, this, args));
+        },
+      }[key],
+    });
+  }
+
+  const PageObject = class extends (target as any) {
+    constructor(...args: any[]) {
+      super(...args);
+      if (info.kind === "component") {
+        if (this.root === undefined) this.root = args[0];
+        if (this.page === undefined) this.page = this.root?.page?.();
+      } else if (this.page === undefined) {
+        this.page = args[0];
+      }
+      bindLocators(this, context.metadata);
+    }
+  };
+  Object.defineProperty(PageObject, "name", { value: target.name });
+  return PageObject as unknown as T;
+}
+
+/** Replaces the `@locator` fields of an instance with lazy getters. */
+function bindLocators(instance: any, metadata: DecoratorMetadataObject) {
+  const locators: Record<string, LocatorDefinition> = {};
+  for (const level of metadataChain(metadata)) {
+    Object.assign(locators, ownMetadata(level, "locators"));
+  }
+
+  const owner = instance.constructor.name;
+  for (const [field, definition] of Object.entries(locators)) {
+    Object.defineProperty(instance, field, {
+      configurable: true,
+      enumerable: false,
+      get() {
+        const root: Page | Locator | undefined =
+          pageObjectInfo(instance.constructor)?.kind === "component"
+            ? instance.root
+            : instance.page;
+        if (!root) {
+          throw new Error(
+            `${owner}.${field}: nothing to bind the locator to — ` +
+              `construct ${owner} with a ${
+                pageObjectInfo(instance.constructor)?.kind === "component"
+                  ? "root Locator"
+                  : "Page"
+              }`,
+          );
+        }
+        const value = definition.component
+          ? Reflect.construct(definition.component, [
+              definition.selector === undefined
+                ? resolveComponentRoot(
+                    definition.component,
+                    pageObjectInfo(definition.component)!,
+                    root,
+                    `${owner}.${field}`,
+                  )
+                : resolve(definition.selector, root),
+            ])
+          : resolve(definition.selector!, root);
+        Object.defineProperty(instance, field, {
+          configurable: true,
+          enumerable: false,
+          writable: true,
+          value,
+        });
+        return value;
+      },
+    });
+  }
+}
+
+function resolveComponentRoot(
+  cls: PageObjectClass,
+  info: PageObjectInfo,
+  root: Page | Locator,
+  field: string,
+): Locator {
+  if (info.selector === undefined) {
+    throw new Error(
+      `${field}: @component ${cls.name} has no default selector — ` +
+        `pass one to @component() or to @locator()`,
+    );
+  }
+  return resolve(info.selector, root);
+}
+
+function resolve(selector: Selector, root: Page | Locator): Locator {
+  return typeof selector === "function" ? selector(root) : root.locator(selector);
+}
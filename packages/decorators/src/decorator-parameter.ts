@@ -202,7 +202,7 @@ export function param<
     }
     context.addInitializer(function () {
       // Initialize params object if it doesn't exist
-      if (!context!.metadata!.params) {
+      if (!Object.hasOwn(context!.metadata!, "params")) {
         context!.metadata!.params = {};
       }
       // Add this parameter to the params object (don't overwrite existing params)
@@ -0,0 +1,515 @@
+import type { TestInfo } from "@playwright/test";
+import { inspect } from "node:util";
+
+/** A generated value and, lazily, the simpler values it shrinks to. */
+type Shrinkable<T> = {
+  value: T;
+  shrinks: () => Iterable<Shrinkable<T>>;
+};
+
+/** Whatever `arb.faker()` draws from: a `Faker` instance, as the fixture-faker `faker` fixture. */
+type FakerLike = { seed(seed: number): unknown };
+
+type DrawContext = { faker?: FakerLike };
+
+/**
+ * Seeded pseudo-random number generator (mulberry32): the same seed draws the
+ * same values, so a failing property replays exactly.
+ */
+export class Random {
+  #state: number;
+
+  constructor(seed: number) {
+    this.#state = seed >>> 0;
+  }
+
+  /** A random 32-bit unsigned integer. */
+  next(): number {
+    let t = (this.#state = (this.#state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /** A random number in `[0, 1)`. */
+  float(): number {
+    return (this.next() * 2 ** 21 + (this.next() >>> 11)) / 2 ** 53;
+  }
+
+  /** A random integer in `[min, max]`. */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.float() * (max - min + 1));
+  }
+}
+
+/**
+ * A generator of random values that knows how to shrink them: a failing input
+ * is simplified step by step to a minimal counterexample. Compose with
+ * {@link arb} and `.map()` / `.filter()` — derived arbitraries keep shrinking.
+ */
+export class Arbitrary<T> {
+  constructor(
+    readonly draw: (random: Random, context: DrawContext) => Shrinkable<T>,
+  ) {}
+
+  /** Values transformed by `fn`; shrinks as the source values do. */
+  map<U>(fn: (value: T) => U): Arbitrary<U> {
+    return new Arbitrary((random, context) =>
+      mapShrinkable(this.draw(random, context), fn),
+    );
+  }
+
+  /**
+   * Only values passing `predicate`. Draws are retried up to 100 times, so
+   * keep the predicate loose — narrow the source arbitrary instead.
+   */
+  filter(predicate: (value: T) => boolean): Arbitrary<T> {
+    return new Arbitrary((random, context) => {
+      for (let attempt = 0; attempt < 100; attempt++) {
+        const drawn = this.draw(random, context);
+        if (predicate(drawn.value)) return filterShrinkable(drawn, predicate);
+      }
+      throw new Error(
+        "@test.property: filter() rejected 100 values in a row — narrow the arbitrary instead",
+      );
+    });
+  }
+}
+
+const PRINTABLE = Array.from({ length: 0x7f - 0x20 }, (_, i) =>
+  String.fromCharCode(0x20 + i),
+).join("");
+
+/**
+ * Arbitraries for `@test.property` — composable random value generators
+ * that shrink failing values toward the simplest ones: `0`, `""`, `false`,
+ * `[]`, the first of several choices.
+ */
+export const arb = {
+  /** Integers in `[min, max]`, shrinking toward `0` (or the bound nearest to it). */
+  integer({ min = -(2 ** 31), max = 2 ** 31 - 1 } = {}): Arbitrary<number> {
+    assertRange("integer", min, max);
+    const target = clamp(0, min, max);
+    const edges = [min, max, target, target - 1, target + 1].filter(
+      (n) => n >= min && n <= max,
+    );
+    return new Arbitrary((random) => {
+      // One in ten draws is an edge case: a bound, zero or next to it
+      const value =
+        random.int(0, 9) === 0
+          ? edges[random.int(0, edges.length - 1)]
+          : random.int(min, max);
+      return numberShrinkable(value, target, true);
+    });
+  },
+
+  /** Floating-point numbers in `[min, max)`, shrinking toward `0` and whole numbers. */
+  float({ min = -1e6, max = 1e6 } = {}): Arbitrary<number> {
+    assertRange("float", min, max);
+    const target = clamp(0, min, max);
+    return new Arbitrary((random) =>
+      numberShrinkable(min + random.float() * (max - min), target, false),
+    );
+  },
+
+  /** `true` or `false`, shrinking to `false`. */
+  boolean(): Arbitrary<boolean> {
+    return arb.constantFrom(false, true);
+  },
+
+  /**
+   * Strings of `minLength` to `maxLength` characters from `chars` (printable
+   * ASCII by default), shrinking to shorter strings of earlier characters.
+   */
+  string({
+    minLength = 0,
+    maxLength = 20,
+    chars = PRINTABLE,
+  }: { minLength?: number; maxLength?: number; chars?: string } = {}): Arbitrary<string> {
+    return arb
+      .array(arb.constantFrom(...Array.from(chars)), { minLength, maxLength })
+      .map((characters) => characters.join(""));
+  },
+
+  /** Always `value`. */
+  constant<const T>(value: T): Arbitrary<T> {
+    return new Arbitrary(() => ({ value, shrinks: () => [] }));
+  },
+
+  /** One of `values`, shrinking toward the first. */
+  constantFrom<const T extends readonly unknown[]>(
+    ...values: T
+  ): Arbitrary<T[number]> {
+    if (values.length === 0) {
+      throw new Error("@test.property: arb.constantFrom() needs at least one value");
+    }
+    return arb
+      .integer({ min: 0, max: values.length - 1 })
+      .map((index) => values[index]);
+  },
+
+  /** A value of one of `arbitraries`, picked at random. */
+  oneOf<const T extends readonly Arbitrary<unknown>[]>(
+    ...arbitraries: T
+  ): Arbitrary<ValueOf<T[number]>> {
+    if (arbitraries.length === 0) {
+      throw new Error("@test.property: arb.oneOf() needs at least one arbitrary");
+    }
+    return new Arbitrary((random, context) =>
+      arbitraries[random.int(0, arbitraries.length - 1)].draw(
+        random,
+        context,
+      ) as Shrinkable<ValueOf<T[number]>>,
+    );
+  },
+
+  /**
+   * Arrays of `minLength` to `maxLength` items, shrinking by dropping items,
+   * then by shrinking each item.
+   */
+  array<T>(
+    item: Arbitrary<T>,
+    { minLength = 0, maxLength = 10 } = {},
+  ): Arbitrary<T[]> {
+    assertRange("array", minLength, maxLength);
+    return new Arbitrary((random, context) => {
+      const length = random.int(minLength, maxLength);
+      const items = Array.from({ length }, () => item.draw(random, context));
+      return arrayShrinkable(items, minLength);
+    });
+  },
+
+  /** Objects with a value drawn from each arbitrary, shrinking one property at a time. */
+  record<const T extends Record<string, Arbitrary<unknown>>>(
+    shape: T,
+  ): Arbitrary<{ [K in keyof T]: ValueOf<T[K]> }> {
+    const keys = Object.keys(shape);
+    return new Arbitrary((random, context) => {
+      const fields = keys.map((key) => shape[key].draw(random, context));
+      return mapShrinkable(
+        arrayShrinkable(fields, fields.length),
+        (values) =>
+          Object.fromEntries(keys.map((key, i) => [key, values[i]])) as any,
+      );
+    });
+  },
+
+  /** Arrays with a value drawn from each arbitrary, in order. */
+  tuple<const T extends readonly Arbitrary<unknown>[]>(
+    ...arbitraries: T
+  ): Arbitrary<{ [K in keyof T]: ValueOf<T[K]> }> {
+    return new Arbitrary((random, context) =>
+      arrayShrinkable(
+        arbitraries.map((a) => a.draw(random, context)),
+        arbitraries.length,
+      ) as Shrinkable<any>,
+    );
+  },
+
+  /**
+   * Values from a `Faker` instance — the fixture-faker `faker` fixture of the
+   * test, or the `faker` option of `@test.property` — reseeded from the
+   * property's seed on every draw, so runs replay. These values don't shrink.
+   *
+   * @example
+   * arb.faker((faker: Faker) => faker.internet.email())
+   */
+  faker<T, F extends FakerLike = any>(
+    generate: (faker: F) => T,
+  ): Arbitrary<T> {
+    return new Arbitrary((random, context) => {
+      if (!context.faker) {
+        throw new Error(
+          "@test.property: arb.faker() needs a Faker instance — inject the fixture-faker `faker` fixture or pass { faker }",
+        );
+      }
+      context.faker.seed(random.next());
+      return { value: generate(context.faker as F), shrinks: () => [] };
+    });
+  },
+};
+
+type ValueOf<A> = A extends Arbitrary<infer T> ? T : never;
+
+export type PropertyOptions = {
+  /** Number of random inputs to check. @default 100 */
+  runs?: number;
+  /** Seed of the random inputs, to replay a failure. Random by default. */
+  seed?: number;
+  /** Maximum number of simpler inputs tried while shrinking a failure. @default 100 */
+  maxShrinks?: number;
+  /** `Faker` instance for `arb.faker()`, instead of the test's `faker` fixture. */
+  faker?: FakerLike;
+};
+
+/** A `@test.property` test, as stored in the class metadata. */
+export type PropertyConfig = {
+  arbitraries: Record<string, Arbitrary<unknown>>;
+  options: PropertyOptions;
+};
+
+/** `@param` metadata, as the `@describe` decorator collects it. */
+type ParamInfo = {
+  name: string;
+  originalName: string;
+  formatter?: (value: any) => string;
+};
+
+/**
+ * Decorator for property-based tests: one test that checks the method
+ * against many random inputs.
+ *
+ * Each run draws a value from every arbitrary, assigns it to the `@param`
+ * field with the same name (the `@param` name or the property name) and
+ * calls the method with all values, inside a `test.step`. When a run fails,
+ * its input is shrunk to a minimal counterexample — the test fails with it,
+ * and the seed and counterexample are recorded as `seed` and
+ * `counterexample` annotations. Pass `{ seed }` to replay.
+ *
+ * Lifecycle hooks run once per test, not per run: reset state the method
+ * depends on at its start.
+ *
+ * @param arbitraries - Arbitrary per `@param` field or method argument key
+ * @param title - Test title template; defaults to the method name
+ * @param options - Number of runs, seed, shrinking budget and Faker instance
+ *
+ * @returns A decorator function that registers the property test
+ *
+ * @throws {Error} If used on non-method targets
+ *
+ * @example
+ * *\@describe("Signup form")
+ * class SignupTests extends BaseTest {
+ *   *\@param()
+ *   email = "";
+ *
+ *   *\@param()
+ *   age = 0;
+ *
+ *   *\@test.property(
+ *     {
+ *       email: arb.faker((faker: Faker) => faker.internet.email()),
+ *       age: arb.integer({ min: -10, max: 200 }),
+ *     },
+ *     "accepts exactly the valid ages",
+ *     { runs: 25 },
+ *   )
+ *   async validatesAge() {
+ *     await this.page.fill("#email", this.email);
+ *     await this.page.fill("#age", String(this.age));
+ *     await expect(this.page.locator("#age-error")).toBeVisible({
+ *       visible: this.age < 18 || this.age > 120,
+ *     });
+ *   }
+ * }
+ *
+ * @see {@link arb} - The arbitraries to draw values from
+ * @see {@link test.each} - Decorator for example-based parameters
+ */
+export function property<const T, const V extends (...args: any[]) => any>(
+  arbitraries: Record<string, Arbitrary<unknown>>,
+  title?: string,
+  options: PropertyOptions = {},
+) {
+  return function (target: V, context: ClassMethodDecoratorContext<T, V>) {
+    const methodName = context.name?.toString() ?? "<anonymous>";
+
+    if (context.kind !== "method") {
+      throw new Error("@test.property decorator can only be used on methods");
+    }
+
+    if (!Object.hasOwn(context.metadata!, "tests")) {
+      context.metadata!.tests = [];
+    }
+
+    (context.metadata!.tests as any[]).push({
+      methodName,
+      testName: title ?? methodName,
+      property: { arbitraries, options } satisfies PropertyConfig,
+    });
+
+    // Return the original method unchanged
+    // The @describe decorator will handle registration
+    return target;
+  };
+}
+
+/**
+ * Runs a `@test.property` test on `instance`: draws the inputs, runs each as a
+ * step and, on failure, shrinks the input and throws with the counterexample.
+ */
+export async function runProperty(
+  instance: any,
+  methodName: string,
+  { arbitraries, options }: PropertyConfig,
+  params: Record<string, ParamInfo>,
+  step: (title: string, body: () => Promise<void>) => Promise<void>,
+  testInfo: TestInfo,
+): Promise<void> {
+  const { runs = 100, maxShrinks = 100 } = options;
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  testInfo.annotations.push({ type: "seed", description: String(seed) });
+
+  const random = new Random(seed);
+  const context: DrawContext = { faker: options.faker ?? instance.faker };
+  const inputs = arb.record(arbitraries);
+  const fields = Object.values(params);
+
+  /** Runs the method with `values` as a step; returns its error, if any. */
+  const check = async (title: string, values: Record<string, unknown>) => {
+    for (const [key, value] of Object.entries(values)) {
+      const field = fields.find((p) => p.name === key || p.originalName === key);
+      if (field) instance[field.originalName] = value;
+    }
+    try {
+      await step(`${title}: ${describeValues(values, fields)}`, async () => {
+        await instance[methodName](values);
+      });
+      return undefined;
+    } catch (error) {
+      return error;
+    }
+  };
+
+  for (let run = 1; run <= runs; run++) {
+    let failing = inputs.draw(random, context);
+    let error = await check(`run ${run}`, failing.value);
+    if (error === undefined) continue;
+
+    // Greedy shrinking: move to the first simpler input that still fails
+    let tried = 0;
+    let shrunk = 0;
+    shrinking: while (tried < maxShrinks) {
+      for (const candidate of failing.shrinks()) {
+        if (++tried > maxShrinks) break shrinking;
+        const candidateError = await check(`shrink ${tried}`, candidate.value);
+        if (candidateError !== undefined) {
+          failing = candidate;
+          error = candidateError;
+          shrunk++;
+          continue shrinking;
+        }
+      }
+      break;
+    }
+
+    const counterexample = describeValues(failing.value, fields);
+    testInfo.annotations.push({ type: "counterexample", description: counterexample });
+    throw new Error(
+      `@test.property failed after ${run} run(s), shrunk ${shrunk} time(s).\n` +
+        `Counterexample: ${counterexample}\n` +
+        `Replay with { seed: ${seed} }\n\n` +
+        (error instanceof Error ? error.message : String(error)),
+      { cause: error },
+    );
+  }
+}
+
+function describeValues(values: Record<string, unknown>, fields: ParamInfo[]) {
+  return Object.entries(values)
+    .map(([key, value]) => {
+      const formatter = fields.find(
+        (p) => p.name === key || p.originalName === key,
+      )?.formatter;
+      return `${key} = ${formatter ? formatter(value) : inspect(value, { breakLength: Infinity })}`;
+    })
+    .join(", ");
+}
+
+function mapShrinkable<T, U>(
+  { value, shrinks }: Shrinkable<T>,
+  fn: (value: T) => U,
+): Shrinkable<U> {
+  return {
+    value: fn(value),
+    *shrinks() {
+      for (const shrink of shrinks()) yield mapShrinkable(shrink, fn);
+    },
+  };
+}
+
+function filterShrinkable<T>(
+  { value, shrinks }: Shrinkable<T>,
+  predicate: (value: T) => boolean,
+): Shrinkable<T> {
+  return {
+    value,
+    *shrinks() {
+      for (const shrink of shrinks()) {
+        if (predicate(shrink.value)) yield filterShrinkable(shrink, predicate);
+      }
+    },
+  };
+}
+
+/** Shrinks toward `target`: the target itself, then halfway, a quarter of the way, ... */
+function numberShrinkable(
+  value: number,
+  target: number,
+  integer: boolean,
+): Shrinkable<number> {
+  return {
+    value,
+    *shrinks() {
+      if (value === target) return;
+      yield numberShrinkable(target, target, integer);
+      if (!integer && !Number.isInteger(value)) {
+        const whole = Math.trunc(value);
+        if (whole !== target && Math.abs(whole - target) < Math.abs(value - target)) {
+          yield numberShrinkable(whole, target, integer);
+        }
+      }
+      let distance = value - target;
+      while (Math.abs(distance) > 1) {
+        distance = integer ? Math.trunc(distance / 2) : distance / 2;
+        yield numberShrinkable(value - distance, target, integer);
+      }
+    },
+  };
+}
+
+/**
+ * Shrinks by removing chunks of items — half of them, a quarter, ... one —
+ * while at least `minLength` remain, then by shrinking one item at a time.
+ */
+function arrayShrinkable<T>(
+  items: Shrinkable<T>[],
+  minLength: number,
+): Shrinkable<T[]> {
+  return {
+    value: items.map((item) => item.value),
+    *shrinks() {
+      for (
+        let size = items.length - minLength;
+        size > 0;
+        size = Math.floor(size / 2)
+      ) {
+        for (let start = 0; start + size <= items.length; start += size) {
+          yield arrayShrinkable(
+            [...items.slice(0, start), ...items.slice(start + size)],
+            minLength,
+          );
+        }
+      }
+      for (let i = 0; i < items.length; i++) {
+        for (const shrink of items[i].shrinks()) {
+          const shrunk = [...items];
+          shrunk[i] = shrink;
+          yield arrayShrinkable(shrunk, minLength);
+        }
+      }
+    },
+  };
+}
+
+function assertRange(name: string, min: number, max: number) {
+  if (!(min <= max)) {
+    throw new RangeError(
+      `@test.property: arb.${name}() needs min <= max, got ${min} > ${max}`,
+    );
+  }
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(Math.max(value, min), max);
+}
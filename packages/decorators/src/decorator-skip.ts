@@ -104,7 +104,7 @@ export function skip<
     }
 
     // Initialize metadata if it doesn't exist
-    if (!context.metadata.skipped) {
+    if (!Object.hasOwn(context.metadata, "skipped")) {
       context.metadata.skipped = {};
     }
 
@@ -99,7 +99,7 @@ export function slow<
     }
 
     // Initialize metadata if it doesn't exist
-    if (!context.metadata.slow) {
+    if (!Object.hasOwn(context.metadata, "slow")) {
       context.metadata.slow = {};
     }
 
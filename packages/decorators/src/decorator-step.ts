@@ -4,6 +4,7 @@ import {
   formatStringTemplate,
   ParamContext,
 } from "./formatStringTemplate";
+import { kMetadata, metadataChain, ownMetadata } from "./metadata";
 
 type InferArgsFromTemplateString<
   Name extends string,
@@ -33,6 +34,9 @@ type OptionalArray<T extends readonly unknown[]> = T extends readonly [
   ? [First?, ...OptionalArray<Rest>]
   : [];
 
+/** Marks a method already wrapped by `@step`, so `@pageObject` does not wrap it again. */
+export const kStep = Symbol("step");
+
 export const kAnnotate = Symbol.for("annotate");
 export const kAttachment = Symbol.for("attachment");
 
@@ -77,23 +81,27 @@ export function makeStep<T extends TestType<any, any>>(pwTest: T) {
       if (context.kind !== "method") {
         throw new Error("step decorator can only be used on methods");
       }
-      return async function replacementMethod(
+      const replacementMethod = async function (
         this: any,
         ...args: Args
       ): Promise<Awaited<ReturnType<T>>> {
         // Build the ParamContext by extracting actual property values from `this`
         const paramContext: ParamContext = {};
-        const metadataParams =
-          (context.metadata?.params as
-            | Record<
-                string,
-                {
-                  name: string;
-                  originalName: string;
-                  formatter?: (v: any) => string;
-                }
-              >
-            | undefined) ?? {};
+        // @param fields of the instance's class and its ancestors — a step
+        // declared in a base class also sees the subclass's params
+        const metadataParams: Record<
+          string,
+          {
+            name: string;
+            originalName: string;
+            formatter?: (v: any) => string;
+          }
+        > = {};
+        for (const level of metadataChain(
+          this?.constructor?.[kMetadata] ?? context.metadata,
+        )) {
+          Object.assign(metadataParams, ownMetadata(level, "params"));
+        }
 
         if (metadataParams && this) {
           for (const [paramName, paramInfo] of Object.entries(metadataParams)) {
@@ -114,6 +122,8 @@ export function makeStep<T extends TestType<any, any>>(pwTest: T) {
           Reflect.apply(target, this, args),
         ) as Promise<Awaited<ReturnType<T>>>;
       };
+      Object.defineProperty(replacementMethod, kStep, { value: true });
+      return replacementMethod;
     };
   };
 }
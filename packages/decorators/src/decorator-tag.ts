@@ -87,7 +87,7 @@ export function tag(
     }
 
     // Initialize metadata arrays if they don't exist
-    if (!context.metadata.tags) {
+    if (!Object.hasOwn(context.metadata, "tags")) {
       context.metadata.tags = {};
     }
 
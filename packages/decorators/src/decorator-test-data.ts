@@ -0,0 +1,482 @@
+import { readFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { basename, dirname, extname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/** Supported data file formats. */
+export type TestDataFormat = "csv" | "json" | "yaml" | "ndjson";
+
+/**
+ * How to convert a column value before it is assigned to a `@param` field:
+ * a type name, or a function receiving the raw value from the file.
+ */
+export type Coercion =
+  | "string"
+  | "number"
+  | "boolean"
+  | "bigint"
+  | "date"
+  | "json"
+  | ((value: unknown) => unknown);
+
+type Tag = `@${string}`;
+
+export type TestDataOptions = {
+  /** File format. Inferred from the extension by default. */
+  format?: TestDataFormat;
+  /** Only rows tagged with one of these tags become tests. */
+  tag?: Tag | Tag[];
+  /** Column holding each row's tags. @default "tags" */
+  tagColumn?: string;
+  /** Per-column coercion, overriding the type inferred from the field's initial value. */
+  coerce?: Record<string, Coercion>;
+  /** CSV field delimiter. @default "," (tab for `.tsv`) */
+  delimiter?: string;
+};
+
+/** One row of a `@testData` file, as stored in the class metadata. */
+export type TestDataRow = {
+  /** Column values as read from the file. */
+  values: Record<string, unknown>;
+  /** Playwright tags of the generated test. */
+  tags: Tag[];
+  /** Where the row came from, for error messages: `users.csv:4`. */
+  source: string;
+  coerce?: Record<string, Coercion>;
+};
+
+/** `@param` metadata, as the `@describe` decorator collects it. */
+type ParamInfo = { name: string; originalName: string };
+
+/**
+ * Decorator for data-driven tests with parameters kept in a CSV, JSON, YAML
+ * or NDJSON file — one test per row.
+ *
+ * Columns are assigned to the `@param` fields with the same name (the
+ * `@param` name or the property name) before `@beforeEach` hooks run, and the
+ * whole row is passed to the method. Values are coerced to the type of the
+ * field's initial value — `age = 0` turns the CSV cell `"42"` into `42` — or
+ * as set by the `coerce` option. Test titles are formatted like `@test` titles,
+ * with `$name` for any `@param` or column.
+ *
+ * **File format:**
+ * - Paths are resolved relative to the spec file
+ * - CSV/TSV: the first line holds column names; empty cells leave the field's initial value
+ * - JSON: an array of objects; NDJSON: one object per line
+ * - YAML: a sequence of mappings — requires the `yaml` package
+ *
+ * **Tags:** a `tags` column (`"@smoke @regression"`, or a list in JSON/YAML)
+ * becomes the row's Playwright tags, so `--grep @smoke` works. The `tag`
+ * option keeps only rows with one of the given tags.
+ *
+ * @param file - Path to the data file, relative to the spec file
+ * @param title - Test title template; defaults to `"<method> #<row>"`
+ * @param options - Format, tag filter and coercion options
+ *
+ * @returns A decorator function that generates one test case per row
+ *
+ * @throws {Error} If used on non-method targets
+ * @throws {Error} If the file cannot be read or parsed
+ *
+ * @example
+ * // logins.csv:
+ * // username,password,admin,tags
+ * // alice,secret,true,@smoke
+ * // bob,hunter2,false,
+ * *\@describe("Login")
+ * class LoginTests extends BaseTest {
+ *   *\@param("user")
+ *   username = "";
+ *
+ *   *\@param("password", (pwd) => "*".repeat(pwd.length))
+ *   password = "";
+ *
+ *   *\@param()
+ *   admin = false; // "true" → true
+ *
+ *   *\@testData("./data/logins.csv", "Login as $user (admin: $admin)")
+ *   async login() {
+ *     await this.page.fill("#username", this.username);
+ *     await this.page.fill("#password", this.password);
+ *   }
+ * }
+ *
+ * @example
+ * // Only the rows tagged @smoke, with an explicit coercion
+ * *\@testData.json("./data/orders.json", "Order $id totals $total", {
+ *   tag: "@smoke",
+ *   coerce: { total: "number" },
+ * })
+ * async checkOrder(row: Record<string, unknown>) {
+ *   expect(row.total).toBeGreaterThan(0);
+ * }
+ *
+ * @see {@link test.each} - Decorator for inline parameter tables
+ * @see {@link param} - Decorator for the fields rows are assigned to
+ */
+export function testData<const T, const V extends (...args: any[]) => any>(
+  file: string,
+  title?: string,
+  options: TestDataOptions = {},
+) {
+  const spec = callerFile();
+  const path = spec ? resolve(dirname(spec), file) : resolve(file);
+  const rows = loadTestData(path, options);
+
+  return function (target: V, context: ClassMethodDecoratorContext<T, V>) {
+    const methodName = context.name?.toString() ?? "<anonymous>";
+
+    if (context.kind !== "method") {
+      throw new Error("@testData decorator can only be used on methods");
+    }
+
+    if (!Object.hasOwn(context.metadata!, "tests")) {
+      context.metadata!.tests = [];
+    }
+
+    rows.forEach((dataRow, i) => {
+      (context.metadata!.tests as any[]).push({
+        methodName,
+        testName: title ?? `${methodName} #${i + 1}`,
+        dataRow,
+      });
+    });
+
+    // Return the original method unchanged
+    // The @describe decorator will handle registration
+    return target;
+  };
+}
+
+testData.csv = (file: string, title?: string, options?: TestDataOptions) =>
+  testData(file, title, { ...options, format: "csv" });
+
+testData.json = (file: string, title?: string, options?: TestDataOptions) =>
+  testData(file, title, { ...options, format: "json" });
+
+testData.yaml = (file: string, title?: string, options?: TestDataOptions) =>
+  testData(file, title, { ...options, format: "yaml" });
+
+testData.ndjson = (file: string, title?: string, options?: TestDataOptions) =>
+  testData(file, title, { ...options, format: "ndjson" });
+
+/**
+ * Coerces a row's values and assigns them to the matching `@param` fields of
+ * `instance`. Returns the coerced values by column.
+ */
+export function applyTestDataRow(
+  instance: any,
+  row: TestDataRow,
+  params: Record<string, ParamInfo>,
+): Record<string, unknown> {
+  const fields = Object.values(params);
+  const values: Record<string, unknown> = {};
+
+  for (const [column, raw] of Object.entries(row.values)) {
+    const field = fields.find(
+      (p) => p.name === column || p.originalName === column,
+    )?.originalName;
+    const coercion =
+      row.coerce?.[column] ??
+      (field !== undefined ? inferCoercion(instance[field]) : undefined);
+
+    let value: unknown;
+    try {
+      value = coercion ? coerce(raw, coercion) : raw;
+    } catch (e) {
+      throw new Error(
+        `@testData: column "${column}" in ${row.source}: ${(e as Error).message}`,
+      );
+    }
+    values[column] = value;
+    if (field !== undefined && value !== undefined) {
+      instance[field] = value;
+    }
+  }
+  return values;
+}
+
+/** Reads, parses and filters the rows of a data file. */
+function loadTestData(path: string, options: TestDataOptions): TestDataRow[] {
+  const format = options.format ?? formatOf(path);
+  let text: string;
+  try {
+    text = readFileSync(path, "utf-8").replace(/^\uFEFF/, "");
+  } catch (cause) {
+    throw new Error(`@testData: cannot read ${path}`, { cause });
+  }
+
+  const name = basename(path);
+  let records: Array<{ values: Record<string, unknown>; line: number }>;
+  switch (format) {
+    case "csv":
+      records = parseCsv(
+        text,
+        options.delimiter ?? (extname(path) === ".tsv" ? "\t" : ","),
+        name,
+      );
+      break;
+    case "ndjson":
+      records = parseNdjson(text, name);
+      break;
+    case "json":
+      records = toRecords(parseJson(text, name), name);
+      break;
+    case "yaml":
+      records = toRecords(parseYaml(text, path), name);
+      break;
+    default:
+      throw new Error(`@testData: unsupported format "${String(format)}"`);
+  }
+
+  const tagColumn = options.tagColumn ?? "tags";
+  const wanted = options.tag === undefined ? undefined : [options.tag].flat();
+
+  return records
+    .map(({ values, line }, i): TestDataRow => {
+      const { [tagColumn]: rawTags, ...rest } = values;
+      return {
+        values: rest,
+        tags: parseTags(rawTags),
+        source: `${name}:${line || i + 1}`,
+        coerce: options.coerce,
+      };
+    })
+    .filter((row) => !wanted || row.tags.some((tag) => wanted.includes(tag)));
+}
+
+function formatOf(path: string): TestDataFormat {
+  switch (extname(path).toLowerCase()) {
+    case ".csv":
+    case ".tsv":
+      return "csv";
+    case ".json":
+      return "json";
+    case ".ndjson":
+    case ".jsonl":
+      return "ndjson";
+    case ".yaml":
+    case ".yml":
+      return "yaml";
+  }
+  throw new Error(
+    `@testData: cannot infer the format of ${basename(path)} — use .csv, .tsv, .json, .ndjson, .jsonl, .yaml or .yml, or pass { format }`,
+  );
+}
+
+/** RFC 4180 CSV: quoted fields may hold delimiters, `""` and line breaks. */
+function parseCsv(text: string, delimiter: string, name: string) {
+  const lines: Array<{ cells: string[]; line: number }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        if (ch === "\n") line++;
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      cells.push(cell);
+      lines.push({ cells, line: rowLine });
+      cells = [];
+      cell = "";
+      rowLine = ++line;
+    } else {
+      cell += ch;
+    }
+  }
+  if (quoted) {
+    throw new Error(`@testData: unterminated quoted field in ${name}:${rowLine}`);
+  }
+  cells.push(cell);
+  lines.push({ cells, line: rowLine });
+
+  const nonEmpty = lines.filter(({ cells }) => cells.some((c) => c.trim() !== ""));
+  const [header, ...body] = nonEmpty;
+  if (!header) return [];
+  const columns = header.cells.map((c) => c.trim());
+
+  return body.map(({ cells, line }) => {
+    if (cells.length !== columns.length) {
+      throw new Error(
+        `@testData: ${name}:${line} has ${cells.length} field(s), the header has ${columns.length}`,
+      );
+    }
+    const values: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      // an empty cell leaves the field's initial value
+      if (cells[i] !== "") values[column] = cells[i];
+    });
+    return { values, line };
+  });
+}
+
+function parseNdjson(text: string, name: string) {
+  const records: Array<{ values: Record<string, unknown>; line: number }> = [];
+  text.split(/\r?\n/).forEach((source, i) => {
+    if (source.trim() === "") return;
+    const value = parseJson(source, `${name}:${i + 1}`);
+    if (!isRecord(value)) {
+      throw new Error(`@testData: ${name}:${i + 1} is not a JSON object`);
+    }
+    records.push({ values: value, line: i + 1 });
+  });
+  return records;
+}
+
+function parseJson(text: string, name: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (cause) {
+    throw new Error(`@testData: invalid JSON in ${name}`, { cause });
+  }
+}
+
+/** YAML needs the `yaml` package, resolved from the data file's location. */
+function parseYaml(text: string, path: string): unknown {
+  let yaml: typeof import("yaml");
+  try {
+    yaml = createRequire(path)("yaml");
+  } catch (cause) {
+    throw new Error(`@testData: install "yaml" to load YAML test data (${path})`, { cause });
+  }
+  try {
+    return yaml.parse(text);
+  } catch (cause) {
+    throw new Error(`@testData: invalid YAML in ${basename(path)}`, { cause });
+  }
+}
+
+/** JSON / YAML documents: an array of objects. Lines are unknown — rows are numbered instead. */
+function toRecords(data: unknown, name: string) {
+  if (!Array.isArray(data)) {
+    throw new Error(`@testData: ${name} must hold an array of rows`);
+  }
+  return data.map((value, i) => {
+    if (!isRecord(value)) {
+      throw new Error(`@testData: row ${i + 1} of ${name} is not an object`);
+    }
+    return { values: value, line: 0 };
+  });
+}
+
+/** `"@smoke @regression"`, `"smoke, regression"` or a list → `["@smoke", "@regression"]`. */
+function parseTags(raw: unknown): Tag[] {
+  if (raw === undefined || raw === null) return [];
+  const list = Array.isArray(raw) ? raw.map(String) : String(raw).split(/[\s,]+/);
+  return list
+    .filter((tag) => tag !== "")
+    .map((tag) => (tag.startsWith("@") ? tag : `@${tag}`) as Tag);
+}
+
+/** The coercion matching a field's initial value, if it has one. */
+function inferCoercion(initial: unknown): Coercion | undefined {
+  if (initial instanceof Date) return "date";
+  switch (typeof initial) {
+    case "number":
+    case "boolean":
+    case "bigint":
+    case "string":
+      return typeof initial as Coercion;
+    case "object":
+      return initial === null ? undefined : "json";
+  }
+  return undefined;
+}
+
+const BOOLEANS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  yes: true,
+  no: false,
+  "1": true,
+  "0": false,
+};
+
+function coerce(value: unknown, coercion: Coercion): unknown {
+  if (typeof coercion === "function") return coercion(value);
+  if (value === undefined || value === null) return value;
+  // JSON and YAML values already have a type; only convert text
+  if (typeof value !== "string") {
+    if (coercion === "string") return String(value);
+    if (coercion === "date" && typeof value === "number") return new Date(value);
+    return value;
+  }
+
+  const text = value.trim();
+  switch (coercion) {
+    case "string":
+      return value;
+    case "number": {
+      const number = Number(text);
+      if (text === "" || Number.isNaN(number)) {
+        throw new Error(`"${value}" is not a number`);
+      }
+      return number;
+    }
+    case "boolean": {
+      const bool = BOOLEANS[text.toLowerCase()];
+      if (bool === undefined) {
+        throw new Error(`"${value}" is not a boolean (true/false, yes/no, 1/0)`);
+      }
+      return bool;
+    }
+    case "bigint":
+      try {
+        return BigInt(text);
+      } catch {
+        throw new Error(`"${value}" is not an integer`);
+      }
+    case "date": {
+      const date = new Date(text);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`"${value}" is not a date`);
+      }
+      return date;
+    }
+    case "json":
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new Error(`"${value}" is not valid JSON`);
+      }
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** The file that called into this module — the spec declaring `@testData`. */
+function callerFile(): string | undefined {
+  const prepare = Error.prepareStackTrace;
+  try {
+    Error.prepareStackTrace = (_, stack) => stack;
+    const stack = new Error().stack as unknown as NodeJS.CallSite[];
+    const self = stack[0]?.getFileName();
+    for (const site of stack) {
+      const file = site.getFileName();
+      if (!file || file === self || file.startsWith("node:")) continue;
+      return file.startsWith("file://") ? fileURLToPath(file) : file;
+    }
+    return undefined;
+  } finally {
+    Error.prepareStackTrace = prepare;
+  }
+}
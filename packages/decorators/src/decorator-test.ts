@@ -1,5 +1,6 @@
 import { TestAnnotation, TestDetailsAnnotation } from "@playwright/test";
 import { Annotation } from "./decorator-step";
+import { property } from "./decorator-property";
 
 type Tag = `@${string}`;
 type TestOptions<Cls> = {
@@ -136,7 +137,7 @@ export function test<
       throw new Error("@test decorator can only be used on methods");
     }
 
-    if (!context.metadata!.tests) {
+    if (!Object.hasOwn(context.metadata!, "tests")) {
       context.metadata!.tests = [];
     }
 
@@ -333,7 +334,7 @@ test.each = function <const T, const V extends (...args: any[]) => any>(
     }
 
     // Initialize tests array in metadata if it doesn't exist
-    if (!context.metadata!.tests) {
+    if (!Object.hasOwn(context.metadata!, "tests")) {
       context.metadata!.tests = [];
     }
 
@@ -481,7 +482,7 @@ function testData<
       : ClassFieldDecoratorContext<T, V>,
   ) {
     if (context.kind === "field") {
-      if (!context.metadata!.testDataFields) {
+      if (!Object.hasOwn(context.metadata!, "testDataFields")) {
         context.metadata!.testDataFields = [];
       }
       (context.metadata!.testDataFields as string[]).push(
@@ -490,7 +491,7 @@ function testData<
       return target;
     }
     if (context.kind === "method") {
-      if (!context.metadata!.testDataMethods) {
+      if (!Object.hasOwn(context.metadata!, "testDataMethods")) {
         context.metadata!.testDataMethods = [];
       }
       (context.metadata!.testDataMethods as string[]).push(
@@ -505,3 +506,4 @@ function testData<
 }
 
 test.data = testData;
+test.property = property;
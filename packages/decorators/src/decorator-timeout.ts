@@ -195,7 +195,7 @@ export function timeout(
 
       // Validation 10: Check for duplicate class timeout
       if (
-        context.metadata.classTimeout &&
+        Object.hasOwn(context.metadata, "classTimeout") &&
         context.metadata.classTimeout !== milliseconds
       ) {
         console.warn(
@@ -213,7 +213,7 @@ export function timeout(
         );
       }
 
-      if (!context.metadata.methodTimeouts) {
+      if (!Object.hasOwn(context.metadata, "methodTimeouts")) {
         context.metadata.methodTimeouts = {};
       }
 
@@ -238,7 +238,7 @@ export function timeout(
         );
       }
 
-      if (!context.metadata.fieldTimeouts) {
+      if (!Object.hasOwn(context.metadata, "fieldTimeouts")) {
         context.metadata.fieldTimeouts = {};
       }
 
@@ -201,7 +201,7 @@ export function define(options: UseDefineOptions = {}) {
     };
 
     // Initialize metadata if it doesn't exist
-    if (!context.metadata.fixtureDefinitions) {
+    if (!Object.hasOwn(context.metadata, "fixtureDefinitions")) {
       context.metadata.fixtureDefinitions = [];
     }
 
@@ -1,3 +1,5 @@
+import { pageObjectInfo } from "./decorator-page-object";
+
 /**
  * Decorator for using/configuring fixtures at test or class level.
  *
@@ -24,7 +26,13 @@
  * - Type-safe fixture configuration
  * - Composable with other decorators
  *
- * @param options - Fixture options to configure (e.g., viewport, locale, etc.)
+ * **Page Objects:**
+ * On a field, `@use` takes a `@pageObject` or `@component` class instead of
+ * options. Every test gets a fresh instance of it, built from the test's `page`
+ * before any hook runs.
+ *
+ * @param options - Fixture options to configure (e.g., viewport, locale, etc.),
+ *   or a `@pageObject` / `@component` class on a field
  * @param scope - Optional fixture scope: 'test' | 'worker' | 'auto' (default: 'test')
  *
  * @example
@@ -50,6 +58,19 @@
  * }
  *
  * @example
+ * // Page object injected into every test
+ * *\@describe("Login")
+ * class LoginTests extends BaseTest {
+ *   *\@use(LoginPage)
+ *   loginPage!: LoginPage;
+ *
+ *   *\@test("logs in")
+ *   async testLogin() {
+ *     await this.loginPage.login("user@example.com");
+ *   }
+ * }
+ *
+ * @example
  * // Worker-scoped fixtures
  * *\@describe("Debug Tests")
  * *\@use({ headless: false }, 'worker')
@@ -61,17 +82,36 @@
  * }
  */
 export function use<T = any>(
-  options: Record<string, any>,
+  options: Record<string, any> | (abstract new (...args: any[]) => object),
   scope?: "test" | "worker" | "auto",
 ) {
   return function (
     target: any,
-    context: ClassDecoratorContext | ClassMethodDecoratorContext,
+    context:
+      | ClassDecoratorContext
+      | ClassMethodDecoratorContext
+      | ClassFieldDecoratorContext,
   ) {
+    if (context.kind === "field") {
+      // Field-level @use - a page object or component built for every test
+      if (typeof options !== "function" || !pageObjectInfo(options)) {
+        throw new Error(
+          `@use on the field "${String(context.name)}" needs a @pageObject or @component class`,
+        );
+      }
+      if (!Object.hasOwn(context.metadata, "pageObjects")) {
+        context.metadata.pageObjects = {};
+      }
+      (context.metadata.pageObjects as Record<string, Function>)[
+        context.name as string
+      ] = options;
+      return;
+    }
+
     if (context.kind === "class") {
       // Class-level @use - applies to all tests in the class
       const metadata = context.metadata as any;
-      if (!metadata.classUse) {
+      if (!Object.hasOwn(metadata, "classUse")) {
         metadata.classUse = [];
       }
       metadata.classUse.push({ options, scope: scope || "test" });
@@ -81,7 +121,7 @@ export function use<T = any>(
       const metadata = context.metadata as any;
       const methodName = context.name as string;
 
-      if (!metadata.methodUse) {
+      if (!Object.hasOwn(metadata, "methodUse")) {
         metadata.methodUse = {};
       }
       if (!metadata.methodUse[methodName]) {
@@ -91,7 +131,7 @@ export function use<T = any>(
       return target;
     }
 
-    throw new Error("@use decorator can only be used on classes or methods");
+    throw new Error("@use decorator can only be used on classes, methods or fields");
   };
 }
 
@@ -6,6 +6,8 @@ export {
   DEFAULT_PWSELF_KEYS,
 } from "./decorator-describe";
 export { makeDecorators } from "./makeDecorators";
+export { mixin } from "./mixin";
+export { arb, Arbitrary } from "./decorator-property";
 export { expect } from "@playwright/test";
 
 export * as pwTest from "@playwright/test";
@@ -15,6 +17,7 @@ export const {
   param,
   describe,
   test,
+  testData,
   beforeEach,
   beforeAll,
   afterEach,
@@ -30,8 +33,24 @@ export const {
   timeout,
   before,
   after,
+  pageObject,
+  component,
+  locator,
 } = makeDecorators(baseTest);
 
+// Export types for @testData
+export type {
+  TestDataOptions,
+  TestDataFormat,
+  Coercion,
+} from "./decorator-test-data";
+
+// Export types for @test.property
+export type { PropertyOptions } from "./decorator-property";
+
+// Export types for @pageObject / @component
+export type { Selector } from "./decorator-page-object";
+
 // Export types for use.define
 export type {
   UseDefineOptions,
@@ -2,6 +2,7 @@ import { TestType, test as baseTest } from "@playwright/test";
 
 import { makeDescribe } from "./decorator-describe";
 import { test } from "./decorator-test";
+import { testData } from "./decorator-test-data";
 import { param } from "./decorator-parameter";
 import { makeStep } from "./decorator-step";
 import { annotate } from "./decorator-annotate";
@@ -20,6 +21,7 @@ import {
 } from "./decorator-lifecycle";
 import { makeBaseTest } from "./baseTest";
 import { before, after } from "./decorator-before-after";
+import { pageObject, component, locator } from "./decorator-page-object";
 
 type OptsInfered<T extends TestType<any, any>> =
   T extends TestType<infer O1, infer O2> ? O1 & O2 : {};
@@ -59,6 +61,7 @@ export function makeDecorators<
     step: makeStep<T>(pwTest),
     BaseTest: makeBaseTest<T>(pwTest, fixtureStrings),
     test,
+    testData,
     param,
     afterAll,
     afterEach,
@@ -74,5 +77,8 @@ export function makeDecorators<
     before,
     after,
     timeout,
+    pageObject,
+    component,
+    locator,
   };
 }
@@ -0,0 +1,45 @@
+/**
+ * Key of a class's decorator metadata: `Symbol.metadata`, or the
+ * `Symbol.for("Symbol.metadata")` fallback that TypeScript helpers, Babel and
+ * esbuild use on runtimes without it.
+ */
+export const kMetadata: symbol =
+  Symbol.metadata ?? Symbol.for("Symbol.metadata");
+
+/** Own metadata key of a class created by `mixin()`: the classes it mixes. */
+export const kMixins = Symbol("mixins");
+
+/**
+ * The decorator metadata of a class and all its ancestors, root first.
+ *
+ * A subclass's metadata object inherits from its parent's, but every
+ * decorator writes into its own class's containers — so each entry holds
+ * exactly the decorators of one class. The classes mixed by `mixin()` are
+ * spliced in before the mixin itself; a class reached twice (a common base of
+ * two mixed classes) is listed once, at its first position.
+ */
+export function metadataChain(
+  metadata: DecoratorMetadataObject | null | undefined,
+): DecoratorMetadataObject[] {
+  const chain: DecoratorMetadataObject[] = [];
+  const visit = (level: DecoratorMetadataObject | null | undefined) => {
+    if (!level || level === Object.prototype || chain.includes(level)) return;
+    visit(Object.getPrototypeOf(level));
+    if (Object.hasOwn(level, kMixins)) {
+      for (const base of level[kMixins] as Function[]) {
+        visit((base as any)[kMetadata]);
+      }
+    }
+    if (!chain.includes(level)) chain.push(level);
+  };
+  visit(metadata);
+  return chain;
+}
+
+/** `metadata[key]` if this class's decorators set it, not inherited from a parent. */
+export function ownMetadata<T>(
+  metadata: DecoratorMetadataObject,
+  key: string,
+): T | undefined {
+  return Object.hasOwn(metadata, key) ? (metadata[key] as T) : undefined;
+}
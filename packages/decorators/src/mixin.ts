@@ -0,0 +1,107 @@
+import { kMetadata, kMixins } from "./metadata";
+
+type Constructor = abstract new () => object;
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (value: U) => void : never
+) extends (value: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Composes several classes into one base class for a test suite.
+ *
+ * The `@describe` suite extending the result inherits the tests, lifecycle
+ * hooks, `@use` fixtures and `@param` fields of every mixed class and their
+ * ancestors, in argument order — hooks of the first class run first. A class
+ * shared by several of them (a common `BaseTest`) is included once. Methods
+ * and fields with the same name are taken from the last class that has them.
+ *
+ * **Limitations:**
+ * - Each mixed class is constructed with no arguments and its fields copied,
+ *   so constructors must not depend on `this` identity
+ * - Methods using `#private` members fail, the instance is not of that class
+ * - `instanceof` is `false` for the mixed classes
+ *
+ * @param bases - The classes to compose, at least one
+ *
+ * @returns A class with the members of all `bases`
+ *
+ * @example
+ * class WithCart extends BaseTest {
+ *   *\@beforeEach()
+ *   async fillCart() { ... }
+ * }
+ *
+ * class WithCoupons extends BaseTest {
+ *   *\@test("applies a coupon")
+ *   async coupon() { ... }
+ * }
+ *
+ * *\@describe("PayPal checkout")
+ * class PayPalCheckoutTests extends mixin(WithCart, WithCoupons) {
+ *   *\@test("pays with PayPal")
+ *   async pay() { ... }
+ * }
+ */
+export function mixin<const Bases extends readonly [Constructor, ...Constructor[]]>(
+  ...bases: Bases
+): new () => UnionToIntersection<InstanceType<Bases[number]>> {
+  if (bases.length === 0) {
+    throw new Error("mixin() needs at least one class");
+  }
+
+  class Mixin {
+    constructor() {
+      for (const base of bases) {
+        Object.assign(this, Reflect.construct(base, []));
+      }
+    }
+  }
+
+  for (const base of bases) {
+    for (const cls of classHierarchy(base)) {
+      for (const key of Reflect.ownKeys(cls.prototype)) {
+        if (key === "constructor") continue;
+        Object.defineProperty(
+          Mixin.prototype,
+          key,
+          Object.getOwnPropertyDescriptor(cls.prototype, key)!,
+        );
+      }
+      // Static methods — @beforeAll/@afterAll hooks — keep their own class as `this`
+      for (const key of Object.getOwnPropertyNames(cls)) {
+        const value = (cls as any)[key];
+        if (typeof value === "function" && key !== "prototype") {
+          Object.defineProperty(Mixin, key, {
+            value: value.bind(cls),
+            configurable: true,
+            writable: true,
+          });
+        }
+      }
+    }
+  }
+
+  const metadata = Object.create(null);
+  metadata[kMixins] = bases;
+  Object.defineProperty(Mixin, kMetadata, {
+    value: metadata,
+    configurable: true,
+  });
+
+  return Mixin as any;
+}
+
+/** A class and its ancestors, root first. */
+function classHierarchy(cls: Function): Function[] {
+  const hierarchy: Function[] = [];
+  for (
+    let current = cls;
+    current && current !== Function.prototype;
+    current = Object.getPrototypeOf(current)
+  ) {
+    hierarchy.unshift(current);
+  }
+  return hierarchy;
+}
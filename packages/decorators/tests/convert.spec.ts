@@ -0,0 +1,469 @@
+import { test, expect } from "@playwright/test";
+import { spawnSync } from "node:child_process";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { formatIssue, toDecorators, toFunctional } from "../bin/convert-lib";
+
+/** Source text without the indentation of the template literal it is written in. */
+function code(strings: TemplateStringsArray): string {
+  const lines = strings.join("").replace(/^\n/, "").split("\n");
+  const depth = Math.min(
+    ...lines.filter((line) => line.trim()).map((line) => /^ */.exec(line)![0].length),
+  );
+  return lines.map((line) => line.slice(depth)).join("\n").replace(/\n *$/, "\n");
+}
+
+test.describe("convert: functional to decorators", () => {
+  test("converts a suite with hooks, details and steps", () => {
+    const result = toDecorators(code`
+      import { test, expect } from "@playwright/test";
+
+      test.describe("Login form", () => {
+        test.describe.configure({ retries: 2 });
+        test.use({ locale: "de-DE" });
+
+        const EMAIL = "user@example.com";
+
+        test.beforeEach(async ({ page }) => {
+          await page.goto("/login");
+        });
+
+        test("logs in", { tag: "@smoke", annotation: { type: "issue", description: "#12" } }, async ({ page }) => {
+          await test.step("fill the form", async () => {
+            await page.fill("#email", EMAIL);
+          });
+          await expect(page).toHaveTitle("Welcome");
+        });
+
+        test.fixme("rejects bad passwords", async ({ page: p }, testInfo) => {
+          testInfo.annotations.push({ type: "flaky" });
+          await expect(p.locator(".error")).toBeVisible();
+        });
+      });
+    `);
+
+    expect(result.issues).toEqual([]);
+    expect(result.changed).toBe(true);
+    expect(result.code).toBe(code`
+      import { test as pwTest, expect } from "@playwright/test";
+      import { BaseTest, annotate, beforeEach, describe, fixme, step, tag, test, use } from "@playwright-labs/decorators";
+
+      const EMAIL = "user@example.com";
+
+      @describe("Login form", { retries: 2 })
+      @use({ locale: "de-DE" })
+      class LoginFormTests extends BaseTest {
+        @beforeEach()
+        async beforeEach() {
+          await this.page.goto("/login");
+        }
+
+        @tag("smoke")
+        @annotate("issue", "#12")
+        @test("logs in")
+        async logsIn() {
+          await this.fillTheForm();
+          await expect(this.page).toHaveTitle("Welcome");
+        }
+
+        @step("fill the form")
+        async fillTheForm() {
+          await this.page.fill("#email", EMAIL);
+        }
+
+        @fixme()
+        @test("rejects bad passwords")
+        async rejectsBadPasswords() {
+          pwTest.info().annotations.push({ type: "flaky" });
+          await expect(this.page.locator(".error")).toBeVisible();
+        }
+      }
+    `);
+  });
+
+  test("wires custom fixtures with makeDecorators()", () => {
+    const result = toDecorators(code`
+      import { test, expect } from "./fixtures";
+
+      test.describe.serial("Cart", () => {
+        test.setTimeout(60_000);
+
+        test("adds items", async ({ cart }) => {
+          await cart.add(3);
+          expect(await cart.count()).toBe(3);
+        });
+      });
+    `);
+
+    expect(result.code).toBe(code`
+      import { test as baseTest, expect } from "./fixtures";
+      import { makeDecorators } from "@playwright-labs/decorators";
+
+      const { BaseTest, describe, test } = makeDecorators(
+        baseTest,
+        ({ cart }) => ({ cart }),
+      );
+
+      @describe("Cart", { mode: "serial", timeout: 60_000 })
+      class CartTests extends BaseTest {
+        @test("adds items")
+        async addsItems() {
+          await this.cart.add(3);
+          expect(await this.cart.count()).toBe(3);
+        }
+      }
+    `);
+  });
+
+  test("keeps steps using the test's variables inline", () => {
+    const result = toDecorators(code`
+      import { test, expect } from "@playwright/test";
+
+      test.describe("Search", () => {
+        test("finds results", async ({ page }) => {
+          const query = "playwright";
+          await test.step("search", async () => {
+            await page.fill("#q", query);
+          });
+        });
+      });
+    `);
+
+    expect(result.code).toContain(`await pwTest.step("search", async () => {
+      await this.page.fill("#q", query);
+    });`);
+    expect(result.issues).toEqual([
+      {
+        severity: "warning",
+        line: 6,
+        column: 11,
+        message: 'Step "search" stays inline: it uses query of the test',
+      },
+    ]);
+  });
+
+  test("reports and keeps what has no decorator equivalent", () => {
+    const source = code`
+      import { test } from "@playwright/test";
+
+      test("top level", async () => {});
+
+      test.describe("Profile", () => {
+        let name: string;
+        test.beforeEach(() => {
+          name = "x";
+        });
+      });
+
+      test.describe("Outer", () => {
+        test.describe("Inner", () => {});
+      });
+
+      test.describe("Settings", () => {
+        test("saves", async ({ page }) => {
+          await page.click("#save");
+        });
+      });
+    `;
+    const result = toDecorators(source);
+
+    expect(result.issues.map((issue) => [issue.line, issue.message])).toEqual([
+      [3, "Top-level test() is kept — wrap it in test.describe() to convert it"],
+      [
+        6,
+        "Variables shared by hooks and tests have no decorator equivalent; use fields set in @beforeEach — the suite is kept",
+      ],
+      [13, "Nested test.describe() has no decorator equivalent — the suite is kept"],
+    ]);
+    expect(result.issues.every((issue) => issue.severity === "error")).toBe(true);
+    // The kept code still uses Playwright's `test`
+    expect(result.code).toContain(
+      'import { BaseTest, describe, test as testCase } from "@playwright-labs/decorators";',
+    );
+    expect(result.code).toContain('test("top level", async () => {});');
+    expect(result.code).toContain('@testCase("saves")');
+    expect(toDecorators(result.code).issues).toHaveLength(3);
+  });
+
+  test("reports fixtures it cannot rewrite", () => {
+    const result = toDecorators(code`
+      import { test } from "@playwright/test";
+
+      test.describe("Links", () => {
+        test("open", async ({ page }) => {
+          setTimeout(function () {
+            page.close();
+          });
+        });
+      });
+    `);
+    expect(result.changed).toBe(false);
+    expect(result.issues).toEqual([
+      {
+        severity: "error",
+        line: 6,
+        column: 7,
+        message: 'Fixture "page" is used inside a nested function — the suite is kept',
+      },
+    ]);
+  });
+});
+
+test.describe("convert: decorators to functional", () => {
+  test("converts a class with steps, hooks and decorators", () => {
+    const result = toFunctional(code`
+      import { describe, test, step, tag, slow, beforeEach, BaseTest } from "@playwright-labs/decorators";
+      import { expect } from "@playwright/test";
+
+      @describe("Cart", { mode: "serial" })
+      class CartTests extends BaseTest {
+        @beforeEach()
+        async open() {
+          await this.openCart();
+        }
+
+        @step("open the cart")
+        async openCart() {
+          await this.page.goto("/cart");
+        }
+
+        @step("add $0 items")
+        async addItems(count: number) {
+          await this.openCart();
+          await this.page.fill("#count", String(count));
+        }
+
+        @tag("smoke", "cart")
+        @slow("big cart")
+        @test("adds items")
+        async adds() {
+          await this.addItems(3);
+          expect(this.testSelf.info().title).toBe("adds items");
+        }
+      }
+    `);
+
+    expect(result.issues).toEqual([]);
+    expect(result.code).toBe(code`
+      import { test, expect } from "@playwright/test";
+
+      type Fixtures = Parameters<Parameters<typeof test>[2]>[0];
+
+      test.describe("Cart", () => {
+        test.describe.configure({ mode: "serial" });
+
+        test.beforeEach(async ({ page }) => {
+          await openCart({ page });
+        });
+
+        async function openCart({ page }: Pick<Fixtures, "page">) {
+          return test.step("open the cart", async () => {
+            await page.goto("/cart");
+          });
+        }
+
+        async function addItems({ page }: Pick<Fixtures, "page">, count: number) {
+          return test.step(\`add \${count} items\`, async () => {
+            await openCart({ page });
+            await page.fill("#count", String(count));
+          });
+        }
+
+        test("adds items", { tag: ["@smoke", "@cart"] }, async ({ page }) => {
+          test.slow(true, "big cart");
+          await addItems({ page }, 3);
+          expect(test.info().title).toBe("adds items");
+        });
+      });
+    `);
+  });
+
+  test("converts classes of makeDecorators() back to the custom test", () => {
+    const result = toFunctional(code`
+      import { test as baseTest } from "./fixtures";
+      import { makeDecorators } from "@playwright-labs/decorators";
+
+      const { describe, test, skip, BaseTest } = makeDecorators(
+        baseTest,
+        ({ cart }) => ({ cart }),
+      );
+
+      @describe()
+      class CartTests extends BaseTest {
+        @skip("flaky")
+        @test("adds items")
+        async adds() {
+          await this.cart.add(3);
+        }
+      }
+    `);
+
+    expect(result.code).toBe(code`
+      import { test as baseTest } from "./fixtures";
+
+      baseTest.describe("CartTests", () => {
+        baseTest.skip("adds items", async ({ cart }) => {
+          await cart.add(3);
+        });
+      });
+    `);
+    expect(result.issues.map((issue) => issue.message)).toEqual([
+      "The reason of @skip is dropped",
+    ]);
+  });
+
+  test("reports and keeps classes it cannot convert", () => {
+    const result = toFunctional(code`
+      import { describe, test, BaseTest } from "@playwright-labs/decorators";
+
+      @describe("Counter")
+      class CounterTests extends BaseTest {
+        count = 0;
+
+        @test("counts")
+        async counts() {}
+      }
+
+      @describe("Data")
+      class DataTests extends BaseTest {
+        @test.each([[1], [2]], "n = $0")
+        async each(n: number) {}
+      }
+
+      @describe("Simple")
+      class SimpleTests extends BaseTest {
+        @test("works")
+        async works() {
+          await this.page.goto("/");
+        }
+      }
+    `);
+
+    expect(result.issues.map((issue) => [issue.line, issue.severity, issue.message])).toEqual([
+      [5, "error", 'Field "count" holds state that test.describe() has no place for — the class is kept'],
+      [13, "error", "@test.each data-driven tests are not converted — the class is kept"],
+    ]);
+    expect(result.code).toContain(
+      'import { test as pwTest } from "@playwright/test";\nimport { describe, test, BaseTest } from "@playwright-labs/decorators";',
+    );
+    expect(result.code).toContain(`pwTest.describe("Simple", () => {
+  pwTest("works", async ({ page }) => {
+    await page.goto("/");
+  });
+});`);
+  });
+
+  test("round-trips a suite", () => {
+    const source = code`
+      import { test, expect } from "@playwright/test";
+
+      test.describe("Home", () => {
+        // Smoke test of the landing page
+        test("shows the title", { tag: "@smoke" }, async ({ page }) => {
+          await page.goto("/");
+          await expect(page).toHaveTitle("Home");
+        });
+      });
+    `;
+    const decorated = toDecorators(source);
+    const functional = toFunctional(decorated.code);
+    expect(functional.issues).toEqual([]);
+    expect(functional.code).toBe(code`
+      import { test, expect } from "@playwright/test";
+
+      test.describe("Home", () => {
+        // Smoke test of the landing page
+        test("shows the title", { tag: "@smoke" }, async ({ page }) => {
+          await page.goto("/");
+          await expect(page).toHaveTitle("Home");
+        });
+      });
+    `);
+  });
+});
+
+test.describe("convert CLI", () => {
+  function runConvert(...args: string[]) {
+    return spawnSync("pnpm", ["exec", "tsx", "bin/cli.ts", "convert", ...args], {
+      cwd: resolve(dirname(test.info().file), ".."),
+      encoding: "utf8",
+    });
+  }
+
+  test("writes the converted files and reports issues", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "decorators-convert-"));
+    try {
+      const file = join(dir, "home.spec.ts");
+      await writeFile(
+        file,
+        code`
+          import { test } from "@playwright/test";
+
+          test("top level", async () => {});
+
+          test.describe("Home", () => {
+            test("opens", async ({ page }) => {
+              await page.goto("/");
+            });
+          });
+        `,
+      );
+
+      const result = runConvert(file, "--to", "decorators", "--write", "--strict");
+      expect(result.stderr).toContain(
+        formatIssue(file, {
+          severity: "error",
+          line: 3,
+          column: 1,
+          message: "Top-level test() is kept — wrap it in test.describe() to convert it",
+        }),
+      );
+      expect(result.stderr).toContain(`✔ converted ${file}`);
+      expect(result.status).toBe(1);
+      expect(await readFile(file, "utf8")).toContain('@testCase("opens")');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("keeps the relative paths of files with the same name in --out-dir", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "decorators-convert-"));
+    try {
+      const spec = (title: string) => code`
+        import { test } from "@playwright/test";
+
+        test.describe("TITLE", () => {
+          test("opens", async ({ page }) => {
+            await page.goto("/");
+          });
+        });
+      `.replace("TITLE", title);
+      await mkdir(join(dir, "tests", "a"), { recursive: true });
+      await mkdir(join(dir, "tests", "b"), { recursive: true });
+      await writeFile(join(dir, "tests", "a", "login.spec.ts"), spec("A"));
+      await writeFile(join(dir, "tests", "b", "login.spec.ts"), spec("B"));
+
+      const out = join(dir, "out");
+      const result = runConvert(
+        join(dir, "tests", "a", "login.spec.ts"),
+        join(dir, "tests", "b", "login.spec.ts"),
+        "--to",
+        "decorators",
+        "--out-dir",
+        out,
+      );
+      expect(result.status).toBe(0);
+      expect(await readFile(join(out, "a", "login.spec.ts"), "utf8")).toContain('@describe("A")');
+      expect(await readFile(join(out, "b", "login.spec.ts"), "utf8")).toContain('@describe("B")');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("rejects an unknown target", () => {
+    const result = runConvert("tests/convert.spec.ts", "--to", "classes");
+    expect(result.status).toBe(1);
+    expect(result.stderr).toContain('Unknown target "classes"');
+  });
+});
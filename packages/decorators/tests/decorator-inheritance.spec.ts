@@ -0,0 +1,290 @@
+import { test as pwTest, expect } from "@playwright/test";
+import { makeDecorators } from "../src/makeDecorators";
+import { makeDescribe } from "../src/decorator-describe";
+import { mixin } from "../src/mixin";
+import { test } from "../src/decorator-test";
+import { param } from "../src/decorator-parameter";
+import { tag } from "../src/decorator-tag";
+import { use } from "../src/decorator-use";
+import { step } from "../src/decorator-step";
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+} from "../src/decorator-lifecycle";
+
+// Only option fixtures, so the suites run without a browser
+const { describe, BaseTest } = makeDecorators(pwTest, ({ locale }) => ({
+  locale,
+}));
+
+/** A Playwright test stand-in recording what `@describe` registers. */
+function recorder() {
+  const suites: string[] = [];
+  const tests: string[] = [];
+  const configured: object[] = [];
+  const fake: any = (title: string) => tests.push(title);
+  fake.skip = fake.fixme = fake;
+  fake.describe = (title: string, body: () => void) => {
+    suites.push(title);
+    body();
+  };
+  fake.describe.configure = (options: object) => configured.push(options);
+  fake.use = fake.beforeAll = fake.afterAll = () => {};
+  return { describe: makeDescribe(fake, []), suites, tests, configured };
+}
+
+// ===== Hooks run parent → child, inherited tests and fixtures =====
+
+@use({ locale: "de-DE" })
+class BaseCheckoutTests extends BaseTest {
+  log: string[] = [];
+
+  @param()
+  provider = "none";
+
+  @beforeEach()
+  openCart() {
+    this.log.push("base:openCart");
+  }
+
+  @beforeEach()
+  login() {
+    this.log.push("base:login");
+  }
+
+  @afterEach()
+  closeCart() {
+    this.log.push("base:closeCart");
+  }
+
+  @step("pay with $provider")
+  async payWith() {
+    this.log.push(`pay:${this.provider}`);
+  }
+
+  @test("checkout with $provider")
+  async checkout() {
+    await this.payWith();
+    expect(this.log[0]).toBe("base:openCart");
+    expect(this.log.slice(2)).toEqual([
+      "child:selectProvider",
+      `pay:${this.provider}`,
+    ]);
+  }
+
+  @tag("refund")
+  @test("refund with $provider")
+  async refund() {
+    expect(pwTest.info().title).toBe(`refund with ${this.provider}`);
+  }
+}
+
+@describe("inheritance: Stripe checkout")
+class StripeCheckoutTests extends BaseCheckoutTests {
+  provider = "stripe";
+
+  @beforeEach()
+  selectProvider() {
+    this.log.push("child:selectProvider");
+  }
+
+  @test("inherits class-level @use fixtures")
+  async fixtures() {
+    expect(this.locale).toBe("de-DE");
+  }
+}
+
+@describe("inheritance: PayPal checkout")
+class PayPalCheckoutTests extends BaseCheckoutTests {
+  provider = "paypal";
+
+  @beforeEach()
+  selectProvider() {
+    this.log.push("child:selectProvider");
+  }
+
+  // Overridden, not redecorated: one test, running the subclass's method
+  async refund() {
+    expect(pwTest.info().title).toBe("refund with paypal");
+    expect(pwTest.info().annotations).toContainEqual({
+      type: "tag",
+      description: "@refund",
+    });
+  }
+
+  // Overridden hook: runs once, in the parent's place
+  login() {
+    this.log.push("child:login");
+  }
+
+  @test("overridden hook runs in the parent's place")
+  async hookOrder() {
+    expect(this.log).toEqual([
+      "base:openCart",
+      "child:login",
+      "child:selectProvider",
+    ]);
+  }
+}
+
+// ===== Mixins =====
+
+class WithCart extends BaseTest {
+  static opened = 0;
+  cart: string[] = [];
+
+  @param()
+  currency = "EUR";
+
+  @beforeAll()
+  static openShop() {
+    this.opened++;
+  }
+
+  @beforeEach()
+  fillCart() {
+    this.cart.push("book");
+  }
+}
+
+class WithCoupons extends BaseTest {
+  coupon = "";
+
+  @beforeEach()
+  applyCoupon() {
+    this.coupon = `SAVE-${this.cart.length}`;
+  }
+
+  @test("coupon in $currency")
+  async couponTest() {
+    expect(this.coupon).toBe("SAVE-1");
+    expect(pwTest.info().title).toBe("coupon in EUR");
+  }
+}
+
+interface WithCoupons extends WithCart {}
+
+@describe("inheritance: mixins")
+class MixedCheckoutTests extends mixin(WithCart, WithCoupons) {
+  @test("hooks of all mixed classes, in order")
+  async mixed() {
+    expect(this.cart).toEqual(["book"]);
+    expect(this.coupon).toBe("SAVE-1");
+    expect(WithCart.opened).toBe(1); // static hook ran on its own class
+  }
+}
+
+// ===== Registration rules =====
+
+pwTest.describe("inheritance: registration", () => {
+  pwTest("subclass tests come after inherited ones", () => {
+    const { describe, tests } = recorder();
+    class Base {
+      @test("a") a() {}
+      @test("b") b() {}
+    }
+    @describe("Child")
+    class Child extends Base {
+      @test("c") c() {}
+    }
+    expect(tests).toEqual(["a", "b", "c"]);
+  });
+
+  pwTest("a redecorated override replaces the parent's tests in place", () => {
+    const { describe, tests } = recorder();
+    class Base {
+      @test("a") a() {}
+      @test.each([[1], [2]], "b $1") b(_n: number) {}
+      @test("c") c() {}
+    }
+    @describe("Child")
+    class Child extends Base {
+      @test("b overridden") b() {}
+    }
+    expect(tests).toEqual(["a", "b overridden", "c"]);
+  });
+
+  pwTest("sibling suites do not see each other's tests", () => {
+    const { describe, tests } = recorder();
+    class Base {
+      @test("shared") shared() {}
+    }
+    @describe("One")
+    class One extends Base {
+      @test("one") one() {}
+    }
+    @describe("Two")
+    class Two extends Base {
+      @test("two") two() {}
+    }
+    expect(tests).toEqual(["shared", "one", "shared", "two"]);
+  });
+
+  pwTest("a registered parent keeps only its own tests", () => {
+    const { describe, suites, tests } = recorder();
+    @describe("Parent")
+    class Parent {
+      @test("parent") parent() {}
+    }
+    @describe("Child")
+    class Child extends Parent {
+      @test("child") child() {}
+    }
+    expect(suites).toEqual(["Parent", "Child"]);
+    expect(tests).toEqual(["parent", "parent", "child"]);
+  });
+
+  pwTest("abstract suites are never registered; their options are defaults", () => {
+    const { describe, suites, tests, configured } = recorder();
+    @describe.abstract({ mode: "serial", retries: 2 })
+    abstract class Checkout {
+      @test("pay") pay() {}
+    }
+    @describe("Card", { retries: 0 })
+    class Card extends Checkout {}
+    expect(suites).toEqual(["Card"]);
+    expect(tests).toEqual(["pay"]);
+    expect(configured).toEqual([{ mode: "serial", retries: 0 }]);
+  });
+
+  pwTest("mixins include a shared base once, in argument order", () => {
+    const { describe, tests } = recorder();
+    class Shared {
+      @test("shared") shared() {}
+    }
+    class A extends Shared {
+      @test("a") a() {}
+    }
+    class B extends Shared {
+      @test("b") b() {}
+    }
+    @describe("AB")
+    class AB extends mixin(A, B) {
+      @test("ab") ab() {}
+    }
+    expect(tests).toEqual(["shared", "a", "b", "ab"]);
+  });
+
+  pwTest("mixin copies fields and methods, the last class wins", () => {
+    class A {
+      name = "a";
+      which() {
+        return "a";
+      }
+      onlyA() {
+        return this.name;
+      }
+    }
+    class B {
+      name = "b";
+      which() {
+        return "b";
+      }
+    }
+    const instance = new (mixin(A, B))();
+    expect(instance.name).toBe("b");
+    expect(instance.which()).toBe("b");
+    expect(instance.onlyA()).toBe("b");
+  });
+});
@@ -0,0 +1,248 @@
+import { test as pwTest, expect, type Locator, type Page } from "@playwright/test";
+import { makeDecorators } from "../src/makeDecorators";
+import { test } from "../src/decorator-test";
+import { use } from "../src/decorator-use";
+import { step } from "../src/decorator-step";
+import { beforeEach } from "../src/decorator-lifecycle";
+import { component, locator, pageObject } from "../src/decorator-page-object";
+
+/** Locator stand-in: remembers its selector chain and its page. */
+class FakeLocator {
+  constructor(
+    readonly selector: string,
+    readonly owner: FakePage,
+  ) {}
+  locator(selector: string) {
+    return new FakeLocator(`${this.selector} >> ${selector}`, this.owner);
+  }
+  getByLabel(label: string) {
+    return new FakeLocator(`${this.selector} >> label=${label}`, this.owner);
+  }
+  page() {
+    return this.owner;
+  }
+}
+
+/** Page stand-in counting the locators created from it. */
+class FakePage {
+  created = 0;
+  locator(selector: string) {
+    this.created++;
+    return new FakeLocator(selector, this);
+  }
+  getByLabel(label: string) {
+    return new FakeLocator(`label=${label}`, this);
+  }
+}
+
+const selectorOf = (value: unknown) => (value as FakeLocator).selector;
+
+@component("nav.main")
+class NavBar {
+  page!: Page;
+
+  constructor(readonly root: Locator) {}
+
+  @locator("role=link[name=Home]")
+  home!: Locator;
+
+  async homeSelector() {
+    return selectorOf(this.home);
+  }
+}
+
+@component()
+class DataTable {
+  constructor(readonly root: Locator) {}
+
+  @locator("tbody tr")
+  rows!: Locator;
+}
+
+@pageObject()
+class LoginPage {
+  constructor(readonly page: Page) {}
+
+  @locator("#email")
+  email!: Locator;
+
+  @locator((root) => root.getByLabel("Password"))
+  password!: Locator;
+
+  @locator(NavBar)
+  nav!: NavBar;
+
+  @locator("#users", DataTable)
+  users!: DataTable;
+
+  async emailSelector() {
+    return selectorOf(this.email);
+  }
+
+  @step("log in as $0")
+  async login(_user: string) {
+    return "logged in";
+  }
+
+  title() {
+    return "Login";
+  }
+
+  async _internal() {
+    return "internal";
+  }
+}
+
+// A `page` fixture without a browser
+const fakePageTest = pwTest.extend<{}>({
+  page: async ({}, use) => {
+    await use(new FakePage() as any);
+  },
+});
+const { describe } = makeDecorators(fakePageTest, ({ page }) => ({ page }));
+
+@describe("pageObject: injected with @use")
+class InjectedTests {
+  page!: Page;
+
+  @use(LoginPage)
+  loginPage!: LoginPage;
+
+  @use(NavBar)
+  nav!: NavBar;
+
+  @beforeEach()
+  available() {
+    expect(this.loginPage).toBeInstanceOf(LoginPage);
+  }
+
+  @test("binds the page object to the test's page")
+  async pageObjects() {
+    expect(this.loginPage.page).toBe(this.page);
+    expect(await this.loginPage.emailSelector()).toBe("#email");
+  }
+
+  @test("binds the component to its default root")
+  async components() {
+    expect(this.nav.page).toBe(this.page);
+    expect(selectorOf(this.nav.root)).toBe("nav.main");
+    expect(await this.nav.homeSelector()).toBe(
+      "nav.main >> role=link[name=Home]",
+    );
+  }
+}
+
+pwTest.describe("pageObject: binding", () => {
+  pwTest("page and root default to the first constructor argument", () => {
+    @pageObject()
+    class PlainPage {
+      page!: Page;
+    }
+    @component()
+    class PlainComponent {
+      root!: Locator;
+      page!: Page;
+    }
+    const page = new FakePage();
+    const root = page.locator("main");
+    expect(Reflect.construct(PlainPage, [page]).page).toBe(page);
+    const plainComponent = Reflect.construct(PlainComponent, [root]);
+    expect(plainComponent.root).toBe(root);
+    expect(plainComponent.page).toBe(page);
+    expect(new LoginPage(page as any).title()).toBe("Login");
+  });
+
+  pwTest("locators are created on first access and reused", () => {
+    const page = new FakePage();
+    const loginPage = new LoginPage(page as any);
+    expect(page.created).toBe(0);
+    expect(selectorOf(loginPage.email)).toBe("#email");
+    expect(loginPage.email).toBe(loginPage.email);
+    expect(page.created).toBe(1);
+    expect(selectorOf(loginPage.password)).toBe("label=Password");
+  });
+
+  pwTest("components are rooted at the parent's root", () => {
+    const loginPage = new LoginPage(new FakePage() as any);
+    expect(loginPage.nav).toBeInstanceOf(NavBar);
+    expect(selectorOf(loginPage.nav.root)).toBe("nav.main");
+    expect(selectorOf(loginPage.nav.home)).toBe(
+      "nav.main >> role=link[name=Home]",
+    );
+    expect(loginPage.nav.page).toBe(loginPage.page);
+    expect(selectorOf(loginPage.users.rows)).toBe("#users >> tbody tr");
+  });
+
+  pwTest("subclasses inherit the parent's locators", () => {
+    @pageObject("Admin login")
+    class AdminLoginPage extends LoginPage {
+      @locator("#token")
+      token!: Locator;
+    }
+    const admin = new AdminLoginPage(new FakePage() as any);
+    expect(selectorOf(admin.email)).toBe("#email");
+    expect(selectorOf(admin.token)).toBe("#token");
+  });
+
+  pwTest("public async methods run as steps", async () => {
+    const titles: string[] = [];
+    const original = pwTest.step;
+    pwTest.step = ((title: string, body: () => unknown) => {
+      titles.push(title);
+      return original(title, body as any);
+    }) as typeof pwTest.step;
+    try {
+      const loginPage = new LoginPage(new FakePage() as any);
+      expect(await loginPage.emailSelector()).toBe("#email");
+      expect(await loginPage.login("admin")).toBe("logged in");
+      expect(await loginPage._internal()).toBe("internal");
+      await loginPage.nav.homeSelector();
+    } finally {
+      pwTest.step = original;
+    }
+    expect(titles).toEqual([
+      "LoginPage.emailSelector",
+      "log in as admin",
+      "NavBar.homeSelector",
+    ]);
+  });
+});
+
+pwTest.describe("pageObject: errors", () => {
+  pwTest("a locator needs a page to bind to", () => {
+    const loginPage = new LoginPage(undefined as any);
+    expect(() => loginPage.email).toThrow(
+      "LoginPage.email: nothing to bind the locator to — construct LoginPage with a Page",
+    );
+  });
+
+  pwTest("a component without a default selector needs one", () => {
+    @pageObject()
+    class TablePage {
+      constructor(readonly page: Page) {}
+
+      @locator(DataTable)
+      table!: DataTable;
+    }
+    const tablePage = new TablePage(new FakePage() as any);
+    expect(() => tablePage.table).toThrow(
+      "TablePage.table: @component DataTable has no default selector",
+    );
+  });
+
+  pwTest("@locator and @use only take decorated classes", () => {
+    class Plain {}
+    expect(() => {
+      class WrongLocator {
+        @locator("#x", Plain)
+        field!: Plain;
+      }
+    }).toThrow('@locator(Plain) on "field": Plain is not a @component class');
+    expect(() => {
+      class WrongUse {
+        @use(Plain)
+        field!: Plain;
+      }
+    }).toThrow('@use on the field "field" needs a @pageObject or @component class');
+  });
+});
@@ -0,0 +1,207 @@
+import { test as pwTest, expect } from "@playwright/test";
+import { makeDecorators } from "../src/makeDecorators";
+import { test } from "../src/decorator-test";
+import { param } from "../src/decorator-parameter";
+import { afterEach } from "../src/decorator-lifecycle";
+import {
+  arb,
+  runProperty,
+  type Arbitrary,
+  type PropertyOptions,
+} from "../src/decorator-property";
+
+/** Seedable stand-in for a `Faker` instance: `word()` depends only on the seed. */
+class SeededWords {
+  state = 0;
+  seed(seed: number) {
+    this.state = seed;
+    return seed;
+  }
+  word() {
+    return `word-${this.state % 1000}`;
+  }
+}
+
+// A `faker` fixture, as fixture-faker provides, and no browser
+const fakerTest = pwTest.extend<{ faker: SeededWords }>({
+  faker: async ({}, use) => {
+    await use(new SeededWords());
+  },
+});
+const { describe } = makeDecorators(fakerTest, ({ faker }) => ({ faker }));
+
+@describe("test.property suites")
+class PropertyTests {
+  faker!: SeededWords;
+  calls = 0;
+  seen: string[] = [];
+
+  @param()
+  age = 0;
+
+  @param("nick")
+  nickname = "";
+
+  @test.property(
+    {
+      age: arb.integer({ min: 0, max: 120 }),
+      nick: arb.faker((faker: SeededWords) => faker.word()),
+      tags: arb.array(arb.constantFrom("a", "b"), { maxLength: 3 }),
+    },
+    "age stays in range",
+    { runs: 25, seed: 42 },
+  )
+  ageInRange(values: { age: number; nick: string; tags: string[] }) {
+    this.calls++;
+    this.seen.push(this.nickname);
+    expect(this.age).toBe(values.age);
+    expect(this.nickname).toBe(values.nick);
+    expect(this.age).toBeGreaterThanOrEqual(0);
+    expect(this.age).toBeLessThanOrEqual(120);
+    expect(values.tags.length).toBeLessThanOrEqual(3);
+  }
+
+  @afterEach()
+  checkRuns() {
+    expect(this.calls).toBe(25);
+    expect(new Set(this.seen).size).toBeGreaterThan(1);
+    expect(pwTest.info().annotations).toContainEqual({
+      type: "seed",
+      description: "42",
+    });
+  }
+}
+
+/** Runs a property outside Playwright's runner; returns what it recorded. */
+async function check(
+  arbitraries: Record<string, Arbitrary<unknown>>,
+  predicate: (values: any) => void,
+  options: PropertyOptions = {},
+) {
+  const inputs: any[] = [];
+  const instance = {
+    check(values: unknown) {
+      inputs.push(values);
+      predicate(values);
+    },
+  };
+  const testInfo = { annotations: [] as { type: string; description?: string }[] };
+  const error = await runProperty(
+    instance,
+    "check",
+    { arbitraries, options },
+    {},
+    (_title, body) => body(),
+    testInfo as any,
+  ).then(
+    () => undefined,
+    (e: Error) => e,
+  );
+  return { error, inputs, annotations: testInfo.annotations };
+}
+
+pwTest.describe("test.property runner", () => {
+  pwTest("passes after all runs and records the seed", async () => {
+    const { error, inputs, annotations } = await check(
+      { n: arb.integer({ min: 0, max: 10 }) },
+      ({ n }) => expect(n).toBeLessThanOrEqual(10),
+      { runs: 30, seed: 1 },
+    );
+    expect(error).toBeUndefined();
+    expect(inputs).toHaveLength(30);
+    expect(annotations).toEqual([{ type: "seed", description: "1" }]);
+  });
+
+  pwTest("shrinks an integer to the boundary", async () => {
+    const { error, annotations } = await check(
+      { n: arb.integer({ min: 0, max: 1000 }) },
+      ({ n }) => expect(n).toBeLessThan(50),
+      { seed: 7 },
+    );
+    expect(error?.message).toContain("Counterexample: n = 50");
+    expect(error?.message).toContain("Replay with { seed: 7 }");
+    expect(error?.message).toContain("toBeLessThan");
+    expect(annotations).toEqual([
+      { type: "seed", description: "7" },
+      { type: "counterexample", description: "n = 50" },
+    ]);
+  });
+
+  pwTest("shrinks arrays by dropping and shrinking items", async () => {
+    const { error } = await check(
+      { items: arb.array(arb.integer({ min: 0, max: 100 }), { maxLength: 20 }) },
+      ({ items }) =>
+        expect(items.reduce((a: number, b: number) => a + b, 0)).toBeLessThan(10),
+      { seed: 3 },
+    );
+    expect(error?.message).toContain("Counterexample: items = [ 10 ]");
+  });
+
+  pwTest("shrinks strings to the shortest, simplest failing one", async () => {
+    const { error } = await check(
+      { text: arb.string({ chars: "abx", minLength: 1, maxLength: 30 }) },
+      ({ text }) => expect(text).not.toContain("x"),
+      { seed: 11 },
+    );
+    expect(error?.message).toContain("Counterexample: text = 'x'");
+  });
+
+  pwTest("map and filter keep shrinking", async () => {
+    const even = arb
+      .integer({ min: 0, max: 5_000 })
+      .filter((n) => n !== 1)
+      .map((n) => ({ n: n * 2 }));
+    const { error, inputs } = await check(
+      { value: even },
+      ({ value }) => expect(value.n).toBeLessThan(100),
+      { seed: 5 },
+    );
+    expect(inputs.every(({ value }) => value.n % 2 === 0 && value.n !== 2)).toBe(true);
+    expect(error?.message).toContain("Counterexample: value = { n: 100 }");
+  });
+
+  pwTest("the same seed draws the same inputs", async () => {
+    const arbitraries = {
+      n: arb.integer(),
+      f: arb.float(),
+      s: arb.string(),
+      pair: arb.tuple(arb.boolean(), arb.oneOf(arb.constant(null), arb.integer())),
+      user: arb.record({ name: arb.string({ maxLength: 5 }) }),
+    };
+    const first = await check(arbitraries, () => {}, { runs: 10, seed: 99 });
+    const again = await check(arbitraries, () => {}, { runs: 10, seed: 99 });
+    const other = await check(arbitraries, () => {}, { runs: 10, seed: 100 });
+    expect(again.inputs).toEqual(first.inputs);
+    expect(other.inputs).not.toEqual(first.inputs);
+  });
+
+  pwTest("maxShrinks bounds the shrinking", async () => {
+    const { error, inputs } = await check(
+      { n: arb.integer({ min: 1000, max: 2000 }) },
+      () => expect(true).toBe(false),
+      { seed: 2, maxShrinks: 0 },
+    );
+    expect(inputs).toHaveLength(1);
+    expect(error?.message).toContain(`Counterexample: n = ${inputs[0].n}`);
+    expect(error?.message).toContain("shrunk 0 time(s)");
+  });
+
+  pwTest("arb.faker reseeds the Faker instance on every draw", async () => {
+    const faker = new SeededWords();
+    const words = arb.faker((f: SeededWords) => f.word());
+    const first = await check({ w: words }, () => {}, { runs: 5, seed: 8, faker });
+    const again = await check({ w: words }, () => {}, { runs: 5, seed: 8, faker });
+    expect(again.inputs).toEqual(first.inputs);
+
+    const { error } = await check({ w: words }, () => {}, { seed: 8 });
+    expect(error?.message).toContain("arb.faker() needs a Faker instance");
+  });
+
+  pwTest("arbitraries validate their ranges", () => {
+    expect(() => arb.integer({ min: 5, max: 1 })).toThrow(
+      "arb.integer() needs min <= max, got 5 > 1",
+    );
+    expect(() => arb.constantFrom()).toThrow("needs at least one value");
+    expect(() => arb.oneOf()).toThrow("needs at least one arbitrary");
+  });
+});
@@ -0,0 +1,213 @@
+import { describe } from "../src/decorator-describe";
+import { test } from "../src/decorator-test";
+import { param } from "../src/decorator-parameter";
+import { beforeEach } from "../src/decorator-lifecycle";
+import {
+  testData,
+  applyTestDataRow,
+  type TestDataRow,
+} from "../src/decorator-test-data";
+import { expect, test as pwTest } from "@playwright/test";
+
+/** Runs a `@testData` decorator against a bare method context; returns the generated entries. */
+function entries(decorator: (target: any, context: any) => any) {
+  const metadata: Record<string, any> = {};
+  decorator(() => {}, { kind: "method", name: "check", metadata });
+  return metadata.tests as Array<{ testName: string; dataRow: TestDataRow }>;
+}
+
+// CSV rows mapped onto @param fields, coerced to the fields' initial types
+@describe("testData CSV")
+class CsvTestDataTests {
+  @param("user")
+  username = "";
+
+  @param("password", (pwd: string) => "*".repeat(pwd.length))
+  password = "";
+
+  @param()
+  admin = false;
+
+  @param()
+  age = 18;
+
+  seenInBeforeEach = "";
+
+  @beforeEach()
+  captureUser() {
+    this.seenInBeforeEach = this.username;
+  }
+
+  @testData("./data/logins.csv", "login as $user with $password (admin: $admin, age $age)")
+  check(row: Record<string, unknown>) {
+    const info = pwTest.info();
+    expect(this.seenInBeforeEach).toBe(this.username);
+    expect(typeof this.admin).toBe("boolean");
+    expect(typeof this.age).toBe("number");
+    expect(row.username).toBe(this.username);
+
+    if (this.username === "alice") {
+      expect(this.password).toBe("se,cret");
+      expect(this.admin).toBe(true);
+      expect(this.age).toBe(30);
+      expect(info.title).toBe("login as alice with ******* (admin: true, age 30)");
+      expect(info.tags).toEqual(["@smoke"]);
+    } else if (this.username === "bob") {
+      expect(this.admin).toBe(false);
+      expect(this.age).toBe(18); // empty cell keeps the initial value
+      expect(info.tags).toEqual(["@regression"]);
+    } else {
+      expect(this.username).toBe('carol "c"');
+      expect(this.admin).toBe(true);
+      expect(info.tags).toEqual(["@smoke", "@slow"]);
+    }
+  }
+}
+
+// JSON / NDJSON: columns without a @param are title placeholders and reach the method
+@describe("testData JSON and NDJSON")
+class JsonTestDataTests {
+  @param()
+  id = 0;
+
+  @testData.json("./data/orders.json", "json order $id totals $total", {
+    coerce: { total: "number" },
+  })
+  json(row: Record<string, unknown>) {
+    expect(typeof row.total).toBe("number");
+    expect(Array.isArray(row.items)).toBe(true);
+    expect(pwTest.info().title).toBe(`json order ${this.id} totals ${row.total}`);
+  }
+
+  @testData("./data/orders.ndjson", "ndjson order $id")
+  ndjson(row: Record<string, unknown>) {
+    expect([3, 4]).toContain(this.id);
+    expect(typeof row.total).toBe("string"); // no @param, no coercion
+  }
+}
+
+@describe("testData YAML")
+class YamlTestDataTests {
+  @param()
+  username = "";
+
+  @param()
+  age = 0;
+
+  @param()
+  admin = true;
+
+  @testData.yaml("./data/users.yaml", "yaml user $username")
+  check() {
+    expect(typeof this.age).toBe("number");
+    expect(this.admin).toBe(this.username === "dave");
+  }
+}
+
+// Only rows tagged @smoke
+@describe("testData tag filter")
+class FilteredTestDataTests {
+  @param("user")
+  username = "";
+
+  @testData("./data/logins.csv", "smoke login as $user", { tag: "@smoke" })
+  check() {
+    expect(["alice", 'carol "c"']).toContain(this.username);
+    expect(pwTest.info().tags).toContain("@smoke");
+  }
+}
+
+pwTest.describe("testData loading", () => {
+  pwTest("one entry per row, resolved relative to the spec", () => {
+    const tests = entries(testData("./data/logins.csv", "login as $user"));
+    expect(tests.map((t) => t.testName)).toEqual([
+      "login as $user",
+      "login as $user",
+      "login as $user",
+    ]);
+    expect(tests[0].dataRow.values).toEqual({
+      username: "alice",
+      password: "se,cret",
+      admin: "true",
+      age: "30",
+    });
+    expect(tests[0].dataRow.source).toBe("logins.csv:2");
+    expect(tests[1].dataRow.values).not.toHaveProperty("age");
+  });
+
+  pwTest("title defaults to the method name and row number", () => {
+    const tests = entries(testData("./data/orders.ndjson"));
+    expect(tests.map((t) => t.testName)).toEqual(["check #1", "check #2"]);
+    expect(tests[1].dataRow.source).toBe("orders.ndjson:3");
+  });
+
+  pwTest("tag filter keeps rows with any of the tags", () => {
+    const smoke = entries(testData("./data/logins.csv", "t", { tag: "@smoke" }));
+    expect(smoke).toHaveLength(2);
+    const either = entries(
+      testData("./data/logins.csv", "t", { tag: ["@slow", "@regression"] }),
+    );
+    expect(either.map((t) => t.dataRow.values.username)).toEqual([
+      "bob",
+      'carol "c"',
+    ]);
+  });
+
+  pwTest("custom tag column and delimiter", () => {
+    const tests = entries(
+      testData.csv("./data/logins.csv", "t", { tagColumn: "admin", delimiter: "," }),
+    );
+    expect(tests[0].dataRow.tags).toEqual(["@true"]);
+    expect(tests[0].dataRow.values).toHaveProperty("tags", "@smoke");
+  });
+
+  pwTest("unreadable files and unknown formats throw", () => {
+    expect(() => testData("./data/missing.csv")).toThrow(/cannot read .*missing\.csv/);
+    expect(() => testData("./decorator-tag.spec.ts")).toThrow(
+      /cannot infer the format of decorator-tag\.spec\.ts/,
+    );
+    expect(() => testData.json("./data/logins.csv")).toThrow(/invalid JSON in logins\.csv/);
+  });
+
+  pwTest("a value that does not coerce names the column and row", () => {
+    const row: TestDataRow = { values: { age: "forty" }, tags: [], source: "people.csv:7" };
+    const params = { age: { name: "age", originalName: "age" } };
+    expect(() => applyTestDataRow({ age: 0 }, row, params)).toThrow(
+      '@testData: column "age" in people.csv:7: "forty" is not a number',
+    );
+  });
+
+  pwTest("coercions: boolean words, dates, bigint, JSON and functions", () => {
+    const instance = {
+      active: false,
+      born: new Date(0),
+      big: 0n,
+      meta: {},
+      upper: "",
+    };
+    const params = Object.fromEntries(
+      Object.keys(instance).map((key) => [key, { name: key, originalName: key }]),
+    );
+    const values = applyTestDataRow(
+      instance,
+      {
+        values: {
+          active: "Yes",
+          born: "2020-01-02",
+          big: "9007199254740993",
+          meta: '{"a":1}',
+          upper: "abc",
+        },
+        tags: [],
+        source: "x.csv:2",
+        coerce: { upper: (v) => String(v).toUpperCase() },
+      },
+      params,
+    );
+    expect(instance.active).toBe(true);
+    expect(instance.born.toISOString()).toBe("2020-01-02T00:00:00.000Z");
+    expect(instance.big).toBe(9007199254740993n);
+    expect(instance.meta).toEqual({ a: 1 });
+    expect(values.upper).toBe("ABC");
+  });
+});
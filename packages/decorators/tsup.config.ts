@@ -1,19 +1,33 @@
 import { defineConfig } from "tsup";
 
-export default defineConfig(() => ({
-  entry: ["src/index.ts"],
-  external: ["@playwright/test"],
-  format: ["cjs", "esm"],
-  splitting: false,
-  clean: true,
-  cjsInterop: true,
-  dts: true,
-  target: ["node18"],
-  shims: true,
-  tsconfig: "./tsconfig.json",
-  outExtension({ format }) {
-    return {
-      js: format === "cjs" ? ".cjs" : format === "esm" ? `.mjs` : ".js",
-    };
+export default defineConfig(() => [
+  {
+    entry: ["src/index.ts"],
+    external: ["@playwright/test"],
+    format: ["cjs", "esm"],
+    splitting: false,
+    clean: true,
+    cjsInterop: true,
+    dts: true,
+    target: ["node18"],
+    shims: true,
+    tsconfig: "./tsconfig.json",
+    outExtension({ format }) {
+      return {
+        js: format === "cjs" ? ".cjs" : format === "esm" ? `.mjs` : ".js",
+      };
+    },
   },
-}));
+  {
+    entry: { cli: "bin/cli.ts" },
+    outDir: "bin/dist",
+    external: ["@playwright/test", "commander", "typescript", "yaml"],
+    format: ["esm"],
+    splitting: false,
+    clean: false,
+    dts: false,
+    target: ["node18"],
+    tsconfig: "./tsconfig.json",
+    outExtension: () => ({ js: ".js" }),
+  },
+]);
@@ -12,5 +12,16 @@ export default defineConfig({
       name: "chromium",
       use: { ...devices["Desktop Chrome"] },
     },
+    // CDP is Chromium-only: the other browsers run the route backend tests.
+    {
+      name: "firefox",
+      use: { ...devices["Desktop Firefox"] },
+      grep: /networkBackend option/,
+    },
+    {
+      name: "webkit",
+      use: { ...devices["Desktop Safari"] },
+      grep: /networkBackend option/,
+    },
   ],
 });
@@ -8,12 +8,17 @@ import {
 import {
   NetworkAPI,
   NETWORK_PRESETS,
+  RouteNetworkAPI,
+  type NetworkEmulator,
   type NetworkPreset,
   type NetworkCondition,
 } from "@playwright-labs/network-core";
 
 /**
- * Creates (or reuses) a {@link NetworkAPI} for a page/frame.
+ * Creates (or reuses) a network emulation handle for a page/frame — a CDP
+ * {@link NetworkAPI} in Chromium, a {@link RouteNetworkAPI} elsewhere (see
+ * the `networkBackend` option). Narrow with `instanceof NetworkAPI` to
+ * reach the CDP `session`.
  *
  * Without an argument the default `page` fixture is used. Every created
  * instance is stopped automatically when the test ends.
@@ -27,18 +32,23 @@ import {
  * });
  * ```
  */
-export type UseNetwork = (page?: Page | Frame) => Promise<NetworkAPI>;
+export type UseNetwork = (page?: Page | Frame) => Promise<NetworkEmulator>;
+
+/** How `useNetwork` emulates network conditions. */
+export type NetworkBackend = "auto" | "cdp" | "route";
 
 /**
- * Tracks the most recent {@link NetworkAPI} created for a given page/frame
- * via `useNetwork`/the `network` fixture, so matchers accept either the
+ * Tracks the most recent handle created for a given page/frame via
+ * `useNetwork`/the `network` fixture, so matchers accept either the
  * instance or the page itself.
  */
-const pageToNetwork = new WeakMap<Page | Frame, NetworkAPI>();
+const pageToNetwork = new WeakMap<Page | Frame, NetworkEmulator>();
 
-function resolveNetwork(received: NetworkAPI | Page | Frame): NetworkAPI {
-  if (received instanceof NetworkAPI) return received;
-  const network = pageToNetwork.get(received);
+function resolveNetwork(received: NetworkEmulator | Page | Frame): NetworkEmulator {
+  if (received instanceof NetworkAPI || received instanceof RouteNetworkAPI) {
+    return received;
+  }
+  const network = pageToNetwork.get(received as Page | Frame);
   if (!network) {
     throw new Error(
       "No NetworkAPI instance found for this page/frame — call useNetwork(page) " +
@@ -76,16 +86,29 @@ export type FixtureOptions = {
    * ```
    */
   networkPreset: NetworkPreset | Partial<NetworkCondition> | null;
+  /**
+   * How conditions are emulated. `"cdp"` uses the Chromium DevTools
+   * protocol — exact, per page, Chromium only. `"route"` intercepts
+   * requests with `page.route()` in any browser. `"auto"` (the default)
+   * picks `"cdp"` in Chromium and `"route"` in Firefox and WebKit.
+   *
+   * @example
+   * ```ts
+   * // same emulation in every project
+   * test.use({ networkBackend: 'route' });
+   * ```
+   */
+  networkBackend: NetworkBackend;
 };
 
 export type Fixture = {
   /**
-   * Factory for {@link NetworkAPI} handles. Call with a specific page/frame
-   * or without arguments for the default page. Chromium only.
+   * Factory for network emulation handles. Call with a specific page/frame
+   * or without arguments for the default page.
    */
   useNetwork: UseNetwork;
   /**
-   * Ready-made {@link NetworkAPI} for the default page — shortcut for
+   * Ready-made handle for the default page — shortcut for
    * `await useNetwork()`.
    *
    * @example
@@ -97,33 +120,46 @@ export type Fixture = {
    * });
    * ```
    */
-  network: NetworkAPI;
+  network: NetworkEmulator;
 };
 
 export const test = baseTest.extend<
   Fixture & FixtureOptions & { _applyNetworkPreset: void }
 >({
   networkPreset: [null, { option: true }],
+  networkBackend: ["auto", { option: true }],
 
-  useNetwork: async ({ page, context }, use) => {
-    const handles = new Map<Page | Frame, NetworkAPI>();
+  useNetwork: async ({ page, context, browserName, networkBackend }, use) => {
+    const handles = new Map<Page | Frame, NetworkEmulator>();
+    const backend =
+      networkBackend === "auto"
+        ? browserName === "chromium" ? "cdp" : "route"
+        : networkBackend;
 
     const useNetwork: UseNetwork = async (target = page) => {
       const existing = handles.get(target);
       if (existing) return existing;
 
-      let session: CDPSession;
-      try {
-        session = await context.newCDPSession(target);
-      } catch (cause) {
-        throw new Error(
-          "@playwright-labs/fixture-network requires Chromium — the CDP " +
-            '"Network" domain used to emulate network conditions is ' +
-            "not available in other browsers.",
-          { cause },
-        );
+      let network: NetworkEmulator;
+      if (backend === "route") {
+        // routes belong to the page: frames share their page's handle
+        const owner = "page" in target ? target.page() : target;
+        network = handles.get(owner) ?? new RouteNetworkAPI(owner as never);
+        handles.set(owner, network);
+      } else {
+        let session: CDPSession;
+        try {
+          session = await context.newCDPSession(target);
+        } catch (cause) {
+          throw new Error(
+            'networkBackend "cdp" requires Chromium — the CDP "Network" ' +
+              "domain used to emulate network conditions is not available " +
+              'in other browsers. Use networkBackend "route" (or "auto").',
+            { cause },
+          );
+        }
+        network = new NetworkAPI(session as never);
       }
-      const network = new NetworkAPI(session as never);
       handles.set(target, network);
       pageToNetwork.set(target, network);
       return network;
@@ -132,7 +168,7 @@ export const test = baseTest.extend<
     await use(useNetwork);
 
     // restore normal networking for every handle created during the test
-    await Promise.all([...handles.values()].map((network) => network.stop()));
+    await Promise.all([...new Set(handles.values())].map((network) => network.stop()));
   },
 
   network: async ({ useNetwork }, use) => {
@@ -162,7 +198,7 @@ export const expect = baseExpect.extend({
    * expect(network).toBeNetworkStarted();   // or expect(page).toBeStarted()
    * ```
    */
-  toBeNetworkStarted(received: NetworkAPI | Page | Frame) {
+  toBeNetworkStarted(received: NetworkEmulator | Page | Frame) {
     const network = resolveNetwork(received);
     const pass = network.started;
     return {
@@ -183,7 +219,7 @@ export const expect = baseExpect.extend({
    * expect(network).toBeNetworkOffline();
    * ```
    */
-  toBeNetworkOffline(received: NetworkAPI | Page | Frame) {
+  toBeNetworkOffline(received: NetworkEmulator | Page | Frame) {
     const network = resolveNetwork(received);
     const pass = network.condition?.offline === true;
     return {
@@ -206,7 +242,7 @@ export const expect = baseExpect.extend({
    * expect(network).toBeNetworkThrottled();
    * ```
    */
-  toBeNetworkThrottled(received: NetworkAPI | Page | Frame) {
+  toBeNetworkThrottled(received: NetworkEmulator | Page | Frame) {
     const network = resolveNetwork(received);
     const condition = network.condition;
     const pass = condition !== null && isThrottled(condition);
@@ -232,7 +268,7 @@ export const expect = baseExpect.extend({
    * ```
    */
   toHaveNetworkCondition(
-    received: NetworkAPI | Page | Frame,
+    received: NetworkEmulator | Page | Frame,
     expected: NetworkPreset | Partial<NetworkCondition>,
   ) {
     const network = resolveNetwork(received);
@@ -3,6 +3,7 @@ export {
   expect,
   type Fixture,
   type FixtureOptions,
+  type NetworkBackend,
 } from "./fixture";
 
 export {
@@ -10,9 +11,11 @@ export {
   NO_THROTTLING,
   OFFLINE,
   NetworkAPI,
+  RouteNetworkAPI,
   createNetworkCondition,
   kbps,
   mbps,
   type NetworkCondition,
+  type NetworkEmulator,
   type NetworkPreset,
 } from "@playwright-labs/network-core";
@@ -1,4 +1,14 @@
-import { test, expect, NETWORK_PRESETS, NO_THROTTLING } from "../src/index";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import {
+  test,
+  expect,
+  NETWORK_PRESETS,
+  NO_THROTTLING,
+  NetworkAPI,
+  RouteNetworkAPI,
+} from "../src/index";
 
 test.describe("network fixture", () => {
   test("start applies condition, navigator.onLine reflects offline", async ({
@@ -177,6 +187,62 @@ test.describe("networkPreset Offline", () => {
   });
 });
 
+test.describe("networkBackend option", () => {
+  test("auto picks CDP in Chromium", async ({ browserName, network }) => {
+    test.skip(browserName !== "chromium", "CDP is Chromium-only");
+    expect(network).toBeInstanceOf(NetworkAPI);
+  });
+
+  test("auto picks the route backend in Firefox and WebKit", async ({
+    browserName,
+    network,
+  }) => {
+    test.skip(browserName === "chromium", "Chromium uses CDP");
+    expect(network).toBeInstanceOf(RouteNetworkAPI);
+  });
+
+  test.describe("route", () => {
+    test.use({ networkBackend: "route" });
+
+    test("useNetwork returns a RouteNetworkAPI", async ({ network }) => {
+      expect(network).toBeInstanceOf(RouteNetworkAPI);
+    });
+
+    test("offline fails requests and takes the context offline", async ({
+      page,
+      network,
+    }) => {
+      await page.goto("about:blank");
+      await network.start("Offline");
+
+      expect(await page.evaluate(() => navigator.onLine)).toBe(false);
+      expect(page).toBeNetworkOffline();
+
+      await network.stop();
+      expect(await page.evaluate(() => navigator.onLine)).toBe(true);
+    });
+
+    test("latency delays responses", async ({ page, network }) => {
+      const server = createServer((_, res) => res.end("ok"));
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+      try {
+        await page.goto(url);
+        await network.start({ latency: 500 });
+
+        const elapsed = await page.evaluate(async (url) => {
+          const startedAt = performance.now();
+          await fetch(url, { cache: "no-store" });
+          return performance.now() - startedAt;
+        }, url);
+        expect(elapsed).toBeGreaterThanOrEqual(450);
+      } finally {
+        server.close();
+      }
+    });
+  });
+});
+
 test.describe("presets sanity", () => {
   test("NoThrottling preset equals NO_THROTTLING constant", () => {
     expect(NETWORK_PRESETS.NoThrottling).toEqual(NO_THROTTLING);
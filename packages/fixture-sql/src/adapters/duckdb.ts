@@ -0,0 +1,2 @@
+export { duckdbAdapter } from "@playwright-labs/sql-core/duckdb";
+export type { DuckDBAdapterOptions } from "@playwright-labs/sql-core/duckdb";
@@ -0,0 +1,2 @@
+export { pgliteAdapter } from "@playwright-labs/sql-core/pglite";
+export type { PgliteAdapterConfig } from "@playwright-labs/sql-core/pglite";
@@ -1,6 +1,30 @@
 import { expect as baseExpect, test as baseTest } from "@playwright/test";
+import { dirname, resolve } from "node:path";
 
-import type { SqlAdapter, SqlClient } from "@playwright-labs/sql-core";
+import {
+  isTransactionRollback,
+  migrate,
+  seed,
+  type MigrateOptions,
+  type SeedData,
+  type SqlAdapter,
+  type SqlClient,
+  type SqlSnapshot,
+} from "@playwright-labs/sql-core";
+
+/**
+ * Schema setup that runs once per worker, before its first test. Paths are
+ * relative to the config file directory.
+ */
+export type SqlMigrateOptions = MigrateOptions & {
+  /**
+   * Database to migrate. It is a separate option from `sqlAdapter` because
+   * worker-scoped setup cannot read test-scoped options.
+   */
+  adapter: SqlAdapter;
+  /** Seed files or rows inserted after migrating, see `seed()` in sql-core. */
+  seeds?: string | string[] | SeedData;
+};
 
 export type Fixture = {
   /**
@@ -35,11 +59,150 @@ export type Fixture = {
    * Set once per file / describe block via `test.use({ sqlAdapter: ... })`.
    */
   sqlAdapter: SqlAdapter | undefined;
+
+  /**
+   * Run every test's {@link sql} client — hooks included — inside a
+   * transaction that is rolled back after the test, so writes never leak
+   * into the next test. Only the `sql` connection is isolated: the app
+   * under test and `useSql()` connections do not see the uncommitted rows.
+   *
+   * @example
+   * ```ts
+   * test.use({ sqlAdapter: pgAdapter(process.env.DATABASE_URL!), sqlRollback: true });
+   * ```
+   */
+  sqlRollback: boolean;
+
+  /**
+   * Restore the `sqlSnapshot` database before this test. Set it to `false`
+   * for read-only tests to skip the restore. Has no effect without
+   * `sqlSnapshot`.
+   * @default true
+   */
+  sqlRestore: boolean;
+  _sqlRestore: void;
+};
+
+export type WorkerFixture = {
+  /**
+   * Apply migrations — and optionally seeds — once per worker, before the
+   * first test. Workers migrating the same database take turns and skip
+   * what is already applied, so every worker can point at it; use one
+   * database per worker when seeding without `sqlRollback`.
+   *
+   * @example
+   * ```ts
+   * // playwright.config.ts
+   * use: {
+   *   sqlAdapter: sqliteAdapter("./test.db"),
+   *   sqlMigrate: { adapter: sqliteAdapter("./test.db"), dir: "./migrations", seeds: "./seeds/base.yaml" },
+   * }
+   * ```
+   */
+  sqlMigrate: SqlMigrateOptions | undefined;
+  _sqlMigrate: void;
+
+  /**
+   * Snapshot this database once per worker — after `sqlMigrate` — and
+   * restore it before every test. For suites that cannot use `sqlRollback`
+   * because the app under test writes through its own connections. The
+   * adapter must implement `snapshot()`, as the built-in ones do.
+   *
+   * Each test gets an `sql-restore` annotation with the restore time; the
+   * first test of a worker also gets `sql-snapshot` with the capture time.
+   *
+   * @example
+   * ```ts
+   * // playwright.config.ts
+   * use: {
+   *   sqlAdapter: pgAdapter(process.env.DATABASE_URL!),
+   *   sqlSnapshot: pgAdapter(process.env.DATABASE_URL!),
+   * }
+   * ```
+   */
+  sqlSnapshot: SqlAdapter | undefined;
+  /** `duration` is the capture time, cleared once reported. */
+  _sqlSnapshot: { snapshot: SqlSnapshot; duration?: number } | undefined;
 };
 
-export const test = baseTest.extend<Fixture>({
+/** Milliseconds since `start`, rounded to 0.1. */
+function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 10) / 10;
+}
+
+export const test = baseTest.extend<Fixture, WorkerFixture>({
   // Option fixture — no live resource, just a config object.
   sqlAdapter: [undefined as unknown as SqlAdapter, { option: true }],
+  sqlRollback: [false, { option: true }],
+  sqlRestore: [true, { option: true }],
+  sqlMigrate: [undefined, { scope: "worker", option: true }],
+  sqlSnapshot: [undefined, { scope: "worker", option: true }],
+
+  _sqlMigrate: [
+    async ({ sqlMigrate }, use, workerInfo) => {
+      if (sqlMigrate) {
+        const { adapter, seeds, ...options } = sqlMigrate;
+        const configDir = workerInfo.config.configFile
+          ? dirname(workerInfo.config.configFile)
+          : process.cwd();
+        const client = await adapter.create();
+        try {
+          await migrate(client, {
+            ...options,
+            dir: options.dir && resolve(configDir, options.dir),
+          });
+          if (seeds) {
+            await seed(
+              client,
+              typeof seeds === "string" || Array.isArray(seeds)
+                ? [seeds].flat().map((file) => resolve(configDir, file))
+                : seeds,
+            );
+          }
+        } finally {
+          await client.close();
+        }
+      }
+      await use();
+    },
+    { scope: "worker", auto: true },
+  ],
+
+  _sqlSnapshot: [
+    async ({ sqlSnapshot, _sqlMigrate }, use) => {
+      if (!sqlSnapshot) return use(undefined);
+      if (!sqlSnapshot.snapshot) {
+        throw new Error("The sqlSnapshot adapter does not implement snapshot()");
+      }
+      const start = performance.now();
+      const snapshot = await sqlSnapshot.snapshot();
+      try {
+        await use({ snapshot, duration: elapsed(start) });
+      } finally {
+        await snapshot.drop();
+      }
+    },
+    { scope: "worker" },
+  ],
+
+  _sqlRestore: [
+    async ({ _sqlSnapshot, sqlRestore }, use, testInfo) => {
+      if (_sqlSnapshot && sqlRestore) {
+        if (_sqlSnapshot.duration !== undefined) {
+          testInfo.annotations.push({
+            type: "sql-snapshot",
+            description: `${_sqlSnapshot.duration} ms`,
+          });
+          _sqlSnapshot.duration = undefined;
+        }
+        const start = performance.now();
+        await _sqlSnapshot.snapshot.restore();
+        testInfo.annotations.push({ type: "sql-restore", description: `${elapsed(start)} ms` });
+      }
+      await use();
+    },
+    { auto: true },
+  ],
 
   useSql: async ({}, use) => {
     const clients: SqlClient[] = [];
@@ -53,7 +216,8 @@ export const test = baseTest.extend<Fixture>({
     await Promise.all(clients.map((c) => c.close().catch(() => {})));
   },
 
-  sql: async ({ sqlAdapter, useSql }, use) => {
+  // `_sqlRestore` first, so the connection sees the restored database
+  sql: async ({ sqlAdapter, sqlRollback, useSql, _sqlRestore }, use) => {
     if (sqlAdapter == null) {
       throw new Error(
         [
@@ -66,6 +230,18 @@ export const test = baseTest.extend<Fixture>({
       );
     }
     const client = await useSql(sqlAdapter);
-    await use(client);
+    if (!sqlRollback) {
+      await use(client);
+      return;
+    }
+
+    await client
+      .transaction(async (tx) => {
+        await use(tx);
+        tx.rollback();
+      })
+      .catch((error: unknown) => {
+        if (!isTransactionRollback(error)) throw error;
+      });
   },
 });
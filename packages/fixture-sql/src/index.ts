@@ -1,11 +1,26 @@
-export { test, type Fixture } from "./fixture.js";
-export { sqlMatchers as expect, type SqlMatchers } from "./matchers.js";
+export {
+  test,
+  type Fixture,
+  type SqlMigrateOptions,
+  type WorkerFixture,
+} from "./fixture.js";
+export {
+  sqlMatchers as expect,
+  type ExpectedTableChanges,
+  type SqlMatchers,
+  type SqlPollOptions,
+} from "./matchers.js";
 export type {
   QueryResult,
   Row,
   SqlAdapter,
+  SqlSnapshot,
   SqlClient,
+  SqlTransaction,
   SqlStatement,
+  Migration,
+  MigrationModule,
+  SeedData,
   StmtParams,
   SQLParams,
 } from "@playwright-labs/sql-core";
@@ -1,6 +1,36 @@
 import { expect as baseExpect } from "@playwright/test";
+import type { ExpectMatcherState } from "@playwright/test";
 
-import type { SqlClient } from "@playwright-labs/sql-core";
+import type { Row, SqlClient } from "@playwright-labs/sql-core";
+
+import {
+  diffRows,
+  readRows,
+  rowMatches,
+  tableChanges,
+  type RowsDiff,
+  type TableChanges,
+} from "./rows.js";
+
+/** Options of the data matchers, which retry until they pass. */
+export type SqlPollOptions = {
+  /**
+   * How long to keep re-reading the data, e.g. while the app under test is
+   * still writing. `0` means no limit, as in Playwright. Defaults to the
+   * `expect` timeout.
+   */
+  timeout?: number;
+};
+
+/** Expected result of {@link SqlMatchers.toChangeTable}; an omitted list means "none". */
+export type ExpectedTableChanges = Partial<TableChanges> &
+  SqlPollOptions & {
+    /**
+     * Column(s) identifying a row across the two reads.
+     * @default "id"
+     */
+    key?: string | string[];
+  };
 
 /**
  * Custom SQL matchers added to Playwright's `expect`.
@@ -15,6 +45,12 @@ import type { SqlClient } from "@playwright-labs/sql-core";
  *
  * await expect(db).toBeSqlConnected();
  * await expect(db).toHaveSqlTable('users');
+ * await expect(db).toHaveRowCount('users', 3);
+ * await expect(db).toContainRow('users', { name: 'Alice' });
+ * await expect(db).toMatchRows('SELECT name FROM users', [{ name: 'Bob' }, { name: 'Alice' }]);
+ * await expect(db).toChangeTable('users', () => page.click('text=Delete Bob'), {
+ *   deleted: [{ name: 'Bob' }],
+ * });
  * await expect(row).toMatchSchema<UserRow>();  // ✅
  * await expect("oops").toMatchSchema<UserRow>(); // ❌ compile error
  * ```
@@ -29,12 +65,72 @@ export interface SqlMatchers<R = unknown> {
    * Produces a compile-time error when `R` is not assignable to `T`.
    */
   toMatchSchema<T>(..._: [R] extends [T] ? [] : [never]): Promise<void>;
+
+  // Data matchers: `source` is a table name or a `SELECT` / `WITH` query,
+  // re-read until the assertion passes or times out.
+
+  /** Assert the number of rows in `source`. */
+  toHaveRowCount(source: string, count: number, options?: SqlPollOptions): Promise<void>;
+  /** Assert that some row of `source` has all the columns and values of `row`. */
+  toContainRow(source: string, row: Row, options?: SqlPollOptions): Promise<void>;
+  /**
+   * Assert that the rows of `source` match `rows` in any order: every
+   * expected (partial) row pairs with a distinct row and none is left over.
+   * The failure message lists the missing and the unexpected rows.
+   */
+  toMatchRows(source: string, rows: Row[], options?: SqlPollOptions): Promise<void>;
+  /**
+   * Read `table`, run `action` — e.g. a UI interaction — and assert exactly
+   * which rows it inserted, updated and deleted, matched by `key`. Expected
+   * rows can be partial; updated rows are compared with their new values.
+   */
+  toChangeTable(
+    table: string,
+    action: () => unknown,
+    changes: ExpectedTableChanges,
+  ): Promise<void>;
 }
 
 // ── Implementation ─────────────────────────────────────────────────────────
 
 type MatcherResult = { pass: boolean; message: () => string };
 
+/**
+ * Re-runs `check` until its outcome is `wanted` or `timeout` ms (`0`: no
+ * limit) have passed. A failing read — the app may not have created the
+ * table yet — is retried as well, and rethrown if it still fails at the end.
+ */
+async function poll<T extends { pass: boolean }>(
+  check: () => Promise<T>,
+  wanted: boolean,
+  timeout: number,
+): Promise<T> {
+  const deadline = timeout === 0 ? Infinity : Date.now() + timeout;
+  for (;;) {
+    try {
+      const result = await check();
+      if (result.pass === wanted || Date.now() >= deadline) return result;
+    } catch (error) {
+      if (Date.now() >= deadline) throw error;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}
+
+function printDiff(state: ExpectMatcherState, diff: RowsDiff, indent = "  "): string {
+  return [
+    ...diff.missing.map(
+      (row) => `${indent}- ${state.utils.printExpected(row)}  (expected, not found)`,
+    ),
+    ...diff.unexpected.map(
+      (row) => `${indent}+ ${state.utils.printReceived(row)}  (found, not expected)`,
+    ),
+  ].join("\n");
+}
+
+const isEmpty = (diff: RowsDiff) =>
+  diff.missing.length === 0 && diff.unexpected.length === 0;
+
 export const sqlMatchers = baseExpect.extend({
   async toBeSqlConnected(received: unknown): Promise<MatcherResult> {
     const client = received as SqlClient;
@@ -103,6 +199,121 @@ export const sqlMatchers = baseExpect.extend({
           : `Expected value to match schema, but received: ${JSON.stringify(received)}`,
     };
   },
+
+  async toHaveRowCount(
+    received: unknown,
+    source: string,
+    count: number,
+    options: SqlPollOptions = {},
+  ): Promise<MatcherResult> {
+    const client = received as SqlClient;
+    const { pass, actual } = await poll(
+      async () => {
+        const actual = (await readRows(client, source)).length;
+        return { pass: actual === count, actual };
+      },
+      !this.isNot,
+      options.timeout ?? this.timeout,
+    );
+
+    return {
+      pass,
+      message: () =>
+        `${this.utils.matcherHint("toHaveRowCount", source, count, { isNot: this.isNot })}\n\n` +
+        `Expected: ${this.isNot ? "not " : ""}${this.utils.printExpected(count)}\n` +
+        `Received: ${this.utils.printReceived(actual)}`,
+    };
+  },
+
+  async toContainRow(
+    received: unknown,
+    source: string,
+    row: Row,
+    options: SqlPollOptions = {},
+  ): Promise<MatcherResult> {
+    const client = received as SqlClient;
+    const { pass, rows } = await poll(
+      async () => {
+        const rows = await readRows(client, source);
+        return { pass: rows.some((candidate) => rowMatches(candidate, row)), rows };
+      },
+      !this.isNot,
+      options.timeout ?? this.timeout,
+    );
+
+    return {
+      pass,
+      message: () =>
+        `${this.utils.matcherHint("toContainRow", source, row, { isNot: this.isNot })}\n\n` +
+        `Expected ${this.isNot ? "no row" : "a row"} matching: ${this.utils.printExpected(row)}\n` +
+        `Received ${rows.length} row(s):\n` +
+        rows.map((candidate) => `  ${this.utils.printReceived(candidate)}`).join("\n"),
+    };
+  },
+
+  async toMatchRows(
+    received: unknown,
+    source: string,
+    rows: Row[],
+    options: SqlPollOptions = {},
+  ): Promise<MatcherResult> {
+    const client = received as SqlClient;
+    const { pass, diff } = await poll(
+      async () => {
+        const diff = diffRows(await readRows(client, source), rows);
+        return { pass: isEmpty(diff), diff };
+      },
+      !this.isNot,
+      options.timeout ?? this.timeout,
+    );
+
+    return {
+      pass,
+      message: () =>
+        `${this.utils.matcherHint("toMatchRows", source, rows, { isNot: this.isNot })}\n\n` +
+        (pass
+          ? `Expected the rows NOT to match, but they do.`
+          : `Rows differ (order-insensitive):\n${printDiff(this, diff)}`),
+    };
+  },
+
+  async toChangeTable(
+    received: unknown,
+    table: string,
+    action: () => unknown,
+    changes: ExpectedTableChanges,
+  ): Promise<MatcherResult> {
+    const client = received as SqlClient;
+    const key = [changes.key ?? "id"].flat();
+    const kinds = ["inserted", "updated", "deleted"] as const;
+
+    const before = await readRows(client, table);
+    await action();
+    const { pass, diffs } = await poll(
+      async () => {
+        const actual = tableChanges(before, await readRows(client, table), key);
+        const diffs = kinds.map(
+          (kind) => [kind, diffRows(actual[kind], changes[kind] ?? [])] as const,
+        );
+        return { pass: diffs.every(([, diff]) => isEmpty(diff)), diffs };
+      },
+      !this.isNot,
+      changes.timeout ?? this.timeout,
+    );
+
+    return {
+      pass,
+      message: () =>
+        `${this.utils.matcherHint("toChangeTable", table, undefined, { isNot: this.isNot })}\n\n` +
+        (pass
+          ? `Expected the action NOT to change "${table}" like that, but it did.`
+          : `Changes of "${table}" differ:\n` +
+            diffs
+              .filter(([, diff]) => !isEmpty(diff))
+              .map(([kind, diff]) => `  ${kind}:\n${printDiff(this, diff, "    ")}`)
+              .join("\n")),
+    };
+  },
 });
 
 declare module "@playwright/test" {
@@ -0,0 +1,115 @@
+import { isDeepStrictEqual } from "node:util";
+
+import type { Row, SqlClient } from "@playwright-labs/sql-core";
+
+/** Rows of a table, or of a `SELECT` / `WITH` query. */
+export async function readRows(client: SqlClient, source: string): Promise<Row[]> {
+  const sql = /^\s*(SELECT|WITH)\b/i.test(source) ? source : `SELECT * FROM ${source}`;
+  const { rows } = await client.query<Row>(sql);
+  return rows;
+}
+
+/**
+ * Equality as a database sees it: dates by time, `bigint` and `number`
+ * by value, and booleans against SQLite's `1` / `0`.
+ */
+export function sameValue(actual: unknown, expected: unknown): boolean {
+  if (expected instanceof Date) {
+    return new Date(actual as string | number | Date).getTime() === expected.getTime();
+  }
+  if (typeof expected === "boolean" && typeof actual === "number") {
+    return actual === Number(expected);
+  }
+  if (
+    (typeof actual === "bigint" || typeof actual === "number") &&
+    (typeof expected === "bigint" || typeof expected === "number")
+  ) {
+    return BigInt(actual) === BigInt(expected);
+  }
+  return isDeepStrictEqual(actual, expected);
+}
+
+/** Whether `row` has every column of `partial` with an equal value. */
+export function rowMatches(row: Row, partial: Row): boolean {
+  return Object.entries(partial).every(
+    ([column, value]) => column in row && sameValue(row[column], value),
+  );
+}
+
+export type RowsDiff = {
+  /** Expected rows without a matching received row. */
+  missing: Row[];
+  /** Received rows no expected row matched. */
+  unexpected: Row[];
+};
+
+/**
+ * Pairs every expected (partial) row with a distinct received row, in any
+ * order. Empty `missing` and `unexpected` mean the sets match.
+ *
+ * Pairing is a maximum bipartite matching (augmenting paths), so a broad
+ * partial row never takes the only row a more specific one could match.
+ */
+export function diffRows(received: readonly Row[], expected: readonly Row[]): RowsDiff {
+  const candidates = expected.map((partial) =>
+    received.flatMap((row, index) => (rowMatches(row, partial) ? [index] : [])),
+  );
+  // expected row index paired with each received row, -1 while unpaired
+  const pairedWith = received.map(() => -1);
+  const pair = (partial: number, visited: Set<number>): boolean => {
+    for (const index of candidates[partial]) {
+      if (visited.has(index)) continue;
+      visited.add(index);
+      if (pairedWith[index] === -1 || pair(pairedWith[index], visited)) {
+        pairedWith[index] = partial;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const missing = expected.filter((_, partial) => !pair(partial, new Set()));
+  return { missing, unexpected: received.filter((_, index) => pairedWith[index] === -1) };
+}
+
+export type TableChanges = {
+  /** Rows whose key was not in the table before. */
+  inserted: Row[];
+  /** Rows with the same key and different values — as they are now. */
+  updated: Row[];
+  /** Rows whose key is gone. */
+  deleted: Row[];
+};
+
+function rowKey(row: Row, key: readonly string[]): string {
+  const missing = key.find((column) => !(column in row));
+  if (missing !== undefined) {
+    throw new Error(
+      `Key column "${missing}" is not in the rows read (columns: ${Object.keys(row).join(", ")}) — ` +
+        `pass the table's key columns as \`key\``,
+    );
+  }
+  return JSON.stringify(key.map((column) => String(row[column])));
+}
+
+/**
+ * Compares two reads of a table by its key columns. Throws when a row lacks
+ * a key column, as every such row would share one key.
+ */
+export function tableChanges(
+  before: readonly Row[],
+  after: readonly Row[],
+  key: readonly string[],
+): TableChanges {
+  const previous = new Map(before.map((row) => [rowKey(row, key), row]));
+  const changes: TableChanges = { inserted: [], updated: [], deleted: [] };
+  for (const row of after) {
+    const id = rowKey(row, key);
+    const old = previous.get(id);
+    if (!old) changes.inserted.push(row);
+    else if (!isDeepStrictEqual(old, row)) changes.updated.push(row);
+    previous.delete(id);
+  }
+  changes.deleted.push(...previous.values());
+  return changes;
+}
@@ -0,0 +1,27 @@
+import { test, expect } from "../../src/index.js";
+import { duckdbAdapter } from "../../src/adapters/duckdb.js";
+import { pgliteAdapter } from "../../src/adapters/pglite.js";
+
+test.describe("pgliteAdapter", () => {
+  test.use({ sqlAdapter: pgliteAdapter() });
+
+  test("runs Postgres SQL in-process", async ({ sql }) => {
+    await sql.execute("CREATE TABLE users (id SERIAL PRIMARY KEY, name TEXT NOT NULL)");
+    await sql.execute("INSERT INTO users (name) VALUES ($1)", ["Alice"]);
+
+    await expect(sql).toHaveSqlTable("users");
+    await expect(sql).toContainRow("users", { id: 1, name: "Alice" });
+  });
+});
+
+test.describe("duckdbAdapter", () => {
+  test.use({ sqlAdapter: duckdbAdapter() });
+
+  test("runs DuckDB SQL in-process", async ({ sql }) => {
+    await sql.execute("CREATE TABLE events (id INTEGER, kind VARCHAR)");
+    await sql.execute("INSERT INTO events VALUES (1, 'click'), (2, 'view')");
+
+    await expect(sql).toHaveSqlTable("events");
+    await expect(sql).toHaveRowCount("SELECT * FROM events WHERE kind = 'click'", 1);
+  });
+});
@@ -1,3 +1,7 @@
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
 import { test as sqlTest } from "../src/fixture.js";
 import { sqlMatchers as expect } from "../src/matchers.js";
 import { sqliteAdapter } from "../src/adapters/sqlite.js";
@@ -180,6 +184,62 @@ sqlTest.describe("Fixture: useSql", () => {
   );
 });
 
+// ---------------------------------------------------------------------------
+// Option: sqlRollback
+// ---------------------------------------------------------------------------
+
+sqlTest.describe("Option: sqlRollback", () => {
+  // one file database shared by the tests below, which must run in order
+  const file = join(tmpdir(), `fixture-sql-rollback-${process.pid}.db`);
+  sqlTest.describe.configure({ mode: "serial" });
+  sqlTest.use({ sqlAdapter: sqliteAdapter(file), sqlRollback: true });
+
+  sqlTest.beforeAll(async () => {
+    const client = await sqliteAdapter(file).create();
+    await client.execute("DROP TABLE IF EXISTS items");
+    await client.execute("CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT NOT NULL)");
+    await client.execute("INSERT INTO items VALUES (1, 'seed')");
+    await client.close();
+  });
+
+  sqlTest.beforeEach(async ({ sql }) => {
+    await sql.execute("INSERT INTO items (name) VALUES ('from hook')");
+  });
+
+  sqlTest("writes are visible inside the test", async ({ sql }) => {
+    await sql.execute("INSERT INTO items (name) VALUES ('from test')");
+    await sql.execute("DELETE FROM items WHERE id = 1");
+
+    const { rows } = await sql.query<{ name: string }>("SELECT name FROM items ORDER BY id");
+    expect(rows.map((row) => row.name)).toEqual(["from hook", "from test"]);
+  });
+
+  sqlTest("the previous test's writes were rolled back", async ({ sql }) => {
+    const { rows } = await sql.query<{ name: string }>("SELECT name FROM items ORDER BY id");
+    expect(rows.map((row) => row.name)).toEqual(["seed", "from hook"]);
+  });
+
+  sqlTest("nested transactions become savepoints", async ({ sql }) => {
+    await sql
+      .transaction(async (tx) => {
+        await tx.execute("INSERT INTO items (name) VALUES ('undone')");
+        tx.rollback();
+      })
+      .catch(() => {});
+
+    const { rowCount } = await sql.query("SELECT * FROM items WHERE name = 'undone'");
+    expect(rowCount).toBe(0);
+  });
+
+  sqlTest.afterAll(async () => {
+    const client = await sqliteAdapter(file).create();
+    const { rows } = await client.query<{ name: string }>("SELECT name FROM items");
+    await client.close();
+    await rm(file, { force: true });
+    expect(rows.map((row) => row.name)).toEqual(["seed"]);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Fixture: sql — missing adapter produces a clear error
 // ---------------------------------------------------------------------------
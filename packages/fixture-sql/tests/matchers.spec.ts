@@ -0,0 +1,165 @@
+import { test as sqlTest } from "../src/fixture.js";
+import { sqlMatchers as expect } from "../src/matchers.js";
+import { sqliteAdapter } from "../src/adapters/sqlite.js";
+import { diffRows, tableChanges } from "../src/rows.js";
+
+/** The failure message without colors. */
+function plain(error: unknown): string {
+  return (error instanceof Error ? error.message : "").replace(/\x1b\[\d+m/g, "");
+}
+
+// ---------------------------------------------------------------------------
+// Row helpers
+// ---------------------------------------------------------------------------
+
+sqlTest.describe("diffRows", () => {
+  sqlTest("pairs partial rows in any order", () => {
+    const rows = [
+      { id: 1, name: "Alice", active: 1 },
+      { id: 2, name: "Bob", active: 0 },
+    ];
+    expect(diffRows(rows, [{ name: "Bob", active: false }, { id: 1 }])).toEqual({
+      missing: [],
+      unexpected: [],
+    });
+    expect(diffRows(rows, [{ name: "Alice" }, { name: "Alice" }])).toEqual({
+      missing: [{ name: "Alice" }],
+      unexpected: [{ id: 2, name: "Bob", active: 0 }],
+    });
+  });
+
+  sqlTest("does not let a broad partial row take a specific one's match", () => {
+    const rows = [
+      { a: 1, b: 2 },
+      { a: 1, b: 3 },
+    ];
+    expect(diffRows(rows, [{ a: 1 }, { a: 1, b: 2 }])).toEqual({ missing: [], unexpected: [] });
+    expect(diffRows(rows, [{ a: 1 }, { b: 2 }, { a: 1, b: 2 }])).toEqual({
+      missing: [{ a: 1, b: 2 }],
+      unexpected: [],
+    });
+  });
+});
+
+sqlTest.describe("tableChanges", () => {
+  sqlTest("classifies rows by key", () => {
+    const before = [
+      { a: 1, b: 1, v: "same" },
+      { a: 1, b: 2, v: "old" },
+      { a: 2, b: 1, v: "gone" },
+    ];
+    const after = [
+      { a: 1, b: 1, v: "same" },
+      { a: 1, b: 2, v: "new" },
+      { a: 3, b: 1, v: "added" },
+    ];
+    expect(tableChanges(before, after, ["a", "b"])).toEqual({
+      inserted: [{ a: 3, b: 1, v: "added" }],
+      updated: [{ a: 1, b: 2, v: "new" }],
+      deleted: [{ a: 2, b: 1, v: "gone" }],
+    });
+  });
+
+  sqlTest("rejects a key column the rows do not have", () => {
+    const rows = [{ code: "a", v: 1 }];
+    expect(() => tableChanges(rows, rows, ["id"])).toThrow(
+      'Key column "id" is not in the rows read (columns: code, v)',
+    );
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Data matchers
+// ---------------------------------------------------------------------------
+
+sqlTest.describe("data matchers", () => {
+  sqlTest.use({ sqlAdapter: sqliteAdapter(":memory:") });
+
+  sqlTest.beforeEach(async ({ sql }) => {
+    await sql.execute("CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, active INTEGER)");
+    await sql.execute("INSERT INTO users VALUES (1, 'Alice', 1), (2, 'Bob', 0), (3, 'Carol', 1)");
+  });
+
+  sqlTest("toHaveRowCount counts tables and queries", async ({ sql }) => {
+    await expect(sql).toHaveRowCount("users", 3);
+    await expect(sql).toHaveRowCount("SELECT * FROM users WHERE active = 1", 2);
+    await expect(sql).not.toHaveRowCount("users", 2);
+  });
+
+  sqlTest("toHaveRowCount reports the actual count", async ({ sql }) => {
+    const error = await expect(sql)
+      .toHaveRowCount("users", 5, { timeout: 1 })
+      .catch((e: Error) => e);
+    expect(plain(error)).toContain("Expected: 5");
+    expect(plain(error)).toContain("Received: 3");
+  });
+
+  sqlTest("toContainRow matches partial rows", async ({ sql }) => {
+    await expect(sql).toContainRow("users", { name: "Bob", active: false });
+    await expect(sql).not.toContainRow("users", { name: "Bob", active: true });
+  });
+
+  sqlTest("toMatchRows ignores order and lists the differences", async ({ sql }) => {
+    await expect(sql).toMatchRows("SELECT name FROM users", [
+      { name: "Carol" },
+      { name: "Alice" },
+      { name: "Bob" },
+    ]);
+
+    const error = await expect(sql)
+      .toMatchRows("users", [{ name: "Alice" }, { name: "Bob" }, { name: "Dave" }], { timeout: 1 })
+      .catch((e: Error) => e);
+    const message = plain(error);
+    expect(message).toContain('- {"name": "Dave"}  (expected, not found)');
+    expect(message).toContain('+ {"active": 1, "id": 3, "name": "Carol"}  (found, not expected)');
+  });
+
+  sqlTest("the data matchers wait for late writes", async ({ sql }) => {
+    setTimeout(() => void sql.execute("INSERT INTO users VALUES (4, 'Dave', 0)"), 200);
+    await expect(sql).toContainRow("users", { name: "Dave" }, { timeout: 2000 });
+  });
+
+  sqlTest("timeout 0 waits without a limit", async ({ sql }) => {
+    setTimeout(() => void sql.execute("INSERT INTO users VALUES (4, 'Dave', 0)"), 200);
+    await expect(sql).toContainRow("users", { name: "Dave" }, { timeout: 0 });
+  });
+
+  sqlTest("a table that does not exist yet is read again", async ({ sql }) => {
+    setTimeout(() => void sql.execute("CREATE TABLE jobs (id INTEGER PRIMARY KEY)"), 200);
+    await expect(sql).toHaveRowCount("jobs", 0, { timeout: 2000 });
+  });
+
+  sqlTest("a read still failing at the deadline throws its error", async ({ sql }) => {
+    const error = await expect(sql)
+      .toHaveRowCount("jobs", 0, { timeout: 200 })
+      .catch((e: Error) => e);
+    expect(plain(error)).toContain("no such table: jobs");
+  });
+
+  sqlTest("toChangeTable asserts the exact changes of an action", async ({ sql }) => {
+    await expect(sql).toChangeTable(
+      "users",
+      async () => {
+        await sql.execute("INSERT INTO users VALUES (4, 'Dave', 1)");
+        await sql.execute("UPDATE users SET active = 0 WHERE id = 1");
+        await sql.execute("DELETE FROM users WHERE id = 2");
+      },
+      {
+        inserted: [{ name: "Dave" }],
+        updated: [{ id: 1, active: 0 }],
+        deleted: [{ name: "Bob" }],
+      },
+    );
+
+    // an omitted list means "no such changes"
+    const error = await expect(sql)
+      .toChangeTable("users", () => sql.execute("DELETE FROM users WHERE id = 3"), {
+        timeout: 1,
+      })
+      .catch((e: Error) => e);
+    const message = plain(error);
+    expect(message).toContain("deleted:");
+    expect(message).toContain('+ {"active": 1, "id": 3, "name": "Carol"}  (found, not expected)');
+    expect(message).not.toContain("inserted:");
+  });
+});
@@ -0,0 +1,37 @@
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { test as sqlTest } from "../src/fixture.js";
+import { sqlMatchers as expect } from "../src/matchers.js";
+import { sqliteAdapter } from "../src/adapters/sqlite.js";
+
+// ---------------------------------------------------------------------------
+// Option: sqlMigrate — worker-scoped, so it has to be set at the top level
+// ---------------------------------------------------------------------------
+
+// a database per worker; paths are relative to the config file
+const file = join(tmpdir(), `fixture-sql-migrate-${process.pid}.db`);
+
+sqlTest.use({
+  sqlAdapter: sqliteAdapter(file),
+  sqlMigrate: {
+    adapter: sqliteAdapter(file),
+    dir: "tests/migrations",
+    seeds: "tests/seeds/items.json",
+  },
+});
+
+sqlTest.afterAll(async () => {
+  await rm(file, { force: true });
+});
+
+sqlTest("migrates and seeds before the first test", async ({ sql }) => {
+  const { rows } = await sql.query<{ name: string }>("SELECT name FROM items");
+  expect(rows).toEqual([{ name: "seed" }]);
+});
+
+sqlTest("records the applied migrations", async ({ sql }) => {
+  const { rows } = await sql.query<{ id: string }>("SELECT id FROM _migrations");
+  expect(rows).toEqual([{ id: "001_items" }]);
+});
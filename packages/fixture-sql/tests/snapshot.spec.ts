@@ -0,0 +1,62 @@
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { test as sqlTest } from "../src/fixture.js";
+import { sqlMatchers as expect } from "../src/matchers.js";
+import { sqliteAdapter } from "../src/adapters/sqlite.js";
+
+// ---------------------------------------------------------------------------
+// Option: sqlSnapshot — worker-scoped, so it has to be set at the top level
+// ---------------------------------------------------------------------------
+
+const file = join(tmpdir(), `fixture-sql-snapshot-${process.pid}.db`);
+
+sqlTest.describe.configure({ mode: "serial" });
+sqlTest.use({
+  sqlAdapter: sqliteAdapter(file),
+  sqlMigrate: {
+    adapter: sqliteAdapter(file),
+    dir: "tests/migrations",
+    seeds: "tests/seeds/items.json",
+  },
+  sqlSnapshot: sqliteAdapter(file),
+});
+
+sqlTest.afterAll(async () => {
+  await rm(file, { force: true });
+});
+
+sqlTest("an app connection writes to the database", async ({ useSql }, testInfo) => {
+  // stands in for the app under test, which sqlRollback could not isolate
+  const app = await useSql(sqliteAdapter(file));
+  await app.execute("INSERT INTO items (name) VALUES ('from the app')");
+  await app.execute("CREATE TABLE audit (id INTEGER)");
+
+  const types = testInfo.annotations.map((annotation) => annotation.type);
+  expect(types).toEqual(["sql-snapshot", "sql-restore"]);
+  expect(testInfo.annotations[1].description).toMatch(/^\d+(\.\d)? ms$/);
+});
+
+sqlTest("the next test starts from the snapshot", async ({ sql }, testInfo) => {
+  const { rows } = await sql.query<{ name: string }>("SELECT name FROM items");
+  expect(rows).toEqual([{ name: "seed" }]);
+  await expect(sql.query("SELECT * FROM audit")).rejects.toThrow(/no such table/);
+
+  const types = testInfo.annotations.map((annotation) => annotation.type);
+  expect(types).toEqual(["sql-restore"]);
+});
+
+sqlTest.describe("sqlRestore: false", () => {
+  sqlTest.use({ sqlRestore: false });
+
+  sqlTest("skips the restore", async ({ sql }, testInfo) => {
+    await sql.execute("INSERT INTO items (name) VALUES ('kept')");
+    expect(testInfo.annotations).toEqual([]);
+  });
+
+  sqlTest("keeps the previous test's writes", async ({ sql }) => {
+    const { rowCount } = await sql.query("SELECT * FROM items WHERE name = 'kept'");
+    expect(rowCount).toBe(1);
+  });
+});
@@ -6,8 +6,14 @@ export default defineConfig({
     "src/adapters/pg.ts",
     "src/adapters/mysql.ts",
     "src/adapters/sqlite.ts",
+    "src/adapters/pglite.ts",
+    "src/adapters/duckdb.ts",
+  ],
+  external: [
+    "@playwright/test",
+    "pg", "mysql2", "better-sqlite3", "@electric-sql/pglite", "@duckdb/node-api",
+    "@playwright-labs/sql-core",
   ],
-  external: ["@playwright/test", "pg", "mysql2", "better-sqlite3", "@playwright-labs/sql-core"],
   format: ["cjs", "esm"],
   splitting: false,
   clean: true,
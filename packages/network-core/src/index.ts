@@ -7,5 +7,7 @@ export {
   kbps,
   mbps,
   type NetworkCondition,
+  type NetworkEmulator,
   type NetworkPreset,
 } from "./network";
+export { RouteNetworkAPI } from "./route";
@@ -118,7 +118,42 @@ export const NETWORK_PRESETS = Object.freeze({
 export type NetworkPreset = keyof typeof NETWORK_PRESETS;
 
 /**
- * Network condition emulation over a CDP session (Chromium only).
+ * A network condition emulation handle — {@link NetworkAPI} over CDP
+ * (Chromium) or `RouteNetworkAPI` over request interception (any browser).
+ */
+export interface NetworkEmulator {
+  readonly PRESETS: typeof NETWORK_PRESETS;
+  /** The condition currently applied, or `null` when not started. */
+  readonly condition: NetworkCondition | null;
+  readonly started: boolean;
+  /** Applies a condition (preset name or object) and returns the resolved one. */
+  start(condition: Partial<NetworkCondition> | NetworkPreset): Promise<NetworkCondition>;
+  /** Restores normal networking; idempotent. */
+  stop(): Promise<void>;
+  dispose(): Promise<void>;
+  [Symbol.asyncDispose](): Promise<void>;
+}
+
+/** Preset name or partial condition → frozen {@link NetworkCondition}. */
+export function resolveCondition(
+  condition: Partial<NetworkCondition> | NetworkPreset,
+  caller: string,
+): NetworkCondition {
+  const resolved =
+    typeof condition === "string"
+      ? NETWORK_PRESETS[condition]
+      : createNetworkCondition(condition);
+  if (!resolved) {
+    throw new TypeError(
+      `${caller}: unknown preset "${String(condition)}". Known: ${Object.keys(NETWORK_PRESETS).join(", ")}`,
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Network condition emulation over a CDP session (Chromium only). For
+ * Firefox and WebKit, see `RouteNetworkAPI`.
  *
  * ```ts
  * const session = await context.newCDPSession(page);
@@ -128,7 +163,7 @@ export type NetworkPreset = keyof typeof NETWORK_PRESETS;
  * // async-dispose (or stop()) restores normal networking
  * ```
  */
-export class NetworkAPI {
+export class NetworkAPI implements NetworkEmulator {
   readonly PRESETS = NETWORK_PRESETS;
   #enabled = false;
   #current: NetworkCondition | null = null;
@@ -152,17 +187,7 @@ export class NetworkAPI {
   async start(
     condition: Partial<NetworkCondition> | NetworkPreset,
   ): Promise<NetworkCondition> {
-    let resolved: NetworkCondition;
-    if (typeof condition === "string") {
-      resolved = NETWORK_PRESETS[condition];
-    } else {
-      resolved = createNetworkCondition(condition);
-    }
-    if (!resolved) {
-      throw new TypeError(
-        `NetworkAPI.start: unknown preset "${String(condition)}". Known: ${Object.keys(NETWORK_PRESETS).join(", ")}`,
-      );
-    }
+    const resolved = resolveCondition(condition, "NetworkAPI.start");
     if (!this.#enabled) {
       // emulateNetworkConditions requires the Network domain to be enabled
       await this.session.send("Network.enable");
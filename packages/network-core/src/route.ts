@@ -0,0 +1,134 @@
+import type { BrowserContext, Page, Request, Route } from "playwright-core";
+
+import {
+  NETWORK_PRESETS,
+  resolveCondition,
+  type NetworkCondition,
+  type NetworkEmulator,
+  type NetworkPreset,
+} from "./network";
+
+/**
+ * Network condition emulation by intercepting requests with `route()` —
+ * works in every browser, unlike the CDP-based `NetworkAPI`.
+ *
+ * ```ts
+ * await using network = new RouteNetworkAPI(page); // or a BrowserContext
+ * await network.start("Regular3G");
+ * ```
+ *
+ * Each request's response headers arrive no sooner than `latency` plus its
+ * upload time, the body after its download time. Requests share throughput
+ * like they share a real link: two parallel downloads take twice as long.
+ * `0` and `-1` throughput mean unlimited, as in Chromium. Offline aborts
+ * requests with `internetdisconnected` and takes the whole browser context
+ * offline, so `navigator.onLine` turns `false` in all its pages.
+ *
+ * Bodies arrive whole, so a response must end before the page sees it:
+ * server-sent events (`Accept: text/event-stream`) skip the throttling
+ * after the latency, and a long poll holds until the server answers.
+ */
+export class RouteNetworkAPI implements NetworkEmulator {
+  readonly PRESETS = NETWORK_PRESETS;
+  #current: NetworkCondition | null = null;
+  #offline = false;
+  #download = new Link();
+  #upload = new Link();
+
+  constructor(readonly target: Page | BrowserContext) {}
+
+  /** The condition currently applied, or `null` when not started. */
+  get condition(): NetworkCondition | null {
+    return this.#current;
+  }
+
+  get started(): boolean {
+    return this.#current !== null;
+  }
+
+  /**
+   * Applies a condition (preset name or object, possibly partial — omitted
+   * fields mean "no restriction") and returns the resolved
+   * {@link NetworkCondition}.
+   */
+  async start(
+    condition: Partial<NetworkCondition> | NetworkPreset,
+  ): Promise<NetworkCondition> {
+    const resolved = resolveCondition(condition, "RouteNetworkAPI.start");
+    if (this.#current === null) {
+      await this.target.route("**/*", this.#handle);
+    }
+    this.#current = resolved;
+    await this.#setOffline(resolved.offline);
+    return resolved;
+  }
+
+  /** Restores normal networking (no throttling, online). */
+  async stop(): Promise<void> {
+    if (this.#current === null) return; // idempotent, no calls before start
+    this.#current = null;
+    await this.target.unroute("**/*", this.#handle);
+    await this.#setOffline(false);
+  }
+
+  async dispose() {
+    await this.stop();
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.stop();
+  }
+
+  #handle = async (route: Route, request: Request): Promise<void> => {
+    const condition = this.#current;
+    if (condition === null) return route.fallback();
+    if (condition.offline) return route.abort("internetdisconnected");
+    // route.fetch() waits for the whole body, which an event stream never
+    // finishes: those only get the latency and then go to the browser as is
+    if (request.headers()["accept"]?.includes("text/event-stream")) {
+      await sleep(condition.latency);
+      return route.fallback();
+    }
+
+    const startedAt = Date.now();
+    try {
+      const uploadTime = this.#upload.transfer(
+        request.postDataBuffer()?.length ?? 0,
+        condition.uploadThroughput,
+      );
+      // redirects go back to the browser — and through this handler again
+      const response = await route.fetch({ maxRedirects: 0 });
+      const body = await response.body();
+      await sleep(startedAt + condition.latency + uploadTime - Date.now());
+      await sleep(this.#download.transfer(body.length, condition.downloadThroughput));
+      await route.fulfill({ response, body });
+    } catch {
+      // the request failed for real, or the page closed mid-transfer
+      await route.abort("failed").catch(() => {});
+    }
+  };
+
+  async #setOffline(offline: boolean): Promise<void> {
+    if (offline === this.#offline) return;
+    const context = "newPage" in this.target ? this.target : this.target.context();
+    await context.setOffline(offline);
+    this.#offline = offline;
+  }
+}
+
+/** One direction of the emulated link: transfers queue for its throughput. */
+class Link {
+  #busyUntil = 0;
+
+  /** Reserves the link for `bytes`; returns the ms until they are through. */
+  transfer(bytes: number, throughput: number): number {
+    if (throughput <= 0 || bytes === 0) return 0;
+    const now = Date.now();
+    this.#busyUntil = Math.max(now, this.#busyUntil) + (bytes / throughput) * 1000;
+    return this.#busyUntil - now;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,189 @@
+import { test, expect } from "@playwright/test";
+import type { Page, Request, Route } from "playwright-core";
+
+import { NETWORK_PRESETS, RouteNetworkAPI } from "../src/index.js";
+
+type Handler = (route: Route, request: Request) => Promise<void>;
+
+function fakePage() {
+  const handlers: Handler[] = [];
+  const calls: string[] = [];
+  const page = {
+    route: async (_url: string, handler: Handler) => {
+      calls.push("route");
+      handlers.push(handler);
+    },
+    unroute: async (_url: string, handler: Handler) => {
+      calls.push("unroute");
+      handlers.splice(handlers.indexOf(handler), 1);
+    },
+    context: () => ({
+      setOffline: async (offline: boolean) => {
+        calls.push(`setOffline(${offline})`);
+      },
+    }),
+  } as unknown as Page;
+  return { page, handlers, calls };
+}
+
+/** Sends a request through the page's handlers; resolves with what the route did. */
+async function request(
+  handlers: Handler[],
+  { body = 0, postData = 0, fail = false, accept = "*/*" } = {},
+): Promise<{ outcome: string; elapsed: number }> {
+  let outcome = "none";
+  const response = { body: async () => Buffer.alloc(body) };
+  const route = {
+    fallback: async () => void (outcome = "fallback"),
+    abort: async (code: string) => void (outcome = `abort(${code})`),
+    fetch: async () => {
+      if (fail) throw new Error("net::ERR_CONNECTION_REFUSED");
+      return response;
+    },
+    fulfill: async (options: { response: unknown; body: Buffer }) => {
+      outcome = options.response === response ? `fulfill(${options.body.length})` : "fulfill(?)";
+    },
+  } as unknown as Route;
+  const req = {
+    headers: () => ({ accept }),
+    postDataBuffer: () => (postData ? Buffer.alloc(postData) : null),
+  } as unknown as Request;
+
+  const startedAt = Date.now();
+  await handlers[0]!(route, req);
+  return { outcome, elapsed: Date.now() - startedAt };
+}
+
+test.describe("RouteNetworkAPI", () => {
+  test("start routes once and returns the resolved condition", async () => {
+    const { page, handlers, calls } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    const applied = await api.start("Regular3G");
+    await api.start({ latency: 10 });
+
+    expect(applied).toBe(NETWORK_PRESETS.Regular3G);
+    expect(api.condition).toEqual({
+      offline: false,
+      downloadThroughput: -1,
+      uploadThroughput: -1,
+      latency: 10,
+    });
+    expect(api.started).toBe(true);
+    expect(handlers).toHaveLength(1);
+    expect(calls).toEqual(["route"]);
+  });
+
+  test("unknown preset name throws before routing", async () => {
+    const { page, calls } = fakePage();
+    const api = new RouteNetworkAPI(page);
+    await expect(api.start("LTE" as never)).rejects.toThrow(
+      /RouteNetworkAPI.start: unknown preset "LTE".*Regular3G/,
+    );
+    expect(calls).toHaveLength(0);
+  });
+
+  test("offline aborts requests and takes the context offline", async () => {
+    const { page, handlers, calls } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    await api.start("Offline");
+    expect((await request(handlers)).outcome).toBe("abort(internetdisconnected)");
+    expect(calls).toEqual(["route", "setOffline(true)"]);
+
+    await api.stop();
+    expect(calls).toEqual(["route", "setOffline(true)", "unroute", "setOffline(false)"]);
+  });
+
+  test("latency delays the response", async () => {
+    const { page, handlers } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    await api.start({ latency: 100 });
+    const { outcome, elapsed } = await request(handlers, { body: 10 });
+
+    expect(outcome).toBe("fulfill(10)");
+    expect(elapsed).toBeGreaterThanOrEqual(95);
+  });
+
+  test("download and upload time follow the throughput", async () => {
+    const { page, handlers } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    await api.start({ downloadThroughput: 10_000 });
+    expect((await request(handlers, { body: 1_000 })).elapsed).toBeGreaterThanOrEqual(95);
+
+    await api.start({ uploadThroughput: 10_000 });
+    expect((await request(handlers, { postData: 1_000 })).elapsed).toBeGreaterThanOrEqual(95);
+  });
+
+  test("parallel downloads share the throughput", async () => {
+    const { page, handlers } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    await api.start({ downloadThroughput: 10_000 });
+    const results = await Promise.all([
+      request(handlers, { body: 1_000 }),
+      request(handlers, { body: 1_000 }),
+    ]);
+
+    expect(Math.max(...results.map((r) => r.elapsed))).toBeGreaterThanOrEqual(195);
+  });
+
+  test("NoThrottling passes requests through without delay", async () => {
+    const { page, handlers } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    await api.start("NoThrottling");
+    const { outcome, elapsed } = await request(handlers, { body: 1_000_000 });
+
+    expect(outcome).toBe("fulfill(1000000)");
+    expect(elapsed).toBeLessThan(50);
+  });
+
+  test("event streams pass through after the latency", async () => {
+    const { page, handlers } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    await api.start({ latency: 100, downloadThroughput: 1 });
+    const { outcome, elapsed } = await request(handlers, { body: 10, accept: "text/event-stream" });
+
+    expect(outcome).toBe("fallback");
+    expect(elapsed).toBeGreaterThanOrEqual(95);
+    expect(elapsed).toBeLessThan(1_000);
+  });
+
+  test("a failed fetch aborts the request", async () => {
+    const { page, handlers } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    await api.start("WiFi");
+    expect((await request(handlers, { fail: true })).outcome).toBe("abort(failed)");
+  });
+
+  test("stop unroutes and clears state; stop before start is a no-op", async () => {
+    const { page, handlers, calls } = fakePage();
+    const api = new RouteNetworkAPI(page);
+
+    await api.stop();
+    expect(calls).toHaveLength(0);
+
+    await api.start("GPRS");
+    await api.stop();
+    await api.stop();
+
+    expect(calls).toEqual(["route", "unroute"]);
+    expect(handlers).toHaveLength(0);
+    expect(api.condition).toBeNull();
+    expect(api.started).toBe(false);
+  });
+
+  test("async dispose stops emulation", async () => {
+    const { page, handlers } = fakePage();
+    {
+      await using api = new RouteNetworkAPI(page);
+      await api.start("Regular2G");
+    }
+    expect(handlers).toHaveLength(0);
+  });
+});
@@ -9,6 +9,12 @@ import type {
   TestStep,
 } from "@playwright/test/reporter";
 import EventEmitter from "node:events";
+import { buildRunModel, type RunModel } from "./run-model";
+import {
+  updateHistory,
+  type HistoryOptions,
+  type HistoryReport,
+} from "./history";
 
 /**
  * Array of test cases with their results, collected over the run.
@@ -18,17 +24,25 @@ export type TestCases = [test: TestCase, result: TestResult][];
 
 /**
  * A static value or a template function producing it dynamically from the
- * run result and all collected {@link TestCases}.
+ * run result, all collected {@link TestCases} and the normalized
+ * {@link RunModel} (final outcomes after retries, flaky tests, rollups).
  *
  * @example
  * ```ts
  * const subject: Template = (result) => `Playwright report — ${result.status}`;
  * const table: Template = (result, testCases) =>
  *   testCases.map(([test, r]) => `${test.title}: ${r.status}`).join("\n");
+ * const summary: Template = (result, _testCases, run) =>
+ *   `${run.totals.passed} passed, ${run.totals.failed} failed, ${run.totals.flaky} flaky`;
  * ```
  */
 export type Template<T = string> =
-  T | ((result: FullResult, testCases: TestCases) => T | Promise<T>);
+  | T
+  | ((
+      result: FullResult,
+      testCases: TestCases,
+      run: RunModel,
+    ) => T | Promise<T>);
 
 /** Per-status test counters accumulated by {@link BaseReporter}. */
 export type StatusCounts = {
@@ -65,10 +79,13 @@ type ReporterEvents = {
     result: void | TestResult,
   ];
   end: [result: FullResult];
+  history: [report: HistoryReport];
 };
 
 type BaseReporterOptions = {
-  captureRejections: boolean;
+  captureRejections?: boolean;
+  /** Run history, see {@link HistoryOptions}. */
+  history?: HistoryOptions;
 };
 
 type EMPTY_OBJECT = {};
@@ -84,13 +101,17 @@ type EventMap<T> = Record<keyof T, any[]>;
  * - accumulates {@link TestCases} in `onTestEnd` (available to template
  *   callbacks via {@link BaseReporter.testCases})
  * - counts per-status results in {@link BaseReporter.counts}
+ * - exposes the normalized {@link RunModel} via {@link BaseReporter.run}
+ * - updates the run history in `onEnd` when a `history` option is given
  * - stores the {@link FullConfig} in {@link BaseReporter.config}
  * - resolves static-or-template option values via {@link BaseReporter.resolveTemplate}
  * - returns `false` from `printsToStdio()`
  *
  * Subclasses MUST call `super.onBegin(config, suite)` and
  * `super.onTestEnd(test, result)` when overriding those hooks,
- * otherwise the accumulation silently stops working.
+ * otherwise the accumulation silently stops working. Overrides of `onEnd`
+ * should `await super.onEnd(result)` (or {@link BaseReporter.updateHistory})
+ * before resolving templates, so `run.history` is available.
  *
  * @extends EventEmitter
  *
@@ -133,11 +154,16 @@ export abstract class BaseReporter<
   _additionalEvents!: AdditionalEvents;
   /** typescript type, not a real prop */
   _reporterEvents!: ReporterEvents;
-  // @ts-expect-error fix later
+  /** Built-in events, typed inside the class too (`Merged` is still generic there). */
+  override emit<const K extends keyof ReporterEvents>(
+    eventName: K,
+    ...args: ReporterEvents[K]
+  ): boolean;
   override emit<const K extends string | symbol | keyof Merged = keyof Merged>(
     eventName: K,
     ...args: Merged[K] extends unknown[] ? Merged[K] : [Merged[K]]
-  ): boolean {
+  ): boolean;
+  override emit(eventName: string | symbol, ...args: unknown[]): boolean {
     return super.emit(eventName as string, ...(args as never));
   }
   /** Every finished test with its result, in execution order. */
@@ -152,42 +178,88 @@ export abstract class BaseReporter<
   };
   /** The resolved Playwright config, available after `onBegin`. */
   protected config: FullConfig | undefined;
+  #run: RunModel | undefined;
+  readonly #historyOptions: HistoryOptions | undefined;
+  #history: Promise<HistoryReport | undefined> | undefined;
+  #historyReport: HistoryReport | undefined;
+
+  /**
+   * Normalized view of the collected {@link TestCases}: one entry per test
+   * with its attempts and final outcome, flaky tests, per-project/file/tag
+   * rollups, slowest tests and duration percentiles. Built lazily and
+   * cached until the next `onTestEnd`.
+   */
+  protected get run(): RunModel {
+    return (this.#run ??= {
+      ...buildRunModel(this.testCases, { rootDir: this.config?.rootDir }),
+      history: this.#historyReport,
+    });
+  }
 
   constructor(options?: BaseReporterOptions, ...args: any[]) {
     super({ captureRejections: options?.captureRejections ?? false });
-    // @ts-expect-error fix later
+    this.#historyOptions = options?.history;
     this.emit("reporter.init", args);
   }
 
   [Symbol.dispose]() {
-    // @ts-expect-error fix later
     this.emit("reporter.dispose");
   }
 
   onBegin(config: FullConfig, _suite: Suite): void {
     this.config = config;
     this.testCases.length = 0;
+    this.#run = undefined;
+    this.#history = undefined;
+    this.#historyReport = undefined;
     this.counts.passed = 0;
     this.counts.failed = 0;
     this.counts.timedOut = 0;
     this.counts.skipped = 0;
     this.counts.interrupted = 0;
-    // @ts-expect-error fix later
     this.emit("begin", config, _suite);
   }
 
-  onEnd(
+  async onEnd(
     result: FullResult,
-  ): Promise<{ status?: FullResult["status"] } | undefined | void> | void {
-    // @ts-expect-error fix later
+  ): Promise<{ status?: FullResult["status"] } | undefined | void> {
+    await this.updateHistory(result);
     this.emit("end", result);
   }
+
+  /**
+   * Loads the run history, classifies the current run against it and saves
+   * it back — once per run, later calls return the same report. Resolves to
+   * `undefined` when no `history` option was given, or when the store fails:
+   * a broken history must not stop the reporter, so the error is only warned
+   * about and `run.history` stays `undefined`. Called by `onEnd`.
+   */
+  protected updateHistory(
+    result: FullResult,
+  ): Promise<HistoryReport | undefined> {
+    const options = this.#historyOptions;
+    if (!options) return Promise.resolve(undefined);
+    return (this.#history ??= updateHistory(options, result, this.run).then(
+      (report) => {
+        this.#historyReport = report;
+        this.#run = undefined;
+        this.emit("history", report);
+        return report;
+      },
+      (error: unknown) => {
+        console.warn(
+          `[reporter-core] failed to update run history: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+        return undefined;
+      },
+    ));
+  }
   onError(error: TestError): void {
-    // @ts-expect-error fix later
     this.emit("error", error);
   }
   async onExit(): Promise<void> {
-    // @ts-expect-error fix later
     this.emit("exit");
   }
   onStdErr(
@@ -195,7 +267,6 @@ export abstract class BaseReporter<
     test: void | TestCase,
     result: void | TestResult,
   ): void {
-    // @ts-expect-error fix later
     this.emit("stdErr", chunk, test, result);
   }
   onStdOut(
@@ -203,26 +274,22 @@ export abstract class BaseReporter<
     test: void | TestCase,
     result: void | TestResult,
   ): void {
-    // @ts-expect-error fix later
     this.emit("stdOut", chunk, test, result);
   }
   onStepBegin(test: TestCase, result: TestResult, step: TestStep): void {
-    // @ts-expect-error fix later
     this.emit("step.begin", test, result, step);
   }
   onStepEnd(test: TestCase, result: TestResult, step: TestStep): void {
-    // @ts-expect-error fix later
     this.emit("step.end", test, result, step);
   }
   onTestBegin(test: TestCase, result: TestResult): void {
-    // @ts-expect-error fix later
     this.emit("test.begin", test, result);
   }
 
   onTestEnd(test: TestCase, result: TestResult): void {
-    // @ts-expect-error fix later
     this.emit("test.end", test, result);
     this.testCases.push([test, result]);
+    this.#run = undefined;
     switch (result.status) {
       case "passed":
         this.counts.passed++;
@@ -243,7 +310,7 @@ export abstract class BaseReporter<
   }
 
   /**
-   * Resolves a {@link Template} option: calls it with `(result, testCases)`
+   * Resolves a {@link Template} option: calls it with `(result, testCases, run)`
    * when it is a function (awaiting promises), returns it as-is otherwise.
    * `undefined` passes through.
    */
@@ -254,8 +321,12 @@ export abstract class BaseReporter<
     if (value === undefined) return undefined;
     if (typeof value === "function") {
       return (
-        value as (result: FullResult, testCases: TestCases) => T | Promise<T>
-      )(result, this.testCases);
+        value as (
+          result: FullResult,
+          testCases: TestCases,
+          run: RunModel,
+        ) => T | Promise<T>
+      )(result, this.testCases, this.run);
     }
     return value;
   }
@@ -0,0 +1,336 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { FullResult } from "@playwright/test/reporter";
+import type { RunModel, TestOutcome } from "./run-model";
+
+/** What a single test did in one stored run. */
+export type HistoryTestRecord = {
+  title: string;
+  outcome: TestOutcome;
+  /** Sum of attempt durations (ms). */
+  duration: number;
+  attempts: number;
+};
+
+/** One stored run — a compact snapshot of a {@link RunModel}. */
+export type HistoryRun = {
+  /** Unique run id — the run's start time as an ISO string. */
+  id: string;
+  startTime: string;
+  status: FullResult["status"];
+  /** Per-test records keyed by `TestCase.id`. */
+  tests: Record<string, HistoryTestRecord>;
+};
+
+/**
+ * Storage backend for the run history. `load` returns previous runs oldest
+ * first, `save` receives the full (already trimmed) history to persist.
+ *
+ * Implement it to keep the history anywhere — e.g. an object in S3 via
+ * `S3Client` from `@playwright-labs/s3-core`:
+ *
+ * @example
+ * ```ts
+ * const store: HistoryStore = {
+ *   async load() {
+ *     const body = await s3.getObject("reports", "history.json").catch(() => null);
+ *     return body ? JSON.parse(body.toString("utf8")) : [];
+ *   },
+ *   async save(runs) {
+ *     await s3.putObject("reports", "history.json", JSON.stringify(runs));
+ *   },
+ * };
+ * ```
+ */
+export interface HistoryStore {
+  load(): Promise<HistoryRun[]>;
+  save(runs: HistoryRun[]): Promise<void>;
+}
+
+/**
+ * The `history` option of every reporter built on `BaseReporter`: keep
+ * a run history and classify tests against previous runs — new failures,
+ * fixed, still failing and flaky rates, exposed to templates as
+ * `run.history`. The history is saved once per run, in `onEnd`; a store that
+ * fails is warned about and leaves `run.history` undefined.
+ *
+ * @example
+ * history: { store: jsonHistoryStore(".playwright/history.json"), limit: 20 }
+ */
+export type HistoryOptions = {
+  /** Where the history is kept — {@link jsonHistoryStore}, {@link sqliteHistoryStore} or your own. */
+  store: HistoryStore;
+  /**
+   * How many runs (the current one included) to keep and to compute flaky
+   * rates over.
+   * @default 20
+   */
+  limit?: number;
+};
+
+/**
+ * How a test's current outcome relates to its previous run:
+ *
+ * - `new-failure` — fails now, passed (or did not exist) in the previous run
+ * - `still-failing` — failed in the previous run and fails again
+ * - `fixed` — failed in the previous run and passes now (flaky counts as passing)
+ * - `passing` — passes now and passed before
+ * - `skipped` — skipped in the current run
+ */
+export type HistoryClassification =
+  | "new-failure"
+  | "still-failing"
+  | "fixed"
+  | "passing"
+  | "skipped";
+
+/** History of a single test over the stored runs plus the current one. */
+export type TestHistory = {
+  id: string;
+  title: string;
+  classification: HistoryClassification;
+  /** Runs the test took part in (not skipped), the current run included. */
+  runs: number;
+  /** Runs in which the test was flaky. */
+  flakyRuns: number;
+  /** Runs in which the test failed. */
+  failedRuns: number;
+  /** `flakyRuns / runs`, `0` when the test never ran. */
+  flakyRate: number;
+  /** Id of the first run of the current failing streak, for failing tests. */
+  failingSince?: string;
+};
+
+/** Classification of the current run against the stored history. */
+export type HistoryReport = {
+  /** Number of runs considered, the current one included. */
+  runs: number;
+  /** Per-test history keyed by `TestCase.id`. */
+  tests: Record<string, TestHistory>;
+  newFailures: TestHistory[];
+  stillFailing: TestHistory[];
+  fixed: TestHistory[];
+  /** Tests flaky at least once in the window, highest flaky rate first. */
+  flaky: TestHistory[];
+};
+
+/** Builds the compact {@link HistoryRun} stored for a finished run. */
+export function toHistoryRun(result: FullResult, run: RunModel): HistoryRun {
+  const startTime = result.startTime.toISOString();
+  const tests: Record<string, HistoryTestRecord> = {};
+  for (const test of run.tests) {
+    tests[test.id] = {
+      title: test.title,
+      outcome: test.outcome,
+      duration: test.duration,
+      attempts: test.attempts.length,
+    };
+  }
+  return { id: startTime, startTime, status: result.status, tests };
+}
+
+function isFailure(outcome: TestOutcome | undefined): boolean {
+  return outcome === "unexpected";
+}
+
+function classify(
+  current: TestOutcome,
+  previous: TestOutcome | undefined,
+): HistoryClassification {
+  if (current === "skipped") return "skipped";
+  if (isFailure(current)) {
+    return isFailure(previous) ? "still-failing" : "new-failure";
+  }
+  return isFailure(previous) ? "fixed" : "passing";
+}
+
+/**
+ * Classifies every test of `current` against `previous` runs (oldest
+ * first). `previous` must not contain `current`.
+ */
+export function classifyHistory(
+  previous: readonly HistoryRun[],
+  current: HistoryRun,
+): HistoryReport {
+  const runs = [...previous, current];
+  const tests: Record<string, TestHistory> = {};
+
+  for (const [id, record] of Object.entries(current.tests)) {
+    let last: TestOutcome | undefined;
+    for (let i = previous.length - 1; i >= 0; i--) {
+      const outcome = previous[i].tests[id]?.outcome;
+      if (outcome !== undefined && outcome !== "skipped") {
+        last = outcome;
+        break;
+      }
+    }
+
+    let ran = 0;
+    let flakyRuns = 0;
+    let failedRuns = 0;
+    for (const run of runs) {
+      const outcome = run.tests[id]?.outcome;
+      if (outcome === undefined || outcome === "skipped") continue;
+      ran++;
+      if (outcome === "flaky") flakyRuns++;
+      if (isFailure(outcome)) failedRuns++;
+    }
+
+    const history: TestHistory = {
+      id,
+      title: record.title,
+      classification: classify(record.outcome, last),
+      runs: ran,
+      flakyRuns,
+      failedRuns,
+      flakyRate: ran === 0 ? 0 : flakyRuns / ran,
+    };
+
+    if (isFailure(record.outcome)) {
+      let since = current.id;
+      for (let i = previous.length - 1; i >= 0; i--) {
+        const outcome = previous[i].tests[id]?.outcome;
+        if (outcome === undefined || outcome === "skipped") continue;
+        if (!isFailure(outcome)) break;
+        since = previous[i].id;
+      }
+      history.failingSince = since;
+    }
+
+    tests[id] = history;
+  }
+
+  const all = Object.values(tests);
+  const byClassification = (classification: HistoryClassification) =>
+    all.filter((test) => test.classification === classification);
+
+  return {
+    runs: runs.length,
+    tests,
+    newFailures: byClassification("new-failure"),
+    stillFailing: byClassification("still-failing"),
+    fixed: byClassification("fixed"),
+    flaky: all
+      .filter((test) => test.flakyRuns > 0)
+      .sort((a, b) => b.flakyRate - a.flakyRate),
+  };
+}
+
+/**
+ * Loads the history from `options.store`, classifies the current run,
+ * appends it and saves the history trimmed to `options.limit` runs.
+ */
+export async function updateHistory(
+  options: HistoryOptions,
+  result: FullResult,
+  run: RunModel,
+): Promise<HistoryReport> {
+  const limit = Math.max(options.limit ?? 20, 1);
+  const current = toHistoryRun(result, run);
+  const stored = (await options.store.load()).filter(
+    (previous) => previous.id !== current.id,
+  );
+  const previous = limit > 1 ? stored.slice(-(limit - 1)) : [];
+  const report = classifyHistory(previous, current);
+  await options.store.save([...previous, current]);
+  return report;
+}
+
+/**
+ * {@link HistoryStore} keeping the history in a local JSON file. A missing
+ * file is an empty history; writes go through a temp file + rename so an
+ * interrupted run cannot leave a half-written history behind.
+ *
+ * @example
+ * ```ts
+ * history: { store: jsonHistoryStore(".playwright/history.json"), limit: 20 }
+ * ```
+ */
+export function jsonHistoryStore(filePath: string): HistoryStore {
+  return {
+    async load(): Promise<HistoryRun[]> {
+      let content: string;
+      try {
+        content = await readFile(filePath, "utf8");
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw error;
+      }
+      const runs = JSON.parse(content) as unknown;
+      if (!Array.isArray(runs)) {
+        throw new TypeError(
+          `History file "${filePath}" should contain an array of runs. Got ${typeof runs}`,
+        );
+      }
+      return runs as HistoryRun[];
+    },
+
+    async save(runs: HistoryRun[]): Promise<void> {
+      await mkdir(dirname(filePath), { recursive: true });
+      const temp = `${filePath}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify(runs, null, 2));
+      await rename(temp, filePath);
+    },
+  };
+}
+
+/**
+ * {@link HistoryStore} keeping the history in a SQLite database file (one
+ * row per run) through the optional `better-sqlite3` peer dependency.
+ *
+ * @example
+ * ```ts
+ * history: { store: sqliteHistoryStore(".playwright/history.db") }
+ * ```
+ */
+export function sqliteHistoryStore(
+  filename: string,
+  table = "playwright_run_history",
+): HistoryStore {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new TypeError(`Invalid history table name: ${JSON.stringify(table)}`);
+  }
+
+  async function open() {
+    const { default: Database } = await import("better-sqlite3");
+    if (filename !== ":memory:") {
+      await mkdir(dirname(filename), { recursive: true });
+    }
+    const db = new Database(filename);
+    db.exec(
+      `CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, start_time TEXT NOT NULL, run TEXT NOT NULL)`,
+    );
+    return db;
+  }
+
+  return {
+    async load(): Promise<HistoryRun[]> {
+      const db = await open();
+      try {
+        const rows = db
+          .prepare(`SELECT run FROM ${table} ORDER BY start_time ASC, id ASC`)
+          .all() as { run: string }[];
+        return rows.map((row) => JSON.parse(row.run) as HistoryRun);
+      } finally {
+        db.close();
+      }
+    },
+
+    async save(runs: HistoryRun[]): Promise<void> {
+      const db = await open();
+      try {
+        const insert = db.prepare(
+          `INSERT INTO ${table} (id, start_time, run) VALUES (?, ?, ?)`,
+        );
+        db.transaction(() => {
+          db.prepare(`DELETE FROM ${table}`).run();
+          for (const run of runs) {
+            insert.run(run.id, run.startTime, JSON.stringify(run));
+          }
+        })();
+      } finally {
+        db.close();
+      }
+    },
+  };
+}
@@ -5,6 +5,18 @@ export {
   type StatusCounts,
 } from "./base-reporter";
 
+export {
+  buildRunModel,
+  getTestOutcome,
+  getDurationPercentiles,
+  type RunModel,
+  type RunModelOptions,
+  type RunRollup,
+  type TestRun,
+  type TestOutcome,
+  type DurationPercentiles,
+} from "./run-model";
+
 export {
   type Reporter,
   type FullConfig,
@@ -19,6 +31,21 @@ export {
   type FullResult,
 } from "@playwright/test/reporter";
 
+export {
+  jsonHistoryStore,
+  sqliteHistoryStore,
+  classifyHistory,
+  toHistoryRun,
+  updateHistory,
+  type HistoryStore,
+  type HistoryOptions,
+  type HistoryRun,
+  type HistoryTestRecord,
+  type HistoryReport,
+  type HistoryClassification,
+  type TestHistory,
+} from "./history";
+
 export {
   isExpectPollStep,
   getExpectPollInfo,
@@ -0,0 +1,282 @@
+import { isAbsolute, relative, sep } from "node:path";
+import type { TestCase, TestResult, TestStatus } from "@playwright/test/reporter";
+import type { TestCases } from "./base-reporter";
+import type { HistoryReport } from "./history";
+
+/**
+ * Final outcome of a test after all its retries — the same classification
+ * Playwright uses for `TestCase.outcome()`:
+ *
+ * - `expected` — every attempt that ran ended with the expected status
+ *   (usually `passed`, `failed` for `test.fail()`)
+ * - `flaky` — some attempts ended with the expected status and some did not
+ * - `unexpected` — no attempt ended with the expected status
+ * - `skipped` — no attempt ran to an end: all were skipped or interrupted
+ *
+ * `interrupted` attempts are not counted either way, so a test whose retry
+ * was interrupted after a pass is still `expected`.
+ */
+export type TestOutcome = "expected" | "unexpected" | "flaky" | "skipped";
+
+/** A single test with every attempt Playwright ran for it. */
+export type TestRun = {
+  /** The test case itself. */
+  test: TestCase;
+  /** `TestCase.id` — stable across runs of the same test. */
+  id: string;
+  /** Title path without the empty root suite, joined with ` › `. */
+  title: string;
+  /** Project name, `""` when the project has no name. */
+  project: string;
+  /** Spec file, relative to `rootDir` when one was given to {@link buildRunModel}. */
+  file: string;
+  /** Tags of the test (`@smoke`, …). */
+  tags: string[];
+  /** Every attempt in execution order — `attempts[0]` is the first run, the rest are retries. */
+  attempts: TestResult[];
+  /** The last attempt — the one that decides the outcome. */
+  result: TestResult;
+  /** Status of the last attempt. */
+  status: TestStatus;
+  /** Final outcome after retries, see {@link TestOutcome}. */
+  outcome: TestOutcome;
+  /** `true` when `outcome === "flaky"`. */
+  flaky: boolean;
+  /** Sum of all attempt durations (ms). */
+  duration: number;
+};
+
+/**
+ * Outcome counters for a group of tests. Every test is counted once, by its
+ * final {@link TestOutcome}: `passed` = expected, `failed` = unexpected.
+ */
+export type RunRollup = {
+  total: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  /** Sum of the tests' durations (ms), retries included. */
+  duration: number;
+};
+
+/** Nearest-rank percentiles of per-test durations (ms). All `0` for an empty run. */
+export type DurationPercentiles = {
+  min: number;
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
+  mean: number;
+};
+
+/**
+ * Normalized view of a run built from the raw {@link TestCases}: one entry
+ * per test (not per attempt), with rollups every reporter can print so
+ * Slack, e-mail, webhooks and S3 summaries agree on the numbers.
+ */
+export type RunModel = {
+  /** Every test once, in the order its first attempt finished. */
+  tests: TestRun[];
+  /** Rollup over all tests. */
+  totals: RunRollup;
+  /** Rollups keyed by project name. */
+  byProject: Record<string, RunRollup>;
+  /** Rollups keyed by spec file. */
+  byFile: Record<string, RunRollup>;
+  /** Rollups keyed by tag; untagged tests are not listed. */
+  byTag: Record<string, RunRollup>;
+  /** Tests whose outcome is `unexpected`. */
+  failed: TestRun[];
+  /** Tests whose outcome is `flaky`. */
+  flaky: TestRun[];
+  /** The slowest tests, longest first (see {@link RunModelOptions.slowest}). */
+  slowest: TestRun[];
+  /** Duration percentiles over non-skipped tests. */
+  durations: DurationPercentiles;
+  /**
+   * Classification against previous runs (new failures, fixed, still
+   * failing, flaky rates). Set by `BaseReporter` once `onEnd` updated the
+   * history — only when the reporter was given a `history` option.
+   */
+  history?: HistoryReport;
+};
+
+export type RunModelOptions = {
+  /**
+   * Directory spec files are reported relative to.
+   * @default absolute paths as reported by Playwright
+   */
+  rootDir?: string;
+  /**
+   * How many tests to keep in {@link RunModel.slowest}.
+   * @default 5
+   */
+  slowest?: number;
+};
+
+function emptyRollup(): RunRollup {
+  return { total: 0, passed: 0, failed: 0, flaky: 0, skipped: 0, duration: 0 };
+}
+
+function addToRollup(rollup: RunRollup, run: TestRun): void {
+  rollup.total++;
+  rollup.duration += run.duration;
+  switch (run.outcome) {
+    case "expected":
+      rollup.passed++;
+      break;
+    case "unexpected":
+      rollup.failed++;
+      break;
+    case "flaky":
+      rollup.flaky++;
+      break;
+    case "skipped":
+      rollup.skipped++;
+      break;
+  }
+}
+
+function addToGroup(
+  groups: Record<string, RunRollup>,
+  key: string,
+  run: TestRun,
+): void {
+  addToRollup((groups[key] ??= emptyRollup()), run);
+}
+
+/** `file` relative to `rootDir` with `/` separators; as given when outside it. */
+function relativeFile(file: string, rootDir: string | undefined): string {
+  if (!rootDir || !file) return file;
+  const path = relative(rootDir, file);
+  if (path === "" || path.startsWith("..") || isAbsolute(path)) return file;
+  return path.split(sep).join("/");
+}
+
+/**
+ * Outcome of a test from its attempts — mirrors `TestCase.outcome()`, but
+ * works from the collected results so it also holds for merged reports and
+ * hand-built test cases.
+ */
+export function getTestOutcome(
+  test: Pick<TestCase, "expectedStatus">,
+  attempts: readonly Pick<TestResult, "status">[],
+): TestOutcome {
+  const expectedStatus = test.expectedStatus ?? "passed";
+  let expected = 0;
+  let unexpected = 0;
+  let skipped = 0;
+  for (const { status } of attempts) {
+    if (status === "interrupted") continue;
+    if (status === "skipped") {
+      // a skip only counts for tests expected to be skipped
+      if (expectedStatus === "skipped") skipped++;
+    } else if (status === expectedStatus) expected++;
+    else unexpected++;
+  }
+  if (expected === 0 && unexpected === 0) return "skipped";
+  if (unexpected === 0) return "expected";
+  return expected === 0 && skipped === 0 ? "unexpected" : "flaky";
+}
+
+function percentile(sorted: readonly number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+/**
+ * Computes nearest-rank duration percentiles. `values` does not need to be
+ * sorted.
+ */
+export function getDurationPercentiles(
+  values: readonly number[],
+): DurationPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((acc, value) => acc + value, 0);
+  return {
+    min: sorted[0] ?? 0,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    p99: percentile(sorted, 99),
+    max: sorted[sorted.length - 1] ?? 0,
+    mean: sorted.length === 0 ? 0 : sum / sorted.length,
+  };
+}
+
+/**
+ * Builds the normalized {@link RunModel} from raw `[test, result]` pairs.
+ * Attempts of the same test (retries) are grouped by `TestCase.id`.
+ *
+ * @example
+ * ```ts
+ * const run = buildRunModel(testCases, { rootDir: config.rootDir });
+ * run.totals; // { total: 12, passed: 10, failed: 1, flaky: 1, skipped: 0, duration: 45300 }
+ * run.flaky.map((t) => t.title);
+ * ```
+ */
+export function buildRunModel(
+  testCases: TestCases,
+  options: RunModelOptions = {},
+): RunModel {
+  const attemptsById = new Map<string, [TestCase, TestResult[]]>();
+  for (const [test, result] of testCases) {
+    const entry = attemptsById.get(test.id);
+    if (entry) entry[1].push(result);
+    else attemptsById.set(test.id, [test, [result]]);
+  }
+
+  const tests: TestRun[] = [];
+  for (const [test, unordered] of attemptsById.values()) {
+    const attempts = [...unordered].sort(
+      (a, b) => (a.retry ?? 0) - (b.retry ?? 0),
+    );
+    const result = attempts[attempts.length - 1];
+    const outcome = getTestOutcome(test, attempts);
+    tests.push({
+      test,
+      id: test.id,
+      title: (test.titlePath?.() ?? [test.title]).filter(Boolean).join(" › "),
+      project: test.parent?.project?.()?.name ?? "",
+      file: relativeFile(test.location?.file ?? "", options.rootDir),
+      tags: test.tags ?? [],
+      attempts,
+      result,
+      status: result.status,
+      outcome,
+      flaky: outcome === "flaky",
+      duration: attempts.reduce((acc, attempt) => acc + (attempt.duration ?? 0), 0),
+    });
+  }
+
+  const totals = emptyRollup();
+  const byProject: Record<string, RunRollup> = {};
+  const byFile: Record<string, RunRollup> = {};
+  const byTag: Record<string, RunRollup> = {};
+  for (const run of tests) {
+    addToRollup(totals, run);
+    addToGroup(byProject, run.project, run);
+    addToGroup(byFile, run.file, run);
+    for (const tag of new Set(run.tags)) addToGroup(byTag, tag, run);
+  }
+
+  const ran = tests.filter((run) => run.outcome !== "skipped");
+  const slowest = [...ran]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, options.slowest ?? 5);
+
+  return {
+    tests,
+    totals,
+    byProject,
+    byFile,
+    byTag,
+    failed: tests.filter((run) => run.outcome === "unexpected"),
+    flaky: tests.filter((run) => run.flaky),
+    slowest,
+    durations: getDurationPercentiles(ran.map((run) => run.duration)),
+  };
+}
@@ -136,6 +136,23 @@ test.describe("BaseReporter — resolveTemplate", () => {
     expect(resolved).toBe("failed: a,b");
   });
 
+  test("passes the run model as the third argument", async () => {
+    const reporter = new TestReporter();
+    reporter.onBegin(makeConfig(), makeSuite());
+    const flaky = makeTest({ id: "flaky" });
+    reporter.onTestEnd(flaky, { ...makeResult("failed"), retry: 0 } as TestResult);
+    reporter.onTestEnd(flaky, { ...makeResult("passed"), retry: 1 } as TestResult);
+    reporter.onTestEnd(makeTest({ id: "ok" }), makeResult("passed"));
+
+    const resolved = await reporter.resolve<string>(
+      (_r, _testCases, run) =>
+        `${run.totals.total} tests, ${run.totals.flaky} flaky`,
+      makeFullResult(),
+    );
+
+    expect(resolved).toBe("2 tests, 1 flaky");
+  });
+
   test("awaits promise-returning templates", async () => {
     const reporter = new TestReporter();
     const resolved = await reporter.resolve<string>(
@@ -0,0 +1,282 @@
+import { test, expect } from "@playwright/test";
+import { readFile, writeFile } from "node:fs/promises";
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from "@playwright/test/reporter";
+
+import {
+  BaseReporter,
+  classifyHistory,
+  jsonHistoryStore,
+  sqliteHistoryStore,
+  updateHistory,
+  buildRunModel,
+  type HistoryOptions,
+  type HistoryReport,
+  type HistoryRun,
+  type HistoryStore,
+  type TestOutcome,
+} from "../src/index";
+
+function historyRun(
+  id: string,
+  outcomes: Record<string, TestOutcome>,
+): HistoryRun {
+  const tests: HistoryRun["tests"] = {};
+  for (const [testId, outcome] of Object.entries(outcomes)) {
+    tests[testId] = { title: testId, outcome, duration: 10, attempts: 1 };
+  }
+  return { id, startTime: id, status: "passed", tests };
+}
+
+function memoryStore(initial: HistoryRun[] = []): HistoryStore & {
+  runs: HistoryRun[];
+} {
+  return {
+    runs: initial,
+    async load() {
+      return [...this.runs];
+    },
+    async save(runs) {
+      this.runs = runs;
+    },
+  };
+}
+
+function makeTest(id: string): TestCase {
+  return {
+    id,
+    title: id,
+    titlePath: () => ["", id],
+    expectedStatus: "passed",
+  } as unknown as TestCase;
+}
+
+function makeResult(
+  status: TestResult["status"],
+  retry = 0,
+): TestResult {
+  return { status, retry, duration: 10 } as unknown as TestResult;
+}
+
+function makeFullResult(startTime: string): FullResult {
+  return {
+    status: "passed",
+    startTime: new Date(startTime),
+    duration: 100,
+  } as unknown as FullResult;
+}
+
+test.describe("classifyHistory", () => {
+  test("classifies new failures, still failing, fixed and passing", () => {
+    const previous = [
+      historyRun("r1", { a: "expected", b: "unexpected", c: "unexpected", d: "expected" }),
+    ];
+    const current = historyRun("r2", {
+      a: "unexpected",
+      b: "unexpected",
+      c: "expected",
+      d: "expected",
+      e: "unexpected",
+      f: "skipped",
+    });
+
+    const report = classifyHistory(previous, current);
+
+    expect(report.tests.a.classification).toBe("new-failure");
+    expect(report.tests.b.classification).toBe("still-failing");
+    expect(report.tests.c.classification).toBe("fixed");
+    expect(report.tests.d.classification).toBe("passing");
+    expect(report.tests.e.classification).toBe("new-failure");
+    expect(report.tests.f.classification).toBe("skipped");
+    expect(report.newFailures.map((t) => t.id)).toEqual(["a", "e"]);
+    expect(report.stillFailing.map((t) => t.id)).toEqual(["b"]);
+    expect(report.fixed.map((t) => t.id)).toEqual(["c"]);
+  });
+
+  test("a flaky pass counts as passing, not failing", () => {
+    const report = classifyHistory(
+      [historyRun("r1", { a: "unexpected" })],
+      historyRun("r2", { a: "flaky" }),
+    );
+    expect(report.tests.a.classification).toBe("fixed");
+  });
+
+  test("compares against the last run the test was not skipped in", () => {
+    const report = classifyHistory(
+      [historyRun("r1", { a: "unexpected" }), historyRun("r2", { a: "skipped" })],
+      historyRun("r3", { a: "unexpected" }),
+    );
+    expect(report.tests.a.classification).toBe("still-failing");
+    expect(report.tests.a.failingSince).toBe("r1");
+  });
+
+  test("computes flaky rate over the runs the test took part in", () => {
+    const report = classifyHistory(
+      [
+        historyRun("r1", { a: "flaky" }),
+        historyRun("r2", { a: "expected" }),
+        historyRun("r3", { a: "flaky" }),
+        historyRun("r4", {}),
+      ],
+      historyRun("r5", { a: "expected", b: "flaky" }),
+    );
+
+    expect(report.runs).toBe(5);
+    expect(report.tests.a).toMatchObject({ runs: 4, flakyRuns: 2, flakyRate: 0.5 });
+    expect(report.flaky.map((t) => t.id)).toEqual(["b", "a"]);
+  });
+});
+
+test.describe("updateHistory", () => {
+  test("appends the current run and trims to limit", async () => {
+    const store = memoryStore([
+      historyRun("2026-01-01T00:00:00.000Z", { t1: "expected" }),
+      historyRun("2026-01-02T00:00:00.000Z", { t1: "expected" }),
+      historyRun("2026-01-03T00:00:00.000Z", { t1: "expected" }),
+    ]);
+    const run = buildRunModel([[makeTest("t1"), makeResult("failed")]]);
+
+    const report = await updateHistory(
+      { store, limit: 3 },
+      makeFullResult("2026-01-04T00:00:00.000Z"),
+      run,
+    );
+
+    expect(report.runs).toBe(3);
+    expect(report.tests.t1.classification).toBe("new-failure");
+    expect(store.runs.map((r) => r.id)).toEqual([
+      "2026-01-02T00:00:00.000Z",
+      "2026-01-03T00:00:00.000Z",
+      "2026-01-04T00:00:00.000Z",
+    ]);
+    expect(store.runs[2].tests.t1).toEqual({
+      title: "t1",
+      outcome: "unexpected",
+      duration: 10,
+      attempts: 1,
+    });
+  });
+});
+
+test.describe("jsonHistoryStore", () => {
+  test("missing file loads as empty history", async ({}, testInfo) => {
+    const store = jsonHistoryStore(testInfo.outputPath("missing", "history.json"));
+    await expect(store.load()).resolves.toEqual([]);
+  });
+
+  test("round-trips runs, creating parent directories", async ({}, testInfo) => {
+    const file = testInfo.outputPath("nested", "history.json");
+    const store = jsonHistoryStore(file);
+    const runs = [historyRun("r1", { a: "flaky" })];
+
+    await store.save(runs);
+
+    await expect(store.load()).resolves.toEqual(runs);
+    expect(JSON.parse(await readFile(file, "utf8"))).toEqual(runs);
+  });
+
+  test("rejects a file that is not an array", async ({}, testInfo) => {
+    const file = testInfo.outputPath("history.json");
+    await writeFile(file, JSON.stringify({ runs: [] }));
+    await expect(jsonHistoryStore(file).load()).rejects.toThrow(
+      "should contain an array of runs",
+    );
+  });
+});
+
+test.describe("sqliteHistoryStore", () => {
+  test("round-trips runs in start time order", async ({}, testInfo) => {
+    const store = sqliteHistoryStore(testInfo.outputPath("history.db"));
+    const runs = [
+      historyRun("2026-01-01T00:00:00.000Z", { a: "expected" }),
+      historyRun("2026-01-02T00:00:00.000Z", { a: "unexpected" }),
+    ];
+
+    await store.save(runs);
+    await expect(store.load()).resolves.toEqual(runs);
+
+    await store.save(runs.slice(1));
+    await expect(store.load()).resolves.toEqual(runs.slice(1));
+  });
+
+  test("rejects unsafe table names", () => {
+    expect(() => sqliteHistoryStore("history.db", "runs; DROP TABLE x")).toThrow(
+      "Invalid history table name",
+    );
+  });
+});
+
+class HistoryReporter extends BaseReporter {
+  constructor(history: HistoryOptions) {
+    super({ history });
+  }
+  summary(result: FullResult) {
+    return this.resolveTemplate<string>(
+      (_r, _testCases, run) =>
+        `new: ${run.history?.newFailures.map((t) => t.id).join(",")}`,
+      result,
+    );
+  }
+}
+
+test.describe("BaseReporter — history", () => {
+  test("onEnd updates the store and exposes run.history to templates", async () => {
+    const store = memoryStore([
+      historyRun("2026-01-01T00:00:00.000Z", { a: "expected", b: "expected" }),
+    ]);
+    const reporter = new HistoryReporter({ store });
+    const reports: HistoryReport[] = [];
+    reporter.on("history", (report) => reports.push(report));
+
+    reporter.onBegin({ rootDir: "/repo" } as FullConfig, {} as Suite);
+    reporter.onTestEnd(makeTest("a"), makeResult("failed"));
+    reporter.onTestEnd(makeTest("b"), makeResult("passed"));
+    const result = makeFullResult("2026-01-02T00:00:00.000Z");
+    await reporter.onEnd(result);
+
+    expect(store.runs).toHaveLength(2);
+    expect(reports).toHaveLength(1);
+    await expect(reporter.summary(result)).resolves.toBe("new: a");
+  });
+
+  test("a failing store is warned about and does not fail onEnd", async ({}, testInfo) => {
+    const file = testInfo.outputPath("history.json");
+    await writeFile(file, "{ not json");
+    const reporter = new HistoryReporter({ store: jsonHistoryStore(file) });
+    const warnings: unknown[] = [];
+    const warn = console.warn;
+    console.warn = (message: unknown) => warnings.push(message);
+    try {
+      reporter.onBegin({ rootDir: "/repo" } as FullConfig, {} as Suite);
+      reporter.onTestEnd(makeTest("a"), makeResult("failed"));
+      const result = makeFullResult("2026-01-02T00:00:00.000Z");
+      await expect(reporter.onEnd(result)).resolves.toBeUndefined();
+      await expect(reporter.summary(result)).resolves.toBe("new: undefined");
+    } finally {
+      console.warn = warn;
+    }
+    expect(warnings).toEqual([
+      expect.stringContaining("[reporter-core] failed to update run history:"),
+    ]);
+  });
+
+  test("run.history is undefined without a history option", async () => {
+    class PlainReporter extends BaseReporter {
+      history(result: FullResult) {
+        return this.resolveTemplate<boolean>(
+          (_r, _testCases, run) => run.history === undefined,
+          result,
+        );
+      }
+    }
+    const reporter = new PlainReporter();
+    const result = makeFullResult("2026-01-02T00:00:00.000Z");
+    await reporter.onEnd(result);
+    await expect(reporter.history(result)).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,234 @@
+import { test, expect } from "@playwright/test";
+import type { TestCase, TestResult } from "@playwright/test/reporter";
+import { join, sep } from "node:path";
+
+import {
+  buildRunModel,
+  getDurationPercentiles,
+  getTestOutcome,
+  type TestCases,
+} from "../src/index";
+
+function makeTest(overrides: {
+  id: string;
+  title?: string;
+  project?: string;
+  file?: string;
+  tags?: string[];
+  expectedStatus?: TestCase["expectedStatus"];
+}): TestCase {
+  const title = overrides.title ?? overrides.id;
+  return {
+    id: overrides.id,
+    title,
+    titlePath: () => ["", overrides.project ?? "", "spec.ts", title],
+    parent: { project: () => ({ name: overrides.project ?? "" }) },
+    location: { file: overrides.file ?? "/repo/tests/spec.ts", line: 1, column: 1 },
+    tags: overrides.tags ?? [],
+    expectedStatus: overrides.expectedStatus ?? "passed",
+  } as unknown as TestCase;
+}
+
+function makeResult(
+  status: TestResult["status"],
+  overrides: { retry?: number; duration?: number } = {},
+): TestResult {
+  return {
+    status,
+    retry: overrides.retry ?? 0,
+    duration: overrides.duration ?? 100,
+  } as unknown as TestResult;
+}
+
+test.describe("getTestOutcome", () => {
+  test("expected when every attempt matches the expected status", () => {
+    expect(getTestOutcome(makeTest({ id: "a" }), [makeResult("passed")])).toBe(
+      "expected",
+    );
+  });
+
+  test("flaky when a retry passes after a failure", () => {
+    expect(
+      getTestOutcome(makeTest({ id: "a" }), [
+        makeResult("failed"),
+        makeResult("passed", { retry: 1 }),
+      ]),
+    ).toBe("flaky");
+  });
+
+  test("unexpected when the last attempt fails", () => {
+    expect(
+      getTestOutcome(makeTest({ id: "a" }), [
+        makeResult("failed"),
+        makeResult("timedOut", { retry: 1 }),
+      ]),
+    ).toBe("unexpected");
+  });
+
+  test("does not count interrupted attempts, like TestCase.outcome()", () => {
+    const t = makeTest({ id: "a" });
+    expect(
+      getTestOutcome(t, [makeResult("passed"), makeResult("interrupted", { retry: 1 })]),
+    ).toBe("expected");
+    expect(
+      getTestOutcome(t, [makeResult("failed"), makeResult("interrupted", { retry: 1 })]),
+    ).toBe("unexpected");
+    expect(getTestOutcome(t, [makeResult("interrupted")])).toBe("skipped");
+  });
+
+  test("flaky when any attempt passed, whatever the order", () => {
+    expect(
+      getTestOutcome(makeTest({ id: "a" }), [
+        makeResult("passed"),
+        makeResult("failed", { retry: 1 }),
+      ]),
+    ).toBe("flaky");
+  });
+
+  test("respects test.fail() expected status", () => {
+    const failing = makeTest({ id: "a", expectedStatus: "failed" });
+    expect(getTestOutcome(failing, [makeResult("failed")])).toBe("expected");
+    expect(getTestOutcome(failing, [makeResult("passed")])).toBe("unexpected");
+  });
+
+  test("skipped when every attempt was skipped", () => {
+    expect(getTestOutcome(makeTest({ id: "a" }), [makeResult("skipped")])).toBe(
+      "skipped",
+    );
+  });
+});
+
+test.describe("getDurationPercentiles", () => {
+  test("returns zeros for no values", () => {
+    expect(getDurationPercentiles([])).toEqual({
+      min: 0,
+      p50: 0,
+      p90: 0,
+      p95: 0,
+      p99: 0,
+      max: 0,
+      mean: 0,
+    });
+  });
+
+  test("uses nearest-rank on unsorted input", () => {
+    const values = [10, 1, 9, 2, 8, 3, 7, 4, 6, 5];
+    const percentiles = getDurationPercentiles(values);
+    expect(percentiles.min).toBe(1);
+    expect(percentiles.p50).toBe(5);
+    expect(percentiles.p90).toBe(9);
+    expect(percentiles.p95).toBe(10);
+    expect(percentiles.max).toBe(10);
+    expect(percentiles.mean).toBe(5.5);
+  });
+});
+
+test.describe("buildRunModel", () => {
+  test("groups retries into one test with ordered attempts", () => {
+    const t = makeTest({ id: "t1" });
+    const second = makeResult("passed", { retry: 1, duration: 50 });
+    const first = makeResult("failed", { retry: 0, duration: 200 });
+    const run = buildRunModel([
+      [t, second],
+      [t, first],
+    ]);
+
+    expect(run.tests).toHaveLength(1);
+    expect(run.tests[0].attempts).toEqual([first, second]);
+    expect(run.tests[0].result).toBe(second);
+    expect(run.tests[0].status).toBe("passed");
+    expect(run.tests[0].flaky).toBe(true);
+    expect(run.tests[0].duration).toBe(250);
+    expect(run.flaky.map((r) => r.id)).toEqual(["t1"]);
+  });
+
+  test("counts each test once by final outcome", () => {
+    const flaky = makeTest({ id: "flaky" });
+    const broken = makeTest({ id: "broken" });
+    const testCases: TestCases = [
+      [makeTest({ id: "ok" }), makeResult("passed")],
+      [flaky, makeResult("failed")],
+      [flaky, makeResult("passed", { retry: 1 })],
+      [broken, makeResult("failed")],
+      [broken, makeResult("failed", { retry: 1 })],
+      [makeTest({ id: "skip" }), makeResult("skipped", { duration: 0 })],
+    ];
+
+    const run = buildRunModel(testCases);
+
+    expect(run.totals).toEqual({
+      total: 4,
+      passed: 1,
+      failed: 1,
+      flaky: 1,
+      skipped: 1,
+      duration: 500,
+    });
+    expect(run.failed.map((r) => r.id)).toEqual(["broken"]);
+  });
+
+  test("rolls up by project, file relative to rootDir and tag", () => {
+    const run = buildRunModel(
+      [
+        [
+          makeTest({ id: "a", project: "chromium", file: "/repo/tests/a.spec.ts", tags: ["@smoke"] }),
+          makeResult("passed"),
+        ],
+        [
+          makeTest({ id: "b", project: "firefox", file: "/repo/tests/a.spec.ts", tags: ["@smoke", "@slow"] }),
+          makeResult("failed"),
+        ],
+        [
+          makeTest({ id: "c", project: "firefox", file: "/repo/tests/b.spec.ts" }),
+          makeResult("passed"),
+        ],
+      ],
+      { rootDir: "/repo" },
+    );
+
+    expect(Object.keys(run.byProject)).toEqual(["chromium", "firefox"]);
+    expect(run.byProject.firefox).toMatchObject({ total: 2, passed: 1, failed: 1 });
+    expect(run.byFile["tests/a.spec.ts"]).toMatchObject({ total: 2, failed: 1 });
+    expect(run.byFile["tests/b.spec.ts"]).toMatchObject({ total: 1, passed: 1 });
+    expect(run.byTag["@smoke"]).toMatchObject({ total: 2, passed: 1, failed: 1 });
+    expect(run.byTag["@slow"]).toMatchObject({ total: 1, failed: 1 });
+  });
+
+  test("keeps files outside rootDir as they are", () => {
+    const root = join(sep, "repo");
+    const run = buildRunModel(
+      [
+        [makeTest({ id: "a", file: join(root, "tests", "a.spec.ts") }), makeResult("passed")],
+        [makeTest({ id: "b", file: join(sep, "elsewhere", "b.spec.ts") }), makeResult("passed")],
+      ],
+      { rootDir: `${root}${sep}` },
+    );
+    expect(run.tests.map((r) => r.file)).toEqual([
+      "tests/a.spec.ts",
+      join(sep, "elsewhere", "b.spec.ts"),
+    ]);
+  });
+
+  test("lists the slowest non-skipped tests, longest first", () => {
+    const run = buildRunModel(
+      [
+        [makeTest({ id: "fast" }), makeResult("passed", { duration: 10 })],
+        [makeTest({ id: "slow" }), makeResult("passed", { duration: 900 })],
+        [makeTest({ id: "mid" }), makeResult("failed", { duration: 300 })],
+        [makeTest({ id: "skip" }), makeResult("skipped", { duration: 5000 })],
+      ],
+      { slowest: 2 },
+    );
+
+    expect(run.slowest.map((r) => r.id)).toEqual(["slow", "mid"]);
+    expect(run.durations.max).toBe(900);
+    expect(run.durations.min).toBe(10);
+  });
+
+  test("builds titles without the empty root suite", () => {
+    const run = buildRunModel([
+      [makeTest({ id: "a", title: "logs in", project: "chromium" }), makeResult("passed")],
+    ]);
+    expect(run.tests[0].title).toBe("chromium › spec.ts › logs in");
+  });
+});
@@ -2,7 +2,7 @@ import { defineConfig } from "tsup";
 
 export default defineConfig({
   entry: { index: "src/index.ts" },
-  external: ["@playwright/test"],
+  external: ["@playwright/test", "better-sqlite3"],
   format: ["cjs", "esm"],
   splitting: false,
   clean: true,
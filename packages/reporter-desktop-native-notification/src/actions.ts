@@ -0,0 +1,115 @@
+import { spawn } from "node:child_process";
+import type { Location } from "@playwright/test/reporter";
+import type { NotificationPayload } from "./reporter";
+
+/** What the user did with a notification. */
+export type NotificationResponse =
+  | { type: "click" }
+  | { type: "action"; action: string }
+  /** Closed, timed out or never shown. */
+  | { type: "dismissed" };
+
+/**
+ * Shows a notification and resolves once the user reacted to it (or it
+ * expired). The default implementation uses node-notifier; pass a fake to
+ * test notification actions without a desktop.
+ */
+export interface Notifier {
+  notify(payload: NotificationPayload): Promise<NotificationResponse>;
+}
+
+/** Side effects of notification actions. */
+export interface ActionLauncher {
+  /** Opens a file, directory or URL with the OS default handler. */
+  open(target: string): Promise<void>;
+  /** Starts a process that outlives the test run, printing to this terminal. */
+  spawn(command: string, args: string[], options: { cwd: string }): Promise<void>;
+}
+
+/** Label of the "rerun failed" notification action. */
+export const RERUN_FAILED_ACTION = "Rerun failed";
+
+/** Default {@link Notifier}: node-notifier, loaded on first use. */
+export const nodeNotifier: Notifier = {
+  async notify(payload) {
+    const { title, message, sound, wait, timeout, icon, actions } = payload;
+    const { default: notifier } = await import("node-notifier");
+    return new Promise((resolve, reject) => {
+      notifier.notify(
+        {
+          title,
+          message,
+          sound,
+          wait,
+          timeout,
+          ...(icon && { icon }),
+          ...(actions?.length && { actions }),
+        },
+        (error, response, metadata) => {
+          if (error) return reject(error);
+          // macOS reports buttons via metadata, Windows toasts via the response
+          const action =
+            metadata?.activationType === "actionClicked"
+              ? metadata.activationValue
+              : actions?.find(
+                  (label) => label.toLowerCase() === response?.toLowerCase(),
+                );
+          if (action) resolve({ type: "action", action });
+          else if (
+            response === "activate" ||
+            metadata?.activationType === "contentsClicked"
+          ) {
+            resolve({ type: "click" });
+          } else resolve({ type: "dismissed" });
+        },
+      );
+    });
+  },
+};
+
+function detached(
+  command: string,
+  args: string[],
+  cwd?: string,
+  stdio: "ignore" | "inherit" = "ignore",
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, {
+      cwd,
+      detached: true,
+      stdio,
+      shell: process.platform === "win32",
+    });
+    child.once("error", reject);
+    child.once("spawn", () => {
+      child.unref();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Default {@link ActionLauncher}: `open`, `xdg-open` or `start`, detached
+ * processes. The rerun shares this terminal, so its results stay visible.
+ */
+export const systemLauncher: ActionLauncher = {
+  open(target) {
+    switch (process.platform) {
+      case "darwin":
+        return detached("open", [target]);
+      case "win32":
+        return detached("cmd", ["/c", "start", '""', `"${target}"`]);
+      default:
+        return detached("xdg-open", [target]);
+    }
+  },
+  spawn(command, args, { cwd }) {
+    return detached(command, args, cwd, "inherit");
+  },
+};
+
+/** `vscode://file/<file>:<line>:<column>` — the default link for a failing test. */
+export function vscodeUrl(location: Location): string {
+  const file = location.file.replace(/\\/g, "/");
+  return `vscode://file/${file.startsWith("/") ? file.slice(1) : file}:${location.line}:${location.column}`;
+}
@@ -5,6 +5,21 @@ export {
   type NotificationPayload,
 } from "./reporter";
 
+export {
+  nodeNotifier,
+  systemLauncher,
+  vscodeUrl,
+  RERUN_FAILED_ACTION,
+  type ActionLauncher,
+  type NotificationResponse,
+  type Notifier,
+} from "./actions";
+
 // Re-export the unified template types so consumers can type their
 // message callbacks without installing reporter-core directly.
-export type { Template, TestCases } from "@playwright-labs/reporter-core";
+export type {
+  RunModel,
+  Template,
+  TestCases,
+  TestRun,
+} from "@playwright-labs/reporter-core";
@@ -1,8 +1,24 @@
-import type { FullResult, TestError } from "@playwright/test/reporter";
+import { existsSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import type {
+  FullResult,
+  Location,
+  TestError,
+} from "@playwright/test/reporter";
 import {
   BaseReporter,
+  type HistoryOptions,
   type Template,
 } from "@playwright-labs/reporter-core";
+import {
+  nodeNotifier,
+  RERUN_FAILED_ACTION,
+  systemLauncher,
+  vscodeUrl,
+  type ActionLauncher,
+  type NotificationResponse,
+  type Notifier,
+} from "./actions";
 
 export type DesktopNotificationOptions = {
   /** When to send the run summary notification. @default 'always' */
@@ -11,18 +27,24 @@ export type DesktopNotificationOptions = {
   title?: string;
   /**
    * Notification body: a static string or a template called with
-   * `(result, testCases)` — same contract as reporter-email's `text`/`html`.
+   * `(result, testCases, run)` — same contract as reporter-email's `text`/`html`.
    * @default built-in counts summary, e.g. "✓ 12 passed, ✗ 2 failed in 45.3s"
    * @example
    * (result, testCases) =>
  *   `${result.status}: ${testCases.filter(([, r]) => r.status === 'failed').map(([t]) => t.title).join(', ')}`
    */
   message?: Template;
+  /** Run history for `run.history` in templates, see {@link HistoryOptions}. */
+  history?: HistoryOptions;
   /** Play the default notification sound. @default false */
   sound?: boolean;
   /** Path to a custom app icon. */
   icon?: string;
-  /** Wait for the user to dismiss/click the notification. @default false */
+  /**
+   * Wait for the user to dismiss/click the notification before the run
+   * finishes — at most `timeout` seconds. Always on with `onClick` or
+   * `rerunFailed`. @default false
+   */
   wait?: boolean;
   /** Seconds before the notification expires. @default 10 */
   timeout?: number;
@@ -30,6 +52,35 @@ export type DesktopNotificationOptions = {
   ci?: boolean;
   /** Also fire an immediate notification for each global onError. @default false */
   notifyOnError?: boolean;
+  /**
+   * What clicking the run summary opens: the HTML report, or the first
+   * failing test at its location in the editor. Each falls back to the
+   * other when unavailable (no report on disk, no failures). The run waits
+   * for the click until the notification expires (`timeout`).
+   */
+  onClick?: "report" | "failure";
+  /**
+   * HTML report directory, relative to the config file.
+   * @default "playwright-report"
+   */
+  reportDir?: string;
+  /**
+   * Link that opens a test location in the editor.
+   * @default (location) => `vscode://file/${location.file}:${location.line}:${location.column}`
+   */
+  editorUrl?: (location: Location) => string;
+  /**
+   * Add a "Rerun failed" button to failed runs — it spawns
+   * `npx playwright test --last-failed --config <config>` in the config
+   * directory, or the given command, printing to this terminal. The run
+   * waits for the click until the notification expires (`timeout`). Buttons
+   * are shown by macOS and Windows only.
+   */
+  rerunFailed?: boolean | { command: string; args?: string[] };
+  /** Shows the notifications. @default node-notifier */
+  notifier?: Notifier;
+  /** Opens reports and files and spawns the rerun. @default `open` / `xdg-open` / `start` */
+  launcher?: ActionLauncher;
 };
 
 export type NotificationPayload = {
@@ -39,12 +90,20 @@ export type NotificationPayload = {
   wait: boolean;
   timeout: number;
   icon?: string;
+  /** Button labels. */
+  actions?: string[];
 };
 
 type ResolvedOptions = Required<
-  Omit<DesktopNotificationOptions, "title" | "message" | "icon">
+  Omit<
+    DesktopNotificationOptions,
+    "title" | "message" | "icon" | "history" | "onClick" | "rerunFailed"
+  >
 > &
-  Pick<DesktopNotificationOptions, "title" | "message" | "icon">;
+  Pick<
+    DesktopNotificationOptions,
+    "title" | "message" | "icon" | "onClick" | "rerunFailed"
+  >;
 
 const ERROR_MESSAGE_MAX_LENGTH = 200;
 
@@ -69,7 +128,7 @@ export default class DesktopNotificationReporter extends BaseReporter {
   private readonly options: ResolvedOptions;
 
   constructor(options: DesktopNotificationOptions = {}) {
-    super();
+    super({ history: options.history });
     this.options = {
       notifyOn: options.notifyOn ?? "always",
       title: options.title,
@@ -80,10 +139,17 @@ export default class DesktopNotificationReporter extends BaseReporter {
       timeout: options.timeout ?? 10,
       ci: options.ci ?? false,
       notifyOnError: options.notifyOnError ?? false,
+      onClick: options.onClick,
+      reportDir: options.reportDir ?? "playwright-report",
+      editorUrl: options.editorUrl ?? vscodeUrl,
+      rerunFailed: options.rerunFailed,
+      notifier: options.notifier ?? nodeNotifier,
+      launcher: options.launcher ?? systemLauncher,
     };
   }
 
   async onEnd(result: FullResult): Promise<void> {
+    await super.onEnd(result);
     if (this.isCiBlocked()) return;
     if (!this.shouldNotifyFor(result.status)) return;
 
@@ -91,14 +157,27 @@ export default class DesktopNotificationReporter extends BaseReporter {
       (await this.resolveTemplate(this.options.message, result)) ??
       this.buildSummaryMessage(result);
 
-    await this.notify({
+    const rerun = this.options.rerunFailed && this.run.failed.length > 0;
+    const actions = !!this.options.onClick || !!rerun;
+    const response = this.notify({
       title: this.options.title ?? `Playwright — ${statusLabel(result.status)}`,
       message,
       sound: this.options.sound,
-      wait: this.options.wait,
+      // node-notifier only reports clicks of notifications it waits for
+      wait: this.options.wait || actions,
       timeout: this.options.timeout,
       ...(this.options.icon ? { icon: this.options.icon } : {}),
+      ...(rerun ? { actions: [RERUN_FAILED_ACTION] } : {}),
     });
+    if (!actions && !this.options.wait) {
+      await response;
+      return;
+    }
+
+    // Playwright exits as soon as onEnd resolves, so a click is only handled
+    // while we wait for it — never longer than the notification is shown
+    const picked = await this.expiring(response);
+    if (picked) await this.respond(picked);
   }
 
   async onError(error: TestError): Promise<void> {
@@ -122,21 +201,14 @@ export default class DesktopNotificationReporter extends BaseReporter {
   }
 
   /**
-   * The only place that touches node-notifier. Every error is swallowed — a
+   * The only place that touches the notifier. Every error is swallowed — a
    * notification failure must never fail the test run.
    */
-  protected async notify(payload: NotificationPayload): Promise<void> {
-    const { title, message, sound, wait, timeout, icon } = payload;
+  protected async notify(
+    payload: NotificationPayload,
+  ): Promise<NotificationResponse | void> {
     try {
-      const { default: notifier } = await import("node-notifier");
-      notifier.notify({
-        title,
-        message,
-        sound,
-        wait,
-        timeout,
-        ...(icon && { icon }),
-      });
+      return await this.options.notifier.notify(payload);
     } catch (error) {
       console.warn(
         `[reporter-desktop-native-notification] failed to send notification: ${
@@ -146,6 +218,77 @@ export default class DesktopNotificationReporter extends BaseReporter {
     }
   }
 
+  /** Runs the action the user picked. Errors are swallowed like in {@link notify}. */
+  protected async respond(response: NotificationResponse): Promise<void> {
+    try {
+      if (response.type === "action" && response.action === RERUN_FAILED_ACTION) {
+        await this.rerunFailed();
+      } else if (response.type === "click") {
+        const target = this.clickTarget();
+        if (target) await this.options.launcher.open(target);
+      }
+    } catch (error) {
+      console.warn(
+        `[reporter-desktop-native-notification] failed to run notification action: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+  }
+
+  /** `response`, or `undefined` once the notification `timeout` has passed. */
+  private expiring(
+    response: Promise<NotificationResponse | void>,
+  ): Promise<NotificationResponse | void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, this.options.timeout * 1000);
+      timer.unref?.();
+    });
+    return Promise.race([response, expired]).finally(() => clearTimeout(timer));
+  }
+
+  private get configDir(): string {
+    return this.config?.configFile
+      ? dirname(this.config.configFile)
+      : (this.config?.rootDir ?? process.cwd());
+  }
+
+  private clickTarget(): string | undefined {
+    const index = resolve(this.configDir, this.options.reportDir, "index.html");
+    const report = existsSync(index) ? index : undefined;
+    const location = this.run.failed[0]?.test.location;
+    const failure = location ? this.options.editorUrl(location) : undefined;
+
+    switch (this.options.onClick) {
+      case "report":
+        return report ?? failure;
+      case "failure":
+        return failure ?? report;
+      default:
+        return undefined;
+    }
+  }
+
+  private async rerunFailed(): Promise<void> {
+    const rerun = this.options.rerunFailed;
+    if (!rerun) return;
+    const configFile = this.config?.configFile;
+    const [command, args] =
+      rerun === true
+        ? [
+            "npx",
+            [
+              "playwright",
+              "test",
+              "--last-failed",
+              ...(configFile ? ["--config", configFile] : []),
+            ],
+          ]
+        : [rerun.command, rerun.args ?? []];
+    await this.options.launcher.spawn(command, args, { cwd: this.configDir });
+  }
+
   private isCiBlocked(): boolean {
     return process.env.CI !== undefined && !this.options.ci;
   }
@@ -0,0 +1,262 @@
+import { test, expect } from "@playwright/test";
+import { mkdir, writeFile } from "node:fs/promises";
+
+import DesktopNotificationReporter, {
+  type DesktopNotificationOptions,
+  type NotificationPayload,
+} from "../src/reporter";
+import {
+  RERUN_FAILED_ACTION,
+  vscodeUrl,
+  type ActionLauncher,
+  type NotificationResponse,
+  type Notifier,
+} from "../src/actions";
+
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from "@playwright/test/reporter";
+
+// ── Test doubles ──────────────────────────────────────────────────────────────
+
+/** Notifier that records payloads and answers with a scripted response. */
+class FakeNotifier implements Notifier {
+  readonly payloads: NotificationPayload[] = [];
+
+  constructor(private readonly response: NotificationResponse) {}
+
+  async notify(payload: NotificationPayload): Promise<NotificationResponse> {
+    this.payloads.push(payload);
+    return this.response;
+  }
+}
+
+class FakeLauncher implements ActionLauncher {
+  readonly opened: string[] = [];
+  readonly spawned: { command: string; args: string[]; cwd: string }[] = [];
+
+  async open(target: string): Promise<void> {
+    this.opened.push(target);
+  }
+
+  async spawn(command: string, args: string[], { cwd }: { cwd: string }) {
+    this.spawned.push({ command, args, cwd });
+  }
+}
+
+function makeTest(title: string): TestCase {
+  return {
+    id: title,
+    title,
+    titlePath: () => ["", title],
+    expectedStatus: "passed",
+    location: { file: `/repo/tests/${title}.spec.ts`, line: 12, column: 3 },
+  } as unknown as TestCase;
+}
+
+function makeResult(status: string): TestResult {
+  return { status, retry: 0, duration: 100 } as unknown as TestResult;
+}
+
+/** Runs the reporter in `dir` with a passed and a failed test. */
+async function run(
+  dir: string,
+  options: DesktopNotificationOptions,
+  status: FullResult["status"] = "failed",
+): Promise<void> {
+  const reporter = new DesktopNotificationReporter(options);
+  reporter.onBegin(
+    { rootDir: dir, configFile: `${dir}/playwright.config.ts` } as FullConfig,
+    { title: "" } as Suite,
+  );
+  await reporter.onTestEnd(makeTest("good"), makeResult("passed"));
+  if (status === "failed") {
+    await reporter.onTestEnd(makeTest("bad"), makeResult("failed"));
+  }
+  await reporter.onEnd({ status, duration: 1000, startTime: new Date() } as FullResult);
+}
+
+let originalCi: string | undefined;
+
+test.beforeEach(() => {
+  originalCi = process.env.CI;
+  delete process.env.CI;
+});
+
+test.afterEach(() => {
+  if (originalCi === undefined) delete process.env.CI;
+  else process.env.CI = originalCi;
+});
+
+// ── Click ─────────────────────────────────────────────────────────────────────
+
+test.describe("notification actions — click", () => {
+  test("opens the HTML report", async ({}, testInfo) => {
+    const dir = testInfo.outputPath();
+    await mkdir(`${dir}/playwright-report`, { recursive: true });
+    await writeFile(`${dir}/playwright-report/index.html`, "<html></html>");
+    const notifier = new FakeNotifier({ type: "click" });
+    const launcher = new FakeLauncher();
+
+    await run(dir, { onClick: "report", notifier, launcher });
+
+    expect(notifier.payloads[0].wait).toBe(true);
+    await expect.poll(() => launcher.opened).toEqual([`${dir}/playwright-report/index.html`]);
+  });
+
+  test("opens the first failing test at its location", async ({}, testInfo) => {
+    const launcher = new FakeLauncher();
+
+    await run(testInfo.outputPath(), {
+      onClick: "failure",
+      notifier: new FakeNotifier({ type: "click" }),
+      launcher,
+    });
+
+    await expect.poll(() => launcher.opened).toEqual(["vscode://file/repo/tests/bad.spec.ts:12:3"]);
+  });
+
+  test("falls back to the failure when there is no report", async ({}, testInfo) => {
+    const launcher = new FakeLauncher();
+
+    await run(testInfo.outputPath(), {
+      onClick: "report",
+      editorUrl: ({ file, line }) => `idea://open?file=${file}&line=${line}`,
+      notifier: new FakeNotifier({ type: "click" }),
+      launcher,
+    });
+
+    await expect
+      .poll(() => launcher.opened)
+      .toEqual(["idea://open?file=/repo/tests/bad.spec.ts&line=12"]);
+  });
+
+  test("does nothing without onClick or when dismissed", async ({}, testInfo) => {
+    const launcher = new FakeLauncher();
+    const notifier = new FakeNotifier({ type: "click" });
+
+    await run(testInfo.outputPath(), { notifier, launcher });
+    await run(testInfo.outputPath(), {
+      onClick: "failure",
+      notifier: new FakeNotifier({ type: "dismissed" }),
+      launcher,
+    });
+
+    expect(notifier.payloads[0].wait).toBe(false);
+    expect(launcher.opened).toEqual([]);
+  });
+});
+
+// ── Rerun failed ──────────────────────────────────────────────────────────────
+
+test.describe("notification actions — rerun failed", () => {
+  test("spawns playwright test --last-failed with the config", async ({}, testInfo) => {
+    const dir = testInfo.outputPath();
+    const notifier = new FakeNotifier({ type: "action", action: RERUN_FAILED_ACTION });
+    const launcher = new FakeLauncher();
+
+    await run(dir, { rerunFailed: true, notifier, launcher });
+
+    expect(notifier.payloads[0].actions).toEqual(["Rerun failed"]);
+    expect(notifier.payloads[0].wait).toBe(true);
+    await expect.poll(() => launcher.spawned).toEqual([
+      {
+        command: "npx",
+        args: ["playwright", "test", "--last-failed", "--config", `${dir}/playwright.config.ts`],
+        cwd: dir,
+      },
+    ]);
+  });
+
+  test("runs a custom command", async ({}, testInfo) => {
+    const launcher = new FakeLauncher();
+
+    await run(testInfo.outputPath(), {
+      rerunFailed: { command: "pnpm", args: ["test:e2e", "--last-failed"] },
+      notifier: new FakeNotifier({ type: "action", action: RERUN_FAILED_ACTION }),
+      launcher,
+    });
+
+    await expect
+      .poll(() => launcher.spawned.map(({ command, args }) => [command, args]))
+      .toEqual([["pnpm", ["test:e2e", "--last-failed"]]]);
+  });
+
+  test("is not offered for a passed run", async ({}, testInfo) => {
+    const notifier = new FakeNotifier({ type: "dismissed" });
+
+    await run(testInfo.outputPath(), { rerunFailed: true, notifier }, "passed");
+
+    expect(notifier.payloads[0].actions).toBeUndefined();
+  });
+
+  test("a failing action never fails the run", async ({}, testInfo) => {
+    const warnings: string[] = [];
+    const warn = console.warn;
+    console.warn = (message: string) => warnings.push(message);
+    try {
+      await run(testInfo.outputPath(), {
+        rerunFailed: true,
+        notifier: new FakeNotifier({ type: "action", action: RERUN_FAILED_ACTION }),
+        launcher: {
+          open: async () => {},
+          spawn: async () => {
+            throw new Error("spawn npx ENOENT");
+          },
+        },
+      });
+      await expect
+        .poll(() => warnings)
+        .toEqual([
+          "[reporter-desktop-native-notification] failed to run notification action: spawn npx ENOENT",
+        ]);
+    } finally {
+      console.warn = warn;
+    }
+  });
+});
+
+// ── Waiting ───────────────────────────────────────────────────────────────────
+
+test.describe("notification actions — waiting", () => {
+  /** A notification nobody reacts to. */
+  const unanswered: Notifier = { notify: () => new Promise(() => {}) };
+
+  test("actions keep the run open until the notification expires, not longer", async ({}, testInfo) => {
+    const started = Date.now();
+
+    await run(testInfo.outputPath(), {
+      onClick: "failure",
+      rerunFailed: true,
+      timeout: 0.2,
+      notifier: unanswered,
+      launcher: new FakeLauncher(),
+    });
+
+    const elapsed = Date.now() - started;
+    expect(elapsed).toBeGreaterThanOrEqual(190);
+    expect(elapsed).toBeLessThan(2_000);
+  });
+
+  test("the action runs before onEnd resolves, without wait", async ({}, testInfo) => {
+    const launcher = new FakeLauncher();
+
+    await run(testInfo.outputPath(), {
+      onClick: "failure",
+      notifier: new FakeNotifier({ type: "click" }),
+      launcher,
+    });
+
+    expect(launcher.opened).toEqual(["vscode://file/repo/tests/bad.spec.ts:12:3"]);
+  });
+});
+
+test("vscodeUrl builds a file link with line and column", () => {
+  expect(vscodeUrl({ file: "C:\\repo\\a.spec.ts", line: 1, column: 2 })).toBe(
+    "vscode://file/C:/repo/a.spec.ts:1:2",
+  );
+});
@@ -0,0 +1,264 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename, extname, resolve } from "node:path";
+import type { RunModel, TestRun } from "@playwright-labs/reporter-core";
+import type { Attachment } from "nodemailer/lib/mailer";
+import { zipDirectory } from "./zip";
+
+/** The zipped Playwright HTML report. */
+export type EmailHtmlReportOptions = {
+  /**
+   * Directory of the HTML report. List this reporter after the `html`
+   * reporter so the report is complete when the e-mail is sent.
+   * @default "playwright-report"
+   */
+  dir?: string;
+  /** @default "playwright-report.zip" */
+  filename?: string;
+  /** Where the report is hosted — linked instead when the zip does not fit. */
+  url?: string;
+};
+
+/** Screenshots of failed tests, shown inline in the HTML body. */
+export type EmailScreenshotsOptions = {
+  /** Attachment names treated as screenshots. @default ["screenshot"] */
+  names?: string[];
+  /** At most this many screenshots per e-mail. @default 10 */
+  max?: number;
+};
+
+/** A file the reporter wants to send along with the e-mail. */
+export type EmailArtifact = {
+  kind: "html-report" | "screenshot";
+  filename: string;
+  contentType: string;
+  /** Size in bytes. */
+  size: number;
+  /** File contents, or a path read when the e-mail is sent. */
+  content: Buffer | { path: string };
+  /** The failed test a screenshot belongs to. */
+  test?: TestRun;
+};
+
+/**
+ * Report and screenshots attached to an e-mail, with a total size cap.
+ * Anything over the cap is replaced with a link from `links` — e.g. to the
+ * objects reporter-s3 uploaded — or listed as omitted.
+ */
+export type EmailArtifactsOptions = {
+  /** Attach the zipped HTML report. */
+  htmlReport?: boolean | EmailHtmlReportOptions;
+  /** Inline the failed tests' screenshots as CID images. */
+  screenshots?: boolean | EmailScreenshotsOptions;
+  /**
+   * Total size of the artifacts (bytes). Screenshots are added first, in
+   * test order, then the report.
+   * @default 10 MiB
+   */
+  maxSize?: number;
+  /**
+   * Link for an artifact that did not fit into `maxSize`.
+   * @example
+   * links: (artifact) => artifact.test && `https://bucket.s3.amazonaws.com/${runId}/${artifact.test.id}/${artifact.filename}`
+   */
+  links?: (artifact: EmailArtifact) => string | undefined;
+};
+
+/** What ended up attached, linked or left out of one e-mail. */
+export type EmailArtifactsPlan = {
+  attachments: Attachment[];
+  /** HTML appended to the body: inline screenshots and links. */
+  html: string;
+  /** Plain-text counterpart of {@link EmailArtifactsPlan.html}. */
+  text: string;
+};
+
+const DEFAULT_MAX_SIZE = 10 * 1024 * 1024;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+}
+
+async function sizeOf(path: string): Promise<number | undefined> {
+  // attachments can point at files cleaned up since the test ran
+  return stat(path).then(
+    (stats) => (stats.isFile() ? stats.size : undefined),
+    () => undefined,
+  );
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  return stat(path).then(
+    (stats) => stats.isDirectory(),
+    () => false,
+  );
+}
+
+async function collectScreenshots(
+  run: RunModel,
+  options: EmailScreenshotsOptions,
+): Promise<EmailArtifact[]> {
+  const names = options.names ?? ["screenshot"];
+  const artifacts: EmailArtifact[] = [];
+  for (const test of run.failed) {
+    for (const attachment of test.result.attachments ?? []) {
+      if (!names.includes(attachment.name)) continue;
+      if (!attachment.contentType.startsWith("image/")) continue;
+
+      const size = attachment.body
+        ? attachment.body.length
+        : attachment.path && (await sizeOf(attachment.path));
+      if (!size) continue;
+      artifacts.push({
+        kind: "screenshot",
+        filename: attachment.path
+          ? basename(attachment.path)
+          : `${attachment.name}${extname(attachment.name) ? "" : ".png"}`,
+        contentType: attachment.contentType,
+        size,
+        content: attachment.body ?? { path: attachment.path! },
+        test,
+      });
+    }
+  }
+  return artifacts.slice(0, options.max ?? 10);
+}
+
+/**
+ * Collects the artifacts an e-mail asks for. The HTML report is zipped
+ * here; a missing report directory is skipped silently. Pass the same
+ * `zips` cache for every e-mail of a run to zip each report once.
+ */
+export async function collectArtifacts(
+  run: RunModel,
+  options: EmailArtifactsOptions,
+  baseDir = process.cwd(),
+  zips: Map<string, Promise<Buffer>> = new Map(),
+): Promise<EmailArtifact[]> {
+  const artifacts: EmailArtifact[] = [];
+  if (options.screenshots) {
+    artifacts.push(
+      ...(await collectScreenshots(
+        run,
+        options.screenshots === true ? {} : options.screenshots,
+      )),
+    );
+  }
+
+  if (options.htmlReport) {
+    const report = options.htmlReport === true ? {} : options.htmlReport;
+    const dir = resolve(baseDir, report.dir ?? "playwright-report");
+    if (await isDirectory(dir)) {
+      if (!zips.has(dir)) zips.set(dir, zipDirectory(dir));
+      const zip = await zips.get(dir)!;
+      artifacts.push({
+        kind: "html-report",
+        filename: report.filename ?? "playwright-report.zip",
+        contentType: "application/zip",
+        size: zip.length,
+        content: zip,
+      });
+    }
+  }
+  return artifacts;
+}
+
+/**
+ * Fits artifacts into `maxSize`: screenshots become inline CID images,
+ * the report a regular attachment; the rest falls back to links.
+ */
+export async function planArtifacts(
+  artifacts: readonly EmailArtifact[],
+  options: EmailArtifactsOptions,
+): Promise<EmailArtifactsPlan> {
+  const maxSize = options.maxSize ?? DEFAULT_MAX_SIZE;
+  const report = options.htmlReport && options.htmlReport !== true
+    ? options.htmlReport
+    : {};
+
+  const attachments: Attachment[] = [];
+  const images: string[] = [];
+  const fallbacks: { label: string; url?: string; size: number }[] = [];
+  let total = 0;
+
+  for (const [index, artifact] of artifacts.entries()) {
+    const label =
+      artifact.kind === "screenshot"
+        ? `${artifact.test?.title ?? "screenshot"} — ${artifact.filename}`
+        : artifact.filename;
+
+    if (total + artifact.size > maxSize) {
+      fallbacks.push({
+        label,
+        url:
+          options.links?.(artifact) ??
+          (artifact.kind === "html-report" ? report.url : undefined),
+        size: artifact.size,
+      });
+      continue;
+    }
+    total += artifact.size;
+
+    const content = Buffer.isBuffer(artifact.content)
+      ? artifact.content
+      : await readFile(artifact.content.path);
+    if (artifact.kind === "screenshot") {
+      const cid = `screenshot-${index}@playwright-labs`;
+      attachments.push({
+        filename: artifact.filename,
+        content,
+        contentType: artifact.contentType,
+        cid,
+      });
+      images.push(
+        `<figure style="margin:16px 0"><img src="cid:${cid}" alt="${escapeHtml(label)}" style="max-width:100%;border:1px solid #e5e7eb"/><figcaption style="font-size:12px;color:#6b7280">${escapeHtml(label)}</figcaption></figure>`,
+      );
+    } else {
+      attachments.push({
+        filename: artifact.filename,
+        content,
+        contentType: artifact.contentType,
+      });
+    }
+  }
+
+  const links = fallbacks.map(({ label, url, size }) =>
+    url
+      ? `<li><a href="${escapeHtml(url)}">${escapeHtml(label)}</a> (${formatSize(size)})</li>`
+      : `<li>${escapeHtml(label)} (${formatSize(size)}, over the attachment size limit)</li>`,
+  );
+  const html = [
+    ...(images.length > 0
+      ? [`<h3>Failed test screenshots</h3>`, ...images]
+      : []),
+    ...(links.length > 0 ? [`<h3>More artifacts</h3>`, `<ul>${links.join("")}</ul>`] : []),
+  ].join("\n");
+  const text = fallbacks.length > 0
+    ? [
+        "More artifacts:",
+        ...fallbacks.map(({ label, url, size }) =>
+          `- ${label} (${formatSize(size)})${url ? `: ${url}` : " — over the attachment size limit"}`,
+        ),
+      ].join("\n")
+    : "";
+
+  return { attachments, html, text };
+}
+
+/** Inserts `fragment` before `</body>` — or appends it to a fragment without one. */
+export function appendToHtml(html: string, fragment: string): string {
+  if (!fragment) return html;
+  const index = html.toLowerCase().lastIndexOf("</body>");
+  return index === -1
+    ? `${html}\n${fragment}`
+    : `${html.slice(0, index)}${fragment}\n${html.slice(index)}`;
+}
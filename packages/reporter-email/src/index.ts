@@ -30,8 +30,28 @@ export {
 export {
   default as Reporter,
   default,
+  type EmailMessage,
+  type EmailRecipientGroup,
   type NodemailerReporterOptions as ReporterOptions,
   type NodemailerTestCases as TestCases,
 } from "./reporter";
 
+export type {
+  EmailArtifact,
+  EmailArtifactsOptions,
+  EmailHtmlReportOptions,
+  EmailScreenshotsOptions,
+} from "./artifacts";
+
+export {
+  matchCodeowners,
+  parseCodeowners,
+  type CodeownersRule,
+  type EmailDigestOptions,
+  type EmailRoutingOptions,
+  type EmailRoutingRule,
+} from "./routing";
+
+export type { RunModel, TestRun } from "@playwright-labs/reporter-core";
+
 export * from "./templates";
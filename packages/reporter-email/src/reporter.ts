@@ -1,9 +1,28 @@
 import nodemailer, { type TransportOptions } from "nodemailer";
 import type { ReactElement } from "react";
+import { dirname } from "node:path";
 import type { FullResult } from "@playwright/test/reporter";
-import { BaseReporter, type TestCases } from "@playwright-labs/reporter-core";
+import {
+  BaseReporter,
+  buildRunModel,
+  type HistoryOptions,
+  type RunModel,
+  type TestCases,
+} from "@playwright-labs/reporter-core";
 import type SMTPTransport from "nodemailer/lib/smtp-transport";
 import type { Attachment } from "nodemailer/lib/mailer";
+import {
+  appendToHtml,
+  collectArtifacts,
+  planArtifacts,
+  type EmailArtifactsOptions,
+} from "./artifacts";
+import {
+  ownerAddresses,
+  routeFailures,
+  routesDigest,
+  type EmailRoutingOptions,
+} from "./routing";
 
 type AuthWithOAuth2 = {
   user: string;
@@ -18,12 +37,35 @@ type EmailWithName = `"${string}" <${Email}>`;
 /** Array of the test cases with its results. This is Array of Array because it helps to organize tables */
 export type NodemailerTestCases = TestCases;
 
+type Addresses = Email | Email[] | (string & {}) | string[];
+
+/** Recipients that get their own copy of the e-mail, with their own artifacts. */
+export type EmailRecipientGroup = {
+  to: Addresses;
+  cc?: Addresses;
+  bcc?: Addresses;
+  /** Report and screenshots for this group, instead of the top-level `artifacts`. */
+  artifacts?: EmailArtifactsOptions;
+};
+
+/** Per-email overrides for {@link EmailReporter.sendEmail}. */
+export type EmailMessage = {
+  to?: Addresses;
+  cc?: Addresses;
+  bcc?: Addresses;
+  html?: string;
+  text?: string;
+  attachments?: Attachment[];
+};
+
 export type NodemailerReporterOptions = {
   /**
    * When to send email.
    * @default 'on-failure'
    */
   send?: "always" | "never" | "on-failure";
+  /** Run history for `run.history` in templates, see {@link HistoryOptions}. */
+  history?: HistoryOptions;
   /**
    * Recipient email address.
    * @example "john.doe@example.com"
@@ -194,6 +236,36 @@ export type NodemailerReporterOptions = {
    * },
    */
   attachments?: Attachment[];
+  /**
+   * Attach the zipped Playwright HTML report and inline the failed tests'
+   * screenshots, within a total size cap — whatever does not fit is linked
+   * instead.
+   * @example
+   * artifacts: {
+   *   htmlReport: { dir: "playwright-report", url: process.env.REPORT_URL },
+   *   screenshots: true,
+   *   maxSize: 15 * 1024 * 1024,
+   * }
+   */
+  artifacts?: EmailArtifactsOptions;
+  /**
+   * More recipients, each getting a separate e-mail with its own
+   * `artifacts` — e.g. the full report for QA, screenshots only for
+   * stakeholders.
+   */
+  groups?: EmailRecipientGroup[];
+  /**
+   * Route failures to their owners — by tag, by annotation or by a
+   * CODEOWNERS file. Every owner gets an e-mail with only their failures;
+   * the top-level recipients get everything plus a digest by owner, or
+   * `digest: { to }` sends the digest to a catch-all address of its own.
+   * @example
+   * routing: {
+   *   rules: [{ annotation: "owner" }, { codeowners: ".github/CODEOWNERS" }],
+   *   owners: { "@acme/payments": "payments@acme.com" },
+   * }
+   */
+  routing?: EmailRoutingOptions;
   /**
    * Email subject of the email. it can be static and dynamic
    * @example
@@ -218,6 +290,7 @@ export type NodemailerReporterOptions = {
         | ((
             result: FullResult,
             testCases: NodemailerTestCases,
+            run: RunModel,
           ) => string | Promise<string>);
     }
   | {
@@ -259,10 +332,17 @@ export type NodemailerReporterOptions = {
         | ((
             result: FullResult,
             testCases: NodemailerTestCases,
+            run: RunModel,
           ) => string | ReactElement | Promise<string | ReactElement>);
     }
 );
 
+function joinAddresses(value: unknown): string | undefined {
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "string") return value;
+  return undefined;
+}
+
 function isReactElement(value: unknown): value is ReactElement {
   return (
     typeof value === "object" &&
@@ -291,13 +371,15 @@ export default class EmailReporter extends BaseReporter {
   readonly #options: Readonly<NodemailerReporterOptions>;
   #html: string | null = null;
   #text: string | null = null;
+  /** Zipped HTML reports by directory — one archive per run for all e-mails. */
+  readonly #reportZips = new Map<string, Promise<Buffer>>();
 
   constructor(options: NodemailerReporterOptions) {
-    super();
+    super({ history: options.history });
     this.#options = options;
   }
 
-  async sendEmail(subject: string) {
+  async sendEmail(subject: string, message: EmailMessage = {}) {
     const transportOptions: Partial<NodemailerReporterOptions> = {
       host:
         this.#options.host ?? process.env.PLAYWRIGHT_EMAIL_HOST ?? undefined,
@@ -314,37 +396,23 @@ export default class EmailReporter extends BaseReporter {
       transportOptions as TransportOptions,
     );
 
-    var to: string;
-    if (Array.isArray(this.#options.to)) {
-      to = this.#options.to.join(", ");
-    } else if (typeof this.#options.to === "string") {
-      to = this.#options.to;
-    } else {
+    const recipients = message.to === undefined ? this.#options : message;
+    const to = joinAddresses(recipients.to);
+    if (to === undefined) {
       throw new TypeError(
-        `"to" option should be a string or an array of strings. Got ${typeof this.#options.to}`,
+        `"to" option should be a string or an array of strings. Got ${typeof recipients.to}`,
       );
     }
-    var cc: string | undefined;
-    if (Array.isArray(this.#options.cc)) {
-      cc = this.#options.cc.join(", ");
-    } else if (typeof this.#options.cc === "string") {
-      cc = this.#options.cc;
-    }
-
-    var bcc: string | undefined;
-    if (Array.isArray(this.#options.bcc)) {
-      bcc = this.#options.bcc.join(", ");
-    } else if (typeof this.#options.bcc === "string") {
-      bcc = this.#options.bcc;
-    }
+    const cc = joinAddresses(recipients.cc);
+    const bcc = joinAddresses(recipients.bcc);
 
     const info = await transporter.sendMail({
       from: this.#options.from,
       to: to,
       subject: subject,
-      text: this.#text ?? undefined,
-      html: this.#html ?? undefined,
-      attachments: this.#options.attachments ?? undefined,
+      text: message.text ?? this.#text ?? undefined,
+      html: message.html ?? this.#html ?? undefined,
+      attachments: message.attachments ?? this.#options.attachments ?? undefined,
       cc: cc ?? undefined,
       bcc: bcc ?? undefined,
     });
@@ -372,51 +440,23 @@ export default class EmailReporter extends BaseReporter {
 
   async resolveHtml(result: FullResult): Promise<string | undefined> {
     if ("html" in this.#options) {
-      let htmlValue: string | ReactElement;
-      if (typeof this.#options.html === "function") {
-        htmlValue = await this.#options.html(result, this.testCases);
-      } else {
-        htmlValue = this.#options.html;
-      }
-
-      if (typeof htmlValue === "string") {
-        this.#html = htmlValue;
-      } else if (isReactElement(htmlValue)) {
-        this.#html = await renderElement(htmlValue);
-      } else {
-        throw new TypeError(
-          `Invalid html type. Expected string, ReactElement, or function returning one of those. Got ${typeof htmlValue}`,
-        );
-      }
-      return this.#html;
+      this.#html = await this.#renderHtml(result, this.testCases, this.run);
+      return this.#html ?? undefined;
     }
   }
 
   async resolveText(result: FullResult): Promise<string | undefined> {
-    var preparedText: string;
     if ("text" in this.#options) {
-      if (typeof this.#options.text === "function") {
-        preparedText = await this.#options.text(result, this.testCases);
-        if (typeof preparedText !== "string") {
-          throw new TypeError(
-            `"text" function should return a string. Got ${typeof preparedText}`,
-          );
-        }
-      } else if (typeof this.#options.text === "string") {
-        preparedText = this.#options.text;
-      } else {
-        throw new TypeError(
-          `Invalid text type. Expected string or function. Got ${typeof this.#options.text}`,
-        );
-      }
-      this.#text = preparedText;
-      return this.#text;
+      this.#text = await this.#renderText(result, this.testCases, this.run);
+      return this.#text ?? undefined;
     }
   }
 
   async onEnd(
     result: FullResult,
   ): Promise<{ status?: FullResult["status"] } | undefined> {
+    await super.onEnd(result);
+    this.#reportZips.clear();
     const send = this.#options.send ?? "on-failure";
     if (send === "never") {
       return;
@@ -424,20 +464,165 @@ export default class EmailReporter extends BaseReporter {
 
     const subject = this.resolveSubject(result);
     await Promise.all([this.resolveHtml(result), this.resolveText(result)]);
-    let info: SMTPTransport.SentMessageInfo | null = null;
-    if (send === "on-failure" && result.status === "failed") {
-      info = await this.sendEmail(subject);
+    if (send === "on-failure" && result.status !== "failed") {
+      return;
+    }
+
+    const routing = this.#options.routing;
+    const routes = routing
+      ? await routeFailures(this.run.failed, routing.rules, this.#baseDir)
+      : undefined;
+    const digest =
+      routes && (routing?.digest ?? true) ? routesDigest(routes) : undefined;
+    const catchAll =
+      typeof routing?.digest === "object" ? routing.digest : undefined;
+
+    const recipients: EmailRecipientGroup[] = [
+      {
+        to: this.#options.to,
+        cc: this.#options.cc,
+        bcc: this.#options.bcc,
+        artifacts: this.#options.artifacts,
+      },
+      ...(this.#options.groups ?? []),
+    ];
+    for (const [index, group] of recipients.entries()) {
+      const body = { run: this.run, html: this.#html, text: this.#text };
+      if (index === 0 && digest && !catchAll) {
+        if (body.html !== null) body.html = appendToHtml(body.html, digest.html);
+        if (body.text !== null) body.text = `${body.text}\n\n${digest.text}`;
+      }
+      await this.#send(subject, await this.#composeMessage(group, body));
+    }
+
+    if (catchAll && digest?.text) {
+      await this.#send(
+        catchAll.subject?.(subject) ?? `${subject} — failures by owner`,
+        {
+          to: catchAll.to,
+          cc: catchAll.cc,
+          bcc: catchAll.bcc,
+          html: `<html><body>${digest.html}</body></html>`,
+          text: digest.text,
+        },
+      );
     }
 
-    if (send === "always") {
-      info = await this.sendEmail(subject);
+    for (const [owner, runs] of routes?.byOwner ?? []) {
+      const to = ownerAddresses(owner, routing?.owners);
+      if (to === undefined) continue;
+
+      const ids = new Set(runs.map((run) => run.id));
+      const testCases = this.testCases.filter(([test]) => ids.has(test.id));
+      const run = buildRunModel(testCases, { rootDir: this.config?.rootDir });
+      const body = {
+        run,
+        html: await this.#renderHtml(result, testCases, run),
+        text: await this.#renderText(result, testCases, run),
+      };
+      await this.#send(
+        routing?.subject?.(owner, subject) ?? `${subject} — ${owner}`,
+        await this.#composeMessage({ to, artifacts: routing?.artifacts }, body),
+      );
     }
+  }
+
+  get #baseDir(): string {
+    return this.config?.configFile
+      ? dirname(this.config.configFile)
+      : process.cwd();
+  }
+
+  async #send(subject: string, message: EmailMessage): Promise<void> {
+    const info = await this.sendEmail(subject, message);
     if (
       this.#options.onEmailSend &&
-      typeof this.#options.onEmailSend === "function" &&
-      info !== null
+      typeof this.#options.onEmailSend === "function"
     ) {
       await this.#options.onEmailSend(info);
     }
   }
+
+  /** The `html` option rendered for `testCases`, `null` without one. */
+  async #renderHtml(
+    result: FullResult,
+    testCases: NodemailerTestCases,
+    run: RunModel,
+  ): Promise<string | null> {
+    if (!("html" in this.#options)) return null;
+    let htmlValue: string | ReactElement;
+    if (typeof this.#options.html === "function") {
+      htmlValue = await this.#options.html(result, testCases, run);
+    } else {
+      htmlValue = this.#options.html;
+    }
+
+    if (typeof htmlValue === "string") {
+      return htmlValue;
+    } else if (isReactElement(htmlValue)) {
+      return await renderElement(htmlValue);
+    }
+    throw new TypeError(
+      `Invalid html type. Expected string, ReactElement, or function returning one of those. Got ${typeof htmlValue}`,
+    );
+  }
+
+  /** The `text` option rendered for `testCases`, `null` without one. */
+  async #renderText(
+    result: FullResult,
+    testCases: NodemailerTestCases,
+    run: RunModel,
+  ): Promise<string | null> {
+    if (!("text" in this.#options)) return null;
+    var preparedText: string;
+    if (typeof this.#options.text === "function") {
+      preparedText = await this.#options.text(result, testCases, run);
+      if (typeof preparedText !== "string") {
+        throw new TypeError(
+          `"text" function should return a string. Got ${typeof preparedText}`,
+        );
+      }
+    } else if (typeof this.#options.text === "string") {
+      preparedText = this.#options.text;
+    } else {
+      throw new TypeError(
+        `Invalid text type. Expected string or function. Got ${typeof this.#options.text}`,
+      );
+    }
+    return preparedText;
+  }
+
+  /**
+   * Recipients of one group plus the body and attachments its artifacts
+   * need. `body` is what the group's e-mail shows — the whole run, or one
+   * owner's failures.
+   */
+  async #composeMessage(
+    group: EmailRecipientGroup,
+    body: { run: RunModel; html: string | null; text: string | null },
+  ): Promise<EmailMessage> {
+    const message: EmailMessage = { to: group.to, cc: group.cc, bcc: group.bcc };
+    // only differs from the shared body when routing changed it
+    if (body.html !== null && body.html !== this.#html) message.html = body.html;
+    if (body.text !== null && body.text !== this.#text) message.text = body.text;
+    if (!group.artifacts) return message;
+
+    const artifacts = await collectArtifacts(
+      body.run,
+      group.artifacts,
+      this.#baseDir,
+      this.#reportZips,
+    );
+    const plan = await planArtifacts(artifacts, group.artifacts);
+
+    if (body.html !== null) message.html = appendToHtml(body.html, plan.html);
+    if (body.text !== null && plan.text) {
+      message.text = `${body.text}\n\n${plan.text}`;
+    }
+    message.attachments = [
+      ...(this.#options.attachments ?? []),
+      ...plan.attachments,
+    ];
+    return message;
+  }
 }
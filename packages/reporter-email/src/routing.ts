@@ -0,0 +1,259 @@
+import { readFile } from "node:fs/promises";
+import { basename, dirname, isAbsolute, relative, resolve, sep } from "node:path";
+import type { TestRun } from "@playwright-labs/reporter-core";
+import type { EmailArtifactsOptions } from "./artifacts";
+
+/**
+ * Where the owners of a failed test come from:
+ *
+ * - `{ tag, owners }` — tests with a matching tag belong to `owners`
+ * - `{ annotation }` — the descriptions of the test's annotations of that
+ *   type, e.g. `test("…", { annotation: { type: "owner", description: "payments" } }, …)`;
+ *   a description can list several owners separated by commas or spaces
+ * - `{ codeowners }` — a GitHub-style CODEOWNERS file matched against the
+ *   spec file, the last matching line wins
+ */
+export type EmailRoutingRule =
+  | { tag: string | RegExp; owners: string | string[] }
+  | { annotation: string }
+  | {
+      /** Path to the CODEOWNERS file, relative to the config file directory. */
+      codeowners: string;
+      /**
+       * Directory the patterns are relative to. Defaults to the directory of
+       * the file — or its parent for `.github/CODEOWNERS` and `docs/CODEOWNERS`.
+       */
+      root?: string;
+    };
+
+/** A separate digest e-mail to a catch-all address, see {@link EmailRoutingOptions.digest}. */
+export type EmailDigestOptions = {
+  to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  /**
+   * Subject of the digest e-mail.
+   * @default `${subject} — failures by owner`
+   */
+  subject?: (subject: string) => string;
+};
+
+/**
+ * Sends every owner an e-mail with only the failures they own. The
+ * top-level recipients keep getting the full report, with a digest of the
+ * failures by owner appended — or the digest goes to a catch-all address
+ * of its own.
+ */
+export type EmailRoutingOptions = {
+  /** Checked in order — the first rule that yields owners for a test wins. */
+  rules: EmailRoutingRule[];
+  /**
+   * Addresses of each owner. Owners that are e-mail addresses themselves
+   * (e.g. from CODEOWNERS) need no entry; the rest without one only show up
+   * in the digest.
+   * @example
+   * owners: { "@acme/payments": "payments@acme.com", checkout: ["ann@acme.com", "bob@acme.com"] }
+   */
+  owners?: Record<string, string | string[]>;
+  /**
+   * Subject of an owner's e-mail.
+   * @default `${subject} — ${owner}`
+   */
+  subject?: (owner: string, subject: string) => string;
+  /** Report and screenshots for owners' e-mails (screenshots of their failures only). */
+  artifacts?: EmailArtifactsOptions;
+  /**
+   * `true` appends the failures-by-owner digest to the top-level e-mail;
+   * `{ to }` sends it as an e-mail of its own to a catch-all address
+   * instead, and the top-level e-mail stays as it is.
+   * @default true
+   * @example
+   * digest: { to: "qa-leads@acme.com" }
+   */
+  digest?: boolean | EmailDigestOptions;
+};
+
+/** One non-comment line of a CODEOWNERS file. */
+export type CodeownersRule = {
+  pattern: string;
+  /** Empty when the line un-assigns the matching files. */
+  owners: string[];
+  regex: RegExp;
+};
+
+/** Failed tests grouped by owner; a test with several owners is in each group. */
+export type EmailRoutes = {
+  byOwner: Map<string, TestRun[]>;
+  /** Failed tests no rule assigned an owner to. */
+  unowned: TestRun[];
+};
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Translates a CODEOWNERS (gitignore-style) pattern to a RegExp matched
+ * against `/`-separated paths relative to the repository root.
+ */
+function patternToRegex(pattern: string): RegExp {
+  // a slash anywhere but at the end anchors the pattern to the root
+  const anchored = pattern.startsWith("/") || pattern.slice(0, -1).includes("/");
+  const directory = pattern.endsWith("/");
+  const body = pattern.replace(/^\//, "").replace(/\/$/, "");
+
+  let source = "";
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if (char === "*" && body[i + 1] === "*") {
+      if (body[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") source += "[^/]*";
+    else if (char === "?") source += "[^/]";
+    else source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }
+
+  // `docs/*` owns the files in `docs`, not in its subdirectories
+  const suffix = directory ? "/" : /(^|[^*])\*$/.test(body) ? "$" : "(?:/|$)";
+  return new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}${suffix}`);
+}
+
+/** Parses the contents of a CODEOWNERS file. */
+export function parseCodeowners(content: string): CodeownersRule[] {
+  const rules: CodeownersRule[] = [];
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.replace(/(^|\s)#.*$/, "").trim();
+    if (!line) continue;
+    const [pattern, ...owners] = line.split(/\s+/);
+    rules.push({ pattern, owners, regex: patternToRegex(pattern) });
+  }
+  return rules;
+}
+
+/** Owners of `file` (relative to the root, `/`-separated) — the last matching rule wins. */
+export function matchCodeowners(
+  rules: readonly CodeownersRule[],
+  file: string,
+): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (rules[i].regex.test(file)) return rules[i].owners;
+  }
+  return [];
+}
+
+type ResolvedRule =
+  | Exclude<EmailRoutingRule, { codeowners: string }>
+  | { root: string; rules: CodeownersRule[] };
+
+async function resolveRules(
+  rules: readonly EmailRoutingRule[],
+  baseDir: string,
+): Promise<ResolvedRule[]> {
+  return Promise.all(
+    rules.map(async (rule) => {
+      if (!("codeowners" in rule)) return rule;
+      const path = resolve(baseDir, rule.codeowners);
+      const dir = dirname(path);
+      const root = rule.root
+        ? resolve(baseDir, rule.root)
+        : [".github", "docs"].includes(basename(dir))
+          ? dirname(dir)
+          : dir;
+      return { root, rules: parseCodeowners(await readFile(path, "utf8")) };
+    }),
+  );
+}
+
+function ownersByRule(rule: ResolvedRule, run: TestRun): string[] {
+  if ("tag" in rule) {
+    const matches = run.tags.some((tag) =>
+      typeof rule.tag === "string" ? tag === rule.tag : rule.tag.test(tag),
+    );
+    if (!matches) return [];
+    return Array.isArray(rule.owners) ? rule.owners : [rule.owners];
+  }
+  if ("annotation" in rule) {
+    return (run.test.annotations ?? [])
+      .filter((annotation) => annotation.type === rule.annotation)
+      .flatMap((annotation) => annotation.description?.split(/[,\s]+/) ?? [])
+      .filter(Boolean);
+  }
+  const file = run.test.location?.file;
+  if (!file) return [];
+  const path = relative(rule.root, file);
+  if (path.startsWith("..") || isAbsolute(path)) return [];
+  return matchCodeowners(rule.rules, path.split(sep).join("/"));
+}
+
+/**
+ * Groups failed tests by owner. CODEOWNERS files are read relative to
+ * `baseDir` — the config file directory in the reporter.
+ */
+export async function routeFailures(
+  failed: readonly TestRun[],
+  rules: readonly EmailRoutingRule[],
+  baseDir = process.cwd(),
+): Promise<EmailRoutes> {
+  const resolved = await resolveRules(rules, baseDir);
+  const routes: EmailRoutes = { byOwner: new Map(), unowned: [] };
+  for (const run of failed) {
+    let owners: string[] = [];
+    for (const rule of resolved) {
+      owners = ownersByRule(rule, run);
+      if (owners.length > 0) break;
+    }
+    if (owners.length === 0) routes.unowned.push(run);
+    for (const owner of new Set(owners)) {
+      const runs = routes.byOwner.get(owner) ?? [];
+      routes.byOwner.set(owner, [...runs, run]);
+    }
+  }
+  return routes;
+}
+
+/** Addresses of an owner, or `undefined` when the owner cannot be e-mailed. */
+export function ownerAddresses(
+  owner: string,
+  owners: EmailRoutingOptions["owners"] = {},
+): string | string[] | undefined {
+  if (Object.hasOwn(owners, owner)) return owners[owner];
+  return EMAIL_PATTERN.test(owner) ? owner : undefined;
+}
+
+/** The failures-by-owner section appended to the top-level e-mail. */
+export function routesDigest(routes: EmailRoutes): { html: string; text: string } {
+  const groups = [
+    ...routes.byOwner,
+    ...(routes.unowned.length > 0 ? [["Unowned", routes.unowned] as const] : []),
+  ];
+  if (groups.length === 0) return { html: "", text: "" };
+
+  const html = [
+    `<h3>Failures by owner</h3>`,
+    ...groups.map(
+      ([owner, runs]) =>
+        `<p><strong>${escapeHtml(owner)}</strong> (${runs.length})</p><ul>${runs
+          .map((run) => `<li>${escapeHtml(run.title)}</li>`)
+          .join("")}</ul>`,
+    ),
+  ].join("\n");
+  const text = [
+    "Failures by owner:",
+    ...groups.flatMap(([owner, runs]) => [
+      `${owner} (${runs.length})`,
+      ...runs.map((run) => `  - ${run.title}`),
+    ]),
+  ].join("\n");
+  return { html, text };
+}
@@ -0,0 +1,227 @@
+import { test, expect } from "@playwright/test";
+import { mkdir, writeFile } from "node:fs/promises";
+import { inflateRawSync } from "node:zlib";
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from "@playwright/test/reporter";
+import type SMTPTransport from "nodemailer/lib/smtp-transport";
+import { buildRunModel } from "@playwright-labs/reporter-core";
+import EmailReporter, {
+  type EmailMessage,
+  type NodemailerReporterOptions,
+} from "../src/reporter";
+import {
+  appendToHtml,
+  collectArtifacts,
+  planArtifacts,
+  type EmailArtifact,
+} from "../src/artifacts";
+import { zipDirectory } from "../src/zip";
+
+const failedResult: FullResult = {
+  status: "failed",
+  duration: 1000,
+  startTime: new Date(),
+};
+
+/** Reads every entry of a ZIP by walking its local file headers. */
+function unzip(zip: Buffer): Record<string, string> {
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const method = zip.readUInt16LE(offset + 8);
+    const size = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const name = zip.subarray(offset + 30, offset + 30 + nameLength).toString();
+    const data = zip.subarray(offset + 30 + nameLength, offset + 30 + nameLength + size);
+    files[name] = (method === 8 ? inflateRawSync(data) : data).toString();
+    offset += 30 + nameLength + size;
+  }
+  expect(zip.readUInt32LE(zip.length - 22)).toBe(0x06054b50);
+  return files;
+}
+
+function makeTest(title: string): TestCase {
+  return {
+    id: title,
+    title,
+    titlePath: () => ["", "Suite", title],
+    expectedStatus: "passed",
+  } as unknown as TestCase;
+}
+
+function failedWithScreenshot(title: string, bytes: number): [TestCase, TestResult] {
+  return [
+    makeTest(title),
+    {
+      status: "failed",
+      retry: 0,
+      duration: 10,
+      errors: [{ message: "boom" }],
+      attachments: [
+        { name: "screenshot", contentType: "image/png", body: Buffer.alloc(bytes, 1) },
+        { name: "trace", contentType: "application/zip", body: Buffer.alloc(10) },
+      ],
+    } as unknown as TestResult,
+  ];
+}
+
+async function writeReport(dir: string) {
+  await mkdir(`${dir}/data`, { recursive: true });
+  await writeFile(`${dir}/index.html`, "<html>".padEnd(4000, "x"));
+  await writeFile(`${dir}/data/trace.json`, '{"ok":true}');
+}
+
+test.describe("zipDirectory", () => {
+  test("archives every file with relative paths", async ({}, testInfo) => {
+    const dir = testInfo.outputPath("report");
+    await writeReport(dir);
+
+    const files = unzip(await zipDirectory(dir));
+
+    expect(Object.keys(files)).toEqual(["data/trace.json", "index.html"]);
+    expect(files["data/trace.json"]).toBe('{"ok":true}');
+    expect(files["index.html"]).toHaveLength(4000);
+  });
+});
+
+test.describe("artifacts", () => {
+  test("collects failed screenshots and the zipped report", async ({}, testInfo) => {
+    const dir = testInfo.outputPath("playwright-report");
+    await writeReport(dir);
+    const run = buildRunModel([failedWithScreenshot("a", 100)]);
+
+    const artifacts = await collectArtifacts(
+      run,
+      { screenshots: true, htmlReport: true },
+      testInfo.outputPath(),
+    );
+
+    expect(artifacts.map((a) => [a.kind, a.filename])).toEqual([
+      ["screenshot", "screenshot.png"],
+      ["html-report", "playwright-report.zip"],
+    ]);
+  });
+
+  test("zips the report once for every e-mail sharing the cache", async ({}, testInfo) => {
+    await writeReport(testInfo.outputPath("playwright-report"));
+    const zips = new Map<string, Promise<Buffer>>();
+    const collect = () =>
+      collectArtifacts(buildRunModel([]), { htmlReport: true }, testInfo.outputPath(), zips);
+
+    const [first] = await collect();
+    const [second] = await collect();
+
+    expect(zips.size).toBe(1);
+    expect(second.content).toBe(first.content);
+  });
+
+  test("a missing report directory is skipped", async ({}, testInfo) => {
+    const artifacts = await collectArtifacts(
+      buildRunModel([]),
+      { htmlReport: { dir: "nope" } },
+      testInfo.outputPath(),
+    );
+    expect(artifacts).toEqual([]);
+  });
+
+  test("inlines screenshots as CID images and links what exceeds maxSize", async () => {
+    const run = buildRunModel([
+      failedWithScreenshot("a", 100),
+      failedWithScreenshot("b", 100),
+    ]);
+    const artifacts: EmailArtifact[] = [
+      ...(await collectArtifacts(run, { screenshots: true })),
+      {
+        kind: "html-report",
+        filename: "playwright-report.zip",
+        contentType: "application/zip",
+        size: 500,
+        content: Buffer.alloc(500),
+      },
+    ];
+
+    const plan = await planArtifacts(artifacts, {
+      maxSize: 150,
+      htmlReport: { url: "https://ci.example.com/report" },
+      links: (artifact) =>
+        artifact.test ? `https://s3.example.com/${artifact.test.id}.png` : undefined,
+    });
+
+    expect(plan.attachments).toEqual([
+      expect.objectContaining({ cid: "screenshot-0@playwright-labs", contentType: "image/png" }),
+    ]);
+    expect(plan.html).toContain('<img src="cid:screenshot-0@playwright-labs"');
+    expect(plan.html).toContain('<a href="https://s3.example.com/b.png">Suite › b — screenshot.png</a>');
+    expect(plan.html).toContain('<a href="https://ci.example.com/report">playwright-report.zip</a>');
+    expect(plan.text).toContain("playwright-report.zip (500 B): https://ci.example.com/report");
+  });
+
+  test("appendToHtml inserts before </body>", () => {
+    expect(appendToHtml("<html><body><p>x</p></body></html>", "<hr/>")).toBe(
+      "<html><body><p>x</p><hr/>\n</body></html>",
+    );
+    expect(appendToHtml("<p>x</p>", "<hr/>")).toBe("<p>x</p>\n<hr/>");
+  });
+});
+
+class CapturingReporter extends EmailReporter {
+  readonly messages: EmailMessage[] = [];
+
+  override async sendEmail(
+    _subject: string,
+    message: EmailMessage = {},
+  ): Promise<SMTPTransport.SentMessageInfo> {
+    this.messages.push(message);
+    return { messageId: "stub" } as SMTPTransport.SentMessageInfo;
+  }
+}
+
+test.describe("recipient groups", () => {
+  test("each group gets its own e-mail with its own artifacts", async ({}, testInfo) => {
+    const configDir = testInfo.outputPath();
+    await writeReport(testInfo.outputPath("playwright-report"));
+    const reporter = new CapturingReporter({
+      from: "ci@example.com",
+      to: "qa@example.com",
+      subject: "Run",
+      html: "<html><body><h1>Report</h1></body></html>",
+      attachments: [{ filename: "notes.txt", content: "static" }],
+      artifacts: { htmlReport: true },
+      groups: [
+        {
+          to: ["pm@example.com", "cto@example.com"],
+          artifacts: { screenshots: true },
+        },
+        { to: "plain@example.com" },
+      ],
+    } as NodemailerReporterOptions);
+
+    reporter.onBegin(
+      { rootDir: configDir, configFile: `${configDir}/playwright.config.ts` } as FullConfig,
+      {} as Suite,
+    );
+    reporter.onTestEnd(...failedWithScreenshot("login", 64));
+    await reporter.onEnd(failedResult);
+
+    const [qa, stakeholders, plain] = reporter.messages;
+    expect(qa.to).toBe("qa@example.com");
+    expect(qa.attachments?.map((a) => a.filename)).toEqual([
+      "notes.txt",
+      "playwright-report.zip",
+    ]);
+
+    expect(stakeholders.to).toEqual(["pm@example.com", "cto@example.com"]);
+    expect(stakeholders.attachments?.map((a) => a.cid)).toEqual([
+      undefined,
+      "screenshot-0@playwright-labs",
+    ]);
+    expect(stakeholders.html).toMatch(/<img src="cid:screenshot-0@playwright-labs"[^]*<\/body>/);
+
+    expect(plain).toEqual({ to: "plain@example.com", cc: undefined, bcc: undefined });
+  });
+});
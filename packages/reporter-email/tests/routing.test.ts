@@ -0,0 +1,232 @@
+import { test, expect } from "@playwright/test";
+import { mkdir, writeFile } from "node:fs/promises";
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from "@playwright/test/reporter";
+import type SMTPTransport from "nodemailer/lib/smtp-transport";
+import { buildRunModel, type RunModel } from "@playwright-labs/reporter-core";
+import EmailReporter, {
+  type EmailMessage,
+  type NodemailerReporterOptions,
+} from "../src/reporter";
+import {
+  matchCodeowners,
+  parseCodeowners,
+  routeFailures,
+} from "../src/routing";
+
+const failedResult: FullResult = {
+  status: "failed",
+  duration: 1000,
+  startTime: new Date(),
+};
+
+function makeTest(
+  title: string,
+  file: string,
+  details: { tags?: string[]; owner?: string } = {},
+): TestCase {
+  return {
+    id: title,
+    title,
+    titlePath: () => ["", title],
+    expectedStatus: "passed",
+    tags: details.tags ?? [],
+    annotations: details.owner
+      ? [{ type: "owner", description: details.owner }]
+      : [],
+    location: { file, line: 1, column: 1 },
+  } as unknown as TestCase;
+}
+
+function failed(test: TestCase): [TestCase, TestResult] {
+  return [
+    test,
+    { status: "failed", retry: 0, duration: 10, errors: [], attachments: [] } as unknown as TestResult,
+  ];
+}
+
+test.describe("CODEOWNERS", () => {
+  const rules = parseCodeowners(`
+# comment
+*                 @acme/qa
+*.spec.ts         @acme/e2e
+/tests/checkout/  @acme/payments   # trailing comment
+docs/*            docs@acme.com
+**/admin/**       @acme/admin
+tests/legacy/
+`);
+
+  test("the last matching line wins", () => {
+    expect(matchCodeowners(rules, "README.md")).toEqual(["@acme/qa"]);
+    expect(matchCodeowners(rules, "tests/login.spec.ts")).toEqual(["@acme/e2e"]);
+    expect(matchCodeowners(rules, "tests/checkout/pay.spec.ts")).toEqual([
+      "@acme/payments",
+    ]);
+    expect(matchCodeowners(rules, "src/admin/users/list.spec.ts")).toEqual([
+      "@acme/admin",
+    ]);
+  });
+
+  test("single stars stay within one directory", () => {
+    expect(matchCodeowners(rules, "docs/intro.md")).toEqual(["docs@acme.com"]);
+    expect(matchCodeowners(rules, "docs/guides/intro.md")).toEqual(["@acme/qa"]);
+  });
+
+  test("a line without owners un-assigns the files", () => {
+    expect(matchCodeowners(rules, "tests/legacy/old.spec.ts")).toEqual([]);
+  });
+});
+
+test.describe("routeFailures", () => {
+  test("the first rule with owners wins", async ({}, testInfo) => {
+    const root = testInfo.outputPath();
+    await mkdir(`${root}/.github`, { recursive: true });
+    await writeFile(`${root}/.github/CODEOWNERS`, "/tests/checkout/ @acme/payments\n");
+
+    const run = buildRunModel([
+      failed(makeTest("annotated", `${root}/tests/checkout/a.spec.ts`, { owner: "ann@acme.com, bob@acme.com" })),
+      failed(makeTest("tagged", `${root}/tests/search.spec.ts`, { tags: ["@search"] })),
+      failed(makeTest("by file", `${root}/tests/checkout/b.spec.ts`)),
+      failed(makeTest("nobody", `${root}/tests/misc.spec.ts`)),
+    ]);
+
+    const routes = await routeFailures(
+      run.failed,
+      [
+        { annotation: "owner" },
+        { tag: /^@search/, owners: "search" },
+        { codeowners: ".github/CODEOWNERS" },
+      ],
+      root,
+    );
+
+    const titles = (runs: RunModel["tests"] = []) => runs.map((r) => r.title);
+    expect([...routes.byOwner.keys()]).toEqual([
+      "ann@acme.com",
+      "bob@acme.com",
+      "search",
+      "@acme/payments",
+    ]);
+    expect(titles(routes.byOwner.get("bob@acme.com"))).toEqual(["annotated"]);
+    expect(titles(routes.byOwner.get("@acme/payments"))).toEqual(["by file"]);
+    expect(titles(routes.unowned)).toEqual(["nobody"]);
+  });
+});
+
+class CapturingReporter extends EmailReporter {
+  readonly sent: { subject: string; message: EmailMessage }[] = [];
+
+  override async sendEmail(
+    subject: string,
+    message: EmailMessage = {},
+  ): Promise<SMTPTransport.SentMessageInfo> {
+    this.sent.push({ subject, message });
+    return { messageId: "stub" } as SMTPTransport.SentMessageInfo;
+  }
+}
+
+test.describe("routing", () => {
+  test("owners get their failures, the catch-all a digest", async () => {
+    const onEmailSend = [] as unknown[];
+    const reporter = new CapturingReporter({
+      from: "ci@example.com",
+      to: "qa@example.com",
+      subject: "Nightly",
+      html: (_result, testCases, run) =>
+        `<html><body><p>${run.totals.failed} failed: ${testCases.map(([t]) => t.title).join(", ")}</p></body></html>`,
+      routing: {
+        rules: [{ annotation: "owner" }, { tag: "@checkout", owners: "payments" }],
+        owners: { payments: ["pay@example.com", "lead@example.com"] },
+      },
+      onEmailSend: (info) => {
+        onEmailSend.push(info);
+      },
+    } as NodemailerReporterOptions);
+
+    reporter.onBegin({ rootDir: "/repo" } as FullConfig, {} as Suite);
+    reporter.onTestEnd(...failed(makeTest("pay", "/repo/a.spec.ts", { tags: ["@checkout"] })));
+    reporter.onTestEnd(...failed(makeTest("search", "/repo/b.spec.ts", { owner: "sam@example.com" })));
+    reporter.onTestEnd(...failed(makeTest("misc", "/repo/c.spec.ts", { owner: "team-without-address" })));
+    await reporter.onEnd(failedResult);
+
+    const [digest, ...owners] = reporter.sent;
+    expect(digest.subject).toBe("Nightly");
+    expect(digest.message.to).toBe("qa@example.com");
+    expect(digest.message.html).toContain("<p>3 failed: pay, search, misc</p>");
+    expect(digest.message.html).toMatch(
+      /<h3>Failures by owner<\/h3>[^]*<strong>team-without-address<\/strong> \(1\)[^]*<\/body>/,
+    );
+
+    expect(owners.map(({ subject, message }) => [subject, message.to, message.html])).toEqual([
+      [
+        "Nightly — payments",
+        ["pay@example.com", "lead@example.com"],
+        "<html><body><p>1 failed: pay</p></body></html>",
+      ],
+      [
+        "Nightly — sam@example.com",
+        "sam@example.com",
+        "<html><body><p>1 failed: search</p></body></html>",
+      ],
+    ]);
+    expect(onEmailSend).toHaveLength(3);
+  });
+
+  test("digest to a catch-all address as an e-mail of its own", async () => {
+    const reporter = new CapturingReporter({
+      from: "ci@example.com",
+      to: "qa@example.com",
+      subject: "Nightly",
+      text: "static body",
+      routing: {
+        rules: [{ tag: "@checkout", owners: "pay@example.com" }],
+        digest: { to: "leads@example.com" },
+      },
+    } as NodemailerReporterOptions);
+
+    reporter.onBegin({ rootDir: "/repo" } as FullConfig, {} as Suite);
+    reporter.onTestEnd(...failed(makeTest("pay", "/repo/a.spec.ts", { tags: ["@checkout"] })));
+    reporter.onTestEnd(...failed(makeTest("misc", "/repo/c.spec.ts")));
+    await reporter.onEnd(failedResult);
+
+    expect(reporter.sent.map(({ subject, message }) => [subject, message.to])).toEqual([
+      ["Nightly", "qa@example.com"],
+      ["Nightly — failures by owner", "leads@example.com"],
+      ["Nightly — pay@example.com", "pay@example.com"],
+    ]);
+    const [top, digest] = reporter.sent;
+    expect(top.message.text).toBeUndefined();
+    expect(digest.message.text).toBe(
+      "Failures by owner:\npay@example.com (1)\n  - pay\nUnowned (1)\n  - misc",
+    );
+    expect(digest.message.html).toContain("<h3>Failures by owner</h3>");
+  });
+
+  test("custom subject and no digest", async () => {
+    const reporter = new CapturingReporter({
+      from: "ci@example.com",
+      to: "qa@example.com",
+      subject: "Nightly",
+      text: "static body",
+      routing: {
+        rules: [{ tag: "@checkout", owners: "pay@example.com" }],
+        subject: (owner, subject) => `[${owner}] ${subject}`,
+        digest: false,
+      },
+    } as NodemailerReporterOptions);
+
+    reporter.onBegin({ rootDir: "/repo" } as FullConfig, {} as Suite);
+    reporter.onTestEnd(...failed(makeTest("pay", "/repo/a.spec.ts", { tags: ["@checkout"] })));
+    await reporter.onEnd(failedResult);
+
+    expect(reporter.sent.map(({ subject, message }) => [subject, message])).toEqual([
+      ["Nightly", { to: "qa@example.com", cc: undefined, bcc: undefined }],
+      ["[pay@example.com] Nightly", { to: "pay@example.com", cc: undefined, bcc: undefined }],
+    ]);
+  });
+});
@@ -85,13 +85,11 @@ export default class InlineReporter extends BaseReporter implements Reporter {
     this.on("error", options.onError ?? noop);
   }
 
-  override onEnd(
+  override async onEnd(
     result: FullResult,
-  ): Promise<{ status?: FullResult["status"] } | undefined | void> | void {
-    super.onEnd(result);
-    return this.#options.onEnd?.(result) as
-      | Promise<{ status?: FullResult["status"] } | undefined | void>
-      | void;
+  ): Promise<{ status?: FullResult["status"] } | undefined | void> {
+    await super.onEnd(result);
+    return this.#options.onEnd?.(result);
   }
 
   override async onExit(): Promise<void> {
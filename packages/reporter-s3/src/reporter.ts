@@ -5,7 +5,10 @@ import type {
   TestCase,
   TestResult,
 } from "@playwright/test/reporter";
-import { BaseReporter } from "@playwright-labs/reporter-core";
+import {
+  BaseReporter,
+  type HistoryOptions,
+} from "@playwright-labs/reporter-core";
 import {
   S3Client,
   parseS3AttachmentName,
@@ -57,6 +60,12 @@ export type S3ReporterOptions = {
   prefix?: string;
   /** Upload `summary.json` with the run outcome. @default true */
   uploadSummary?: boolean;
+  /**
+   * Run history, see {@link HistoryOptions} — written to `summary.json` as
+   * `history`. Implement a `HistoryStore` on top of `S3Client` to keep the
+   * history itself in the bucket.
+   */
+  history?: HistoryOptions;
   /** Upload test attachments (screenshots, videos, traces). @default true */
   uploadAttachments?: boolean;
   /** Canned ACL for uploaded objects, e.g. `private`. */
@@ -109,7 +118,7 @@ export default class S3Reporter extends BaseReporter {
   #ensuredBuckets = new Set<string>();
 
   constructor(options: S3ReporterOptions) {
-    super();
+    super({ history: options.history });
     this.#options = options;
     const endpoint = options.endpoint ?? process.env.AWS_S3_URL;
     const accessKeyId = options.accessKeyId ?? process.env.AWS_ACCESS_KEY_ID;
@@ -166,6 +175,7 @@ export default class S3Reporter extends BaseReporter {
   }
 
   async onEnd(result: FullResult): Promise<void> {
+    await super.onEnd(result);
     await this.#ensureBucket(this.#options.bucket);
 
     const prefix =
@@ -228,6 +238,9 @@ export default class S3Reporter extends BaseReporter {
         startTime: result.startTime.toISOString(),
         duration: result.duration,
         counts: this.counts,
+        totals: this.run.totals,
+        flaky: this.run.flaky.map((run) => run.id),
+        ...(this.run.history ? { history: this.run.history } : {}),
         tests: this.testCases.map(([test, testResult]) => ({
           id: test.id,
           title: test.titlePath().filter(Boolean).join(" › "),
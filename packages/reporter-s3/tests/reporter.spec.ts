@@ -108,6 +108,8 @@ function summaryOf(calls: Captured[]): {
   json: {
     status: string;
     counts: Record<string, number>;
+    totals: Record<string, number>;
+    flaky: string[];
     tests: Array<{
       id: string;
       status: string;
@@ -222,6 +224,8 @@ test.describe("upload flow", () => {
       expect(call.headers["content-type"]).toBe("application/json");
       expect(json.status).toBe("passed");
       expect(json.counts.passed).toBe(1);
+      expect(json.totals).toMatchObject({ total: 1, passed: 1, flaky: 0 });
+      expect(json.flaky).toEqual([]);
       expect(json.tests[0].attachments).toEqual([
         { bucket: "reports", key: "run-1/attachments/t1/0-0-screenshot" },
       ]);
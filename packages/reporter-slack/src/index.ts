@@ -1,11 +1,16 @@
 export { default as Reporter, default } from "./reporter.js";
 
 export {
+  type SlackLiveOptions,
   type SlackReporterOptions,
   type SlackReporterOptions as ReporterOptions,
   type SlackSendResponse,
+  type SlackUploadedFile,
+  type SlackUploadOptions,
   type SlackTestCases,
   type SlackTestCases as TestCases,
 } from "./types.js";
 
+export type { RunModel, TestRun } from "@playwright-labs/reporter-core";
+
 export * from "./templates/index.js";
@@ -0,0 +1,253 @@
+import type { SlackBlock, SlackMessage } from "@playwright-labs/slack-buildkit";
+import { context, divider, header, section } from "@playwright-labs/slack-buildkit";
+import type { TestCase, TestResult } from "@playwright/test/reporter";
+import type { SlackLiveOptions, SlackSendResponse } from "./types.js";
+import { callSlackApi, type SlackApiClient } from "./web-api.js";
+
+/** Slack rejects section texts over 3000 characters. */
+const MAX_SECTION_TEXT = 2900;
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+export type LiveProgress = {
+  projectName: string;
+  total: number;
+  done: number;
+  passed: number;
+  failed: number;
+  flaky: number;
+  skipped: number;
+  /** Titles of the tests that failed so far. */
+  failures: string[];
+  maxFailures: number;
+};
+
+/** Text progress bar: `██████░░░░░░░░░░░░░░ 30% (6/20)`. */
+export function progressBar(done: number, total: number, width = 20): string {
+  const ratio = total > 0 ? Math.min(done / total, 1) : 1;
+  const filled = Math.round(ratio * width);
+  const percent = Math.floor(ratio * 100);
+  return `${"█".repeat(filled)}${"░".repeat(width - filled)} ${percent}% (${done}/${total})`;
+}
+
+function truncate(value: string, max = MAX_SECTION_TEXT): string {
+  return value.length > max ? `${value.slice(0, max - 1)}…` : value;
+}
+
+/** Blocks of the live message while the run is in progress. */
+export function liveProgressBlocks(progress: LiveProgress): SlackBlock[] {
+  const blocks: SlackBlock[] = [
+    header(`:hourglass_flowing_sand: ${progress.projectName} — running`),
+    section(`\`${progressBar(progress.done, progress.total)}\``),
+    context([
+      `:white_check_mark: ${progress.passed}  •  :x: ${progress.failed}  •  :warning: ${progress.flaky} flaky  •  :fast_forward: ${progress.skipped}`,
+    ]),
+  ];
+
+  if (progress.failures.length > 0) {
+    const shown = progress.failures.slice(0, progress.maxFailures);
+    const more = progress.failures.length - shown.length;
+    blocks.push(
+      divider(),
+      section(
+        truncate(
+          [
+            `*Failing so far (${progress.failures.length}):*`,
+            ...shown.map((title) => `• \`${title}\``),
+            ...(more > 0 ? [`_…and ${more} more_`] : []),
+          ].join("\n"),
+        ),
+      ),
+    );
+  }
+
+  return blocks;
+}
+
+/** Threaded reply for a failed test: its error and attachment links. */
+export function failureReplyBlocks(
+  test: TestCase,
+  result: TestResult,
+  attachmentUrl?: SlackLiveOptions["attachmentUrl"],
+): SlackBlock[] {
+  const title = test.titlePath().filter(Boolean).join(" › ");
+  const retries = result.retry > 0 ? ` after ${result.retry} ${result.retry === 1 ? "retry" : "retries"}` : "";
+  const blocks: SlackBlock[] = [section(`:x: *${title}* — ${result.status}${retries}`)];
+
+  const error = result.errors?.[0];
+  const message = (error?.stack ?? error?.message ?? "").replace(ANSI_PATTERN, "");
+  if (message) {
+    blocks.push(section(`\`\`\`${truncate(message, MAX_SECTION_TEXT - 6)}\`\`\``));
+  }
+
+  const attachments = (result.attachments ?? []).map((attachment) => {
+    const url = attachmentUrl?.(attachment, test, result);
+    return url
+      ? `<${url}|${attachment.name}>`
+      : `${attachment.name} (${attachment.contentType})`;
+  });
+  if (attachments.length > 0) {
+    blocks.push(context([truncate(`:paperclip: ${attachments.join("  •  ")}`)]));
+  }
+
+  return blocks;
+}
+
+/**
+ * One Slack message per run, kept up to date while tests finish.
+ *
+ * Every Web API call goes through a single promise chain, so the initial
+ * `chat.postMessage` always lands before the edits and replies that need
+ * its `ts`. Progress edits are throttled to one per `updateIntervalMs`.
+ * Failures of intermediate calls do not stop the run — the first one is
+ * rethrown by {@link LiveRunMessage.finish}.
+ */
+export class LiveRunMessage {
+  readonly #client: SlackApiClient;
+  readonly #channel: string;
+  readonly #options: SlackLiveOptions;
+  readonly #errors: unknown[] = [];
+  #chain: Promise<void> = Promise.resolve();
+  #ts: string | undefined;
+  #postedChannel: string | undefined;
+  #timer: ReturnType<typeof setTimeout> | undefined;
+  #progress: LiveProgress;
+
+  constructor(
+    client: SlackApiClient,
+    channel: string,
+    options: SlackLiveOptions = {},
+  ) {
+    this.#client = client;
+    this.#channel = channel;
+    this.#options = options;
+    this.#progress = {
+      projectName: options.projectName ?? "Playwright",
+      total: 0,
+      done: 0,
+      passed: 0,
+      failed: 0,
+      flaky: 0,
+      skipped: 0,
+      failures: [],
+      maxFailures: options.maxFailures ?? 10,
+    };
+  }
+
+  /** Slack timestamp of the run message, once it was posted. */
+  get ts(): string | undefined {
+    return this.#ts;
+  }
+
+  /** Posts the initial message. */
+  start(total: number): void {
+    this.#progress.total = total;
+    this.#enqueue(async () => {
+      const data = await callSlackApi<{ ts: string; channel: string }>(
+        this.#client,
+        "chat.postMessage",
+        { channel: this.#channel, ...this.#progressMessage() },
+      );
+      this.#ts = data.ts;
+      this.#postedChannel = data.channel;
+    });
+  }
+
+  /** Counts a finished attempt; only the last attempt of a test is reported. */
+  testEnded(test: TestCase, result: TestResult): void {
+    const expected = test.expectedStatus ?? "passed";
+    const final =
+      result.status === "skipped" ||
+      result.status === expected ||
+      result.retry >= (test.retries ?? 0);
+    if (!final) return;
+
+    const progress = this.#progress;
+    progress.done++;
+    if (result.status === "skipped") progress.skipped++;
+    else if (result.status !== expected) {
+      progress.failed++;
+      progress.failures.push(test.titlePath().filter(Boolean).join(" › "));
+      if (this.#options.threadFailures ?? true) this.#reply(test, result);
+    } else if (result.retry > 0) progress.flaky++;
+    else progress.passed++;
+
+    this.#scheduleUpdate();
+  }
+
+  /**
+   * Replaces the live message with the final report — or posts it, if the
+   * initial message never made it — then rethrows the first Slack error
+   * seen during the run.
+   */
+  async finish(message: SlackMessage): Promise<SlackSendResponse> {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+    await this.#chain;
+
+    let response: SlackSendResponse;
+    if (this.#ts && this.#postedChannel) {
+      await callSlackApi(this.#client, "chat.update", {
+        channel: this.#postedChannel,
+        ts: this.#ts,
+        ...message,
+      });
+      response = { ok: true, ts: this.#ts, channel: this.#postedChannel };
+    } else {
+      const data = await callSlackApi<{ ts?: string; channel?: string }>(
+        this.#client,
+        "chat.postMessage",
+        { ...message, channel: this.#channel },
+      );
+      response = { ok: true, ts: data.ts, channel: data.channel };
+    }
+
+    if (this.#errors.length > 0) throw this.#errors[0];
+    return response;
+  }
+
+  #progressMessage(): SlackMessage {
+    const { projectName, done, total } = this.#progress;
+    return {
+      text: `${projectName}: ${done}/${total} tests finished`,
+      blocks: liveProgressBlocks(this.#progress),
+    };
+  }
+
+  #reply(test: TestCase, result: TestResult): void {
+    const blocks = failureReplyBlocks(test, result, this.#options.attachmentUrl);
+    const title = test.titlePath().filter(Boolean).join(" › ");
+    this.#enqueue(async () => {
+      if (!this.#ts) return;
+      await callSlackApi(this.#client, "chat.postMessage", {
+        channel: this.#postedChannel,
+        thread_ts: this.#ts,
+        text: `:x: ${title}`,
+        blocks,
+      });
+    });
+  }
+
+  #scheduleUpdate(): void {
+    if (this.#timer) return;
+    this.#timer = setTimeout(() => {
+      this.#timer = undefined;
+      this.#enqueue(async () => {
+        if (!this.#ts) return;
+        await callSlackApi(this.#client, "chat.update", {
+          channel: this.#postedChannel,
+          ts: this.#ts,
+          ...this.#progressMessage(),
+        });
+      });
+    }, this.#options.updateIntervalMs ?? 2000);
+    // a pending edit must never keep the test runner alive
+    this.#timer.unref?.();
+  }
+
+  #enqueue(call: () => Promise<void>): void {
+    this.#chain = this.#chain.then(call).catch((error: unknown) => {
+      this.#errors.push(error);
+    });
+  }
+}
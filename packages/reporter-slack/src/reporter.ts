@@ -1,8 +1,17 @@
 import type { SlackBlock, SlackMessage } from "@playwright-labs/slack-buildkit";
 import { render } from "@playwright-labs/slack-buildkit";
-import type { FullResult } from "@playwright/test/reporter";
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from "@playwright/test/reporter";
 import { BaseReporter } from "@playwright-labs/reporter-core";
+import { LiveRunMessage } from "./live.js";
+import { selectAttachments, uploadFiles, uploadedFileBlocks } from "./uploads.js";
 import type { SlackReporterOptions, SlackSendResponse } from "./types.js";
+import { callSlackApi, type SlackApiClient } from "./web-api.js";
 
 function isSlackMessage(value: SlackBlock[] | SlackMessage): value is SlackMessage {
   return !Array.isArray(value) && typeof value === "object" && "blocks" in value;
@@ -10,32 +19,90 @@ function isSlackMessage(value: SlackBlock[] | SlackMessage): value is SlackMessa
 
 export default class SlackReporter extends BaseReporter {
   readonly #options: Readonly<SlackReporterOptions>;
+  readonly #live: LiveRunMessage | undefined;
 
   constructor(options: SlackReporterOptions) {
-    super();
+    super({ history: options.history });
     this.#options = options;
+    if ("token" in options && options.live && options.send !== "never") {
+      this.#live = new LiveRunMessage(
+        { token: options.token, apiUrl: options.apiUrl },
+        options.channel,
+        options.live === true ? {} : options.live,
+      );
+    }
+  }
+
+  onBegin(config: FullConfig, suite: Suite): void {
+    super.onBegin(config, suite);
+    this.#live?.start(suite.allTests().length);
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    super.onTestEnd(test, result);
+    this.#live?.testEnded(test, result);
   }
 
   async onEnd(result: FullResult): Promise<void> {
+    await super.onEnd(result);
     const send = this.#options.send ?? "on-failure";
     if (send === "never") return;
-    if (send === "on-failure" && result.status !== "failed") return;
+    // the live message already exists — it is always finalized
+    if (!this.#live && send === "on-failure" && result.status !== "failed") {
+      return;
+    }
 
     const payload = await this.#resolvePayload(result);
     const text = await this.#resolveText(result);
     if (text) payload.text = payload.text ?? text;
 
-    const response = await this.#send(payload);
+    const response = this.#live
+      ? await this.#live.finish(payload)
+      : await this.#send(payload);
+
+    await this.#uploadAttachments(payload, response);
 
     if (this.#options.onSend) {
       await this.#options.onSend(response);
     }
   }
 
+  /**
+   * Uploads failed tests' attachments into the message's thread, then edits
+   * the message to reference them. Needs the `ts` only the bot transport
+   * returns.
+   */
+  async #uploadAttachments(
+    payload: SlackMessage,
+    response: SlackSendResponse,
+  ): Promise<void> {
+    if (!("token" in this.#options) || !this.#options.uploads) return;
+    if (!response.ts || !response.channel) return;
+
+    const options = this.#options.uploads === true ? {} : this.#options.uploads;
+    const { files, skipped } = await selectAttachments(this.run.failed, options);
+    if (files.length === 0 && skipped.length === 0) return;
+
+    const client = { token: this.#options.token, apiUrl: this.#options.apiUrl };
+    response.files = await uploadFiles(client, files, {
+      channel: response.channel,
+      threadTs: response.ts,
+    });
+    await callSlackApi(client, "chat.update", {
+      ...payload,
+      channel: response.channel,
+      ts: response.ts,
+      blocks: [
+        ...(payload.blocks ?? []),
+        ...uploadedFileBlocks(response.files, skipped.length),
+      ],
+    });
+  }
+
   async #resolvePayload(result: FullResult): Promise<SlackMessage> {
     const raw =
       typeof this.#options.blocks === "function"
-        ? await this.#options.blocks(result, this.testCases)
+        ? await this.#options.blocks(result, this.testCases, this.run)
         : this.#options.blocks;
 
     if (isSlackMessage(raw)) {
@@ -48,7 +115,7 @@ export default class SlackReporter extends BaseReporter {
   async #resolveText(result: FullResult): Promise<string | undefined> {
     if (!this.#options.text) return undefined;
     if (typeof this.#options.text === "function") {
-      return this.#options.text(result, this.testCases);
+      return this.#options.text(result, this.testCases, this.run);
     }
     return this.#options.text;
   }
@@ -57,7 +124,11 @@ export default class SlackReporter extends BaseReporter {
     if ("webhookUrl" in this.#options) {
       return this.#sendWebhook(this.#options.webhookUrl, payload);
     }
-    return this.#sendWebApi(this.#options.token, this.#options.channel, payload);
+    return this.#sendWebApi(
+      { token: this.#options.token, apiUrl: this.#options.apiUrl },
+      this.#options.channel,
+      payload,
+    );
   }
 
   async #sendWebhook(url: string, payload: SlackMessage): Promise<SlackSendResponse> {
@@ -76,24 +147,15 @@ export default class SlackReporter extends BaseReporter {
   }
 
   async #sendWebApi(
-    token: string,
+    client: SlackApiClient,
     channel: string,
     payload: SlackMessage,
   ): Promise<SlackSendResponse> {
-    const res = await fetch("https://slack.com/api/chat.postMessage", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`,
-      },
-      body: JSON.stringify({ ...payload, channel }),
-    });
-
-    const data = (await res.json()) as { ok: boolean; ts?: string; channel?: string; error?: string };
-
-    if (!data.ok) {
-      throw new Error(`Slack API error: ${data.error ?? "unknown"}`);
-    }
+    const data = await callSlackApi<{ ts?: string; channel?: string }>(
+      client,
+      "chat.postMessage",
+      { ...payload, channel },
+    );
 
     return { ok: true, ts: data.ts, channel: data.channel };
   }
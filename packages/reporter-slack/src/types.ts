@@ -1,6 +1,10 @@
 import type { SlackBlock, SlackMessage } from "@playwright-labs/slack-buildkit";
-import type { FullResult } from "@playwright/test/reporter";
-import type { TestCases } from "@playwright-labs/reporter-core";
+import type { FullResult, TestCase, TestResult } from "@playwright/test/reporter";
+import type {
+  HistoryOptions,
+  RunModel,
+  TestCases,
+} from "@playwright-labs/reporter-core";
 
 /** Array of [TestCase, TestResult] pairs collected during the run. */
 export type SlackTestCases = TestCases;
@@ -8,18 +12,102 @@ export type SlackTestCases = TestCases;
 type BlocksValue = SlackBlock[] | SlackMessage;
 type BlocksResolver =
   | BlocksValue
-  | ((result: FullResult, testCases: SlackTestCases) => BlocksValue | Promise<BlocksValue>);
+  | ((
+      result: FullResult,
+      testCases: SlackTestCases,
+      run: RunModel,
+    ) => BlocksValue | Promise<BlocksValue>);
 
 type WebhookTransport = {
   /** Slack Incoming Webhook URL */
   webhookUrl: string;
 };
 
+/** Settings of the live-updating run message, see {@link BotTransport.live}. */
+export type SlackLiveOptions = {
+  /** Name shown in the live message header. @default "Playwright" */
+  projectName?: string;
+  /**
+   * Minimum delay between two `chat.update` calls (ms) — finished tests are
+   * batched into one edit to stay within Slack's rate limits.
+   * @default 2000
+   */
+  updateIntervalMs?: number;
+  /**
+   * Post every failed test (after its last retry) as a threaded reply with
+   * the error and attachment links.
+   * @default true
+   */
+  threadFailures?: boolean;
+  /** How many failing tests the live message lists. @default 10 */
+  maxFailures?: number;
+  /**
+   * Link for an attachment in the failure replies, e.g. where CI or
+   * reporter-s3 uploaded it. Attachments without a link are listed by name.
+   */
+  attachmentUrl?: (
+    attachment: TestResult["attachments"][number],
+    test: TestCase,
+    result: TestResult,
+  ) => string | undefined;
+};
+
+/** Which attachments of failed tests to upload, see {@link BotTransport.uploads}. */
+export type SlackUploadOptions = {
+  /** Attachment names to upload. @default ["screenshot", "trace", "video"] */
+  names?: string[];
+  /** Content types to upload; `image/*` matches every image. @default any */
+  contentTypes?: string[];
+  /** Skip files larger than this (bytes). @default 10 MiB */
+  maxFileSize?: number;
+  /** Stop uploading once the run's files reach this size (bytes). @default 50 MiB */
+  maxTotalSize?: number;
+  /** Upload at most this many files per run. @default 10 */
+  maxFiles?: number;
+};
+
+/** A file uploaded to Slack for a failed test. */
+export type SlackUploadedFile = {
+  /** Slack file id (`F…`). */
+  id: string;
+  title: string;
+  filename: string;
+  contentType: string;
+  /** Size in bytes. */
+  size: number;
+  /** `TestCase.id` of the failed test. */
+  testId: string;
+};
+
 type BotTransport = {
   /** Slack Bot token (xoxb-...) */
   token: string;
   /** Channel ID or name to post to */
   channel: string;
+  /**
+   * Base URL of the Slack Web API — for proxies, Enterprise Grid gateways
+   * and local mock servers.
+   * @default "https://slack.com/api"
+   */
+  apiUrl?: string;
+  /**
+   * Post the message in `onBegin` and keep editing it while tests run
+   * (progress bar, failing tests so far), with failures as threaded
+   * replies. In `onEnd` the message is replaced with `blocks`.
+   *
+   * In live mode the message is posted whenever `send` is not `"never"`.
+   * @example
+   * live: { updateIntervalMs: 5000, attachmentUrl: (a) => `${artifactsUrl}/${basename(a.path!)}` }
+   */
+  live?: boolean | SlackLiveOptions;
+  /**
+   * Upload screenshots, traces and videos of failed tests as Slack files,
+   * shared in the run message's thread and referenced from its blocks
+   * (images inline). Needs the `files:write` scope.
+   * @example
+   * uploads: { names: ["screenshot", "trace"], maxFileSize: 5 * 1024 * 1024 }
+   */
+  uploads?: boolean | SlackUploadOptions;
 };
 
 export type SlackReporterOptions = {
@@ -28,9 +116,12 @@ export type SlackReporterOptions = {
    * @default 'on-failure'
    */
   send?: "always" | "never" | "on-failure";
+  /** Run history for `run.history` in templates, see {@link HistoryOptions}. */
+  history?: HistoryOptions;
   /**
    * Block Kit blocks (or a full message payload) to send.
-   * Can be a static value or a function called with the test result and test cases.
+   * Can be a static value or a function called with the test result, test cases
+   * and the normalized run model (final outcomes after retries, flaky tests, rollups).
    *
    * @example
    * // static blocks using builders
@@ -46,13 +137,21 @@ export type SlackReporterOptions = {
    *   header(`Run ${result.status}`),
    *   section(`Passed: ${testCases.filter(([,r]) => r.status === 'passed').length}`)
    * ]
+   *
+   * @example
+   * // using the run model — same numbers as every other reporter
+   * blocks: (result, _testCases, run) => [
+   *   section(`${run.totals.passed} passed, ${run.totals.failed} failed, ${run.totals.flaky} flaky`)
+   * ]
    */
   blocks: BlocksResolver;
   /**
    * Fallback text shown in notifications and accessibility contexts.
    * @default 'Playwright test report'
    */
-  text?: string | ((result: FullResult, testCases: SlackTestCases) => string);
+  text?:
+    | string
+    | ((result: FullResult, testCases: SlackTestCases, run: RunModel) => string);
   /**
    * Called after the message is successfully sent.
    */
@@ -65,4 +164,6 @@ export type SlackSendResponse = {
   ts?: string;
   channel?: string;
   error?: string;
+  /** Files uploaded with the `uploads` option. */
+  files?: SlackUploadedFile[];
 };
@@ -0,0 +1,192 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename } from "node:path";
+import type { SlackBlock } from "@playwright-labs/slack-buildkit";
+import { context, image, section } from "@playwright-labs/slack-buildkit";
+import type { TestRun } from "@playwright-labs/reporter-core";
+import type { TestResult } from "@playwright/test/reporter";
+import type { SlackUploadOptions, SlackUploadedFile } from "./types.js";
+import { callSlackApi, type SlackApiClient } from "./web-api.js";
+
+type Attachment = TestResult["attachments"][number];
+
+/** An attachment picked for upload, with its size already known. */
+export type UploadCandidate = {
+  test: TestRun;
+  attachment: Attachment;
+  filename: string;
+  size: number;
+};
+
+export type UploadSelection = {
+  files: UploadCandidate[];
+  /** Attachments that matched the filters but exceeded a size or count cap. */
+  skipped: UploadCandidate[];
+};
+
+const DEFAULT_NAMES = ["screenshot", "trace", "video"];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "video/webm": "webm",
+  "application/zip": "zip",
+  "application/json": "json",
+  "text/plain": "txt",
+  "text/html": "html",
+};
+
+/** `image/*` matches every image type; anything else must match exactly. */
+function matchesContentType(contentType: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("/*")
+      ? contentType.startsWith(pattern.slice(0, -1))
+      : contentType === pattern,
+  );
+}
+
+function filenameOf(attachment: Attachment): string {
+  if (attachment.path) return basename(attachment.path);
+  const extension = EXTENSIONS[attachment.contentType];
+  return extension ? `${attachment.name}.${extension}` : attachment.name;
+}
+
+async function sizeOf(attachment: Attachment): Promise<number | undefined> {
+  if (attachment.body) return attachment.body.length;
+  if (!attachment.path) return undefined;
+  // attachments can point at files cleaned up since the test ran
+  return stat(attachment.path).then(
+    (stats) => stats.size,
+    () => undefined,
+  );
+}
+
+/**
+ * Picks the attachments of failed tests to upload: filtered by name and
+ * content type, in test order, until `maxFiles` or `maxTotalSize` is
+ * reached. Files over `maxFileSize` are skipped.
+ */
+export async function selectAttachments(
+  failed: readonly TestRun[],
+  options: SlackUploadOptions,
+): Promise<UploadSelection> {
+  const names = options.names ?? DEFAULT_NAMES;
+  const maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+  const maxTotalSize = options.maxTotalSize ?? 50 * 1024 * 1024;
+  const maxFiles = options.maxFiles ?? 10;
+
+  const selection: UploadSelection = { files: [], skipped: [] };
+  let total = 0;
+  for (const test of failed) {
+    for (const attachment of test.result.attachments ?? []) {
+      if (!names.includes(attachment.name)) continue;
+      if (
+        options.contentTypes &&
+        !matchesContentType(attachment.contentType, options.contentTypes)
+      ) {
+        continue;
+      }
+      const size = await sizeOf(attachment);
+      if (size === undefined) continue;
+
+      const candidate = { test, attachment, filename: filenameOf(attachment), size };
+      if (
+        size > maxFileSize ||
+        total + size > maxTotalSize ||
+        selection.files.length >= maxFiles
+      ) {
+        selection.skipped.push(candidate);
+        continue;
+      }
+      total += size;
+      selection.files.push(candidate);
+    }
+  }
+  return selection;
+}
+
+/**
+ * Uploads files with Slack's external upload flow:
+ *
+ * 1. `files.getUploadURLExternal` reserves a file id and an upload URL
+ * 2. the bytes are POSTed to that URL
+ * 3. `files.completeUploadExternal` finalizes every file at once and shares
+ *    them into `channel` (in the `threadTs` thread when given)
+ */
+export async function uploadFiles(
+  client: SlackApiClient,
+  files: readonly UploadCandidate[],
+  share: { channel: string; threadTs?: string },
+): Promise<SlackUploadedFile[]> {
+  if (files.length === 0) return [];
+
+  const uploaded: SlackUploadedFile[] = [];
+  for (const file of files) {
+    const { upload_url, file_id } = await callSlackApi<{
+      upload_url: string;
+      file_id: string;
+    }>(
+      client,
+      "files.getUploadURLExternal",
+      { filename: file.filename, length: file.size },
+      { form: true },
+    );
+
+    const body = file.attachment.body ?? (await readFile(file.attachment.path!));
+    const res = await fetch(upload_url, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: new Uint8Array(body),
+    });
+    if (!res.ok) {
+      throw new Error(
+        `Slack file upload failed for "${file.filename}" (${res.status})`,
+      );
+    }
+
+    uploaded.push({
+      id: file_id,
+      title: `${file.test.title} — ${file.attachment.name}`,
+      filename: file.filename,
+      contentType: file.attachment.contentType,
+      size: file.size,
+      testId: file.test.id,
+    });
+  }
+
+  await callSlackApi(client, "files.completeUploadExternal", {
+    files: uploaded.map(({ id, title }) => ({ id, title })),
+    channel_id: share.channel,
+    ...(share.threadTs ? { thread_ts: share.threadTs } : {}),
+  });
+
+  return uploaded;
+}
+
+/**
+ * Blocks referencing uploaded files: screenshots are shown inline as image
+ * blocks, other files are listed by name (they are shared in the thread).
+ */
+export function uploadedFileBlocks(
+  files: readonly SlackUploadedFile[],
+  skipped = 0,
+): SlackBlock[] {
+  if (files.length === 0 && skipped === 0) return [];
+
+  const blocks: SlackBlock[] = [section("*Failed test attachments*")];
+  for (const file of files) {
+    if (file.contentType.startsWith("image/")) {
+      blocks.push(image({ id: file.id }, file.title, { title: file.title }));
+    }
+  }
+
+  const others = files.filter((file) => !file.contentType.startsWith("image/"));
+  const notes = [
+    ...(others.length > 0
+      ? [`:paperclip: In the thread: ${others.map((file) => `\`${file.filename}\``).join(", ")}`]
+      : []),
+    ...(skipped > 0 ? [`_${skipped} more over the upload limits_`] : []),
+  ];
+  if (notes.length > 0) blocks.push(context(notes));
+
+  return blocks;
+}
@@ -0,0 +1,47 @@
+/** Bot token and API location shared by every Web API call of a run. */
+export type SlackApiClient = {
+  /** Slack Bot token (xoxb-...) */
+  token: string;
+  /** @default "https://slack.com/api" */
+  apiUrl?: string;
+};
+
+type SlackApiResponse = { ok: boolean; error?: string };
+
+/**
+ * Calls a Slack Web API method with the bot token. Slack answers HTTP 200
+ * with `ok: false` on most errors, so the `ok` flag is what decides success.
+ *
+ * Bodies are sent as JSON unless `form` is set — a few methods
+ * (`files.getUploadURLExternal`) only accept form-encoded arguments.
+ */
+export async function callSlackApi<T extends object = {}>(
+  client: SlackApiClient,
+  method: string,
+  body: Record<string, unknown>,
+  { form = false }: { form?: boolean } = {},
+): Promise<T & SlackApiResponse> {
+  const apiUrl = client.apiUrl ?? "https://slack.com/api";
+  const res = await fetch(`${apiUrl.replace(/\/$/, "")}/${method}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": form
+        ? "application/x-www-form-urlencoded"
+        : "application/json",
+      Authorization: `Bearer ${client.token}`,
+    },
+    body: form
+      ? new URLSearchParams(
+          Object.entries(body).map(([key, value]) => [key, String(value)]),
+        ).toString()
+      : JSON.stringify(body),
+  });
+
+  const data = (await res.json()) as T & SlackApiResponse;
+
+  if (!data.ok) {
+    throw new Error(`Slack API error: ${data.error ?? "unknown"}`);
+  }
+
+  return data;
+}
@@ -0,0 +1,218 @@
+import { test, expect } from "@playwright/test";
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from "@playwright/test/reporter";
+import { header } from "@playwright-labs/slack-buildkit";
+import SlackReporter from "../src/reporter";
+import { progressBar } from "../src/live";
+import type { SlackReporterOptions } from "../src/types";
+
+const passedResult: FullResult = {
+  status: "passed",
+  duration: 5000,
+  startTime: new Date(),
+};
+
+function makeSuite(total: number): Suite {
+  return {
+    allTests: () => Array.from({ length: total }, (_, i) => ({ id: `t${i}` })),
+  } as unknown as Suite;
+}
+
+function makeTest(title: string, retries = 0): TestCase {
+  return {
+    id: title,
+    title,
+    titlePath: () => ["", "chromium", "Suite", title],
+    expectedStatus: "passed",
+    retries,
+  } as unknown as TestCase;
+}
+
+function makeResult(status: TestResult["status"], retry = 0): TestResult {
+  return {
+    status,
+    retry,
+    duration: 100,
+    errors:
+      status === "failed"
+        ? [{ message: "boom", stack: "Error: \u001b[31mboom\u001b[39m\n    at a.spec.ts:3" }]
+        : [],
+    attachments:
+      status === "failed"
+        ? [
+            { name: "screenshot", contentType: "image/png", path: "/tmp/s.png" },
+            { name: "trace", contentType: "application/zip", path: "/tmp/trace.zip" },
+          ]
+        : [],
+  } as unknown as TestResult;
+}
+
+type SlackCall = { method: string; body: any };
+
+/**
+ * Stubs the Slack Web API, answering with `ok: true` — except for the first
+ * call of every method listed in `failOnce`.
+ */
+function stubSlack(failOnce: string[] = []) {
+  const fail = new Set(failOnce);
+  const calls: SlackCall[] = [];
+  const original = global.fetch;
+  global.fetch = (async (url: string | URL, init?: RequestInit) => {
+    const method = url.toString().replace("https://slack.com/api/", "");
+    calls.push({ method, body: JSON.parse(init?.body as string) });
+    const data = fail.delete(method)
+      ? { ok: false, error: "ratelimited" }
+      : { ok: true, ts: "1700000000.000100", channel: "C0LIVE" };
+    return { ok: true, json: async () => data } as Response;
+  }) as typeof fetch;
+  return {
+    calls,
+    restore: () => {
+      global.fetch = original;
+    },
+  };
+}
+
+function makeReporter(options: Partial<SlackReporterOptions> = {}) {
+  return new SlackReporter({
+    token: "xoxb-test",
+    channel: "#e2e",
+    blocks: [header("Final report")],
+    live: { updateIntervalMs: 10 },
+    ...options,
+  } as SlackReporterOptions);
+}
+
+const config = { rootDir: "/repo" } as FullConfig;
+
+test("progressBar renders the finished share", () => {
+  expect(progressBar(5, 20, 10)).toBe("███░░░░░░░ 25% (5/20)");
+  expect(progressBar(0, 0, 4)).toBe("████ 100% (0/0)");
+});
+
+test.describe("live mode", () => {
+  test("posts on begin, edits while running and replaces the message on end", async () => {
+    const slack = stubSlack();
+    try {
+      const reporter = makeReporter();
+      reporter.onBegin(config, makeSuite(2));
+      reporter.onTestEnd(makeTest("a"), makeResult("passed"));
+      await expect
+        .poll(() => slack.calls.filter((c) => c.method === "chat.update").length)
+        .toBe(1);
+      reporter.onTestEnd(makeTest("b"), makeResult("passed"));
+      await reporter.onEnd(passedResult);
+
+      const [first, ...rest] = slack.calls;
+      expect(first.method).toBe("chat.postMessage");
+      expect(first.body.channel).toBe("#e2e");
+      expect(first.body.blocks[0].text.text).toContain("running");
+
+      const progress = rest[0];
+      expect(progress.method).toBe("chat.update");
+      expect(progress.body).toMatchObject({ channel: "C0LIVE", ts: "1700000000.000100" });
+      expect(JSON.stringify(progress.body.blocks)).toContain("50% (1/2)");
+
+      const last = rest[rest.length - 1];
+      expect(last.method).toBe("chat.update");
+      expect(last.body.blocks[0].text.text).toBe("Final report");
+      expect(slack.calls.filter((c) => c.method === "chat.postMessage")).toHaveLength(1);
+    } finally {
+      slack.restore();
+    }
+  });
+
+  test("threads each final failure with its error and attachment links", async () => {
+    const slack = stubSlack();
+    try {
+      const reporter = makeReporter({
+        live: {
+          updateIntervalMs: 10,
+          attachmentUrl: (attachment) =>
+            attachment.name === "trace" ? "https://ci.example.com/trace.zip" : undefined,
+        },
+      });
+      reporter.onBegin(config, makeSuite(2));
+      // first attempt will be retried — not a failure yet
+      reporter.onTestEnd(makeTest("retried", 1), makeResult("failed", 0));
+      reporter.onTestEnd(makeTest("retried", 1), makeResult("failed", 1));
+      reporter.onTestEnd(makeTest("flaky", 1), makeResult("failed", 0));
+      reporter.onTestEnd(makeTest("flaky", 1), makeResult("passed", 1));
+      await expect
+        .poll(() => slack.calls.filter((c) => c.method === "chat.update").length)
+        .toBe(1);
+      await reporter.onEnd({ ...passedResult, status: "failed" });
+
+      const replies = slack.calls.filter((c) => c.body.thread_ts);
+      expect(replies).toHaveLength(1);
+      expect(replies[0].body).toMatchObject({
+        channel: "C0LIVE",
+        thread_ts: "1700000000.000100",
+        text: ":x: chromium › Suite › retried",
+      });
+      const replyText = JSON.stringify(replies[0].body.blocks);
+      expect(replyText).toContain("after 1 retry");
+      expect(replyText).toContain("Error: boom");
+      expect(replyText).not.toContain("\\u001b");
+      expect(replyText).toContain("<https://ci.example.com/trace.zip|trace>");
+      expect(replyText).toContain("screenshot (image/png)");
+
+      const updates = slack.calls.filter((c) => c.method === "chat.update");
+      const progress = JSON.stringify(updates[0].body.blocks);
+      expect(progress).toContain("Failing so far (1)");
+      expect(progress).toContain("1 flaky");
+    } finally {
+      slack.restore();
+    }
+  });
+
+  test("finalizes the message even when the run passed with send on-failure", async () => {
+    const slack = stubSlack();
+    try {
+      let ts: string | undefined;
+      const reporter = makeReporter({ onSend: (response) => { ts = response.ts; } });
+      reporter.onBegin(config, makeSuite(0));
+      await reporter.onEnd(passedResult);
+
+      expect(slack.calls.map((c) => c.method)).toEqual(["chat.postMessage", "chat.update"]);
+      expect(ts).toBe("1700000000.000100");
+    } finally {
+      slack.restore();
+    }
+  });
+
+  test("falls back to a new message when the initial post failed", async () => {
+    const slack = stubSlack(["chat.postMessage"]);
+    try {
+      const reporter = makeReporter();
+      reporter.onBegin(config, makeSuite(1));
+      reporter.onTestEnd(makeTest("a"), makeResult("passed"));
+      await expect(reporter.onEnd(passedResult)).rejects.toThrow("ratelimited");
+
+      // the final report was still posted, as a new message
+      const last = slack.calls[slack.calls.length - 1];
+      expect(last.method).toBe("chat.postMessage");
+      expect(last.body.blocks[0].text.text).toBe("Final report");
+      expect(slack.calls.some((c) => c.method === "chat.update")).toBe(false);
+    } finally {
+      slack.restore();
+    }
+  });
+
+  test("send: never disables live mode", async () => {
+    const slack = stubSlack();
+    try {
+      const reporter = makeReporter({ send: "never" });
+      reporter.onBegin(config, makeSuite(1));
+      await reporter.onEnd(passedResult);
+      expect(slack.calls).toHaveLength(0);
+    } finally {
+      slack.restore();
+    }
+  });
+});
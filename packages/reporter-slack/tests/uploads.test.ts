@@ -0,0 +1,240 @@
+import { test, expect } from "@playwright/test";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { writeFile } from "node:fs/promises";
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from "@playwright/test/reporter";
+import { buildRunModel } from "@playwright-labs/reporter-core";
+import { header } from "@playwright-labs/slack-buildkit";
+import SlackReporter from "../src/reporter";
+import { selectAttachments } from "../src/uploads";
+import type { SlackSendResponse } from "../src/types";
+
+const failedResult: FullResult = {
+  status: "failed",
+  duration: 5000,
+  startTime: new Date(),
+};
+
+function makeTest(title: string): TestCase {
+  return {
+    id: title,
+    title,
+    titlePath: () => ["", "Suite", title],
+    expectedStatus: "passed",
+    retries: 0,
+  } as unknown as TestCase;
+}
+
+function makeResult(
+  status: TestResult["status"],
+  attachments: TestResult["attachments"],
+): TestResult {
+  return {
+    status,
+    retry: 0,
+    duration: 100,
+    errors: status === "failed" ? [{ message: "boom" }] : [],
+    attachments,
+  } as unknown as TestResult;
+}
+
+type Received = {
+  path: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+};
+
+/**
+ * Minimal stand-in for the Slack Web API and its upload host: answers
+ * `files.getUploadURLExternal` with an upload URL on the same server and
+ * records every request in order.
+ */
+async function startSlackMock() {
+  const received: Received[] = [];
+  let nextFile = 1;
+  let url = "";
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      const request = { path: req.url!, headers: req.headers, body: Buffer.concat(chunks) };
+      received.push(request);
+      const json = (data: object) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(data));
+      };
+      switch (req.url) {
+        case "/api/files.getUploadURLExternal": {
+          const id = `F${nextFile++}`;
+          return json({ ok: true, file_id: id, upload_url: `${url}/upload/${id}` });
+        }
+        case "/api/files.completeUploadExternal": {
+          const { files } = JSON.parse(request.body.toString());
+          return json({ ok: true, files });
+        }
+        case "/api/chat.postMessage":
+          return json({ ok: true, ts: "1700000000.000200", channel: "C0RUN" });
+        case "/api/chat.update":
+          return json({ ok: true });
+        default:
+          if (req.url!.startsWith("/upload/")) return res.writeHead(200).end("OK");
+          return json({ ok: false, error: "unknown_method" });
+      }
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return {
+    apiUrl: `${url}/api`,
+    received,
+    paths: () => received.map((r) => r.path),
+    json: (path: string) =>
+      received.filter((r) => r.path === path).map((r) => JSON.parse(r.body.toString())),
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+test.describe("selectAttachments", () => {
+  test("filters by name and content type and applies the caps", async ({}, testInfo) => {
+    const video = testInfo.outputPath("video.webm");
+    await writeFile(video, Buffer.alloc(2048));
+    const run = buildRunModel([
+      [
+        makeTest("a"),
+        makeResult("failed", [
+          { name: "screenshot", contentType: "image/png", body: Buffer.alloc(100) },
+          { name: "trace", contentType: "application/zip", body: Buffer.alloc(300) },
+          { name: "video", contentType: "video/webm", path: video },
+          { name: "stdout", contentType: "text/plain", body: Buffer.from("log") },
+          { name: "trace", contentType: "application/zip", path: "/missing/trace.zip" },
+        ]),
+      ],
+      [
+        makeTest("b"),
+        makeResult("failed", [
+          { name: "screenshot", contentType: "image/png", body: Buffer.alloc(100) },
+        ]),
+      ],
+    ]);
+
+    const imagesOnly = await selectAttachments(run.failed, { contentTypes: ["image/*"] });
+    expect(imagesOnly.files.map((f) => `${f.test.id}:${f.filename}`)).toEqual([
+      "a:screenshot.png",
+      "b:screenshot.png",
+    ]);
+
+    const capped = await selectAttachments(run.failed, {
+      maxFileSize: 1024,
+      maxTotalSize: 450,
+    });
+    expect(capped.files.map((f) => f.filename)).toEqual(["screenshot.png", "trace.zip"]);
+    expect(capped.skipped.map((f) => f.filename)).toEqual(["video.webm", "screenshot.png"]);
+  });
+});
+
+test.describe("uploads", () => {
+  test("runs the external upload flow and references the files from the message", async ({}, testInfo) => {
+    const tracePath = testInfo.outputPath("trace.zip");
+    await writeFile(tracePath, "PK-trace-bytes");
+    const slack = await startSlackMock();
+    try {
+      let response: SlackSendResponse | undefined;
+      const reporter = new SlackReporter({
+        token: "xoxb-upload",
+        channel: "#e2e",
+        apiUrl: slack.apiUrl,
+        blocks: [header("Run failed")],
+        uploads: true,
+        onSend: (r) => {
+          response = r;
+        },
+      });
+      reporter.onBegin({ rootDir: "/" } as FullConfig, { allTests: () => [] } as unknown as Suite);
+      reporter.onTestEnd(
+        makeTest("login"),
+        makeResult("failed", [
+          { name: "screenshot", contentType: "image/png", body: Buffer.from("PNG-bytes") },
+          { name: "trace", contentType: "application/zip", path: tracePath },
+        ]),
+      );
+      reporter.onTestEnd(
+        makeTest("passes"),
+        makeResult("passed", [
+          { name: "screenshot", contentType: "image/png", body: Buffer.from("ignored") },
+        ]),
+      );
+      await reporter.onEnd(failedResult);
+
+      expect(slack.paths()).toEqual([
+        "/api/chat.postMessage",
+        "/api/files.getUploadURLExternal",
+        "/upload/F1",
+        "/api/files.getUploadURLExternal",
+        "/upload/F2",
+        "/api/files.completeUploadExternal",
+        "/api/chat.update",
+      ]);
+
+      const reserve = slack.received[1];
+      expect(reserve.headers.authorization).toBe("Bearer xoxb-upload");
+      expect(reserve.headers["content-type"]).toBe("application/x-www-form-urlencoded");
+      expect(Object.fromEntries(new URLSearchParams(reserve.body.toString()))).toEqual({
+        filename: "screenshot.png",
+        length: "9",
+      });
+      expect(slack.received[2].body.toString()).toBe("PNG-bytes");
+      expect(slack.received[4].body.toString()).toBe("PK-trace-bytes");
+
+      const [complete] = slack.json("/api/files.completeUploadExternal");
+      expect(complete).toEqual({
+        files: [
+          { id: "F1", title: "Suite › login — screenshot" },
+          { id: "F2", title: "Suite › login — trace" },
+        ],
+        channel_id: "C0RUN",
+        thread_ts: "1700000000.000200",
+      });
+
+      const [update] = slack.json("/api/chat.update");
+      expect(update.ts).toBe("1700000000.000200");
+      expect(update.blocks[0].text.text).toBe("Run failed");
+      expect(update.blocks).toContainEqual(
+        expect.objectContaining({ type: "image", slack_file: { id: "F1" } }),
+      );
+      expect(JSON.stringify(update.blocks)).toContain("`trace.zip`");
+
+      expect(response?.files?.map((f) => f.id)).toEqual(["F1", "F2"]);
+    } finally {
+      await slack.close();
+    }
+  });
+
+  test("does nothing when no failed test has matching attachments", async () => {
+    const slack = await startSlackMock();
+    try {
+      const reporter = new SlackReporter({
+        token: "xoxb-upload",
+        channel: "#e2e",
+        apiUrl: slack.apiUrl,
+        blocks: [header("Run failed")],
+        uploads: { names: ["video"] },
+      });
+      reporter.onTestEnd(
+        makeTest("a"),
+        makeResult("failed", [
+          { name: "screenshot", contentType: "image/png", body: Buffer.from("x") },
+        ]),
+      );
+      await reporter.onEnd(failedResult);
+      expect(slack.paths()).toEqual(["/api/chat.postMessage"]);
+    } finally {
+      await slack.close();
+    }
+  });
+});
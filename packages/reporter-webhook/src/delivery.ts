@@ -0,0 +1,331 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type {
+  DeadLetterEntry,
+  WebhookRetryOptions,
+  WebhookSigningOptions,
+} from "./types.js";
+
+const DEFAULT_SIGNATURE_HEADER = "X-Webhook-Signature";
+const DEFAULT_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+/**
+ * HMAC-SHA256 signature of a webhook body: hex digest of
+ * `<timestamp>.<body>` keyed with `secret`, prefixed with `sha256=`.
+ */
+export function signWebhookBody(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${digest}`;
+}
+
+export type VerifyWebhookSignatureOptions = {
+  secret: string;
+  /** Raw request body, exactly as received. */
+  body: string;
+  /** Value of the signature header. */
+  signature: string | null | undefined;
+  /** Value of the timestamp header (unix seconds). */
+  timestamp: string | number | null | undefined;
+  /**
+   * Reject signatures older (or newer) than this many seconds — protects
+   * against replayed requests. `0` disables the check.
+   * @default 300
+   */
+  toleranceSeconds?: number;
+  /** Current time in ms, for tests. @default Date.now() */
+  now?: number;
+};
+
+/**
+ * Receiver-side counterpart of {@link signWebhookBody}: checks the
+ * signature in constant time and that the timestamp is within tolerance.
+ *
+ * @example
+ * ```ts
+ * const ok = verifyWebhookSignature({
+ *   secret: process.env.WEBHOOK_SECRET!,
+ *   body: rawBody,
+ *   signature: req.headers["x-webhook-signature"],
+ *   timestamp: req.headers["x-webhook-timestamp"],
+ * });
+ * ```
+ */
+export function verifyWebhookSignature(
+  options: VerifyWebhookSignatureOptions,
+): boolean {
+  const timestamp = Number(options.timestamp);
+  if (!options.signature || !Number.isInteger(timestamp)) return false;
+
+  const tolerance = options.toleranceSeconds ?? 300;
+  const now = Math.floor((options.now ?? Date.now()) / 1000);
+  if (tolerance > 0 && Math.abs(now - timestamp) > tolerance) return false;
+
+  const expected = Buffer.from(
+    signWebhookBody(options.secret, timestamp, options.body),
+  );
+  const actual = Buffer.from(options.signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/** Headers carrying the timestamp and signature for `body`. */
+export function signatureHeaders(
+  signing: WebhookSigningOptions,
+  body: string,
+  now = Date.now(),
+): Record<string, string> {
+  const timestamp = Math.floor(now / 1000);
+  return {
+    [signing.timestampHeader ?? DEFAULT_TIMESTAMP_HEADER]: String(timestamp),
+    [signing.header ?? DEFAULT_SIGNATURE_HEADER]: signWebhookBody(
+      signing.secret,
+      timestamp,
+      body,
+    ),
+  };
+}
+
+function resolveRetry(
+  retry: number | WebhookRetryOptions | undefined,
+): Required<WebhookRetryOptions> {
+  const options = typeof retry === "number" ? { retries: retry } : retry ?? {};
+  return {
+    retries: options.retries ?? 0,
+    minDelayMs: options.minDelayMs ?? 500,
+    maxDelayMs: options.maxDelayMs ?? 30_000,
+    factor: options.factor ?? 2,
+    jitter: options.jitter ?? true,
+  };
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential backoff capped
+ * at `maxDelayMs`, with "full jitter" (a random delay between 0 and the
+ * backoff) unless `jitter` is `false`.
+ */
+export function getRetryDelay(
+  attempt: number,
+  retry: number | WebhookRetryOptions | undefined,
+  random: () => number = Math.random,
+): number {
+  const options = resolveRetry(retry);
+  const backoff = Math.min(
+    options.maxDelayMs,
+    options.minDelayMs * options.factor ** (attempt - 1),
+  );
+  return options.jitter ? Math.round(random() * backoff) : backoff;
+}
+
+/** Network errors, 408, 429 and 5xx are worth another attempt; other 4xx are not. */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Thrown when a webhook request fails after every attempt. */
+export class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    readonly attempts: number,
+    readonly status?: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = "WebhookDeliveryError";
+  }
+}
+
+export type DeliveryRequest = {
+  url: string | URL;
+  /** Event name, used in error messages. */
+  event: string;
+  /** Serialized request body. */
+  body: string;
+  headers: Record<string, string>;
+  signing?: WebhookSigningOptions;
+  retry?: number | WebhookRetryOptions;
+};
+
+export type DeliveryHooks = {
+  onRequest?: (request: {
+    url: string | URL;
+    method: string;
+    headers: Record<string, string>;
+    attempt: number;
+  }) => void;
+  onResponse?: (response: Response, attempt: number) => void;
+};
+
+/**
+ * POSTs `request.body`, signing every attempt with a fresh timestamp and
+ * retrying network errors, 408, 429 and 5xx responses with backoff.
+ * Resolves with the number of attempts made; rejects with a
+ * {@link WebhookDeliveryError} once all attempts are used up.
+ */
+export async function deliver(
+  request: DeliveryRequest,
+  hooks: DeliveryHooks = {},
+): Promise<number> {
+  const { retries } = resolveRetry(request.retry);
+  for (let attempt = 1; ; attempt++) {
+    const headers = {
+      ...request.headers,
+      ...(request.signing ? signatureHeaders(request.signing, request.body) : {}),
+    };
+    hooks.onRequest?.({ url: request.url, method: "POST", headers, attempt });
+
+    let response: Response;
+    try {
+      response = await fetch(request.url, {
+        method: "POST",
+        headers,
+        body: request.body,
+      });
+    } catch (error) {
+      if (attempt <= retries) {
+        await sleep(getRetryDelay(attempt, request.retry));
+        continue;
+      }
+      throw new WebhookDeliveryError(
+        `Webhook request for event "${request.event}" failed: ${error instanceof Error ? error.message : String(error)}`,
+        attempt,
+        undefined,
+        { cause: error },
+      );
+    }
+
+    hooks.onResponse?.(response, attempt);
+    if (response.ok) return attempt;
+
+    const text = await response.text().catch((reason) => reason);
+    if (attempt <= retries && isRetryableStatus(response.status)) {
+      await sleep(getRetryDelay(attempt, request.retry));
+      continue;
+    }
+    throw new WebhookDeliveryError(
+      `Webhook request for event "${request.event}" failed (${response.status}): ${JSON.stringify(text)}`,
+      attempt,
+      response.status,
+    );
+  }
+}
+
+/** Header names that carry credentials: `Authorization`, `Cookie`, `X-Api-Key`, `X-Auth-Token` … */
+const SENSITIVE_HEADER = /auth|cookie|token|secret|passw|api[-_]?key|signature/i;
+
+/** `headers` without the ones that carry credentials, which never go to disk. */
+export function withoutSensitiveHeaders(
+  headers: Record<string, string>,
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => !SENSITIVE_HEADER.test(name)),
+  );
+}
+
+/**
+ * Appends one undeliverable event to a JSONL dead-letter file. Headers that
+ * carry credentials are dropped — pass them again to {@link replayDeadLetters}.
+ */
+export async function appendDeadLetter(
+  file: string,
+  entry: DeadLetterEntry,
+): Promise<void> {
+  await mkdir(dirname(file), { recursive: true });
+  const safe = { ...entry, headers: withoutSensitiveHeaders(entry.headers) };
+  await appendFile(file, `${JSON.stringify(safe)}\n`);
+}
+
+/** Reads every entry of a JSONL dead-letter file; a missing file has none. */
+export async function readDeadLetters(file: string): Promise<DeadLetterEntry[]> {
+  let content: string;
+  try {
+    content = await readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+  return content
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as DeadLetterEntry);
+}
+
+export type ReplayDeadLettersOptions = {
+  /** Send to this URL instead of the one recorded in each entry. */
+  url?: string | URL;
+  /**
+   * Extra headers merged over the recorded ones — credentials such as
+   * `Authorization` are not recorded, so pass them here.
+   */
+  headers?: Record<string, string>;
+  /** Re-sign every request — signatures are never stored in the file. */
+  signing?: WebhookSigningOptions;
+  /** Retry policy for the replay. @default no retries */
+  retry?: number | WebhookRetryOptions;
+};
+
+export type ReplayDeadLettersResult = {
+  delivered: DeadLetterEntry[];
+  failed: DeadLetterEntry[];
+};
+
+/**
+ * Re-POSTs every event of a dead-letter file, in order. Delivered entries
+ * are removed from the file; entries that fail again stay in it with the
+ * new error, so the replay can simply be run again later.
+ *
+ * @example
+ * ```ts
+ * import { replayDeadLetters } from "@playwright-labs/reporter-webhook";
+ *
+ * const { delivered, failed } = await replayDeadLetters("webhook-dead-letter.jsonl", {
+ *   headers: { Authorization: `Bearer ${process.env.WEBHOOK_TOKEN}` },
+ *   signing: { secret: process.env.WEBHOOK_SECRET! },
+ * });
+ * ```
+ */
+export async function replayDeadLetters(
+  file: string,
+  options: ReplayDeadLettersOptions = {},
+): Promise<ReplayDeadLettersResult> {
+  const entries = await readDeadLetters(file);
+  const delivered: DeadLetterEntry[] = [];
+  const failed: DeadLetterEntry[] = [];
+
+  for (const entry of entries) {
+    try {
+      await deliver({
+        url: options.url ?? entry.url,
+        event: entry.event,
+        body: entry.body,
+        headers: { ...entry.headers, ...options.headers },
+        signing: options.signing,
+        retry: options.retry,
+      });
+      delivered.push(entry);
+    } catch (error) {
+      failed.push({
+        ...entry,
+        error: error instanceof Error ? error.message : String(error),
+        attempts:
+          entry.attempts +
+          (error instanceof WebhookDeliveryError ? error.attempts : 1),
+        failedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  await writeFile(
+    file,
+    failed.map((entry) => `${JSON.stringify(entry)}\n`).join(""),
+  );
+  return { delivered, failed };
+}
@@ -0,0 +1,291 @@
+import { randomUUID } from "node:crypto";
+import type { RunModel, TestRun } from "@playwright-labs/reporter-core";
+import type { FullConfig } from "@playwright/test/reporter";
+import type {
+  CloudEventsOptions,
+  RunSummary,
+  WebhookEvent,
+} from "./types.js";
+
+const DEFAULT_CLOUDEVENTS_SOURCE = "/playwright-labs/reporter-webhook";
+const DEFAULT_CLOUDEVENTS_TYPE_PREFIX = "dev.playwright";
+
+/** A serialized request body together with the headers describing it. */
+export type WebhookPayload = {
+  body: string;
+  headers: Record<string, string>;
+};
+
+/** A CloudEvents 1.0 event in structured (JSON) form. */
+export type CloudEvent = {
+  specversion: "1.0";
+  id: string;
+  source: string;
+  type: string;
+  time: string;
+  /** Test id for `test.begin` / `test.end`. */
+  subject?: string;
+  datacontenttype: "application/json";
+  data: unknown;
+};
+
+function cloudEventSubject(event: WebhookEvent): string | undefined {
+  return event.event === "test.begin" || event.event === "test.end"
+    ? event.data.test.id
+    : undefined;
+}
+
+/**
+ * Wraps an event in a CloudEvents 1.0 envelope. `type` is the event name
+ * behind `typePrefix` (`dev.playwright.test.end`), `data` is the event's
+ * `data` unless a custom one is given.
+ */
+export function toCloudEvent(
+  event: WebhookEvent,
+  options: CloudEventsOptions = {},
+  data: unknown = event.data,
+): CloudEvent {
+  const subject = cloudEventSubject(event);
+  return {
+    specversion: "1.0",
+    id: randomUUID(),
+    source: options.source ?? DEFAULT_CLOUDEVENTS_SOURCE,
+    type: `${options.typePrefix ?? DEFAULT_CLOUDEVENTS_TYPE_PREFIX}.${event.event}`,
+    time: new Date().toISOString(),
+    ...(subject ? { subject } : {}),
+    datacontenttype: "application/json",
+    data,
+  };
+}
+
+/**
+ * Serializes a CloudEvent for HTTP: structured mode sends the whole
+ * envelope as `application/cloudevents+json`; binary mode sends only
+ * `data` and moves the attributes into `ce-*` headers.
+ */
+export function encodeCloudEvent(
+  cloudEvent: CloudEvent,
+  mode: CloudEventsOptions["mode"] = "structured",
+): WebhookPayload {
+  if (mode === "structured") {
+    return {
+      body: JSON.stringify(cloudEvent),
+      headers: { "Content-Type": "application/cloudevents+json" },
+    };
+  }
+  const { data, datacontenttype, ...attributes } = cloudEvent;
+  const headers: Record<string, string> = { "Content-Type": datacontenttype };
+  for (const [name, value] of Object.entries(attributes)) {
+    headers[`ce-${name}`] = value;
+  }
+  return { body: JSON.stringify(data), headers };
+}
+
+/** CTRF test status — Playwright's are folded into these five. */
+export type CtrfStatus = "passed" | "failed" | "skipped" | "pending" | "other";
+
+export type CtrfTest = {
+  name: string;
+  status: CtrfStatus;
+  /** Duration of all attempts (ms). */
+  duration: number;
+  start?: number;
+  stop?: number;
+  /** Playwright status of the last attempt. */
+  rawStatus: string;
+  message?: string;
+  trace?: string;
+  filePath: string;
+  line?: number;
+  suite: string;
+  tags: string[];
+  retries: number;
+  flaky: boolean;
+  /** Playwright project name. */
+  browser?: string;
+};
+
+/**
+ * A CTRF (Common Test Report Format) document.
+ * @see https://ctrf.io
+ */
+export type CtrfReport = {
+  reportFormat: "CTRF";
+  specVersion: "0.0.0";
+  results: {
+    tool: { name: "playwright"; version?: string };
+    summary: {
+      tests: number;
+      passed: number;
+      failed: number;
+      pending: number;
+      skipped: number;
+      other: number;
+      start: number;
+      stop: number;
+    };
+    tests: CtrfTest[];
+  };
+};
+
+function ctrfStatus(test: TestRun): CtrfStatus {
+  switch (test.outcome) {
+    case "expected":
+    case "flaky":
+      return "passed";
+    case "unexpected":
+      return "failed";
+    case "skipped":
+      return "skipped";
+  }
+}
+
+function ctrfTest(test: TestRun): CtrfTest {
+  const start = test.attempts[0]?.startTime;
+  const error = test.result.errors[0];
+  return {
+    name: test.test.title,
+    status: ctrfStatus(test),
+    duration: test.duration,
+    ...(start
+      ? {
+          start: new Date(start).getTime(),
+          stop: new Date(start).getTime() + test.duration,
+        }
+      : {}),
+    rawStatus: test.status,
+    ...(test.outcome === "unexpected" && error
+      ? { message: error.message, trace: error.stack }
+      : {}),
+    filePath: test.file,
+    line: test.test.location?.line,
+    suite: test.title.split(" › ").slice(0, -1).join(" › "),
+    tags: test.tags,
+    retries: test.attempts.length - 1,
+    flaky: test.flaky,
+    ...(test.project ? { browser: test.project } : {}),
+  };
+}
+
+/**
+ * Builds a CTRF document from the run model — one entry per test with its
+ * final outcome; flaky tests are `passed` with `flaky: true`.
+ */
+export function toCtrfReport(
+  run: RunModel,
+  result: RunSummary,
+  config?: FullConfig,
+): CtrfReport {
+  const tests = run.tests.map(ctrfTest);
+  const count = (status: CtrfStatus) =>
+    tests.filter((test) => test.status === status).length;
+  const start = new Date(result.startTime).getTime();
+  return {
+    reportFormat: "CTRF",
+    specVersion: "0.0.0",
+    results: {
+      tool: {
+        name: "playwright",
+        ...(config?.version ? { version: config.version } : {}),
+      },
+      summary: {
+        tests: tests.length,
+        passed: count("passed"),
+        failed: count("failed"),
+        pending: count("pending"),
+        skipped: count("skipped"),
+        other: count("other"),
+        start,
+        stop: start + result.duration,
+      },
+      tests,
+    },
+  };
+}
+
+function escapeXml(value: string): string {
+  return (
+    value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;")
+      // XML 1.0 forbids most control characters, ANSI colour codes included
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+  );
+}
+
+function attributes(values: Record<string, string | number>): string {
+  return Object.entries(values)
+    .map(([name, value]) => ` ${name}="${escapeXml(String(value))}"`)
+    .join("");
+}
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function junitTestCase(test: TestRun): string {
+  const head = `    <testcase${attributes({
+    name: test.title,
+    classname: test.file,
+    time: seconds(test.duration),
+  })}`;
+  if (test.outcome === "skipped") return `${head}>\n      <skipped/>\n    </testcase>`;
+  if (test.outcome !== "unexpected") return `${head}/>`;
+
+  const error = test.result.errors[0];
+  const message = error?.message ?? `Test ${test.status}`;
+  const details = error?.stack ?? error?.message ?? "";
+  return [
+    `${head}>`,
+    `      <failure${attributes({ message, type: test.status })}>${escapeXml(details)}</failure>`,
+    `    </testcase>`,
+  ].join("\n");
+}
+
+/**
+ * Builds a JUnit XML report from the run model — one `<testsuite>` per spec
+ * file, one `<testcase>` per test with its final outcome (retries are not
+ * reported separately).
+ */
+export function toJUnitXml(run: RunModel, result: RunSummary): string {
+  const files = new Map<string, TestRun[]>();
+  for (const test of run.tests) {
+    const tests = files.get(test.file) ?? [];
+    tests.push(test);
+    files.set(test.file, tests);
+  }
+
+  const timestamp = new Date(result.startTime).toISOString();
+  const suites = [...files].map(([file, tests]) => {
+    const rollup = run.byFile[file];
+    return [
+      `  <testsuite${attributes({
+        name: file,
+        timestamp,
+        tests: tests.length,
+        failures: rollup.failed,
+        skipped: rollup.skipped,
+        errors: 0,
+        time: seconds(rollup.duration),
+      })}>`,
+      ...tests.map(junitTestCase),
+      `  </testsuite>`,
+    ].join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites${attributes({
+      name: "playwright",
+      tests: run.totals.total,
+      failures: run.totals.failed,
+      skipped: run.totals.skipped,
+      errors: 0,
+      time: seconds(result.duration),
+    })}>`,
+    ...suites,
+    `</testsuites>`,
+    "",
+  ].join("\n");
+}
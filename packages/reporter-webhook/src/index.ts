@@ -1,14 +1,45 @@
 export { default as Reporter, default } from "./reporter.js";
 
 export {
+  getRetryDelay,
+  readDeadLetters,
+  replayDeadLetters,
+  signWebhookBody,
+  verifyWebhookSignature,
+  WebhookDeliveryError,
+  type ReplayDeadLettersOptions,
+  type ReplayDeadLettersResult,
+  type VerifyWebhookSignatureOptions,
+} from "./delivery.js";
+
+export {
+  encodeCloudEvent,
+  toCloudEvent,
+  toCtrfReport,
+  toJUnitXml,
+  type CloudEvent,
+  type CtrfReport,
+  type CtrfStatus,
+  type CtrfTest,
+  type WebhookPayload,
+} from "./formats.js";
+
+export {
+  type CloudEventsOptions,
   type ConfigSummary,
+  type DeadLetterEntry,
   type ErrorSummary,
   type ResultSummary,
   type RunSummary,
   type SuiteSummary,
   type TestSummary,
+  type WebhookBatchOptions,
+  type WebhookDeliveryMode,
   type WebhookEvent,
   type WebhookEventName,
+  type WebhookFormat,
   type WebhookOptions,
   type WebhookOptions as ReporterOptions,
+  type WebhookRetryOptions,
+  type WebhookSigningOptions,
 } from "./types.js";
@@ -0,0 +1,63 @@
+/**
+ * A single long-lived `POST` whose body is written line by line as NDJSON
+ * (`Content-Type: application/x-ndjson`, chunked transfer encoding).
+ *
+ * Written lines are also kept in memory, so a stream that fails can still
+ * be dead-lettered as one regular request body.
+ */
+export class NdjsonStream {
+  readonly #lines: string[] = [];
+  readonly #encoder = new TextEncoder();
+  readonly #controller: ReadableStreamDefaultController<Uint8Array>;
+  readonly #response: Promise<Response>;
+  #closed = false;
+
+  constructor(url: string | URL, headers: Record<string, string>) {
+    let controller!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({
+      start(c) {
+        controller = c;
+      },
+    });
+    this.#controller = controller;
+    this.#response = fetch(url, {
+      method: "POST",
+      headers,
+      body,
+      // required by Node's fetch for streaming request bodies
+      duplex: "half",
+    } as RequestInit & { duplex: "half" });
+    // surfaced by close(); avoid an unhandled rejection until then
+    this.#response.catch(() => {});
+  }
+
+  /** Everything written so far, as one NDJSON document. */
+  get body(): string {
+    return this.#lines.map((line) => `${line}\n`).join("");
+  }
+
+  write(line: string): void {
+    if (this.#closed) {
+      throw new Error("Cannot write to a closed NDJSON stream");
+    }
+    this.#lines.push(line);
+    try {
+      this.#controller.enqueue(this.#encoder.encode(`${line}\n`));
+    } catch {
+      // the request already failed and cancelled the body — close() reports it
+    }
+  }
+
+  /** Ends the request body and resolves with the server's response. */
+  close(): Promise<Response> {
+    if (!this.#closed) {
+      this.#closed = true;
+      try {
+        this.#controller.close();
+      } catch {
+        // already cancelled by a failed request
+      }
+    }
+    return this.#response;
+  }
+}
@@ -8,10 +8,26 @@ import type {
   TestError,
   TestResult,
 } from "@playwright/test/reporter";
+import {
+  appendDeadLetter,
+  deliver,
+  WebhookDeliveryError,
+  withoutSensitiveHeaders,
+} from "./delivery.js";
+import {
+  encodeCloudEvent,
+  toCloudEvent,
+  toCtrfReport,
+  toJUnitXml,
+  type WebhookPayload,
+} from "./formats.js";
+import { NdjsonStream } from "./ndjson-stream.js";
 import type {
   ConfigSummary,
+  DeadLetterEntry,
   ErrorSummary,
   ResultSummary,
+  RunSummary,
   TestSummary,
   WebhookEvent,
   WebhookEventName,
@@ -83,15 +99,18 @@ type CustomEvents = {
       statusText: string;
     },
   ];
+  deadLetter: [entry: DeadLetterEntry];
 };
 
 /**
  * Playwright reporter that POSTs lifecycle events to a webhook as JSON
- * `{ event, data }` bodies.
+ * `{ event, data }` bodies — one request per event, batched into JSON
+ * arrays, or streamed as NDJSON over a single request (see `mode`).
  *
  * Playwright only awaits `onEnd`, so sends from the earlier hooks are
  * fire-and-forget: their promises are tracked and awaited in `onEnd`, where
- * any delivery failure is rethrown.
+ * any delivery failure is rethrown — unless it was written to the
+ * `deadLetter` file, which emits `deadLetter` instead.
  */
 export default class WebhookReporter
   extends BaseReporter<CustomEvents>
@@ -101,9 +120,39 @@ export default class WebhookReporter
   readonly #events: ReadonlySet<WebhookEventName>;
   readonly #pending: Promise<void>[] = [];
   readonly #failures: Error[] = [];
+  /** Serializes bodies in emit order for the batch and stream modes. */
+  #queue: Promise<void> = Promise.resolve();
+  #batch: string[] = [];
+  #batchTimer: ReturnType<typeof setInterval> | undefined;
+  #stream: NdjsonStream | undefined;
 
   constructor(options: WebhookOptions) {
-    super();
+    super({ history: options.history });
+    for (const option of ["signing", "retry"] as const) {
+      if (options.mode === "stream" && options[option] !== undefined) {
+        throw new TypeError(
+          `WebhookReporter: "${option}" is not supported with mode "stream" — the body is not known when the request starts`,
+        );
+      }
+    }
+    const format = options.format ?? "json";
+    const mode = options.mode ?? "event";
+    if (
+      mode !== "event" &&
+      (format === "ctrf" ||
+        format === "junit" ||
+        (format === "cloudevents" && options.cloudEvents?.mode === "binary"))
+    ) {
+      const name = format === "cloudevents" ? "binary cloudevents" : format;
+      throw new TypeError(
+        `WebhookReporter: format "${name}" only supports mode "event"`,
+      );
+    }
+    if ((format === "ctrf" || format === "junit") && options.body) {
+      throw new TypeError(
+        `WebhookReporter: "body" is not supported with format "${format}"`,
+      );
+    }
     this.#options = options;
     this.#events = new Set(options.events ?? ALL_EVENTS);
     // EventEmitter throws when "error" is emitted without a listener —
@@ -143,6 +192,8 @@ export default class WebhookReporter
   }
 
   async onEnd(result: FullResult): Promise<void> {
+    // not `super.onEnd`: #emit already emits "end" for listeners
+    const history = await this.updateHistory(result);
     this.#emit({
       event: "end",
       data: {
@@ -152,10 +203,12 @@ export default class WebhookReporter
           duration: result.duration,
         },
         counts: { ...this.counts },
+        totals: { ...this.run.totals },
+        ...(history ? { history } : {}),
       },
     });
 
-    await Promise.all(this.#pending);
+    await this.#drain();
 
     if (this.#failures.length === 1) throw this.#failures[0];
     if (this.#failures.length > 1) {
@@ -166,11 +219,59 @@ export default class WebhookReporter
     }
   }
 
+  async onExit(): Promise<void> {
+    // events emitted after onEnd (late errors) must not be lost
+    await this.#drain();
+    await super.onExit();
+  }
+
   #emit(event: WebhookEvent): void {
     if (!this.#events.has(event.event)) return;
     super.emit(event.event, ...(Object.values(event.data) as any));
+    // CTRF and JUnit are reports of the whole run — nothing to send before it ends
+    const format = this.#options.format ?? "json";
+    if ((format === "ctrf" || format === "junit") && event.event !== "end") {
+      return;
+    }
+    switch (this.#options.mode ?? "event") {
+      case "event":
+        this.#track(
+          this.#serialize(event).then((payload) =>
+            this.#post(event.event, payload),
+          ),
+        );
+        break;
+      case "batch":
+        this.#enqueue(event, ({ body }) => {
+          this.#batch.push(body);
+          this.#startBatchTimer();
+          if (this.#batch.length >= (this.#options.batch?.maxEvents ?? 100)) {
+            this.#flushBatch();
+          }
+        });
+        break;
+      case "stream":
+        this.#enqueue(event, ({ body }) => {
+          this.#stream ??= new NdjsonStream(this.#options.url, this.#streamHeaders);
+          this.#stream.write(body);
+        });
+        break;
+    }
+  }
+
+  /** Runs `handle` with the serialized event, strictly in emit order. */
+  #enqueue(
+    event: WebhookEvent,
+    handle: (payload: WebhookPayload) => void,
+  ): void {
+    const next = this.#queue.then(async () => handle(await this.#serialize(event)));
+    this.#queue = next.catch(() => {});
+    this.#track(next);
+  }
+
+  #track(promise: Promise<void>): void {
     this.#pending.push(
-      this.#post(event).catch((error: unknown) => {
+      promise.catch((error: unknown) => {
         this.#failures.push(
           error instanceof Error ? error : new Error(String(error)),
         );
@@ -178,6 +279,44 @@ export default class WebhookReporter
     );
   }
 
+  #startBatchTimer(): void {
+    const intervalMs = this.#options.batch?.intervalMs ?? 5000;
+    if (this.#batchTimer || intervalMs <= 0) return;
+    this.#batchTimer = setInterval(() => this.#flushBatch(), intervalMs);
+    // a pending flush must never keep the test runner alive
+    this.#batchTimer.unref?.();
+  }
+
+  #flushBatch(): void {
+    if (this.#batch.length === 0) return;
+    const body = `[${this.#batch.join(",")}]`;
+    this.#batch = [];
+    const contentType =
+      this.#options.format === "cloudevents"
+        ? "application/cloudevents-batch+json"
+        : "application/json";
+    this.#track(
+      this.#post("batch", { body, headers: { "Content-Type": contentType } }),
+    );
+  }
+
+  /** Flushes the batch, closes the stream and waits for every request. */
+  async #drain(): Promise<void> {
+    await this.#queue;
+    clearInterval(this.#batchTimer);
+    this.#batchTimer = undefined;
+    this.#flushBatch();
+    if (this.#stream) {
+      const stream = this.#stream;
+      this.#stream = undefined;
+      this.#track(this.#closeStream(stream));
+    }
+    // requests tracked while awaiting are picked up by the next round
+    while (this.#pending.length > 0) {
+      await Promise.all(this.#pending.splice(0));
+    }
+  }
+
   #prefixedName(name: WebhookEventName): string {
     const prefix = this.#options.eventPrefix;
     if (!prefix) return name;
@@ -185,26 +324,53 @@ export default class WebhookReporter
     return `${prefix.name}${prefix.separator ?? "."}${name}`;
   }
 
-  async #post(event: WebhookEvent): Promise<void> {
-    const body = this.#options.body
-      ? await this.#options.body(event)
-      : { ...event, event: this.#prefixedName(event.event) };
+  async #serialize(event: WebhookEvent): Promise<WebhookPayload> {
+    switch (this.#options.format ?? "json") {
+      case "json":
+        return {
+          body: JSON.stringify(
+            this.#options.body
+              ? await this.#options.body(event)
+              : { ...event, event: this.#prefixedName(event.event) },
+          ),
+          headers: { "Content-Type": "application/json" },
+        };
+      case "cloudevents": {
+        const cloudEvents = this.#options.cloudEvents;
+        const data = this.#options.body
+          ? await this.#options.body(event)
+          : event.data;
+        return encodeCloudEvent(
+          toCloudEvent(event, cloudEvents, data),
+          // batches and streams carry structured events
+          this.#options.mode === "batch" || this.#options.mode === "stream"
+            ? "structured"
+            : cloudEvents?.mode,
+        );
+      }
+      case "ctrf":
+        return {
+          body: JSON.stringify(
+            toCtrfReport(this.run, this.#endResult(event), this.config),
+          ),
+          headers: { "Content-Type": "application/json" },
+        };
+      case "junit":
+        return {
+          body: toJUnitXml(this.run, this.#endResult(event)),
+          headers: { "Content-Type": "application/xml" },
+        };
+    }
+  }
 
-    const headers = {
-      "Content-Type": "application/json",
-      ...this.#options.headers,
-    };
-    this.emit("request", {
-      url: this.#options.url,
-      method: "POST",
-      headers: headers,
-    });
-    const response = await fetch(this.#options.url, {
-      method: "POST",
-      headers,
-      body: JSON.stringify(body),
-    });
+  #endResult(event: WebhookEvent): RunSummary {
+    if (event.event !== "end") {
+      throw new Error(`Cannot build a run report from event "${event.event}"`);
+    }
+    return event.data.result;
+  }
 
+  #emitResponse(response: Response): void {
     this.emit("response", {
       ok: response.ok,
       headers: response.headers,
@@ -212,12 +378,83 @@ export default class WebhookReporter
       status: response.status,
       statusText: response.statusText,
     });
+  }
+
+  async #post(
+    event: DeadLetterEntry["event"],
+    { body, headers: payloadHeaders }: WebhookPayload,
+  ): Promise<void> {
+    const headers = { ...payloadHeaders, ...this.#options.headers };
 
-    if (!response.ok) {
+    try {
+      await deliver(
+        {
+          url: this.#options.url,
+          event,
+          body,
+          headers,
+          signing: this.#options.signing,
+          retry: this.#options.retry,
+        },
+        {
+          onRequest: ({ url, method, headers }) =>
+            this.emit("request", { url, method, headers }),
+          onResponse: (response) => this.#emitResponse(response),
+        },
+      );
+    } catch (error) {
+      await this.#deadLetter(event, body, headers, error);
+    }
+  }
+
+  /** Like in {@link #post}, the configured headers win over the defaults. */
+  get #streamHeaders(): Record<string, string> {
+    return { "Content-Type": "application/x-ndjson", ...this.#options.headers };
+  }
+
+  async #closeStream(stream: NdjsonStream): Promise<void> {
+    const headers = this.#streamHeaders;
+    this.emit("request", { url: this.#options.url, method: "POST", headers });
+    let error: unknown;
+    try {
+      const response = await stream.close();
+      this.#emitResponse(response);
+      if (response.ok) return;
       const text = await response.text().catch((reason) => reason);
-      throw new Error(
-        `Webhook request for event "${event.event}" failed (${response.status}): ${JSON.stringify(text)}`,
+      error = new WebhookDeliveryError(
+        `Webhook stream request failed (${response.status}): ${JSON.stringify(text)}`,
+        1,
+        response.status,
+      );
+    } catch (cause) {
+      error = new WebhookDeliveryError(
+        `Webhook stream request failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+        1,
+        undefined,
+        { cause },
       );
     }
+    await this.#deadLetter("stream", stream.body, headers, error);
+  }
+
+  /** Writes to the dead-letter file when configured, rethrows otherwise. */
+  async #deadLetter(
+    event: DeadLetterEntry["event"],
+    body: string,
+    headers: Record<string, string>,
+    error: unknown,
+  ): Promise<void> {
+    if (!this.#options.deadLetter) throw error;
+    const entry: DeadLetterEntry = {
+      event,
+      url: this.#options.url.toString(),
+      body,
+      headers: withoutSensitiveHeaders(headers),
+      error: error instanceof Error ? error.message : String(error),
+      attempts: error instanceof WebhookDeliveryError ? error.attempts : 1,
+      failedAt: new Date().toISOString(),
+    };
+    await appendDeadLetter(this.#options.deadLetter, entry);
+    this.emit("deadLetter", entry);
   }
 }
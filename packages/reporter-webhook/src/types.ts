@@ -1,4 +1,9 @@
-import type { StatusCounts } from "@playwright-labs/reporter-core";
+import type {
+  HistoryOptions,
+  HistoryReport,
+  RunRollup,
+  StatusCounts,
+} from "@playwright-labs/reporter-core";
 import type {
   FullResult,
   Location,
@@ -67,16 +72,132 @@ export type ErrorSummary = {
 };
 
 /**
+ * `end` carries both `counts` (per attempt, retries included) and `totals`
+ * (per test, by final outcome after retries — see `RunModel` in
+ * reporter-core).
+ *
  * A single webhook delivery: `{ event, data }` — the JSON body POSTed to the
  * webhook URL (unless overridden via {@link WebhookOptions.body}).
  */
 export type WebhookEvent =
   | { event: "begin"; data: { config: ConfigSummary; suite: SuiteSummary } }
-  | { event: "end"; data: { result: RunSummary; counts: StatusCounts } }
+  | {
+      event: "end";
+      data: {
+        result: RunSummary;
+        counts: StatusCounts;
+        totals: RunRollup;
+        /** Only when the `history` option is set. */
+        history?: HistoryReport;
+      };
+    }
   | { event: "test.begin"; data: { test: TestSummary; result: ResultSummary } }
   | { event: "test.end"; data: { test: TestSummary; result: ResultSummary } }
   | { event: "error"; data: { error: ErrorSummary } };
 
+/**
+ * HMAC-SHA256 request signing. Every request carries a unix-seconds
+ * timestamp header and a `sha256=<hex>` signature of `<timestamp>.<body>`;
+ * verify it on the receiver with `verifyWebhookSignature`.
+ */
+export type WebhookSigningOptions = {
+  /** Shared secret used as the HMAC key. */
+  secret: string;
+  /** @default "X-Webhook-Signature" */
+  header?: string;
+  /** @default "X-Webhook-Timestamp" */
+  timestampHeader?: string;
+};
+
+/**
+ * Retry policy for network errors, 408, 429 and 5xx responses: exponential
+ * backoff from `minDelayMs`, multiplied by `factor` per attempt and capped
+ * at `maxDelayMs`, with full jitter by default.
+ */
+export type WebhookRetryOptions = {
+  /** Extra attempts after the first one. @default 0 */
+  retries?: number;
+  /** @default 500 */
+  minDelayMs?: number;
+  /** @default 30_000 */
+  maxDelayMs?: number;
+  /** @default 2 */
+  factor?: number;
+  /** Randomize each delay between 0 and the backoff. @default true */
+  jitter?: boolean;
+};
+
+/**
+ * How events are sent:
+ *
+ * - `event` — one `POST` per event (default)
+ * - `batch` — events are buffered and `POST`ed as a JSON array once
+ *   {@link WebhookBatchOptions.maxEvents} is reached, every
+ *   {@link WebhookBatchOptions.intervalMs} and at the end of the run
+ * - `stream` — a single `POST` kept open for the whole run, one NDJSON
+ *   line per event (`Content-Type: application/x-ndjson`)
+ */
+export type WebhookDeliveryMode = "event" | "batch" | "stream";
+
+/** Flush thresholds for `mode: "batch"`. */
+export type WebhookBatchOptions = {
+  /** Flush once this many events are buffered. @default 100 */
+  maxEvents?: number;
+  /** Flush buffered events at least this often (ms). `0` disables the timer. @default 5000 */
+  intervalMs?: number;
+};
+
+/**
+ * Request body format:
+ *
+ * - `json` — the `{ event, data }` envelope (default)
+ * - `cloudevents` — every event as a CloudEvents 1.0 event, see {@link CloudEventsOptions}
+ * - `ctrf` — a single CTRF (Common Test Report Format) document, sent on `end`
+ * - `junit` — a single JUnit XML report, sent on `end`
+ */
+export type WebhookFormat = "json" | "cloudevents" | "ctrf" | "junit";
+
+/** CloudEvents 1.0 settings for `format: "cloudevents"`. */
+export type CloudEventsOptions = {
+  /**
+   * `structured` sends the whole event as `application/cloudevents+json`;
+   * `binary` sends `data` as the body and the attributes as `ce-*` headers.
+   * @default "structured"
+   */
+  mode?: "structured" | "binary";
+  /** The `source` attribute. @default "/playwright-labs/reporter-webhook" */
+  source?: string;
+  /**
+   * Prepended to the event name to build the `type` attribute
+   * (`dev.playwright.test.end`).
+   * @default "dev.playwright"
+   */
+  typePrefix?: string;
+};
+
+/** One line of the dead-letter JSONL file — an event that could not be delivered. */
+export type DeadLetterEntry = {
+  /**
+   * Canonical event name (without `eventPrefix`), or `batch` / `stream` for
+   * a whole batch or NDJSON stream body.
+   */
+  event: WebhookEventName | "batch" | "stream";
+  url: string;
+  /** The serialized request body, exactly as it was sent. */
+  body: string;
+  /**
+   * Request headers, without the signature headers and without headers that
+   * carry credentials (`Authorization`, `Cookie`, API keys, tokens).
+   */
+  headers: Record<string, string>;
+  /** Message of the last delivery error. */
+  error: string;
+  /** Attempts made so far. */
+  attempts: number;
+  /** ISO timestamp of the last failed attempt. */
+  failedAt: string;
+};
+
 export type WebhookOptions = {
   /** Webhook URL — every enabled event is POSTed here as JSON. */
   url: string | URL;
@@ -89,11 +210,51 @@ export type WebhookOptions = {
    * {eventPrefix: 'webhookReporter'} => {event: 'webhookReporter.test.end'}
    */
   eventPrefix?: string | { name: string; separator?: string };
+  /** Run history, see {@link HistoryOptions} — sent as `history` in the `end` event. */
+  history?: HistoryOptions;
   /** Extra headers merged into every request (after Content-Type). */
   headers?: Record<string, string>;
+  /**
+   * Delivery mode — one request per event, batched, or a single NDJSON stream.
+   * @default "event"
+   */
+  mode?: WebhookDeliveryMode;
+  /** Flush thresholds for `mode: "batch"`. */
+  batch?: WebhookBatchOptions;
+  /**
+   * Request body format. `ctrf` and `junit` send one report on `end` and
+   * only work with `mode: "event"`, as does binary-mode `cloudevents`.
+   * @default "json"
+   */
+  format?: WebhookFormat;
+  /** CloudEvents settings for `format: "cloudevents"`. */
+  cloudEvents?: CloudEventsOptions;
+  /**
+   * Sign every request with HMAC-SHA256 so the receiver can verify it came
+   * from this reporter. Not available with `mode: "stream"` — the body is
+   * not known when the request starts.
+   * @example
+   * signing: { secret: process.env.WEBHOOK_SECRET! }
+   */
+  signing?: WebhookSigningOptions;
+  /**
+   * Retry failed deliveries — a number of extra attempts or a full
+   * {@link WebhookRetryOptions} policy. Not available with
+   * `mode: "stream"`, which cannot replay the body it already sent.
+   * @default 0
+   */
+  retry?: number | WebhookRetryOptions;
+  /**
+   * JSONL file that receives every event still undeliverable after all
+   * retries. Dead-lettered events no longer fail `onEnd`; re-send them
+   * later with `replayDeadLetters(file)`.
+   */
+  deadLetter?: string;
   /**
    * Maps an event to the request body. Return value is JSON-stringified
-   * as-is. Defaults to sending the {@link WebhookEvent} itself.
+   * as-is. Defaults to sending the {@link WebhookEvent} itself. With
+   * `format: "cloudevents"` the return value becomes the event's `data`;
+   * not supported by `ctrf` and `junit`.
    */
   body?: (event: WebhookEvent) => unknown | Promise<unknown>;
   /**
@@ -0,0 +1,300 @@
+import { test, expect } from "@playwright/test";
+import { createHmac } from "node:crypto";
+import { readFile, writeFile } from "node:fs/promises";
+import type { FullResult } from "@playwright/test/reporter";
+import WebhookReporter from "../src/reporter";
+import {
+  getRetryDelay,
+  readDeadLetters,
+  replayDeadLetters,
+  signWebhookBody,
+  verifyWebhookSignature,
+} from "../src/index";
+import type { DeadLetterEntry } from "../src/types";
+
+const passedRun: FullResult = {
+  status: "passed",
+  startTime: new Date("2026-01-01T00:00:00Z"),
+  duration: 5000,
+};
+
+type Captured = { url: string; headers: Record<string, string>; body: string };
+
+/**
+ * Replaces `fetch` with a stub answering from `statuses` in order (the
+ * last one repeats); `"network"` throws like an unreachable host.
+ */
+function sequenceFetch(statuses: (number | "network")[]) {
+  const requests: Captured[] = [];
+  const original = global.fetch;
+  global.fetch = (async (url: string | URL, init?: RequestInit) => {
+    requests.push({
+      url: url.toString(),
+      headers: Object.fromEntries(
+        Object.entries(init?.headers ?? {}).map(([k, v]) => [
+          k.toLowerCase(),
+          v as string,
+        ]),
+      ),
+      body: init?.body as string,
+    });
+    const status = statuses[Math.min(requests.length, statuses.length) - 1];
+    if (status === "network") throw new TypeError("fetch failed");
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      text: async () => `status ${status}`,
+    } as Response;
+  }) as typeof fetch;
+  return {
+    requests,
+    restore: () => {
+      global.fetch = original;
+    },
+  };
+}
+
+const fastRetry = { minDelayMs: 1, maxDelayMs: 1, jitter: false };
+
+test.describe("signing", () => {
+  test("signature is sha256 HMAC of '<timestamp>.<body>'", () => {
+    expect(signWebhookBody("secret", 1700000000, '{"a":1}')).toBe(
+      "sha256=" +
+        createHmac("sha256", "secret")
+          .update('1700000000.{"a":1}')
+          .digest("hex"),
+    );
+  });
+
+  test("verifyWebhookSignature accepts a valid, fresh signature", () => {
+    const body = '{"event":"end"}';
+    const signature = signWebhookBody("secret", 1700000000, body);
+    expect(
+      verifyWebhookSignature({
+        secret: "secret",
+        body,
+        signature,
+        timestamp: "1700000000",
+        now: 1700000010_000,
+      }),
+    ).toBe(true);
+  });
+
+  test("verifyWebhookSignature rejects tampered bodies, wrong secrets and stale timestamps", () => {
+    const body = '{"event":"end"}';
+    const signature = signWebhookBody("secret", 1700000000, body);
+    const base = { secret: "secret", body, signature, timestamp: 1700000000, now: 1700000000_000 };
+
+    expect(verifyWebhookSignature({ ...base, body: '{"event":"begin"}' })).toBe(false);
+    expect(verifyWebhookSignature({ ...base, secret: "other" })).toBe(false);
+    expect(verifyWebhookSignature({ ...base, now: 1700001000_000 })).toBe(false);
+    expect(
+      verifyWebhookSignature({ ...base, now: 1700001000_000, toleranceSeconds: 0 }),
+    ).toBe(true);
+    expect(verifyWebhookSignature({ ...base, signature: undefined })).toBe(false);
+  });
+
+  test("reporter sends timestamp and signature headers the receiver can verify", async () => {
+    const stub = sequenceFetch([200]);
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["end"],
+        signing: { secret: "s3cr3t" },
+      });
+      await reporter.onEnd(passedRun);
+
+      const [request] = stub.requests;
+      expect(request.headers["x-webhook-timestamp"]).toMatch(/^\d+$/);
+      expect(
+        verifyWebhookSignature({
+          secret: "s3cr3t",
+          body: request.body,
+          signature: request.headers["x-webhook-signature"],
+          timestamp: request.headers["x-webhook-timestamp"],
+        }),
+      ).toBe(true);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("custom header names", async () => {
+    const stub = sequenceFetch([200]);
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["end"],
+        signing: { secret: "s", header: "X-Sig", timestampHeader: "X-Ts" },
+      });
+      await reporter.onEnd(passedRun);
+
+      expect(stub.requests[0].headers["x-sig"]).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(stub.requests[0].headers["x-ts"]).toMatch(/^\d+$/);
+    } finally {
+      stub.restore();
+    }
+  });
+});
+
+test.describe("retry", () => {
+  test("getRetryDelay grows exponentially up to maxDelayMs", () => {
+    const policy = { minDelayMs: 100, maxDelayMs: 1000, jitter: false };
+    expect([1, 2, 3, 4, 5].map((a) => getRetryDelay(a, policy))).toEqual([
+      100, 200, 400, 800, 1000,
+    ]);
+  });
+
+  test("getRetryDelay applies full jitter by default", () => {
+    expect(getRetryDelay(3, { minDelayMs: 100 }, () => 0.5)).toBe(200);
+    expect(getRetryDelay(3, { minDelayMs: 100 }, () => 0)).toBe(0);
+  });
+
+  test("retries 5xx and network errors until success", async () => {
+    const stub = sequenceFetch([503, "network", 200]);
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["end"],
+        retry: { retries: 2, ...fastRetry },
+      });
+      await reporter.onEnd(passedRun);
+      expect(stub.requests).toHaveLength(3);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("gives up after the configured retries", async () => {
+    const stub = sequenceFetch([500]);
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["end"],
+        retry: { retries: 2, ...fastRetry },
+      });
+      await expect(reporter.onEnd(passedRun)).rejects.toThrow(
+        'event "end" failed (500)',
+      );
+      expect(stub.requests).toHaveLength(3);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("does not retry 4xx other than 408 and 429", async () => {
+    const stub = sequenceFetch([400]);
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["end"],
+        retry: { retries: 3, ...fastRetry },
+      });
+      await expect(reporter.onEnd(passedRun)).rejects.toThrow("(400)");
+      expect(stub.requests).toHaveLength(1);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("re-signs every attempt", async () => {
+    const stub = sequenceFetch([429, 200]);
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["end"],
+        signing: { secret: "s" },
+        retry: { retries: 1, ...fastRetry },
+      });
+      await reporter.onEnd(passedRun);
+      expect(stub.requests).toHaveLength(2);
+      for (const request of stub.requests) {
+        expect(request.headers["x-webhook-signature"]).toMatch(/^sha256=/);
+      }
+    } finally {
+      stub.restore();
+    }
+  });
+});
+
+test.describe("dead letter", () => {
+  test("undeliverable events are appended as JSONL and do not fail onEnd", async ({}, testInfo) => {
+    const file = testInfo.outputPath("dead", "webhook.jsonl");
+    const stub = sequenceFetch([502]);
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["begin", "end"],
+        headers: { "X-Team": "qa", Authorization: "Bearer t0ken", "X-Api-Key": "k3y" },
+        signing: { secret: "s" },
+        retry: { retries: 1, ...fastRetry },
+        deadLetter: file,
+      });
+      const deadLetters: DeadLetterEntry[] = [];
+      reporter.on("deadLetter", (entry) => deadLetters.push(entry));
+      reporter.onBegin(
+        { rootDir: "/repo", workers: 1, version: "1", projects: [] } as never,
+        { title: "", allTests: () => [] } as never,
+      );
+      await reporter.onEnd(passedRun);
+
+      const entries = await readDeadLetters(file);
+      expect(entries.map((e) => e.event)).toEqual(["begin", "end"]);
+      expect(entries[1]).toMatchObject({
+        url: "https://hooks.example.com/wh",
+        attempts: 2,
+        headers: { "Content-Type": "application/json", "X-Team": "qa" },
+      });
+      expect(entries[1].error).toContain("(502)");
+      expect(JSON.parse(entries[1].body).event).toBe("end");
+      expect(entries[1].headers).not.toHaveProperty("X-Webhook-Signature");
+      expect(await readFile(file, "utf8")).not.toMatch(/t0ken|k3y/);
+      expect(deadLetters).toHaveLength(2);
+      expect(deadLetters[1].headers).toEqual(entries[1].headers);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("readDeadLetters returns [] for a missing file", async ({}, testInfo) => {
+    await expect(readDeadLetters(testInfo.outputPath("none.jsonl"))).resolves.toEqual([]);
+  });
+
+  test("replayDeadLetters re-sends, removes delivered entries and keeps failures", async ({}, testInfo) => {
+    const file = testInfo.outputPath("webhook.jsonl");
+    const entry = (event: DeadLetterEntry["event"]): DeadLetterEntry => ({
+      event,
+      url: "https://hooks.example.com/wh",
+      body: JSON.stringify({ event, data: {} }),
+      headers: { "Content-Type": "application/json" },
+      error: "boom",
+      attempts: 1,
+      failedAt: "2026-01-01T00:00:00.000Z",
+    });
+    await writeFile(
+      file,
+      [entry("begin"), entry("end")].map((e) => JSON.stringify(e)).join("\n") + "\n",
+    );
+
+    const stub = sequenceFetch([200, 500]);
+    try {
+      const result = await replayDeadLetters(file, {
+        url: "https://other.example.com/replay",
+        signing: { secret: "s" },
+      });
+
+      expect(result.delivered.map((e) => e.event)).toEqual(["begin"]);
+      expect(result.failed.map((e) => e.event)).toEqual(["end"]);
+      expect(result.failed[0].attempts).toBe(2);
+      expect(stub.requests[0].url).toBe("https://other.example.com/replay");
+      expect(stub.requests[0].body).toBe(entry("begin").body);
+      expect(stub.requests[0].headers["x-webhook-signature"]).toMatch(/^sha256=/);
+
+      const remaining = (await readFile(file, "utf8")).trim().split("\n");
+      expect(remaining).toHaveLength(1);
+      expect(JSON.parse(remaining[0]).event).toBe("end");
+    } finally {
+      stub.restore();
+    }
+  });
+});
@@ -0,0 +1,294 @@
+import { test, expect } from "@playwright/test";
+import type {
+  FullConfig,
+  FullResult,
+  Suite,
+  TestCase,
+  TestResult,
+} from "@playwright/test/reporter";
+import { buildRunModel } from "@playwright-labs/reporter-core";
+import WebhookReporter from "../src/reporter";
+import {
+  encodeCloudEvent,
+  toCloudEvent,
+  toCtrfReport,
+  toJUnitXml,
+} from "../src/index";
+
+const finishedRun: FullResult = {
+  status: "failed",
+  startTime: new Date("2026-01-01T00:00:00Z"),
+  duration: 5000,
+};
+
+const config = {
+  rootDir: "/repo",
+  workers: 1,
+  version: "1.57.0",
+  projects: [],
+} as unknown as FullConfig;
+const suite = { title: "", allTests: () => [] } as unknown as Suite;
+
+function makeTest(title: string, file = "/repo/tests/a.spec.ts"): TestCase {
+  return {
+    id: `id-${title}`,
+    title,
+    titlePath: () => ["", "Suite", title],
+    location: { file, line: 7, column: 1 },
+    expectedStatus: "passed",
+    timeout: 30_000,
+    retries: 1,
+    tags: ["@smoke"],
+  } as unknown as TestCase;
+}
+
+function makeResult(status: TestResult["status"], retry = 0): TestResult {
+  return {
+    status,
+    retry,
+    duration: 1500,
+    startTime: new Date("2026-01-01T00:00:01Z"),
+    errors:
+      status === "failed"
+        ? [{ message: "expected <1> & got \u001b[31m2\u001b[39m", stack: "Error: boom\n    at a.spec.ts:7" }]
+        : [],
+    attachments: [],
+  } as unknown as TestResult;
+}
+
+const testCases: [TestCase, TestResult][] = [
+  [makeTest("passes"), makeResult("passed")],
+  [makeTest("fails"), makeResult("failed")],
+  [makeTest("flaky"), makeResult("failed")],
+  [makeTest("flaky"), makeResult("passed", 1)],
+  [makeTest("skipped", "/repo/tests/b.spec.ts"), makeResult("skipped")],
+];
+
+function captureFetch() {
+  const requests: { headers: Record<string, string>; body: string }[] = [];
+  const original = global.fetch;
+  global.fetch = (async (_url: string | URL, init?: RequestInit) => {
+    requests.push({
+      headers: init?.headers as Record<string, string>,
+      body: init?.body as string,
+    });
+    return { ok: true, status: 200 } as Response;
+  }) as typeof fetch;
+  return {
+    requests,
+    restore: () => {
+      global.fetch = original;
+    },
+  };
+}
+
+test.describe("CloudEvents", () => {
+  test("toCloudEvent builds a 1.0 envelope with subject for test events", () => {
+    const event = toCloudEvent(
+      {
+        event: "test.end",
+        data: {
+          test: { id: "abc" } as never,
+          result: { status: "passed" } as never,
+        },
+      },
+      { source: "/ci/shard-1" },
+    );
+    expect(event).toMatchObject({
+      specversion: "1.0",
+      source: "/ci/shard-1",
+      type: "dev.playwright.test.end",
+      subject: "abc",
+      datacontenttype: "application/json",
+    });
+    expect(event.id).toMatch(/^[0-9a-f-]{36}$/);
+    expect(Date.parse(event.time)).not.toBeNaN();
+  });
+
+  test("binary mode moves attributes into ce-* headers", () => {
+    const event = toCloudEvent({ event: "error", data: { error: { message: "x" } } });
+    const { body, headers } = encodeCloudEvent(event, "binary");
+    expect(JSON.parse(body)).toEqual({ error: { message: "x" } });
+    expect(headers).toMatchObject({
+      "Content-Type": "application/json",
+      "ce-specversion": "1.0",
+      "ce-id": event.id,
+      "ce-type": "dev.playwright.error",
+      "ce-source": "/playwright-labs/reporter-webhook",
+    });
+  });
+
+  test("reporter sends structured events by default", async () => {
+    const stub = captureFetch();
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://bus.example.com",
+        events: ["begin"],
+        format: "cloudevents",
+        cloudEvents: { typePrefix: "com.example.e2e" },
+      });
+      reporter.onBegin(config, suite);
+      await reporter.onEnd(finishedRun);
+
+      const [request] = stub.requests;
+      expect(request.headers["Content-Type"]).toBe("application/cloudevents+json");
+      expect(JSON.parse(request.body)).toMatchObject({
+        type: "com.example.e2e.begin",
+        data: { suite: { totalTests: 0 } },
+      });
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("batches use the CloudEvents batch content type", async () => {
+    const stub = captureFetch();
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://bus.example.com",
+        events: ["begin", "end"],
+        format: "cloudevents",
+        mode: "batch",
+      });
+      reporter.onBegin(config, suite);
+      await reporter.onEnd(finishedRun);
+
+      expect(stub.requests).toHaveLength(1);
+      expect(stub.requests[0].headers["Content-Type"]).toBe(
+        "application/cloudevents-batch+json",
+      );
+      expect(JSON.parse(stub.requests[0].body).map((e: any) => e.type)).toEqual([
+        "dev.playwright.begin",
+        "dev.playwright.end",
+      ]);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("binary mode cannot be batched", () => {
+    expect(
+      () =>
+        new WebhookReporter({
+          url: "https://bus.example.com",
+          format: "cloudevents",
+          cloudEvents: { mode: "binary" },
+          mode: "batch",
+        }),
+    ).toThrow('format "binary cloudevents" only supports mode "event"');
+  });
+});
+
+test.describe("CTRF", () => {
+  test("maps final outcomes, flaky tests and the summary", () => {
+    const report = toCtrfReport(
+      buildRunModel(testCases, { rootDir: "/repo" }),
+      finishedRun,
+      config,
+    );
+
+    expect(report.reportFormat).toBe("CTRF");
+    expect(report.results.tool).toEqual({ name: "playwright", version: "1.57.0" });
+    expect(report.results.summary).toEqual({
+      tests: 4,
+      passed: 2,
+      failed: 1,
+      pending: 0,
+      skipped: 1,
+      other: 0,
+      start: Date.parse("2026-01-01T00:00:00Z"),
+      stop: Date.parse("2026-01-01T00:00:05Z"),
+    });
+    const byName = Object.fromEntries(report.results.tests.map((t) => [t.name, t]));
+    expect(byName.fails).toMatchObject({
+      status: "failed",
+      rawStatus: "failed",
+      trace: "Error: boom\n    at a.spec.ts:7",
+      filePath: "tests/a.spec.ts",
+      line: 7,
+      suite: "Suite",
+    });
+    expect(byName.flaky).toMatchObject({
+      status: "passed",
+      flaky: true,
+      retries: 1,
+      duration: 3000,
+    });
+    expect(byName.passes).not.toHaveProperty("message");
+  });
+
+  test("reporter sends only the end report", async () => {
+    const stub = captureFetch();
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://ctrf.example.com",
+        format: "ctrf",
+      });
+      reporter.onBegin(config, suite);
+      for (const [test, result] of testCases) reporter.onTestEnd(test, result);
+      await reporter.onEnd(finishedRun);
+
+      expect(stub.requests).toHaveLength(1);
+      expect(JSON.parse(stub.requests[0].body).results.summary.tests).toBe(4);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("rejects a custom body", () => {
+    expect(
+      () =>
+        new WebhookReporter({
+          url: "https://ctrf.example.com",
+          format: "ctrf",
+          body: (event) => event,
+        }),
+    ).toThrow('"body" is not supported with format "ctrf"');
+  });
+});
+
+test.describe("JUnit", () => {
+  test("one testsuite per file with failures and skips", () => {
+    const xml = toJUnitXml(buildRunModel(testCases, { rootDir: "/repo" }), finishedRun);
+
+    expect(xml).toContain(
+      '<testsuites name="playwright" tests="4" failures="1" skipped="1" errors="0" time="5.000">',
+    );
+    expect(xml).toContain(
+      '<testsuite name="tests/a.spec.ts" timestamp="2026-01-01T00:00:00.000Z" tests="3" failures="1" skipped="0"',
+    );
+    expect(xml).toContain('<testsuite name="tests/b.spec.ts"');
+    expect(xml).toContain(
+      '<testcase name="Suite › fails" classname="tests/a.spec.ts" time="1.500">',
+    );
+    // escaped, with ANSI escape characters stripped
+    expect(xml).toContain(
+      '<failure message="expected &lt;1&gt; &amp; got [31m2[39m" type="failed">',
+    );
+    expect(xml).toMatch(/name="Suite › skipped"[^>]*>\s*<skipped\/>/);
+    expect(xml).toContain('<testcase name="Suite › flaky" classname="tests/a.spec.ts" time="3.000"/>');
+  });
+
+  test("reporter posts XML on end", async () => {
+    const stub = captureFetch();
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://tm.example.com/junit",
+        format: "junit",
+        headers: { Authorization: "Bearer t" },
+      });
+      reporter.onBegin(config, suite);
+      reporter.onTestEnd(...testCases[1]);
+      await reporter.onEnd(finishedRun);
+
+      expect(stub.requests).toHaveLength(1);
+      expect(stub.requests[0].headers).toEqual({
+        "Content-Type": "application/xml",
+        Authorization: "Bearer t",
+      });
+      expect(stub.requests[0].body).toMatch(/^<\?xml/);
+    } finally {
+      stub.restore();
+    }
+  });
+});
@@ -0,0 +1,246 @@
+import { test, expect } from "@playwright/test";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { FullResult } from "@playwright/test/reporter";
+import WebhookReporter from "../src/reporter";
+import { readDeadLetters } from "../src/index";
+
+const passedRun: FullResult = {
+  status: "passed",
+  startTime: new Date("2026-01-01T00:00:00Z"),
+  duration: 5000,
+};
+
+const config = { rootDir: "/repo", workers: 1, version: "1", projects: [] } as never;
+const suite = { title: "", allTests: () => [] } as never;
+const error = (message: string) => ({ message }) as never;
+
+function captureFetch(status = 200) {
+  const bodies: string[] = [];
+  const original = global.fetch;
+  global.fetch = (async (_url: string | URL, init?: RequestInit) => {
+    bodies.push(init?.body as string);
+    return { ok: status < 300, status, text: async () => "" } as Response;
+  }) as typeof fetch;
+  return {
+    bodies,
+    restore: () => {
+      global.fetch = original;
+    },
+  };
+}
+
+type Received = {
+  headers: IncomingHttpHeaders;
+  /** Body chunks, in arrival order. */
+  chunks: string[];
+};
+
+/** Local HTTP server recording each request's headers and body chunks. */
+async function startServer(status = 200) {
+  const received: Received[] = [];
+  const server = createServer((req, res) => {
+    const request: Received = { headers: req.headers, chunks: [] };
+    received.push(request);
+    req.on("data", (chunk: Buffer) => request.chunks.push(chunk.toString()));
+    req.on("end", () => res.writeHead(status).end());
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/wh`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+test.describe("batch mode", () => {
+  test("sends events as JSON arrays of at most maxEvents", async () => {
+    const stub = captureFetch();
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["begin", "error", "end"],
+        mode: "batch",
+        batch: { maxEvents: 2, intervalMs: 0 },
+      });
+      reporter.onBegin(config, suite);
+      reporter.onError(error("first"));
+      reporter.onError(error("second"));
+      await reporter.onEnd(passedRun);
+
+      const batches = stub.bodies.map((body) => JSON.parse(body));
+      expect(batches.map((batch) => batch.map((e: any) => e.event))).toEqual([
+        ["begin", "error"],
+        ["error", "end"],
+      ]);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("flushes on the interval", async () => {
+    const stub = captureFetch();
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["begin", "end"],
+        mode: "batch",
+        batch: { intervalMs: 20 },
+      });
+      reporter.onBegin(config, suite);
+      await expect.poll(() => stub.bodies.length).toBe(1);
+      expect(JSON.parse(stub.bodies[0])).toHaveLength(1);
+
+      await reporter.onEnd(passedRun);
+      expect(stub.bodies).toHaveLength(2);
+      expect(JSON.parse(stub.bodies[1])[0].event).toBe("end");
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("onExit flushes events emitted after onEnd", async () => {
+    const stub = captureFetch();
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["error", "end"],
+        mode: "batch",
+      });
+      await reporter.onEnd(passedRun);
+      reporter.onError(error("late"));
+      await reporter.onExit();
+
+      expect(stub.bodies.map((body) => JSON.parse(body)[0].event)).toEqual([
+        "end",
+        "error",
+      ]);
+    } finally {
+      stub.restore();
+    }
+  });
+
+  test("a failed batch is dead-lettered as one entry", async ({}, testInfo) => {
+    const file = testInfo.outputPath("dead.jsonl");
+    const stub = captureFetch(500);
+    try {
+      const reporter = new WebhookReporter({
+        url: "https://hooks.example.com/wh",
+        events: ["begin", "end"],
+        mode: "batch",
+        deadLetter: file,
+      });
+      reporter.onBegin(config, suite);
+      await reporter.onEnd(passedRun);
+
+      const [entry, ...rest] = await readDeadLetters(file);
+      expect(rest).toHaveLength(0);
+      expect(entry.event).toBe("batch");
+      expect(JSON.parse(entry.body)).toHaveLength(2);
+    } finally {
+      stub.restore();
+    }
+  });
+});
+
+test.describe("stream mode", () => {
+  test("streams every event as NDJSON over a single request", async () => {
+    const server = await startServer();
+    try {
+      const reporter = new WebhookReporter({
+        url: server.url,
+        events: ["begin", "error", "end"],
+        mode: "stream",
+        headers: { "X-Team": "qa" },
+      });
+      reporter.onBegin(config, suite);
+      reporter.onError(error("boom"));
+      await reporter.onEnd(passedRun);
+
+      expect(server.received).toHaveLength(1);
+      const [request] = server.received;
+      expect(request.headers["content-type"]).toBe("application/x-ndjson");
+      expect(request.headers["transfer-encoding"]).toBe("chunked");
+      expect(request.headers["x-team"]).toBe("qa");
+
+      const lines = request.chunks.join("").trimEnd().split("\n");
+      expect(lines.map((line) => JSON.parse(line).event)).toEqual([
+        "begin",
+        "error",
+        "end",
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("a rejected stream fails onEnd or is dead-lettered", async ({}, testInfo) => {
+    const server = await startServer(503);
+    try {
+      const failing = new WebhookReporter({
+        url: server.url,
+        events: ["end"],
+        mode: "stream",
+      });
+      await expect(failing.onEnd(passedRun)).rejects.toThrow("(503)");
+
+      const file = testInfo.outputPath("dead.jsonl");
+      const dead = new WebhookReporter({
+        url: server.url,
+        events: ["begin", "end"],
+        mode: "stream",
+        deadLetter: file,
+      });
+      dead.onBegin(config, suite);
+      await dead.onEnd(passedRun);
+
+      const [entry] = await readDeadLetters(file);
+      expect(entry.event).toBe("stream");
+      expect(entry.headers["Content-Type"]).toBe("application/x-ndjson");
+      expect(entry.body.trimEnd().split("\n")).toHaveLength(2);
+    } finally {
+      await server.close();
+    }
+  });
+
+  test("rejects signing", () => {
+    expect(
+      () =>
+        new WebhookReporter({
+          url: "https://hooks.example.com/wh",
+          mode: "stream",
+          signing: { secret: "s" },
+        }),
+    ).toThrow('"signing" is not supported with mode "stream"');
+  });
+
+  test("rejects retry", () => {
+    expect(
+      () =>
+        new WebhookReporter({
+          url: "https://hooks.example.com/wh",
+          mode: "stream",
+          retry: 3,
+        }),
+    ).toThrow('"retry" is not supported with mode "stream"');
+  });
+
+  test("configured headers win over the default Content-Type, like in event mode", async () => {
+    const server = await startServer();
+    try {
+      const reporter = new WebhookReporter({
+        url: server.url,
+        events: ["end"],
+        mode: "stream",
+        headers: { "Content-Type": "application/jsonl" },
+      });
+      reporter.onBegin(config, suite);
+      await reporter.onEnd(passedRun);
+
+      expect(server.received[0].headers["content-type"]).toBe("application/jsonl");
+    } finally {
+      await server.close();
+    }
+  });
+});
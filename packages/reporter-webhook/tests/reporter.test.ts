@@ -8,6 +8,7 @@ import type {
   TestResult,
 } from "@playwright/test/reporter";
 import WebhookReporter from "../src/reporter";
+import type { HistoryRun } from "@playwright-labs/reporter-core";
 import type { WebhookEvent, WebhookOptions } from "../src/types";
 
 // ---------------------------------------------------------------------------
@@ -249,7 +250,7 @@ test.describe("payloads", () => {
     }
   });
 
-  test("end carries run result and accumulated status counts", async () => {
+  test("end carries run result, accumulated status counts and outcome totals", async () => {
     const stub = stubFetch();
     try {
       const reporter = makeReporter({ events: ["end"] });
@@ -274,12 +275,57 @@ test.describe("payloads", () => {
             skipped: 1,
             interrupted: 0,
           },
+          totals: {
+            total: 3,
+            passed: 1,
+            failed: 1,
+            flaky: 0,
+            skipped: 1,
+            duration: 3702,
+          },
         },
       });
     } finally {
       stub.restore();
     }
   });
+
+  test("end carries the history classification when history is set", async () => {
+    const stub = stubFetch();
+    try {
+      let saved: HistoryRun[] = [];
+      const reporter = makeReporter({
+        events: ["end"],
+        history: {
+          store: {
+            load: async () => [
+              {
+                id: "2025-12-31T00:00:00.000Z",
+                startTime: "2025-12-31T00:00:00.000Z",
+                status: "passed",
+                tests: {
+                  "id-a": { title: "a", outcome: "expected", duration: 1, attempts: 1 },
+                },
+              },
+            ],
+            save: async (runs) => {
+              saved = runs;
+            },
+          },
+        },
+      });
+      reporter.onTestEnd(makeTestCase("a"), makeTestResult("failed"));
+      await reporter.onEnd(passedRun);
+
+      const body = stub.requests[0].body as {
+        data: { history: { newFailures: { id: string }[] } };
+      };
+      expect(body.data.history.newFailures.map((t) => t.id)).toEqual(["id-a"]);
+      expect(saved).toHaveLength(2);
+    } finally {
+      stub.restore();
+    }
+  });
 });
 
 // ---------------------------------------------------------------------------
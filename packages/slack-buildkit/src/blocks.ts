@@ -7,6 +7,7 @@ import type {
   HeaderBlock,
   ImageBlock,
   ImageElement,
+  SlackFileObject,
   InputBlock,
   MarkdownBlock,
   PlainTextInputElement,
@@ -95,16 +96,16 @@ export type ImageBlockOptions = {
   title?: string;
 };
 
+/** Image block of a public URL, or of a file uploaded to Slack (`{ id }` / `{ url }`). */
 export function image(
-  imageUrl: string,
+  source: string | SlackFileObject,
   altText: string,
   options: ImageBlockOptions = {},
 ): ImageBlock {
-  const block: ImageBlock = {
-    type: "image",
-    image_url: imageUrl,
-    alt_text: altText,
-  };
+  const block: ImageBlock =
+    typeof source === "string"
+      ? { type: "image", image_url: source, alt_text: altText }
+      : { type: "image", slack_file: source, alt_text: altText };
   if (options.block_id) block.block_id = options.block_id;
   if (options.title) block.title = plainText(options.title);
   return block;
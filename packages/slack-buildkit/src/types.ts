@@ -173,14 +173,19 @@ export type HeaderBlock = {
   text: PlainTextObject;
 };
 
+/** A file uploaded to Slack, referenced by its id or its `url_private`. */
+export type SlackFileObject = { id: string } | { url: string };
+
+/** Shows a public `image_url` or an uploaded `slack_file` — exactly one of them. */
 export type ImageBlock = {
   type: "image";
   block_id?: string;
-  image_url: string;
   alt_text: string;
   title?: PlainTextObject;
-  slack_file?: { id?: string; url?: string };
-};
+} & (
+  | { image_url: string; slack_file?: never }
+  | { slack_file: SlackFileObject; image_url?: never }
+);
 
 export type ActionsBlock = {
   type: "actions";
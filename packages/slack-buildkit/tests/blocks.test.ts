@@ -89,6 +89,15 @@ test.describe("image block", () => {
     expect(block.title?.text).toBe("My Image");
     expect(block.block_id).toBe("img1");
   });
+
+  test("of an uploaded Slack file", () => {
+    expect(image({ id: "F123" }, "Alt", { title: "Screenshot" })).toEqual({
+      type: "image",
+      slack_file: { id: "F123" },
+      alt_text: "Alt",
+      title: { type: "plain_text", text: "Screenshot", emoji: true },
+    });
+  });
 });
 
 test.describe("actions", () => {
@@ -35,6 +35,10 @@ export interface ColumnInfo {
   /** Raw DB type string, e.g. "INTEGER", "character varying", "tinyint" */
   type: string;
   nullable: boolean;
+  /** Default expression as the database reports it, e.g. "0" or "nextval('users_id_seq'::regclass)" */
+  default?: string | null;
+  /** Target of a single-column foreign key on this column. */
+  references?: { table: string; column: string };
 }
 
 export interface TableSchema {
@@ -95,8 +99,45 @@ export function mysqlToTS(dataType: string, nullable: boolean): string {
   return nullable ? `${ts} | null` : ts;
 }
 
+/**
+ * Types as `@duckdb/node-api` returns them: 64- and 128-bit integers and
+ * `TIME` (microseconds) as `bigint`, dates and timestamps as `Date`.
+ */
+export function duckdbToTS(dataType: string, nullable: boolean): string {
+  const dt = dataType.toUpperCase().trim();
+  let ts: string;
+  const list = dt.match(/^(.+)\[\d*\]$/);
+  if (list) ts = `${duckdbToTS(list[1]!, false)}[]`;
+  else if (/^(TINYINT|SMALLINT|INTEGER|UTINYINT|USMALLINT|UINTEGER|FLOAT|DOUBLE)$/.test(dt))
+    ts = "number";
+  else if (/^DECIMAL\b/.test(dt)) ts = "number";
+  else if (/^(BIGINT|UBIGINT|HUGEINT|UHUGEINT|TIME)$/.test(dt)) ts = "bigint";
+  else if (/^(VARCHAR|UUID|JSON|BIT)$/.test(dt) || dt.startsWith("ENUM(")) ts = "string";
+  else if (dt === "BOOLEAN") ts = "boolean";
+  else if (/^(DATE|TIMESTAMP(_S|_MS|_NS)?|TIMESTAMP WITH TIME ZONE)$/.test(dt)) ts = "Date";
+  else if (dt === "BLOB") ts = "Buffer";
+  else ts = "unknown";
+  return nullable ? `${ts} | null` : ts;
+}
+
 // ─── Schema introspection ─────────────────────────────────────────────────
 
+type ForeignKeyRow = {
+  table_name: string;
+  column_name: string;
+  foreign_table: string;
+  foreign_column: string;
+};
+
+function withReference(
+  fks: ForeignKeyRow[],
+  table: string,
+  column: string,
+): Pick<ColumnInfo, "references"> {
+  const fk = fks.find((f) => f.table_name === table && f.column_name === column);
+  return fk ? { references: { table: fk.foreign_table, column: fk.foreign_column } } : {};
+}
+
 export async function introspectSQLite(client: SqlClient): Promise<TableSchema[]> {
   const { rows: tables } = await client.query<{ name: string }>(
     "SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%' ORDER BY name",
@@ -110,15 +151,25 @@ export async function introspectSQLite(client: SqlClient): Promise<TableSchema[]
       type: string;
       notnull: number;
       pk: number;
+      dflt_value: string | null;
     }>(`PRAGMA table_info('${safe}')`);
+    const { rows: fks } = await client.query<{ table: string; from: string; to: string | null }>(
+      `PRAGMA foreign_key_list('${safe}')`,
+    );
 
     schemas.push({
       name,
-      columns: cols.map((c) => ({
-        name: c.name,
-        type: c.type,
-        nullable: c.notnull === 0 && c.pk === 0,
-      })),
+      columns: cols.map((c) => {
+        const fk = fks.find((f) => f.from === c.name);
+        return {
+          name: c.name,
+          type: c.type,
+          nullable: c.notnull === 0 && c.pk === 0,
+          default: c.dflt_value,
+          // a foreign key without a column list references the parent's primary key
+          ...(fk && { references: { table: fk.table, column: fk.to ?? "rowid" } }),
+        };
+      }),
     });
   }
   return schemas;
@@ -131,6 +182,18 @@ export async function introspectPg(client: SqlClient): Promise<TableSchema[]> {
     WHERE table_schema = 'public' AND table_type = 'BASE TABLE'
     ORDER BY table_name
   `);
+  const { rows: fks } = await client.query<ForeignKeyRow>(`
+    SELECT tc.table_name, kcu.column_name,
+           ccu.table_name AS foreign_table, ccu.column_name AS foreign_column
+    FROM information_schema.table_constraints tc
+    JOIN information_schema.key_column_usage kcu
+      ON kcu.constraint_name = tc.constraint_name AND kcu.table_schema = tc.table_schema
+    JOIN information_schema.constraint_column_usage ccu
+      ON ccu.constraint_name = tc.constraint_name AND ccu.table_schema = tc.table_schema
+    WHERE tc.constraint_type = 'FOREIGN KEY' AND tc.table_schema = 'public'
+      AND (SELECT count(*) FROM information_schema.key_column_usage k
+           WHERE k.constraint_name = tc.constraint_name AND k.table_schema = tc.table_schema) = 1
+  `);
 
   const schemas: TableSchema[] = [];
   for (const { table_name } of tables) {
@@ -138,8 +201,9 @@ export async function introspectPg(client: SqlClient): Promise<TableSchema[]> {
       column_name: string;
       data_type: string;
       is_nullable: string;
+      column_default: string | null;
     }>(
-      `SELECT column_name, data_type, is_nullable
+      `SELECT column_name, data_type, is_nullable, column_default
        FROM information_schema.columns
        WHERE table_schema = 'public' AND table_name = $1
        ORDER BY ordinal_position`,
@@ -152,6 +216,8 @@ export async function introspectPg(client: SqlClient): Promise<TableSchema[]> {
         name: c.column_name,
         type: c.data_type,
         nullable: c.is_nullable === "YES",
+        default: c.column_default,
+        ...withReference(fks, table_name, c.column_name),
       })),
     });
   }
@@ -165,6 +231,12 @@ export async function introspectMySQL(client: SqlClient): Promise<TableSchema[]>
     WHERE table_schema = DATABASE() AND table_type = 'BASE TABLE'
     ORDER BY table_name
   `);
+  const { rows: fks } = await client.query<ForeignKeyRow>(`
+    SELECT table_name AS table_name, column_name AS column_name,
+           referenced_table_name AS foreign_table, referenced_column_name AS foreign_column
+    FROM information_schema.key_column_usage
+    WHERE table_schema = DATABASE() AND referenced_table_name IS NOT NULL
+  `);
 
   const schemas: TableSchema[] = [];
   for (const { table_name } of tables) {
@@ -172,8 +244,9 @@ export async function introspectMySQL(client: SqlClient): Promise<TableSchema[]>
       column_name: string;
       data_type: string;
       is_nullable: string;
+      column_default: string | null;
     }>(
-      `SELECT column_name, data_type, is_nullable
+      `SELECT column_name, data_type, is_nullable, column_default
        FROM information_schema.columns
        WHERE table_schema = DATABASE() AND table_name = ?
        ORDER BY ordinal_position`,
@@ -186,6 +259,54 @@ export async function introspectMySQL(client: SqlClient): Promise<TableSchema[]>
         name: c.column_name,
         type: c.data_type,
         nullable: c.is_nullable === "YES",
+        default: c.column_default,
+        ...withReference(fks, table_name, c.column_name),
+      })),
+    });
+  }
+  return schemas;
+}
+
+export async function introspectDuckDB(client: SqlClient): Promise<TableSchema[]> {
+  const { rows: tables } = await client.query<{ table_name: string }>(`
+    SELECT table_name
+    FROM information_schema.tables
+    WHERE table_schema = 'main' AND table_type = 'BASE TABLE'
+    ORDER BY table_name
+  `);
+  const { rows: fks } = await client.query<ForeignKeyRow>(`
+    SELECT table_name,
+           constraint_column_names[1] AS column_name,
+           referenced_table AS foreign_table,
+           referenced_column_names[1] AS foreign_column
+    FROM duckdb_constraints()
+    WHERE constraint_type = 'FOREIGN KEY' AND schema_name = 'main'
+      AND len(constraint_column_names) = 1
+  `);
+
+  const schemas: TableSchema[] = [];
+  for (const { table_name } of tables) {
+    const { rows: cols } = await client.query<{
+      column_name: string;
+      data_type: string;
+      is_nullable: string;
+      column_default: string | null;
+    }>(
+      `SELECT column_name, data_type, is_nullable, column_default
+       FROM information_schema.columns
+       WHERE table_schema = 'main' AND table_name = ?
+       ORDER BY ordinal_position`,
+      [table_name],
+    );
+
+    schemas.push({
+      name: table_name,
+      columns: cols.map((c) => ({
+        name: c.column_name,
+        type: c.data_type,
+        nullable: c.is_nullable === "YES",
+        default: c.column_default,
+        ...withReference(fks, table_name, c.column_name),
       })),
     });
   }
@@ -201,11 +322,35 @@ export function toPascalCase(s: string): string {
     .join("");
 }
 
+/**
+ * The introspected schema as JSON, each column with its mapped `tsType` —
+ * the `pull --json` output that editor tooling consumes.
+ */
+export function schemaToJson(
+  schemas: TableSchema[],
+  toTS: (type: string, nullable: boolean) => string,
+): string {
+  const tables = schemas.map(({ name, columns }) => ({
+    name,
+    columns: columns.map((col) => ({ ...col, tsType: toTS(col.type, col.nullable) })),
+  }));
+  return `${JSON.stringify(tables, null, 2)}\n`;
+}
+
+export interface GenerateOptions {
+  /**
+   * Append a `declare module` block registering `Tables`, so the `sql` tag
+   * infers result rows from it.
+   */
+  register?: boolean;
+}
+
 export function generateTypes(
   schemas: TableSchema[],
   toTS: (type: string, nullable: boolean) => string,
   adapterName: string,
   url: string,
+  options: GenerateOptions = {},
 ): string {
   const lines: string[] = [
     `// Auto-generated by @playwright-labs/sql-core`,
@@ -239,6 +384,15 @@ export function generateTypes(
     }
     lines.push(`};`);
     lines.push(``);
+
+    if (options.register) {
+      lines.push(`declare module "@playwright-labs/sql-core" {`);
+      lines.push(`  interface Register {`);
+      lines.push(`    tables: Tables;`);
+      lines.push(`  }`);
+      lines.push(`}`);
+      lines.push(``);
+    }
   }
 
   return lines.join("\n");
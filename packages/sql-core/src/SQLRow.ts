@@ -0,0 +1,292 @@
+import type { Head, Tail, Trim } from "./SQLType.js";
+
+/**
+ * SQL Row Inference — result row types from `SELECT` strings
+ * ==========================================================
+ *
+ * Given the `Tables` map generated by `pull` (`{ users: UsersRow, … }`),
+ * `InferRow` reads the column list and the `FROM` / `JOIN` sources of a
+ * `SELECT` at compile time and builds the row type:
+ *
+ *   InferRow<"SELECT id, name FROM users", Tables>  →  { id: number; name: string }
+ *
+ * Supported
+ * ---------
+ *   • `*` and `alias.*`
+ *   • `col`, `alias.col`, quoted identifiers (`"col"`, `` `col` ``)
+ *   • `expr AS name` and `expr name`
+ *   • `FROM t [AS] a` with `[INNER | LEFT | RIGHT | CROSS] JOIN t [AS] b …`;
+ *     columns of a `LEFT JOIN`ed table become nullable
+ *   • `COUNT(…)` → `number`, string and number literals
+ *
+ * Anything else (other expressions, subqueries, unknown tables or columns)
+ * is typed `unknown`; an expression without a name is left out. Statements
+ * that are not a `SELECT … FROM` infer the generic `Row`.
+ */
+
+type Row = Record<string, unknown>;
+
+// ─── §1 String utilities ──────────────────────────────────────────────────
+
+type ReplaceAll<S extends string, From extends string, To extends string> =
+  S extends `${infer A}${From}${infer B}` ? ReplaceAll<`${A}${To}${B}`, From, To> : S;
+
+/** Newlines and tabs become spaces, so `Head` / `Tail` see every token. */
+type Normalize<S extends string> = Trim<
+  ReplaceAll<ReplaceAll<ReplaceAll<S, "\n", " ">, "\r", " ">, "\t", " ">
+>;
+
+type StripSemicolon<S extends string> =
+  S extends `${infer R};` ? StripSemicolon<Trim<R>> : S;
+
+/** `"users"`, `` `users` ``, `[users]` → `users`. */
+type Unquote<S extends string> =
+  S extends `"${infer N}"` ? N
+  : S extends `\`${infer N}\`` ? N
+  : S extends `[${infer N}]` ? N
+  : S;
+
+/** `public.users` → `users`. */
+type TableName<S extends string> =
+  Unquote<S> extends `${string}.${infer N}` ? TableName<N> : Unquote<S>;
+
+/** Last whitespace-delimited token and everything before it. */
+type SplitLast<S extends string, Prefix extends string = ""> =
+  Tail<S> extends ""
+    ? [Prefix, Head<S>]
+    : SplitLast<Tail<S>, Prefix extends "" ? Head<S> : `${Prefix} ${Head<S>}`>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+/** Later columns win, like duplicate keys in a driver's row object. */
+type Merge<A, B> = Simplify<Omit<A, keyof B> & B>;
+
+// ─── §2 Statement parts ───────────────────────────────────────────────────
+
+/** `[columns, from-clause]`, or `never` without a `FROM`. */
+type SplitAtFrom<S extends string, Cols extends string = ""> =
+  S extends ""
+    ? never
+    : Uppercase<Head<S>> extends "FROM"
+      ? [Cols, Tail<S>]
+      : SplitAtFrom<Tail<S>, Cols extends "" ? Head<S> : `${Cols} ${Head<S>}`>;
+
+type SkipDistinct<S extends string> =
+  Uppercase<Head<S>> extends "DISTINCT" | "ALL" ? Tail<S> : S;
+
+/** Splits on commas outside parentheses. */
+type SplitColumns<S extends string> =
+  S extends `${string}(${string}`
+    ? SplitNested<S>
+    : S extends `${infer A},${infer B}`
+      ? [Trim<A>, ...SplitColumns<B>]
+      : [Trim<S>];
+
+type SplitNested<
+  S extends string,
+  Depth extends unknown[] = [],
+  Current extends string = "",
+  Acc extends string[] = [],
+> =
+  S extends `${infer C}${infer R}`
+    ? C extends "("
+      ? SplitNested<R, [...Depth, C], `${Current}${C}`, Acc>
+      : C extends ")"
+        ? SplitNested<R, Depth extends [unknown, ...infer D] ? D : [], `${Current}${C}`, Acc>
+        : C extends ","
+          ? Depth extends []
+            ? SplitNested<R, Depth, "", [...Acc, Trim<Current>]>
+            : SplitNested<R, Depth, `${Current}${C}`, Acc>
+          : SplitNested<R, Depth, `${Current}${C}`, Acc>
+    : [...Acc, Trim<Current>];
+
+// ─── §3 FROM / JOIN sources ───────────────────────────────────────────────
+
+type Source = { alias: string; row: unknown };
+
+/** Words that end the source list. */
+type Terminator =
+  | "WHERE" | "GROUP" | "ORDER" | "LIMIT" | "HAVING" | "OFFSET"
+  | "UNION" | "FETCH" | "FOR" | "WINDOW" | "RETURNING";
+
+type JoinWord = "JOIN" | "INNER" | "LEFT" | "RIGHT" | "FULL" | "CROSS" | "NATURAL";
+
+/** Words that cannot be an implicit alias. */
+type NotAlias = Terminator | JoinWord | "ON" | "USING" | "OUTER";
+
+type Nullable<R> = { [K in keyof R]: R[K] | null };
+
+/** The sources so far with every column nullable — the left side of a RIGHT / FULL join. */
+type NullableSources<Sources extends Source[]> =
+  Sources extends [infer H extends Source, ...infer T extends Source[]]
+    ? [{ alias: H["alias"]; row: Nullable<H["row"]> }, ...NullableSources<T>]
+    : [];
+
+type SourceRow<Table extends string, Tables, IsNullable extends boolean> =
+  TableName<Table> extends keyof Tables
+    ? IsNullable extends true
+      ? Nullable<Tables[TableName<Table>]>
+      : Tables[TableName<Table>]
+    : never;
+
+type AddSource<
+  Sources extends Source[],
+  Table extends string,
+  Alias extends string,
+  Tables,
+  IsNullable extends boolean,
+> = [...Sources, { alias: Unquote<Alias>; row: SourceRow<Table, Tables, IsNullable> }];
+
+type ParseSource<
+  Table extends string,
+  Rest extends string,
+  Tables,
+  Sources extends Source[],
+  IsNullable extends boolean,
+> =
+  Uppercase<Head<Rest>> extends "AS"
+    ? AfterSource<Tail<Tail<Rest>>, Tables, AddSource<Sources, Table, Head<Tail<Rest>>, Tables, IsNullable>>
+    : Rest extends ""
+      ? AddSource<Sources, Table, TableName<Table>, Tables, IsNullable>
+      : Uppercase<Head<Rest>> extends NotAlias
+        ? AfterSource<Rest, Tables, AddSource<Sources, Table, TableName<Table>, Tables, IsNullable>>
+        : AfterSource<Tail<Rest>, Tables, AddSource<Sources, Table, Head<Rest>, Tables, IsNullable>>;
+
+/** Skips join conditions until the next join or the end of the sources. */
+type AfterSource<S extends string, Tables, Sources extends Source[]> =
+  S extends ""
+    ? Sources
+    : Uppercase<Head<S>> extends Terminator
+      ? Sources
+      : Uppercase<Head<S>> extends "LEFT"
+        ? JoinTable<Tail<S>, Tables, Sources, true>
+        : Uppercase<Head<S>> extends "RIGHT"
+          ? JoinTable<Tail<S>, Tables, NullableSources<Sources>, false>
+          : Uppercase<Head<S>> extends "FULL"
+            ? JoinTable<Tail<S>, Tables, NullableSources<Sources>, true>
+            : Uppercase<Head<S>> extends JoinWord
+              ? JoinTable<Tail<S>, Tables, Sources, false>
+              : AfterSource<Tail<S>, Tables, Sources>;
+
+type JoinTable<S extends string, Tables, Sources extends Source[], IsNullable extends boolean> =
+  S extends ""
+    ? Sources
+    : Uppercase<Head<S>> extends "OUTER" | "JOIN"
+      ? JoinTable<Tail<S>, Tables, Sources, IsNullable>
+      : ParseSource<Head<S>, Tail<S>, Tables, Sources, IsNullable>;
+
+type ParseSources<S extends string, Tables> =
+  S extends "" ? [] : ParseSource<Head<S>, Tail<S>, Tables, [], false>;
+
+// ─── §4 Columns ───────────────────────────────────────────────────────────
+
+type AllColumns<Sources extends Source[], Acc = {}> =
+  Sources extends [infer H extends Source, ...infer T extends Source[]]
+    ? AllColumns<T, Merge<Acc, H["row"]>>
+    : Acc;
+
+type RowByAlias<Sources extends Source[], Alias extends string> =
+  Sources extends [infer H extends Source, ...infer T extends Source[]]
+    ? H["alias"] extends Alias
+      ? H["row"]
+      : RowByAlias<T, Alias>
+    : never;
+
+type FindColumn<Sources extends Source[], C extends string> =
+  Sources extends [infer H extends Source, ...infer T extends Source[]]
+    ? C extends keyof H["row"]
+      ? H["row"][C]
+      : FindColumn<T, C>
+    : unknown;
+
+type ColumnType<Sources extends Source[], Expr extends string> =
+  Expr extends `${infer A}.${infer C}`
+    ? [RowByAlias<Sources, Unquote<A>>] extends [never]
+      ? unknown
+      : Unquote<C> extends keyof RowByAlias<Sources, Unquote<A>>
+        ? RowByAlias<Sources, Unquote<A>>[Unquote<C>]
+        : unknown
+    : Uppercase<Expr> extends `COUNT(${string}`
+      ? number
+      : Expr extends `'${string}'`
+        ? string
+        : Expr extends `${number}`
+          ? number
+          : FindColumn<Sources, Unquote<Expr>>;
+
+/** Name a bare column or `alias.column` shows up under; `never` for other expressions. */
+type ColumnName<Expr extends string> =
+  Expr extends `${string}.${infer C}`
+    ? ColumnName<C>
+    : Unquote<Expr> extends `${string}${"(" | ")" | " " | "'" | "*"}${string}`
+      ? never
+      : Unquote<Expr>;
+
+/** `[expression, name]` of one column-list item. */
+type SplitItem<Item extends string> =
+  SplitLast<Item> extends [infer Prefix extends string, infer Last extends string]
+    ? Prefix extends ""
+      ? [Last, ColumnName<Last>]
+      : SplitLast<Prefix> extends [infer Expr extends string, infer As extends string]
+        ? Uppercase<As> extends "AS"
+          ? [Expr extends "" ? As : Expr, Unquote<Last>]
+          : Prefix extends `${string} ${string}`
+            ? [Item, never]
+            : [Prefix, Unquote<Last>]
+        : never
+    : never;
+
+type ItemColumns<Item extends string, Sources extends Source[]> =
+  Item extends "*"
+    ? AllColumns<Sources>
+    : Item extends `${infer A}.*`
+      ? [RowByAlias<Sources, Unquote<A>>] extends [never]
+        ? {}
+        : RowByAlias<Sources, Unquote<A>>
+      : SplitItem<Item> extends [infer Expr extends string, infer Name extends string]
+        ? [Name] extends [never]
+          ? {}
+          : { [K in Name]: ColumnType<Sources, Expr> }
+        : {};
+
+type BuildRow<Items extends string[], Sources extends Source[], Acc = {}> =
+  Items extends [infer H extends string, ...infer T extends string[]]
+    ? BuildRow<T, Sources, Merge<Acc, ItemColumns<H, Sources>>>
+    : Acc;
+
+/** `true` when at least one source is a known table. */
+type HasKnownSource<Sources extends Source[]> =
+  Sources extends [infer H extends Source, ...infer T extends Source[]]
+    ? [H["row"]] extends [never]
+      ? HasKnownSource<T>
+      : true
+    : false;
+
+// ─── §5 Public API ────────────────────────────────────────────────────────
+
+/**
+ * Result row of a `SELECT` statement, looked up in a `Tables` map as
+ * generated by `pull`. Falls back to `Row` for other statements and for
+ * queries on tables `Tables` does not know.
+ *
+ * @example
+ *   type Tables = { users: { id: number; name: string; email: string | null } };
+ *   InferRow<"SELECT id, name AS label FROM users", Tables>  →  { id: number; label: string }
+ *   InferRow<"SELECT u.*, p.title FROM users u LEFT JOIN posts p ON p.user_id = u.id", Tables>
+ *     →  { id: number; name: string; email: string | null; title: string | null }
+ */
+export type InferRow<S extends string, Tables> =
+  Normalize<S> extends infer N extends string
+    ? Uppercase<Head<N>> extends "SELECT"
+      ? SplitAtFrom<SkipDistinct<Tail<StripSemicolon<N>>>> extends [
+          infer Cols extends string,
+          infer From extends string,
+        ]
+        ? ParseSources<From, Tables> extends infer Sources extends Source[]
+          ? HasKnownSource<Sources> extends true
+            ? BuildRow<SplitColumns<Cols>, Sources>
+            : Row
+          : Row
+        : Row
+      : Row
+    : Row;
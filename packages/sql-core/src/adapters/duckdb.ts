@@ -0,0 +1,92 @@
+import type { DuckDBValue } from "@duckdb/node-api";
+
+import { withTransactions } from "../transaction.js";
+import type { QueryResult, Row, SqlAdapter, SqlClient } from "../types.js";
+
+/** DuckDB configuration options, e.g. `{ threads: "4", access_mode: "READ_ONLY" }`. */
+export type DuckDBAdapterOptions = Record<string, string>;
+
+/** DuckDB cannot bind `Date` or `undefined` parameters. */
+function bindable(params: unknown[] | undefined): DuckDBValue[] | undefined {
+  return params?.map((value): DuckDBValue => {
+    if (value === undefined) return null;
+    if (value instanceof Date) return value.toISOString();
+    // anything else DuckDB cannot bind is rejected by the driver
+    return value as DuckDBValue;
+  });
+}
+
+/**
+ * Creates a {@link SqlAdapter} backed by DuckDB through `@duckdb/node-api`,
+ * running in-process.
+ *
+ * Clients of the same database file share one DuckDB instance, each with its
+ * own connection; every `:memory:` client gets a database of its own. The
+ * file stays locked until the last client closes — DuckDB lets a single
+ * process write to it.
+ *
+ * Values come back as JavaScript values: `BIGINT` as `bigint`, `DATE` and
+ * `TIMESTAMP` as `Date`. DuckDB has no savepoints, so transactions cannot
+ * be nested.
+ *
+ * @param path - Path to the database file, or `':memory:'` (the default)
+ * @param options - DuckDB configuration options
+ *
+ * @example
+ * ```ts
+ * import { test } from '@playwright-labs/fixture-sql';
+ * import { duckdbAdapter } from '@playwright-labs/sql-core/duckdb';
+ *
+ * test.use({ sqlAdapter: duckdbAdapter(':memory:') });
+ * ```
+ */
+export function duckdbAdapter(
+  path = ":memory:",
+  options?: DuckDBAdapterOptions,
+): SqlAdapter {
+  return {
+    async create(): Promise<SqlClient> {
+      const { DuckDBInstance, ResultReturnType } = await import("@duckdb/node-api");
+      const instance = await DuckDBInstance.fromCache(path, options);
+      const connection = await instance.connect();
+
+      return withTransactions(
+        {
+          dialect: "duckdb",
+
+          async query<T = Row>(
+            sql: string,
+            params?: unknown[],
+          ): Promise<QueryResult<T>> {
+            const reader = await connection.runAndReadAll(sql, bindable(params));
+            if (reader.returnType === ResultReturnType.CHANGED_ROWS) {
+              return { rows: [], rowCount: reader.rowsChanged };
+            }
+            const rows = reader.getRowObjectsJS() as T[];
+            return { rows, rowCount: rows.length };
+          },
+
+          async execute(sql: string, params?: unknown[]): Promise<void> {
+            await connection.run(sql, bindable(params));
+          },
+
+          async close(): Promise<void> {
+            connection.closeSync();
+            instance.closeSync();
+          },
+
+          async [Symbol.asyncDispose](): Promise<void> {
+            connection.closeSync();
+            instance.closeSync();
+          },
+        } as Omit<SqlClient, "transaction">,
+        async (statement) => {
+          if (statement.startsWith("SAVEPOINT")) {
+            throw new Error("duckdbAdapter: DuckDB has no savepoints — transactions cannot be nested");
+          }
+          await connection.run(statement);
+        },
+      );
+    },
+  };
+}
@@ -1,12 +1,39 @@
 import type { ConnectionOptions } from "mysql2/promise";
 
-import type { QueryResult, Row, SqlAdapter, SqlClient } from "../types.js";
+import { quoteIdent } from "../dialect.js";
+import { withTransactions } from "../transaction.js";
+import type {
+  QueryResult,
+  Row,
+  SqlAdapter,
+  SqlClient,
+  SqlSnapshot,
+} from "../types.js";
 
 export type MySqlAdapterConfig = ConnectionOptions | string;
 
+type TableDump = { name: string; ddl: string; columns: string[]; rows: unknown[][] };
+
+/** JSON columns come back parsed; everything else binds as returned. */
+function reloadable(value: unknown): unknown {
+  if (
+    value !== null &&
+    typeof value === "object" &&
+    !(value instanceof Date) &&
+    !Buffer.isBuffer(value)
+  ) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
 /**
  * Creates a {@link SqlAdapter} backed by the `mysql2` driver.
  *
+ * `snapshot()` dumps the DDL and rows of every table into memory; restoring
+ * drops the current tables and reloads the dump. Views, triggers and routines
+ * are not part of the snapshot.
+ *
  * @param config - A connection string (`mysql://...`) or a `mysql2.ConnectionOptions` object
  *
  * @example
@@ -23,31 +50,101 @@ export function mysqlAdapter(config: MySqlAdapterConfig): SqlAdapter {
       const mysql = await import("mysql2/promise");
       const connection = await (mysql as any).createConnection(config);
 
-      return {
-        async query<T = Row>(
-          sql: string,
-          params?: unknown[],
-        ): Promise<QueryResult<T>> {
-          const [rows] = await (connection as any).execute(sql, params);
-          const rowsArray = Array.isArray(rows) ? (rows as T[]) : [];
-          return {
-            rows: rowsArray,
-            rowCount: rowsArray.length,
-          };
-        },
+      return withTransactions(
+        {
+          dialect: "mysql",
 
-        async execute(sql: string, params?: unknown[]): Promise<void> {
-          await (connection as any).execute(sql, params);
-        },
+          async query<T = Row>(
+            sql: string,
+            params?: unknown[],
+          ): Promise<QueryResult<T>> {
+            const [rows] = await (connection as any).execute(sql, params);
+            const rowsArray = Array.isArray(rows) ? (rows as T[]) : [];
+            return {
+              rows: rowsArray,
+              rowCount: rowsArray.length,
+            };
+          },
+
+          async execute(sql: string, params?: unknown[]): Promise<void> {
+            await (connection as any).execute(sql, params);
+          },
 
-        async close(): Promise<void> {
-          await connection.end();
+          async close(): Promise<void> {
+            await connection.end();
+          },
+
+          async [Symbol.asyncDispose](): Promise<void> {
+            await connection.end();
+          },
+        } as Omit<SqlClient, "transaction">,
+        async (statement) => {
+          // transaction statements are not supported by the prepared-statement protocol
+          await (connection as any).query(statement);
         },
+      );
+    },
+
+    async snapshot(): Promise<SqlSnapshot> {
+      const mysql = await import("mysql2/promise");
+      const connect = () => (mysql as any).createConnection(config);
+      const listTables = async (connection: any): Promise<string[]> => {
+        const [rows] = await connection.query(
+          "SELECT TABLE_NAME AS name FROM information_schema.TABLES " +
+            "WHERE TABLE_SCHEMA = DATABASE() AND TABLE_TYPE = 'BASE TABLE'",
+        );
+        return (rows as { name: string }[]).map((row) => row.name);
+      };
 
-        async [Symbol.asyncDispose](): Promise<void> {
-          await connection.end();
+      let dump: TableDump[] = [];
+      const connection = await connect();
+      try {
+        for (const name of await listTables(connection)) {
+          const table = quoteIdent("mysql", name);
+          const [[created]] = await connection.query(`SHOW CREATE TABLE ${table}`);
+          const [rows, fields] = await connection.query({
+            sql: `SELECT * FROM ${table}`,
+            rowsAsArray: true,
+          });
+          dump.push({
+            name,
+            ddl: created["Create Table"],
+            columns: (fields as { name: string }[]).map((field) => field.name),
+            rows: rows as unknown[][],
+          });
+        }
+      } finally {
+        await connection.end();
+      }
+
+      return {
+        async restore() {
+          const connection = await connect();
+          try {
+            await connection.query("SET FOREIGN_KEY_CHECKS = 0");
+            for (const name of await listTables(connection)) {
+              await connection.query(`DROP TABLE ${quoteIdent("mysql", name)}`);
+            }
+            for (const { name, ddl, columns, rows } of dump) {
+              await connection.query(ddl);
+              const insert =
+                `INSERT INTO ${quoteIdent("mysql", name)} ` +
+                `(${columns.map((column) => quoteIdent("mysql", column)).join(", ")}) VALUES ?`;
+              // `VALUES ?` expands nested arrays into a multi-row insert
+              for (let i = 0; i < rows.length; i += 1000) {
+                const batch = rows.slice(i, i + 1000).map((row) => row.map(reloadable));
+                await connection.query(insert, [batch]);
+              }
+            }
+          } finally {
+            await connection.query("SET FOREIGN_KEY_CHECKS = 1").catch(() => {});
+            await connection.end();
+          }
+        },
+        async drop() {
+          dump = [];
         },
-      } as SqlClient;
+      };
     },
   };
 }
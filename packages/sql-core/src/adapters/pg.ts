@@ -1,12 +1,35 @@
 import type { ClientConfig } from "pg";
 
-import type { QueryResult, Row, SqlAdapter, SqlClient } from "../types.js";
+import { quoteIdent } from "../dialect.js";
+import { withTransactions } from "../transaction.js";
+import type {
+  QueryResult,
+  Row,
+  SqlAdapter,
+  SqlClient,
+  SqlSnapshot,
+} from "../types.js";
 
 export type PgAdapterConfig = ClientConfig | string;
 
+/** The same server, connected to the `postgres` maintenance database. */
+function maintenanceConfig(config: ClientConfig): ClientConfig {
+  if (!config.connectionString) return { ...config, database: "postgres" };
+  const url = new URL(config.connectionString);
+  url.pathname = "/postgres";
+  return { ...config, connectionString: url.toString() };
+}
+
 /**
  * Creates a {@link SqlAdapter} backed by the `pg` (node-postgres) driver.
  *
+ * `snapshot()` copies the database into a template database and restores by
+ * re-creating the database from it, owned by the same role as before. Both
+ * need the role to be allowed to create databases, terminate the other
+ * sessions of the database and — unless it owns the database — act as the
+ * owner (be a member of the owning role). The app under test has to
+ * reconnect after a restore.
+ *
  * @param config - A connection string (`postgresql://...`) or a `pg.ClientConfig` object
  *
  * @example
@@ -18,39 +41,94 @@ export type PgAdapterConfig = ClientConfig | string;
  * ```
  */
 export function pgAdapter(config: PgAdapterConfig): SqlAdapter {
+  const clientConfig: ClientConfig =
+    typeof config === "string" ? { connectionString: config } : config;
+
   return {
     async create(): Promise<SqlClient> {
       const { Client } = await import("pg");
-      const client = new Client(
-        typeof config === "string" ? { connectionString: config } : config,
-      );
+      const client = new Client(clientConfig);
       await client.connect();
 
-      return {
-        async query<T = Row>(
-          sql: string,
-          params?: unknown[],
-        ): Promise<QueryResult<T>> {
-          const result = await (client as any).query(sql, params as unknown[] | undefined);
-          return {
-            rows: result.rows as T[],
-            rowCount: result.rowCount ?? 0,
-            command: result.command,
-          };
-        },
+      return withTransactions(
+        {
+          dialect: "postgres",
 
-        async execute(sql: string, params?: unknown[]): Promise<void> {
-          await client.query(sql, params as unknown[] | undefined);
-        },
+          async query<T = Row>(
+            sql: string,
+            params?: unknown[],
+          ): Promise<QueryResult<T>> {
+            const result = await (client as any).query(sql, params as unknown[] | undefined);
+            return {
+              rows: result.rows as T[],
+              rowCount: result.rowCount ?? 0,
+              command: result.command,
+            };
+          },
 
-        async close(): Promise<void> {
-          await client.end();
+          async execute(sql: string, params?: unknown[]): Promise<void> {
+            await client.query(sql, params as unknown[] | undefined);
+          },
+
+          async close(): Promise<void> {
+            await client.end();
+          },
+
+          async [Symbol.asyncDispose](): Promise<void> {
+            await client.end();
+          },
+        } as Omit<SqlClient, "transaction">,
+        async (statement) => {
+          await client.query(statement);
         },
+      );
+    },
+
+    async snapshot(): Promise<SqlSnapshot> {
+      const { Client } = await import("pg");
+      const probe = new Client(clientConfig);
+      await probe.connect();
+      const { name: database, owner }: { name: string; owner: string } = await probe
+        .query(
+          "SELECT datname AS name, pg_get_userbyid(datdba) AS owner FROM pg_database WHERE datname = current_database()",
+        )
+        .then((result) => result.rows[0])
+        .finally(() => probe.end());
+      const template = `${database.slice(0, 40)}_snapshot_${Date.now().toString(36)}`;
 
-        async [Symbol.asyncDispose](): Promise<void> {
+      // CREATE DATABASE … TEMPLATE fails while anyone else is connected
+      const admin = async (statements: string[], terminate = true) => {
+        const client = new Client(maintenanceConfig(clientConfig));
+        await client.connect();
+        try {
+          if (terminate) {
+            await client.query(
+              "SELECT pg_terminate_backend(pid) FROM pg_stat_activity WHERE datname = $1 AND pid <> pg_backend_pid()",
+              [database],
+            );
+          }
+          for (const statement of statements) await client.query(statement);
+        } finally {
           await client.end();
+        }
+      };
+
+      const db = quoteIdent("postgres", database);
+      const copy = quoteIdent("postgres", template);
+      await admin([`CREATE DATABASE ${copy} TEMPLATE ${db}`]);
+
+      return {
+        async restore() {
+          // the re-created database keeps its owner, not the connecting role
+          await admin([
+            `DROP DATABASE IF EXISTS ${db}`,
+            `CREATE DATABASE ${db} OWNER ${quoteIdent("postgres", owner)} TEMPLATE ${copy}`,
+          ]);
+        },
+        async drop() {
+          await admin([`DROP DATABASE IF EXISTS ${copy}`], false);
         },
-      } as SqlClient;
+      };
     },
   };
 }
@@ -0,0 +1,83 @@
+import type { PGlite, PGliteOptions } from "@electric-sql/pglite";
+
+import { withTransactions } from "../transaction.js";
+import type { QueryResult, Row, SqlAdapter, SqlClient } from "../types.js";
+
+/**
+ * A data directory (`./pgdata`, `memory://`, `idb://…`), PGlite options, or
+ * a running `PGlite` instance to share between clients.
+ */
+export type PgliteAdapterConfig = string | PGliteOptions | PGlite;
+
+function isPGlite(config: PgliteAdapterConfig | undefined): config is PGlite {
+  return typeof config === "object" && typeof (config as PGlite).query === "function";
+}
+
+/**
+ * Creates a {@link SqlAdapter} backed by PGlite — PostgreSQL compiled to
+ * WASM, running in-process. Use it to run Postgres SQL without a server.
+ *
+ * Every `create()` starts its own database unless you pass a `PGlite`
+ * instance: then all clients share it (and its single connection), and
+ * closing a client leaves the instance open.
+ *
+ * @param config - A data directory, `PGliteOptions`, or a `PGlite` instance; in-memory by default
+ *
+ * @example
+ * ```ts
+ * import { test } from '@playwright-labs/fixture-sql';
+ * import { pgliteAdapter } from '@playwright-labs/sql-core/pglite';
+ *
+ * test.use({ sqlAdapter: pgliteAdapter() });
+ * ```
+ */
+export function pgliteAdapter(config?: PgliteAdapterConfig): SqlAdapter {
+  return {
+    async create(): Promise<SqlClient> {
+      let db: PGlite;
+      if (isPGlite(config)) {
+        db = config;
+      } else {
+        const { PGlite } = await import("@electric-sql/pglite");
+        db = typeof config === "string" ? new PGlite(config) : new PGlite(config);
+      }
+      await db.waitReady;
+      // a shared instance belongs to the caller
+      const owned = !isPGlite(config);
+
+      return withTransactions(
+        {
+          dialect: "postgres",
+
+          async query<T = Row>(
+            sql: string,
+            params?: unknown[],
+          ): Promise<QueryResult<T>> {
+            const result = await db.query<T>(sql, params);
+            return {
+              rows: result.rows,
+              rowCount: result.affectedRows || result.rows.length,
+            };
+          },
+
+          async execute(sql: string, params?: unknown[]): Promise<void> {
+            // like pg's simple query protocol, a script without params may hold several statements
+            if (params?.length) await db.query(sql, params);
+            else await db.exec(sql);
+          },
+
+          async close(): Promise<void> {
+            if (owned && !db.closed) await db.close();
+          },
+
+          async [Symbol.asyncDispose](): Promise<void> {
+            if (owned && !db.closed) await db.close();
+          },
+        } as Omit<SqlClient, "transaction">,
+        async (statement) => {
+          await db.exec(statement);
+        },
+      );
+    },
+  };
+}
@@ -1,4 +1,15 @@
-import type { QueryResult, Row, SqlAdapter, SqlClient } from "../types.js";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { withTransactions } from "../transaction.js";
+import type {
+  QueryResult,
+  Row,
+  SqlAdapter,
+  SqlClient,
+  SqlSnapshot,
+} from "../types.js";
 
 /**
  * Creates a {@link SqlAdapter} backed by the `better-sqlite3` driver.
@@ -6,6 +17,10 @@ import type { QueryResult, Row, SqlAdapter, SqlClient } from "../types.js";
  * SQLite is synchronous under the hood; the returned {@link SqlClient} methods
  * are wrapped in Promises for API consistency with other adapters.
  *
+ * `snapshot()` copies the database with `VACUUM INTO` and restores it with
+ * SQLite's online backup API, so open connections see the restored data.
+ * It needs a file database: every `:memory:` connection is its own database.
+ *
  * @param filename - Path to the SQLite database file, or `':memory:'` for an in-memory database
  *
  * @example
@@ -22,29 +37,66 @@ export function sqliteAdapter(filename: string): SqlAdapter {
       const { default: Database } = await import("better-sqlite3");
       const db = new Database(filename);
 
-      return {
-        async query<T = Row>(
-          sql: string,
-          params?: unknown[],
-        ): Promise<QueryResult<T>> {
-          const stmt = db.prepare(sql);
-          const rows = stmt.all(...(params ?? [])) as T[];
-          return { rows, rowCount: rows.length };
-        },
+      return withTransactions(
+        {
+          dialect: "sqlite",
 
-        async execute(sql: string, params?: unknown[]): Promise<void> {
-          const stmt = db.prepare(sql);
-          stmt.run(...(params ?? []));
-        },
+          async query<T = Row>(
+            sql: string,
+            params?: unknown[],
+          ): Promise<QueryResult<T>> {
+            const stmt = db.prepare(sql);
+            const rows = stmt.all(...(params ?? [])) as T[];
+            return { rows, rowCount: rows.length };
+          },
+
+          async execute(sql: string, params?: unknown[]): Promise<void> {
+            const stmt = db.prepare(sql);
+            stmt.run(...(params ?? []));
+          },
+
+          async close(): Promise<void> {
+            db.close();
+          },
 
-        async close(): Promise<void> {
-          db.close();
+          async [Symbol.asyncDispose](): Promise<void> {
+            db.close();
+          },
+        } as Omit<SqlClient, "transaction">,
+        async (statement) => {
+          db.exec(statement);
         },
+      );
+    },
+
+    async snapshot(): Promise<SqlSnapshot> {
+      if (filename === ":memory:" || filename === "") {
+        throw new Error("sqliteAdapter: snapshot() needs a file database, not :memory:");
+      }
+      const { default: Database } = await import("better-sqlite3");
+      const dir = await mkdtemp(join(tmpdir(), "sql-core-snapshot-"));
+      const path = join(dir, "snapshot.db");
 
-        async [Symbol.asyncDispose](): Promise<void> {
-          db.close();
+      const db = new Database(filename);
+      try {
+        db.prepare("VACUUM INTO ?").run(path);
+      } finally {
+        db.close();
+      }
+
+      return {
+        async restore() {
+          const snapshot = new Database(path, { readonly: true });
+          try {
+            await snapshot.backup(filename);
+          } finally {
+            snapshot.close();
+          }
+        },
+        async drop() {
+          await rm(dir, { recursive: true, force: true });
         },
-      } as SqlClient;
+      };
     },
   };
 }
@@ -0,0 +1,15 @@
+import type { SqlDialect } from "./types.js";
+
+/** Placeholder for the `index`-th (0-based) parameter. */
+export function placeholder(dialect: SqlDialect | undefined, index: number): string {
+  return dialect === "postgres" ? `$${index + 1}` : "?";
+}
+
+/** Quotes a table or column name; `schema.table` is quoted per part. */
+export function quoteIdent(dialect: SqlDialect | undefined, name: string): string {
+  const quote = dialect === "mysql" ? "`" : '"';
+  return name
+    .split(".")
+    .map((part) => `${quote}${part.replaceAll(quote, quote + quote)}${quote}`)
+    .join(".");
+}
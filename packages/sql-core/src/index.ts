@@ -1,13 +1,43 @@
 export { sql } from "./sql-tag.js";
+export {
+  withTransactions,
+  TransactionRollbackError,
+  isTransactionRollback,
+  type TransactionControl,
+} from "./transaction.js";
+export {
+  loadMigrations,
+  migrate,
+  migrateDown,
+  migrationStatus,
+  splitStatements,
+  MigrationDriftError,
+  type Migration,
+  type MigrationModule,
+  type MigrationStep,
+  type MigrateOptions,
+  type MigrationState,
+  type MigrationStatus,
+} from "./migrate.js";
+export { loadSeed, seed, type SeedData, type SeedOptions } from "./seed.js";
 export type {
   Row,
   QueryResult,
   SqlClient,
+  SqlDialect,
+  SqlTransaction,
   SqlAdapter,
+  SqlSnapshot,
   SqlStatement,
+  SqlTag,
   StmtParams,
+  StmtRow,
   SQLParams,
+  Register,
+  RegisteredTables,
+  ResultRow,
 } from "./types.js";
+export type { InferRow } from "./SQLRow.js";
 export type {
   Trim,
   Head,
@@ -0,0 +1,452 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+
+import { placeholder, quoteIdent } from "./dialect.js";
+import type { SqlClient, SqlDialect } from "./types.js";
+
+/** SQL text — split into statements — or a function run against the client. */
+export type MigrationStep = string | ((client: SqlClient) => Promise<void>);
+
+export interface Migration {
+  /** Sort key and bookkeeping id, e.g. `001_create_users`. */
+  id: string;
+  up: MigrationStep;
+  down?: MigrationStep;
+  /** Hash of the migration source; a changed checksum of an applied migration is drift. */
+  checksum: string;
+}
+
+/**
+ * Shape of a TS / JS migration module in the migrations directory.
+ *
+ * @example
+ * ```ts
+ * // migrations/002_backfill_names.ts
+ * import type { MigrationModule } from "@playwright-labs/sql-core";
+ *
+ * export const up: MigrationModule["up"] = async (client) => {
+ *   await client.execute("UPDATE users SET name = email WHERE name IS NULL");
+ * };
+ * ```
+ */
+export interface MigrationModule {
+  up(client: SqlClient): Promise<void>;
+  down?(client: SqlClient): Promise<void>;
+}
+
+export type MigrateOptions = {
+  /** Directory with the migration files. Ignored when `migrations` is given. */
+  dir?: string;
+  /** Migrations to run instead of loading `dir`. */
+  migrations?: Migration[];
+  /**
+   * Bookkeeping table for applied migrations; created on first use.
+   * @default "_migrations"
+   */
+  table?: string;
+};
+
+/**
+ * - `applied` — recorded in the bookkeeping table, unchanged
+ * - `pending` — not applied yet
+ * - `drifted` — applied, but the file changed since
+ * - `missing` — applied, but no longer on disk
+ */
+export type MigrationState = "applied" | "pending" | "drifted" | "missing";
+
+export type MigrationStatus = {
+  id: string;
+  state: MigrationState;
+  /** ISO timestamp; set for everything but `pending`. */
+  appliedAt?: string;
+};
+
+/** Thrown by {@link migrate} when applied migrations were edited afterwards. */
+export class MigrationDriftError extends Error {
+  constructor(readonly ids: string[]) {
+    super(
+      `Applied migrations changed on disk: ${ids.join(", ")}. ` +
+        "Restore them or add a new migration instead.",
+    );
+    this.name = "MigrationDriftError";
+  }
+}
+
+const MODULE_EXTENSIONS = [".ts", ".mts", ".cts", ".js", ".mjs", ".cjs"];
+const UP_MARKER = /^--\s*migrate:up\s*$/im;
+const DOWN_MARKER = /^--\s*migrate:down\s*$/im;
+
+function checksum(source: string): string {
+  return createHash("sha256").update(source).digest("hex");
+}
+
+/** `-- migrate:up` / `-- migrate:down` sections; the whole file is `up` without markers. */
+function parseSqlMigration(source: string): Pick<Migration, "up" | "down"> {
+  const down = source.split(DOWN_MARKER);
+  const up = down[0].split(UP_MARKER);
+  return { up: up[up.length - 1], down: down[1] };
+}
+
+/**
+ * Imports a migration module. Node.js runs `.ts` files only with type
+ * stripping (22.18+, or 22.6+ with `--experimental-strip-types`); without
+ * it the error names the way out instead of an unknown file extension.
+ */
+async function importMigration(path: string, file: string): Promise<any> {
+  try {
+    return await import(pathToFileURL(path).href);
+  } catch (error) {
+    if ((error as { code?: string }).code !== "ERR_UNKNOWN_FILE_EXTENSION") throw error;
+    throw new Error(
+      `Cannot load TypeScript migration "${file}": this Node.js version does not run .ts files. ` +
+        'Run the migrations through tsx (e.g. NODE_OPTIONS="--import tsx") or use Node.js 22.18+.',
+      { cause: error },
+    );
+  }
+}
+
+/**
+ * Reads a migrations directory, sorted by file name:
+ *
+ * - `001_init.sql` — optionally split by `-- migrate:up` / `-- migrate:down` lines
+ * - `001_init.up.sql` + `001_init.down.sql`
+ * - `001_init.ts` (or `.js`, `.mjs`, …) — exports `up` and optionally `down`,
+ *   see {@link MigrationModule}
+ */
+export async function loadMigrations(dir: string): Promise<Migration[]> {
+  const root = resolve(dir);
+  const files = (await readdir(root)).sort((a, b) =>
+    a.localeCompare(b, "en", { numeric: true }),
+  );
+  const migrations = new Map<string, Migration>();
+  const add = (migration: Migration, file: string) => {
+    if (migrations.has(migration.id)) {
+      throw new Error(`Duplicate migration "${migration.id}" (${file})`);
+    }
+    migrations.set(migration.id, migration);
+  };
+
+  for (const file of files) {
+    const path = join(root, file);
+    if (file.endsWith(".down.sql")) {
+      const id = file.slice(0, -".down.sql".length);
+      if (!files.includes(`${id}.up.sql`)) {
+        throw new Error(`Migration "${file}" has no matching "${id}.up.sql"`);
+      }
+    } else if (file.endsWith(".up.sql")) {
+      const id = file.slice(0, -".up.sql".length);
+      const up = await readFile(path, "utf8");
+      const down = files.includes(`${id}.down.sql`)
+        ? await readFile(join(root, `${id}.down.sql`), "utf8")
+        : undefined;
+      add({ id, up, down, checksum: checksum(up) }, file);
+    } else if (file.endsWith(".sql")) {
+      const source = await readFile(path, "utf8");
+      add({ id: file.slice(0, -4), ...parseSqlMigration(source), checksum: checksum(source) }, file);
+    } else {
+      const extension = MODULE_EXTENSIONS.find(
+        (ext) => file.endsWith(ext) && !file.endsWith(`.d${ext}`),
+      );
+      if (!extension) continue;
+      const loaded = await importMigration(path, file);
+      const module: Partial<MigrationModule> = loaded.up ? loaded : loaded.default ?? {};
+      if (typeof module.up !== "function") {
+        throw new Error(`Migration module "${file}" does not export an up() function`);
+      }
+      add(
+        {
+          id: file.slice(0, -extension.length),
+          up: module.up,
+          down: module.down,
+          checksum: checksum(await readFile(path, "utf8")),
+        },
+        file,
+      );
+    }
+  }
+  return [...migrations.values()];
+}
+
+/**
+ * Splits a SQL script into statements on `;`, skipping semicolons inside
+ * quotes, comments, PostgreSQL `$$` bodies and `CREATE TRIGGER … END`.
+ * Backslash escapes are honoured in MySQL strings and PostgreSQL `E'…'`
+ * strings. Empty and comment-only statements are dropped.
+ */
+export function splitStatements(script: string, dialect?: SqlDialect): string[] {
+  const statements: string[] = [];
+  let start = 0;
+  let code = ""; // the current statement without strings and comments
+
+  for (let i = 0; i < script.length; i++) {
+    const char = script[i];
+    const next = script[i + 1];
+
+    if (char === "-" && next === "-") {
+      const end = script.indexOf("\n", i);
+      i = end === -1 ? script.length : end;
+    } else if (char === "/" && next === "*") {
+      const end = script.indexOf("*/", i + 2);
+      i = end === -1 ? script.length : end + 1;
+    } else if (char === "'" || char === '"' || char === "`") {
+      // a doubled quote is an escaped one and simply reopens the string
+      const escapes =
+        char !== "`" &&
+        (dialect === "mysql" || (char === "'" && /(?:^|\W)[Ee]$/.test(script.slice(Math.max(0, i - 2), i))));
+      let end = i + 1;
+      while (end < script.length && script[end] !== char) {
+        end += escapes && script[end] === "\\" ? 2 : 1;
+      }
+      i = Math.min(end, script.length);
+      code += " ";
+    } else if (char === "$" && /^\$(?:[A-Za-z_]\w*)?\$/.test(script.slice(i))) {
+      const tag = script.slice(i).match(/^\$(?:[A-Za-z_]\w*)?\$/)![0];
+      const end = script.indexOf(tag, i + tag.length);
+      i = end === -1 ? script.length : end + tag.length - 1;
+      code += " ";
+    } else if (char === ";") {
+      const inTrigger =
+        /^\s*CREATE\s+(?:TEMP\w*\s+)?TRIGGER\b/i.test(code) && !/\bEND\s*$/i.test(code);
+      if (!inTrigger) {
+        if (code.trim()) statements.push(script.slice(start, i).trim());
+        start = i + 1;
+        code = "";
+      } else code += char;
+    } else {
+      code += char;
+    }
+  }
+  if (code.trim()) statements.push(script.slice(start).trim());
+  return statements;
+}
+
+async function runStep(client: SqlClient, step: MigrationStep): Promise<void> {
+  if (typeof step === "function") return step(client);
+  for (const statement of splitStatements(step, client.dialect)) {
+    await client.execute(statement);
+  }
+}
+
+type AppliedRow = { id: string; checksum: string; applied_at: string };
+
+async function prepare(client: SqlClient, options: MigrateOptions) {
+  const migrations =
+    options.migrations ??
+    (options.dir != null ? await loadMigrations(options.dir) : undefined);
+  if (!migrations) throw new Error("Pass either `dir` or `migrations`");
+
+  const table = quoteIdent(client.dialect, options.table ?? "_migrations");
+  return { migrations, table };
+}
+
+/** The bookkeeping rows by id; creates the table on first use. */
+async function readApplied(client: SqlClient, table: string): Promise<Map<string, AppliedRow>> {
+  await client.execute(
+    `CREATE TABLE IF NOT EXISTS ${table} (` +
+      "id VARCHAR(255) PRIMARY KEY, checksum VARCHAR(64) NOT NULL, applied_at VARCHAR(32) NOT NULL)",
+  );
+  const { rows } = await client.query<AppliedRow>(
+    `SELECT id, checksum, applied_at FROM ${table} ORDER BY id`,
+  );
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+/**
+ * Runs `fn` with the applied migrations, read while holding a lock on the
+ * bookkeeping table: concurrent runs against one database — every
+ * Playwright worker migrating on start — wait for each other, and the later
+ * ones find the migrations already applied.
+ *
+ * - PostgreSQL: a session-level `pg_advisory_lock`
+ * - MySQL: `GET_LOCK`
+ * - SQLite: one write transaction for the whole run, each migration a
+ *   savepoint in it. The first statement writes, which takes the database
+ *   lock like `BEGIN IMMEDIATE`. Other processes wait up to the connection's
+ *   busy timeout (5 s in better-sqlite3)
+ *
+ * DuckDB opens a database file for writing from one process only, and custom
+ * adapters without a `dialect` get no lock.
+ */
+async function withMigrationLock<T>(
+  client: SqlClient,
+  table: string,
+  fn: (applied: Map<string, AppliedRow>) => Promise<T>,
+): Promise<T> {
+  switch (client.dialect) {
+    case "postgres": {
+      await client.query("SELECT pg_advisory_lock(hashtext($1))", [table]);
+      try {
+        return await fn(await readApplied(client, table));
+      } finally {
+        await client.query("SELECT pg_advisory_unlock(hashtext($1))", [table]);
+      }
+    }
+    case "mysql": {
+      const { rows } = await client.query<{ locked: number | null }>(
+        "SELECT GET_LOCK(?, -1) AS locked",
+        [table],
+      );
+      if (Number(rows[0]?.locked) !== 1) {
+        throw new Error(`Could not take the migration lock on ${table}`);
+      }
+      try {
+        return await fn(await readApplied(client, table));
+      } finally {
+        await client.query("SELECT RELEASE_LOCK(?)", [table]);
+      }
+    }
+    case "sqlite":
+      // CREATE TABLE IF NOT EXISTS writes even when the table exists
+      return client.transaction(async () => fn(await readApplied(client, table)));
+    default:
+      return fn(await readApplied(client, table));
+  }
+}
+
+/**
+ * Runs `steps` in order, each in its own transaction, until one fails.
+ * Under SQLite's run-wide lock transaction a failure must not undo the
+ * steps before it, so the error is returned for the caller to rethrow once
+ * the lock is released.
+ */
+async function runEach<T>(
+  client: SqlClient,
+  items: T[],
+  step: (tx: SqlClient, item: T) => Promise<void>,
+): Promise<{ done: T[]; error?: unknown }> {
+  const done: T[] = [];
+  for (const item of items) {
+    try {
+      await client.transaction((tx) => step(tx, item));
+    } catch (error) {
+      return { done, error };
+    }
+    done.push(item);
+  }
+  return { done };
+}
+
+/** Applied, pending, drifted and missing migrations, in order. */
+export async function migrationStatus(
+  client: SqlClient,
+  options: MigrateOptions,
+): Promise<MigrationStatus[]> {
+  const { migrations, table } = await prepare(client, options);
+  const applied = await readApplied(client, table);
+  const known = new Set(migrations.map((m) => m.id));
+  const status: MigrationStatus[] = migrations.map(({ id, checksum }) => {
+    const row = applied.get(id);
+    if (!row) return { id, state: "pending" };
+    const state = row.checksum === checksum ? "applied" : "drifted";
+    return { id, state, appliedAt: row.applied_at };
+  });
+  for (const row of applied.values()) {
+    if (!known.has(row.id)) {
+      status.push({ id: row.id, state: "missing", appliedAt: row.applied_at });
+    }
+  }
+  return status.sort((a, b) => a.id.localeCompare(b.id, "en", { numeric: true }));
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction together
+ * with its bookkeeping row. Returns the ids of the applied migrations.
+ * MySQL commits DDL implicitly, so there a failing migration can leave its
+ * earlier statements applied.
+ *
+ * Safe to run from several processes against one database at once: the run
+ * holds a lock — an advisory lock on PostgreSQL, `GET_LOCK` on MySQL, a write
+ * transaction on SQLite — and reads the applied migrations inside it.
+ *
+ * @throws {MigrationDriftError} when an applied migration changed on disk
+ *
+ * @example
+ * ```ts
+ * await using client = await sqliteAdapter("./test.db").create();
+ * await migrate(client, { dir: "./migrations" });
+ * ```
+ */
+export async function migrate(
+  client: SqlClient,
+  options: MigrateOptions & {
+    /** Stop after this migration. */
+    to?: string;
+  },
+): Promise<string[]> {
+  const { migrations, table } = await prepare(client, options);
+  if (options.to != null && !migrations.some((m) => m.id === options.to)) {
+    throw new Error(`Unknown migration "${options.to}"`);
+  }
+
+  const { done, error } = await withMigrationLock(client, table, async (applied) => {
+    const drifted = migrations
+      .filter((m) => applied.has(m.id) && applied.get(m.id)!.checksum !== m.checksum)
+      .map((m) => m.id);
+    if (drifted.length > 0) throw new MigrationDriftError(drifted);
+
+    const last = options.to == null ? migrations.length : migrations.findIndex((m) => m.id === options.to) + 1;
+    const pending = migrations.slice(0, last).filter((m) => !applied.has(m.id));
+    return runEach(client, pending, async (tx, migration) => {
+      await runStep(tx, migration.up);
+      await tx.execute(
+        `INSERT INTO ${table} (id, checksum, applied_at) VALUES (${[0, 1, 2]
+          .map((i) => placeholder(client.dialect, i))
+          .join(", ")})`,
+        [migration.id, migration.checksum, new Date().toISOString()],
+      );
+    });
+  });
+  if (error) throw error;
+  return done.map((m) => m.id);
+}
+
+/**
+ * Reverts applied migrations, newest first — the last one by default.
+ * Returns the ids of the reverted migrations.
+ */
+export async function migrateDown(
+  client: SqlClient,
+  options: MigrateOptions & {
+    /**
+     * Number of migrations to revert.
+     * @default 1
+     */
+    steps?: number;
+    /** Revert everything applied after this migration (it stays applied). */
+    to?: string;
+  },
+): Promise<string[]> {
+  const { migrations, table } = await prepare(client, options);
+  const byId = new Map(migrations.map((m) => [m.id, m]));
+
+  const { done, error } = await withMigrationLock(client, table, async (applied) => {
+    const ids = [...applied.keys()]
+      .sort((a, b) => b.localeCompare(a, "en", { numeric: true }));
+    let targets: string[];
+    if (options.to != null) {
+      if (!applied.has(options.to)) {
+        throw new Error(`Migration "${options.to}" is not applied`);
+      }
+      targets = ids.slice(0, ids.indexOf(options.to));
+    } else {
+      targets = ids.slice(0, options.steps ?? 1);
+    }
+
+    return runEach(client, targets, async (tx, id) => {
+      const down = byId.get(id)?.down;
+      if (!down) {
+        throw new Error(
+          byId.has(id)
+            ? `Migration "${id}" has no down step`
+            : `Migration "${id}" is applied but missing on disk`,
+        );
+      }
+      await runStep(tx, down);
+      await tx.execute(`DELETE FROM ${table} WHERE id = ${placeholder(client.dialect, 0)}`, [id]);
+    });
+  });
+  if (error) throw error;
+  return done;
+}
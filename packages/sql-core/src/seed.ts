@@ -0,0 +1,119 @@
+import { readFile } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+
+import { placeholder, quoteIdent } from "./dialect.js";
+import type { Row, SqlClient } from "./types.js";
+
+/**
+ * Rows to insert, keyed by table and inserted in key order — list parent
+ * tables before the tables referencing them.
+ *
+ * @example
+ * ```yaml
+ * users:
+ *   - { id: 1, name: Alice }
+ * posts:
+ *   - { id: 1, user_id: 1, title: Hello }
+ * ```
+ */
+export type SeedData = Record<string, Row[]>;
+
+export type SeedOptions = {
+  /**
+   * Delete all rows of the seeded tables first, children before parents.
+   * @default false
+   */
+  truncate?: boolean;
+};
+
+/** Reads a `.json`, `.yaml` or `.yml` seed file. YAML needs the `yaml` package. */
+export async function loadSeed(file: string): Promise<SeedData> {
+  const path = resolve(file);
+  const source = await readFile(path, "utf8");
+  const extension = extname(path).toLowerCase();
+
+  let data: unknown;
+  if (extension === ".json") {
+    data = JSON.parse(source);
+  } else if (extension === ".yaml" || extension === ".yml") {
+    let yaml: typeof import("yaml");
+    try {
+      yaml = await import("yaml");
+    } catch (cause) {
+      throw new Error(`Install "yaml" to load YAML seeds (${file})`, { cause });
+    }
+    data = yaml.parse(source);
+  } else {
+    throw new Error(`Unsupported seed file "${file}" — use .json, .yaml or .yml`);
+  }
+
+  if (data == null) return {};
+  if (
+    typeof data !== "object" ||
+    Array.isArray(data) ||
+    !Object.values(data).every(Array.isArray)
+  ) {
+    throw new Error(`Seed file "${file}" must map table names to lists of rows`);
+  }
+  return data as SeedData;
+}
+
+/** Converts a value to something every driver can bind. */
+function bindable(client: SqlClient, value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) {
+    return client.dialect === "sqlite" ? value.toISOString() : value;
+  }
+  if (typeof value === "boolean" && client.dialect === "sqlite") return value ? 1 : 0;
+  if (typeof value === "object" && value !== null && !ArrayBuffer.isView(value)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Inserts seed rows — from files or inline — in a single transaction.
+ * Files are loaded with {@link loadSeed} and applied in the given order.
+ * Returns the number of inserted rows per table.
+ *
+ * @example
+ * ```ts
+ * await seed(client, ["./seeds/users.yaml", "./seeds/orders.json"], { truncate: true });
+ * await seed(client, { users: [{ id: 1, name: "Alice" }] });
+ * ```
+ */
+export async function seed(
+  client: SqlClient,
+  source: string | string[] | SeedData,
+  options: SeedOptions = {},
+): Promise<Record<string, number>> {
+  const sets =
+    typeof source === "string" || Array.isArray(source)
+      ? await Promise.all([source].flat().map(loadSeed))
+      : [source];
+  const tables = [...new Set(sets.flatMap((set) => Object.keys(set)))];
+  const inserted: Record<string, number> = {};
+
+  await client.transaction(async (tx) => {
+    if (options.truncate) {
+      for (const table of [...tables].reverse()) {
+        await tx.execute(`DELETE FROM ${quoteIdent(client.dialect, table)}`);
+      }
+    }
+    for (const set of sets) {
+      for (const [table, rows] of Object.entries(set)) {
+        for (const row of rows) {
+          const columns = Object.keys(row);
+          await tx.execute(
+            `INSERT INTO ${quoteIdent(client.dialect, table)} ` +
+              `(${columns.map((c) => quoteIdent(client.dialect, c)).join(", ")}) ` +
+              `VALUES (${columns.map((_, i) => placeholder(client.dialect, i)).join(", ")})`,
+            columns.map((c) => bindable(client, row[c])),
+          );
+        }
+        inserted[table] = (inserted[table] ?? 0) + rows.length;
+      }
+    }
+  });
+  return inserted;
+}
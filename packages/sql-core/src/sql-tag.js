@@ -1,5 +1,4 @@
-/** @import { SQLParams } from "./SQLType.js" */
-/** @import { SqlStatement } from "./types.js" */
+/** @import { SqlTag } from "./types.js" */
 
 /**
  * Tagged template literal **or** plain string/array call for SQL queries.
@@ -9,8 +8,8 @@
  * | Form                        | T inferred as            | Return type          |
  * |-----------------------------|--------------------------|----------------------|
  * | `` sql`SELECT …` ``         | `TemplateStringsArray`   | `string`             |
- * | `sql("SELECT …")`           | literal string `S`       | `SqlStatement<P>`    |
- * | `sql(["SELECT …"])`         | literal tuple `[S]`      | `SqlStatement<P>`    |
+ * | `sql("SELECT …")`           | literal string `S`       | `SqlStatement<P, R>` |
+ * | `sql(["SELECT …"])`         | literal tuple `[S]`      | `SqlStatement<P, R>` |
  * | `sql(["part1", "part2"])`   | two-element tuple        | `string`             |
  *
  * TypeScript always infers `TemplateStringsArray` for tagged template `strings`
@@ -18,6 +17,9 @@
  * inference.  Mutable `string[]` literals DO preserve literal tuple types under
  * `const` inference, enabling compile-time SQL validation for the array form.
  *
+ * The row type `R` is inferred from the registered schema (see `Register`);
+ * without one it is the generic `Row`.
+ *
  * @example
  * ```js
  * const q1 = sql`SELECT * FROM users WHERE id = ?`; // string
@@ -27,15 +29,7 @@
  * const q5 = sql("SELEC * FROM users"); // never (invalid SQL)
  * ```
  *
- * @type {<const T extends TemplateStringsArray | string | string[]>(strings: T, ...values: readonly unknown[]) =>
- *   T extends TemplateStringsArray
- *     ? string
- *     : T extends string
- *       ? (SQLParams<T> extends never ? never : SqlStatement<SQLParams<T>>)
- *       : T extends readonly [infer S extends string]
- *         ? (SQLParams<S> extends never ? never : SqlStatement<SQLParams<S>>)
- *         : string
- * }
+ * @type {SqlTag}
  */
 export const sql = /** @type {any} */ (
   /** @param {any} strings @param {...any} values */
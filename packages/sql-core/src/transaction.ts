@@ -0,0 +1,98 @@
+import type { SqlClient, SqlTransaction } from "./types.js";
+
+/**
+ * Thrown by {@link SqlTransaction.rollback}. `transaction()` rolls back and
+ * rethrows it, so the caller can tell an intentional rollback from a failure.
+ */
+export class TransactionRollbackError extends Error {
+  constructor() {
+    super("Transaction rolled back");
+    this.name = "TransactionRollbackError";
+  }
+}
+
+/**
+ * Whether `error` is a {@link TransactionRollbackError}. Prefer it over
+ * `instanceof`: every sql-core entry point (`/sqlite`, `/pg`, …) is bundled
+ * separately and carries its own copy of the class.
+ */
+export function isTransactionRollback(
+  error: unknown,
+): error is TransactionRollbackError {
+  return error instanceof Error && error.name === "TransactionRollbackError";
+}
+
+/**
+ * Runs a transaction-control statement (`BEGIN`, `SAVEPOINT sp_1`, …) on the
+ * client's connection. Drivers whose `execute` uses prepared statements
+ * (mysql2) must send these as plain queries.
+ */
+export type TransactionControl = (statement: string) => Promise<void>;
+
+/**
+ * Adds {@link SqlClient.transaction} to a client that only knows how to
+ * query. The outermost transaction uses `BEGIN` / `COMMIT` / `ROLLBACK`;
+ * nested ones — through the `tx` handle or the client itself — become
+ * savepoints, so an inner failure only undoes the inner work.
+ *
+ * Use it in a custom adapter to get the same semantics as the built-in ones.
+ *
+ * @example
+ * ```ts
+ * return withTransactions(
+ *   { query, execute, close, [Symbol.asyncDispose]: close },
+ *   (statement) => conn.query(statement),
+ * );
+ * ```
+ */
+export function withTransactions(
+  client: Omit<SqlClient, "transaction">,
+  control: TransactionControl,
+): SqlClient {
+  // savepoints nest per connection, whichever handle started them
+  let depth = 0;
+
+  async function transaction<T>(
+    fn: (tx: SqlTransaction) => Promise<T>,
+  ): Promise<T> {
+    const level = depth++;
+    const savepoint = `sp_${level}`;
+    try {
+      await control(level === 0 ? "BEGIN" : `SAVEPOINT ${savepoint}`);
+    } catch (error) {
+      depth--;
+      throw error;
+    }
+
+    try {
+      const result = await fn(tx);
+      await control(level === 0 ? "COMMIT" : `RELEASE SAVEPOINT ${savepoint}`);
+      return result;
+    } catch (error) {
+      if (level === 0) {
+        await control("ROLLBACK");
+      } else {
+        await control(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+        await control(`RELEASE SAVEPOINT ${savepoint}`);
+      }
+      throw error;
+    } finally {
+      depth = level;
+    }
+  }
+
+  const tx = {
+    dialect: client.dialect,
+    query: client.query,
+    execute: client.execute,
+    transaction,
+    rollback(): never {
+      throw new TransactionRollbackError();
+    },
+    // the connection belongs to the client the transaction was started on
+    async close() {},
+    async [Symbol.asyncDispose]() {},
+  } as SqlTransaction;
+
+  return { ...client, transaction } as SqlClient;
+}
@@ -1,4 +1,5 @@
 import type { SQLParams } from "./SQLType.js";
+import type { InferRow } from "./SQLRow.js";
 
 export type Row = Record<string, unknown>;
 
@@ -12,8 +13,9 @@ export type QueryResult<T = Row> = {
 };
 
 /**
- * A branded string that carries the compile-time parameter tuple `P`.
- * Created by the `sql` tag function; consumed by typed `SqlClient` overloads.
+ * A branded string that carries the compile-time parameter tuple `P` and the
+ * result row `R`. Created by the `sql` tag function; consumed by typed
+ * `SqlClient` overloads.
  *
  * Using a string-keyed property (not a `unique symbol`) ensures the brand
  * survives tsup's type-bundling, which may split declarations across multiple
@@ -24,8 +26,8 @@ export type QueryResult<T = Row> = {
  * @example
  *   const stmt: SqlStatement<[unknown]> = sql`SELECT * FROM t WHERE id = ?`;
  */
-export type SqlStatement<P extends readonly unknown[] = readonly unknown[]> =
-  string & { readonly __sqlBrand: P };
+export type SqlStatement<P extends readonly unknown[] = readonly unknown[], R = Row> =
+  string & { readonly __sqlBrand: P; readonly __sqlRow?: R };
 
 /**
  * Matches plain `string` values and `SqlStatement<[]>` (no params), but
@@ -35,7 +37,73 @@ export type SqlStatement<P extends readonly unknown[] = readonly unknown[]> =
  * falling through to the untyped overload when a caller forgets to supply the
  * required params array.
  */
-type _PlainOrEmpty = string & { readonly __sqlBrand?: readonly [] };
+type _PlainOrEmpty<R = Row> = string & {
+  readonly __sqlBrand?: readonly [];
+  readonly __sqlRow?: R;
+};
+
+/** An explicit row type argument wins over the row inferred from the statement. */
+type _ResultRow<T, R> = [T] extends [never] ? R : T;
+
+/**
+ * Register the schema generated by `pull --register` so `sql("SELECT …")`
+ * infers result rows:
+ *
+ * @example
+ * ```ts
+ * declare module "@playwright-labs/sql-core" {
+ *   interface Register {
+ *     tables: Tables;
+ *   }
+ * }
+ * ```
+ */
+export interface Register {}
+
+/** The registered `Tables` map, or `never` when none is registered. */
+export type RegisteredTables = Register extends { tables: infer T } ? T : never;
+
+/**
+ * Result row of statement `S` against `Tables` — `Row` when no schema is
+ * registered. See {@link InferRow} for the supported `SELECT` forms.
+ */
+export type ResultRow<S extends string, Tables = RegisteredTables> =
+  [Tables] extends [never] ? Row : InferRow<S, Tables>;
+
+/**
+ * Type of the `sql` tag, with rows inferred from `Tables`. Without module
+ * augmentation, cast `sql` to `SqlTag<Tables>` to get typed rows locally:
+ *
+ * @example
+ * ```ts
+ * import { sql as untypedSql, type SqlTag } from "@playwright-labs/sql-core";
+ * import type { Tables } from "./db-types";
+ *
+ * export const sql = untypedSql as SqlTag<Tables>;
+ * ```
+ */
+export type SqlTag<Tables = RegisteredTables> = <
+  const T extends TemplateStringsArray | string | string[],
+>(
+  strings: T,
+  ...values: readonly unknown[]
+) => T extends TemplateStringsArray
+  ? string
+  : T extends string
+    ? SQLParams<T> extends never
+      ? never
+      : SqlStatement<SQLParams<T>, ResultRow<T, Tables>>
+    : T extends readonly [infer S extends string]
+      ? SQLParams<S> extends never
+        ? never
+        : SqlStatement<SQLParams<S>, ResultRow<S, Tables>>
+      : string;
+
+/**
+ * SQL flavour a client speaks. Tools that generate SQL — migrations, seeds —
+ * use it for placeholders (`?` vs `$1`) and identifier quoting.
+ */
+export type SqlDialect = "sqlite" | "postgres" | "mysql" | "duckdb";
 
 /**
  * Driver-agnostic SQL client interface.
@@ -44,19 +112,35 @@ type _PlainOrEmpty = string & { readonly __sqlBrand?: readonly [] };
  * enforce that the caller supplies exactly the right number of parameters.
  * The fallback overloads accept plain `string` or no-param statements for
  * convenience, but reject parameterised statements without a params array.
+ *
+ * `query` resolves to the row type carried by the statement (see
+ * {@link Register}) unless a row type is passed explicitly.
  */
 export interface SqlClient {
+  /**
+   * SQL flavour of the connection. Set by the built-in adapters; custom
+   * adapters that leave it out are treated as `?`-placeholder SQL.
+   */
+  readonly dialect?: SqlDialect;
+
   /**
    * Execute a SQL query and return the result rows.
    * Typed overload: enforces the params array when the statement has params.
    */
-  query<T = Row, P extends readonly [unknown, ...unknown[]] = readonly [unknown, ...unknown[]]>(
-    sql: SqlStatement<P>,
+  query<
+    T = never,
+    P extends readonly [unknown, ...unknown[]] = readonly [unknown, ...unknown[]],
+    R = Row,
+  >(
+    sql: SqlStatement<P, R>,
     params: readonly [...P]
-  ): Promise<QueryResult<T>>;
+  ): Promise<QueryResult<_ResultRow<T, R>>>;
 
   /** Execute a SQL query with a plain/no-param string. */
-  query<T = Row>(sql: _PlainOrEmpty, params?: unknown[]): Promise<QueryResult<T>>;
+  query<T = never, R = Row>(
+    sql: _PlainOrEmpty<R>,
+    params?: unknown[]
+  ): Promise<QueryResult<_ResultRow<T, R>>>;
 
   /**
    * Execute a SQL statement without returning rows.
@@ -70,6 +154,28 @@ export interface SqlClient {
   /** Execute a SQL statement with a plain/no-param string. */
   execute(sql: _PlainOrEmpty, params?: unknown[]): Promise<void>;
 
+  /**
+   * Run `fn` in a transaction: committed when it resolves, rolled back when
+   * it throws (the error is rethrown). Calls nested inside `fn` — on `tx` or
+   * on this client — use savepoints, so a failing inner block only undoes
+   * its own work.
+   *
+   * All statements share this client's single connection; there is no
+   * implicit pooling.
+   *
+   * @example
+   * ```ts
+   * await client.transaction(async (tx) => {
+   *   await tx.execute("INSERT INTO users (name) VALUES (?)", ["Alice"]);
+   *   await tx.transaction(async (inner) => {
+   *     await inner.execute("DELETE FROM audit");
+   *     inner.rollback(); // only the DELETE is undone
+   *   }).catch(() => {});
+   * });
+   * ```
+   */
+  transaction<T>(fn: (tx: SqlTransaction) => Promise<T>): Promise<T>;
+
   /** Close / release the underlying connection. */
   close(): Promise<void>;
 
@@ -86,12 +192,52 @@ export interface SqlClient {
   [Symbol.asyncDispose](): Promise<void>;
 }
 
+/**
+ * The client handed to a {@link SqlClient.transaction} callback. It runs on
+ * the same connection; `close()` is a no-op — the connection stays owned by
+ * the client the transaction was started on.
+ */
+export interface SqlTransaction extends SqlClient {
+  /**
+   * Roll this transaction (or savepoint) back by throwing a
+   * `TransactionRollbackError`, which `transaction()` rethrows.
+   */
+  rollback(): never;
+}
+
+/**
+ * A captured database state, created by {@link SqlAdapter.snapshot}.
+ */
+export interface SqlSnapshot {
+  /**
+   * Bring the database back to the captured state. Data, tables and indexes
+   * created after the snapshot are discarded.
+   */
+  restore(): Promise<void>;
+  /** Delete the snapshot — its file, template database or dump. */
+  drop(): Promise<void>;
+}
+
 export type SqlAdapter = {
   /**
    * Open a new connection and return a ready-to-use {@link SqlClient}.
    * The caller is responsible for calling {@link SqlClient.close} when done.
    */
   create(): Promise<SqlClient>;
+
+  /**
+   * Capture the current state of the database, to {@link SqlSnapshot.restore}
+   * it later — e.g. before every test when the app under test writes through
+   * its own connections. Uses its own connections.
+   *
+   * - SQLite: `VACUUM INTO` a temporary file, restored with the backup API
+   *   (file databases only)
+   * - PostgreSQL: a template database; restoring terminates the other
+   *   sessions of the database and re-creates it from the template
+   * - MySQL: an in-memory dump of every table's DDL and rows, reloaded with
+   *   foreign key checks off
+   */
+  snapshot?(): Promise<SqlSnapshot>;
 };
 
 /**
@@ -101,7 +247,14 @@ export type SqlAdapter = {
  */
 export type StmtParams<S> = S extends SqlStatement<infer P> ? P : never;
 
+/**
+ * Utility: extract the result row from a `SqlStatement`.
+ * @example
+ *   type R = StmtRow<typeof stmt>; // { id: number; name: string }
+ */
+export type StmtRow<S> = S extends SqlStatement<readonly unknown[], infer R> ? R : never;
+
 /**
  * Re-export so consumers can use SQLParams directly from sql-core.
  */
-export type { SQLParams };
+export type { SQLParams, InferRow };
@@ -0,0 +1,119 @@
+import { test, expect } from "@playwright/test";
+
+import { duckdbAdapter } from "../../src/adapters/duckdb.js";
+import { migrate } from "../../src/migrate.js";
+import { seed } from "../../src/seed.js";
+
+test.describe("duckdbAdapter", () => {
+  test.describe("create()", () => {
+    test("returns a duckdb SqlClient", async () => {
+      await using client = await duckdbAdapter().create();
+
+      expect(client.dialect).toBe("duckdb");
+      expect((await client.query("SELECT 1::INTEGER AS one")).rows).toEqual([{ one: 1 }]);
+    });
+
+    test("every :memory: client has its own database", async () => {
+      const adapter = duckdbAdapter(":memory:");
+      await using a = await adapter.create();
+      await using b = await adapter.create();
+
+      await a.execute("CREATE TABLE items (id INTEGER)");
+
+      await expect(b.query("SELECT * FROM items")).rejects.toThrow(/does not exist/);
+    });
+
+    test("clients of a database file share it", async ({}, testInfo) => {
+      const adapter = duckdbAdapter(testInfo.outputPath("app.duckdb"));
+      await using a = await adapter.create();
+      await using b = await adapter.create();
+
+      await a.execute("CREATE TABLE items (name VARCHAR)");
+      await a.execute("INSERT INTO items VALUES (?)", ["shared"]);
+
+      expect((await b.query("SELECT name FROM items")).rows).toEqual([{ name: "shared" }]);
+    });
+  });
+
+  test.describe("query() and execute()", () => {
+    test("binds parameters, including dates", async () => {
+      await using client = await duckdbAdapter().create();
+      await client.execute("CREATE TABLE events (id INTEGER, happened_at TIMESTAMP, note VARCHAR)");
+      const at = new Date("2024-05-01T12:00:00Z");
+
+      await client.execute("INSERT INTO events VALUES (?, ?, ?)", [1, at, undefined]);
+
+      expect((await client.query("SELECT * FROM events WHERE id = $1", [1])).rows).toEqual([
+        { id: 1, happened_at: at, note: null },
+      ]);
+    });
+
+    test("returns JavaScript values", async () => {
+      await using client = await duckdbAdapter().create();
+
+      const { rows } = await client.query(
+        "SELECT 42::BIGINT AS big, 1.5::DECIMAL(4, 2) AS price, true AS flag, [1, 2]::INTEGER[] AS list",
+      );
+
+      expect(rows).toEqual([{ big: 42n, price: 1.5, flag: true, list: [1, 2] }]);
+    });
+
+    test("reports changed rows of DML statements", async () => {
+      await using client = await duckdbAdapter().create();
+      await client.execute("CREATE TABLE t (n INTEGER); INSERT INTO t VALUES (1), (2), (3)");
+
+      expect(await client.query("UPDATE t SET n = n + 1 WHERE n > ?", [1])).toEqual({
+        rows: [],
+        rowCount: 2,
+      });
+    });
+  });
+
+  test.describe("transaction()", () => {
+    test("commits and rolls back", async () => {
+      await using client = await duckdbAdapter().create();
+      await client.execute("CREATE TABLE items (name VARCHAR)");
+
+      await client.transaction((tx) => tx.execute("INSERT INTO items VALUES ('kept')"));
+      await expect(
+        client.transaction(async (tx) => {
+          await tx.execute("INSERT INTO items VALUES ('dropped')");
+          tx.rollback();
+        }),
+      ).rejects.toThrow("Transaction rolled back");
+
+      expect((await client.query("SELECT name FROM items")).rows).toEqual([{ name: "kept" }]);
+    });
+
+    test("cannot be nested", async () => {
+      await using client = await duckdbAdapter().create();
+
+      await expect(
+        client.transaction((tx) => tx.transaction(async () => {})),
+      ).rejects.toThrow("DuckDB has no savepoints");
+
+      // the failed outer transaction was rolled back
+      await client.transaction((tx) => tx.execute("SELECT 1"));
+    });
+  });
+
+  test("runs migrations and seeds", async () => {
+    await using client = await duckdbAdapter().create();
+    const migrations = [
+      {
+        id: "001_users",
+        up: "CREATE TABLE users (id INTEGER PRIMARY KEY, name VARCHAR, active BOOLEAN, joined DATE);",
+        checksum: "1",
+      },
+    ];
+
+    expect(await migrate(client, { migrations })).toEqual(["001_users"]);
+    await seed(client, {
+      users: [{ id: 1, name: "Alice", active: true, joined: new Date("2024-01-02") }],
+    });
+
+    expect((await client.query("SELECT * FROM users")).rows).toEqual([
+      { id: 1, name: "Alice", active: true, joined: new Date("2024-01-02") },
+    ]);
+  });
+});
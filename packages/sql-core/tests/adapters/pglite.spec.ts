@@ -0,0 +1,107 @@
+import { test, expect } from "@playwright/test";
+import { PGlite } from "@electric-sql/pglite";
+
+import { pgliteAdapter } from "../../src/adapters/pglite.js";
+import { migrate } from "../../src/migrate.js";
+import { seed } from "../../src/seed.js";
+import { TransactionRollbackError } from "../../src/transaction.js";
+
+test.describe("pgliteAdapter", () => {
+  test.describe("create()", () => {
+    test("returns a postgres SqlClient", async () => {
+      await using client = await pgliteAdapter().create();
+
+      expect(client.dialect).toBe("postgres");
+      expect((await client.query("SELECT 1 AS one")).rows).toEqual([{ one: 1 }]);
+    });
+
+    test("each create() call starts an independent database", async () => {
+      const adapter = pgliteAdapter();
+      await using a = await adapter.create();
+      await using b = await adapter.create();
+
+      await a.execute("CREATE TABLE items (id SERIAL PRIMARY KEY)");
+
+      await expect(b.query("SELECT * FROM items")).rejects.toThrow(/does not exist/);
+    });
+
+    test("clients of a PGlite instance share it and leave it open", async () => {
+      const db = new PGlite();
+      const adapter = pgliteAdapter(db);
+      const a = await adapter.create();
+      await a.execute("CREATE TABLE items (id SERIAL PRIMARY KEY, name TEXT)");
+      await a.close();
+
+      await using b = await adapter.create();
+      await b.execute("INSERT INTO items (name) VALUES ($1)", ["shared"]);
+      expect((await db.query("SELECT name FROM items")).rows).toEqual([{ name: "shared" }]);
+      expect(db.closed).toBe(false);
+      await db.close();
+    });
+  });
+
+  test.describe("query() and execute()", () => {
+    test("bind $N parameters and report affected rows", async () => {
+      await using client = await pgliteAdapter().create();
+      await client.execute("CREATE TABLE users (id SERIAL PRIMARY KEY, name TEXT NOT NULL)");
+      await client.execute("INSERT INTO users (name) VALUES ($1), ($2)", ["Alice", "Bob"]);
+
+      const { rows } = await client.query("SELECT name FROM users WHERE id = $1", [2]);
+      expect(rows).toEqual([{ name: "Bob" }]);
+
+      const update = await client.query("UPDATE users SET name = upper(name)");
+      expect(update.rowCount).toBe(2);
+      expect((await client.query("SELECT * FROM users")).rowCount).toBe(2);
+    });
+
+    test("execute() without params runs several statements", async () => {
+      await using client = await pgliteAdapter().create();
+
+      await client.execute("CREATE TABLE a (id INT); INSERT INTO a VALUES (1); INSERT INTO a VALUES (2)");
+
+      expect((await client.query("SELECT count(*)::int AS n FROM a")).rows).toEqual([{ n: 2 }]);
+    });
+
+    test("closing twice does not throw", async () => {
+      const client = await pgliteAdapter().create();
+
+      await client.close();
+      await expect(client.close()).resolves.toBeUndefined();
+    });
+  });
+
+  test("nested transactions are savepoints", async () => {
+    await using client = await pgliteAdapter().create();
+    await client.execute("CREATE TABLE items (id SERIAL PRIMARY KEY, name TEXT)");
+
+    await client.transaction(async (tx) => {
+      await tx.execute("INSERT INTO items (name) VALUES ('outer')");
+      await expect(
+        tx.transaction(async (inner) => {
+          await inner.execute("INSERT INTO items (name) VALUES ('inner')");
+          inner.rollback();
+        }),
+      ).rejects.toBeInstanceOf(TransactionRollbackError);
+    });
+
+    expect((await client.query("SELECT name FROM items")).rows).toEqual([{ name: "outer" }]);
+  });
+
+  test("runs migrations and seeds", async () => {
+    await using client = await pgliteAdapter().create();
+    const migrations = [
+      {
+        id: "001_users",
+        up: "CREATE TABLE users (id INT PRIMARY KEY, name TEXT, active BOOLEAN, meta JSONB);",
+        checksum: "1",
+      },
+    ];
+
+    expect(await migrate(client, { migrations })).toEqual(["001_users"]);
+    await seed(client, { users: [{ id: 1, name: "Alice", active: true, meta: { admin: true } }] });
+
+    expect((await client.query("SELECT * FROM users")).rows).toEqual([
+      { id: 1, name: "Alice", active: true, meta: { admin: true } },
+    ]);
+  });
+});
@@ -1,6 +1,7 @@
 import { test, expect } from "@playwright/test";
 
 import { sqliteAdapter } from "../../src/adapters/sqlite.js";
+import { TransactionRollbackError } from "../../src/transaction.js";
 
 test.describe("sqliteAdapter", () => {
   test.describe("create()", () => {
@@ -221,4 +222,127 @@ test.describe("sqliteAdapter", () => {
       await client.close();
     });
   });
+
+  test.describe("transaction()", () => {
+    async function setup() {
+      const client = await sqliteAdapter(":memory:").create();
+      await client.execute("CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT)");
+      const names = async () =>
+        (await client.query<{ name: string }>("SELECT name FROM items ORDER BY id")).rows.map(
+          (row) => row.name,
+        );
+      return { client, names };
+    }
+
+    test("commits when the callback resolves", async () => {
+      const { client, names } = await setup();
+
+      const result = await client.transaction(async (tx) => {
+        await tx.execute("INSERT INTO items (name) VALUES (?)", ["a"]);
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(await names()).toEqual(["a"]);
+      await client.close();
+    });
+
+    test("rolls back and rethrows when the callback throws", async () => {
+      const { client, names } = await setup();
+
+      await expect(
+        client.transaction(async (tx) => {
+          await tx.execute("INSERT INTO items (name) VALUES (?)", ["a"]);
+          throw new Error("boom");
+        }),
+      ).rejects.toThrow("boom");
+
+      expect(await names()).toEqual([]);
+      await client.close();
+    });
+
+    test("nested transactions are savepoints", async () => {
+      const { client, names } = await setup();
+
+      await client.transaction(async (tx) => {
+        await tx.execute("INSERT INTO items (name) VALUES ('outer')");
+        await expect(
+          tx.transaction(async (inner) => {
+            await inner.execute("INSERT INTO items (name) VALUES ('inner')");
+            inner.rollback();
+          }),
+        ).rejects.toBeInstanceOf(TransactionRollbackError);
+        await tx.transaction(async (inner) => {
+          await inner.execute("INSERT INTO items (name) VALUES ('kept')");
+        });
+      });
+
+      expect(await names()).toEqual(["outer", "kept"]);
+      await client.close();
+    });
+
+    test("an outer rollback undoes released savepoints", async () => {
+      const { client, names } = await setup();
+
+      await expect(
+        client.transaction(async (tx) => {
+          await client.transaction(async (inner) => {
+            await inner.execute("INSERT INTO items (name) VALUES ('inner')");
+          });
+          tx.rollback();
+        }),
+      ).rejects.toThrow("Transaction rolled back");
+
+      expect(await names()).toEqual([]);
+      // the connection is usable for a new top-level transaction
+      await client.transaction(async (tx) => {
+        await tx.execute("INSERT INTO items (name) VALUES ('after')");
+      });
+      expect(await names()).toEqual(["after"]);
+      await client.close();
+    });
+
+    test("closing the transaction handle keeps the connection open", async () => {
+      const { client, names } = await setup();
+
+      await client.transaction(async (tx) => {
+        await tx.close();
+        await tx.execute("INSERT INTO items (name) VALUES ('a')");
+      });
+
+      expect(await names()).toEqual(["a"]);
+      await client.close();
+    });
+  });
+
+  test.describe("snapshot()", () => {
+    test("restores data and schema, visible to open connections", async ({}, testInfo) => {
+      const adapter = sqliteAdapter(testInfo.outputPath("app.db"));
+      const app = await adapter.create();
+      await app.execute("CREATE TABLE items (id INTEGER PRIMARY KEY, name TEXT)");
+      await app.execute("INSERT INTO items (name) VALUES ('seed')");
+
+      const snapshot = await adapter.snapshot!();
+      await app.execute("INSERT INTO items (name) VALUES ('later')");
+      await app.execute("CREATE TABLE extra (id INTEGER)");
+
+      await snapshot.restore();
+      expect((await app.query("SELECT name FROM items")).rows).toEqual([{ name: "seed" }]);
+      await expect(app.query("SELECT * FROM extra")).rejects.toThrow(/no such table/);
+
+      // restoring again starts from the same state
+      await app.execute("DELETE FROM items");
+      await snapshot.restore();
+      expect((await app.query("SELECT name FROM items")).rows).toEqual([{ name: "seed" }]);
+
+      await snapshot.drop();
+      await app.close();
+    });
+
+    test("rejects in-memory databases", async () => {
+      await expect(sqliteAdapter(":memory:").snapshot!()).rejects.toThrow(
+        "snapshot() needs a file database",
+      );
+    });
+  });
 });
@@ -0,0 +1,298 @@
+import { test, expect } from "@playwright/test";
+import { spawn, spawnSync } from "node:child_process";
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { sqliteAdapter } from "../src/adapters/sqlite.js";
+import {
+  loadMigrations,
+  migrate,
+  migrateDown,
+  migrationStatus,
+  MigrationDriftError,
+  splitStatements,
+} from "../src/migrate.js";
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+
+async function writeMigrations(dir: string, files: Record<string, string>) {
+  await mkdir(dir, { recursive: true });
+  for (const [name, content] of Object.entries(files)) {
+    await writeFile(join(dir, name), content);
+  }
+  return dir;
+}
+
+const USERS = `
+-- migrate:up
+CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+INSERT INTO users (name) VALUES ('seeded; with a semicolon');
+
+-- migrate:down
+DROP TABLE users;
+`;
+
+test.describe("splitStatements", () => {
+  test("splits on semicolons outside strings and comments", () => {
+    expect(
+      splitStatements(`
+        -- leading comment; not a statement
+        CREATE TABLE a (note TEXT DEFAULT 'x;y');
+        /* block; comment */
+        INSERT INTO a VALUES ("it's;fine");
+        -- trailing comment
+      `),
+    ).toEqual([
+      "-- leading comment; not a statement\n        CREATE TABLE a (note TEXT DEFAULT 'x;y')",
+      `/* block; comment */\n        INSERT INTO a VALUES ("it's;fine")`,
+    ]);
+  });
+
+  test("keeps dollar-quoted bodies and trigger bodies together", () => {
+    const fn = "CREATE FUNCTION f() RETURNS int AS $$ SELECT 1; $$ LANGUAGE sql";
+    const trigger =
+      "CREATE TRIGGER t AFTER INSERT ON a BEGIN UPDATE a SET n = 1; DELETE FROM b; END";
+    expect(splitStatements(`${fn};\n${trigger};\nSELECT 1`)).toEqual([fn, trigger, "SELECT 1"]);
+  });
+
+  test("honours backslash escapes in MySQL and E'' strings", () => {
+    expect(splitStatements("INSERT INTO a VALUES ('it\\'s; x');SELECT 1", "mysql")).toEqual([
+      "INSERT INTO a VALUES ('it\\'s; x')",
+      "SELECT 1",
+    ]);
+    expect(splitStatements("SELECT E'a\\'; b';SELECT 'c:\\';SELECT 2", "postgres")).toEqual([
+      "SELECT E'a\\'; b'",
+      "SELECT 'c:\\'",
+      "SELECT 2",
+    ]);
+  });
+});
+
+test.describe("loadMigrations", () => {
+  test("reads SQL files, up/down pairs and modules in file-name order", async ({}, testInfo) => {
+    const dir = await writeMigrations(testInfo.outputPath("migrations"), {
+      "10_last.mjs": "export async function up(client) { await client.execute('SELECT 1'); }",
+      "2_pair.up.sql": "CREATE TABLE b (id INTEGER);",
+      "2_pair.down.sql": "DROP TABLE b;",
+      "1_users.sql": USERS,
+      "README.md": "ignored",
+    });
+
+    const migrations = await loadMigrations(dir);
+    expect(migrations.map((m) => m.id)).toEqual(["1_users", "2_pair", "10_last"]);
+    expect(migrations[0].up).toContain("CREATE TABLE users");
+    expect(migrations[0].up).not.toContain("DROP TABLE");
+    expect(migrations[0].down).toContain("DROP TABLE users");
+    expect(migrations[1].down).toBe("DROP TABLE b;");
+    expect(typeof migrations[2].up).toBe("function");
+    expect(migrations[2].down).toBeUndefined();
+    expect(migrations[0].checksum).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  test("rejects duplicate ids", async ({}, testInfo) => {
+    const dir = await writeMigrations(testInfo.outputPath("migrations"), {
+      "1_init.sql": "SELECT 1;",
+      "1_init.up.sql": "SELECT 2;",
+    });
+    await expect(loadMigrations(dir)).rejects.toThrow('Duplicate migration "1_init"');
+  });
+});
+
+test.describe("migrate", () => {
+  test("applies pending migrations once and records them", async ({}, testInfo) => {
+    const dir = await writeMigrations(testInfo.outputPath("migrations"), {
+      "001_users.sql": USERS,
+      "002_posts.up.sql": "CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER);",
+      "002_posts.down.sql": "DROP TABLE posts;",
+    });
+    await using client = await sqliteAdapter(":memory:").create();
+
+    expect(await migrate(client, { dir })).toEqual(["001_users", "002_posts"]);
+    expect(await migrate(client, { dir })).toEqual([]);
+
+    const { rows } = await client.query("SELECT name FROM users");
+    expect(rows).toEqual([{ name: "seeded; with a semicolon" }]);
+    const status = await migrationStatus(client, { dir });
+    expect(status.map(({ id, state }) => [id, state])).toEqual([
+      ["001_users", "applied"],
+      ["002_posts", "applied"],
+    ]);
+    expect(status[0].appliedAt).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+  });
+
+  test("stops after `to`", async ({}, testInfo) => {
+    const dir = await writeMigrations(testInfo.outputPath("migrations"), {
+      "001_a.sql": "CREATE TABLE a (id INTEGER);",
+      "002_b.sql": "CREATE TABLE b (id INTEGER);",
+    });
+    await using client = await sqliteAdapter(":memory:").create();
+
+    expect(await migrate(client, { dir, to: "001_a" })).toEqual(["001_a"]);
+    expect((await migrationStatus(client, { dir })).map((s) => s.state)).toEqual([
+      "applied",
+      "pending",
+    ]);
+  });
+
+  test("a failing migration is rolled back with its bookkeeping row", async () => {
+    await using client = await sqliteAdapter(":memory:").create();
+    const migrations = [
+      { id: "001_ok", up: "CREATE TABLE a (id INTEGER);", checksum: "1" },
+      { id: "002_bad", up: "CREATE TABLE b (id INTEGER); INSERT INTO missing VALUES (1);", checksum: "2" },
+    ];
+
+    await expect(migrate(client, { migrations })).rejects.toThrow(/no such table: missing/);
+    expect((await migrationStatus(client, { migrations })).map((s) => s.state)).toEqual([
+      "applied",
+      "pending",
+    ]);
+    await expect(client.query("SELECT * FROM b")).rejects.toThrow(/no such table/);
+  });
+
+  test("detects drift of applied migrations", async ({}, testInfo) => {
+    const dir = await writeMigrations(testInfo.outputPath("migrations"), {
+      "001_a.sql": "CREATE TABLE a (id INTEGER);",
+    });
+    await using client = await sqliteAdapter(":memory:").create();
+    await migrate(client, { dir, table: "schema_history" });
+
+    await writeFile(join(dir, "001_a.sql"), "CREATE TABLE a (id INTEGER, name TEXT);");
+    const error = await migrate(client, { dir, table: "schema_history" }).catch((e) => e);
+    expect(error).toBeInstanceOf(MigrationDriftError);
+    expect(error.ids).toEqual(["001_a"]);
+    expect(await migrationStatus(client, { dir, table: "schema_history" })).toEqual([
+      expect.objectContaining({ id: "001_a", state: "drifted" }),
+    ]);
+  });
+
+  test("reports applied migrations that are no longer on disk", async () => {
+    await using client = await sqliteAdapter(":memory:").create();
+    await migrate(client, { migrations: [{ id: "001_gone", up: "SELECT 1;", checksum: "x" }] });
+
+    expect(await migrationStatus(client, { migrations: [] })).toEqual([
+      expect.objectContaining({ id: "001_gone", state: "missing" }),
+    ]);
+  });
+
+  test("runs TS migration modules", async ({}, testInfo) => {
+    const dir = await writeMigrations(testInfo.outputPath("migrations"), {
+      "001_init.sql": "CREATE TABLE t (n INTEGER);",
+      "002_fill.ts": [
+        'import type { MigrationModule } from "../../../src/migrate.js";',
+        'export const up: MigrationModule["up"] = async (client) => {',
+        '  await client.execute("INSERT INTO t VALUES (?)", [42]);',
+        "};",
+        'export const down: MigrationModule["down"] = async (client) => {',
+        '  await client.execute("DELETE FROM t");',
+        "};",
+      ].join("\n"),
+    });
+    await using client = await sqliteAdapter(":memory:").create();
+
+    await migrate(client, { dir });
+    expect((await client.query("SELECT n FROM t")).rows).toEqual([{ n: 42 }]);
+    await migrateDown(client, { dir });
+    expect((await client.query("SELECT n FROM t")).rows).toEqual([]);
+  });
+});
+
+test.describe("migrateDown", () => {
+  const migrations = [
+    { id: "001_a", up: "CREATE TABLE a (id INTEGER);", down: "DROP TABLE a;", checksum: "a" },
+    { id: "002_b", up: "CREATE TABLE b (id INTEGER);", down: "DROP TABLE b;", checksum: "b" },
+    { id: "003_c", up: "CREATE TABLE c (id INTEGER);", down: "DROP TABLE c;", checksum: "c" },
+  ];
+
+  test("reverts the last migration by default, or `steps`", async () => {
+    await using client = await sqliteAdapter(":memory:").create();
+    await migrate(client, { migrations });
+
+    expect(await migrateDown(client, { migrations })).toEqual(["003_c"]);
+    expect(await migrateDown(client, { migrations, steps: 5 })).toEqual(["002_b", "001_a"]);
+    const { rows } = await client.query(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name != '_migrations'",
+    );
+    expect(rows).toEqual([]);
+  });
+
+  test("reverts everything after `to`", async () => {
+    await using client = await sqliteAdapter(":memory:").create();
+    await migrate(client, { migrations });
+
+    expect(await migrateDown(client, { migrations, to: "001_a" })).toEqual(["003_c", "002_b"]);
+    expect((await migrationStatus(client, { migrations })).map((s) => s.state)).toEqual([
+      "applied",
+      "pending",
+      "pending",
+    ]);
+  });
+
+  test("refuses migrations without a down step", async () => {
+    await using client = await sqliteAdapter(":memory:").create();
+    await migrate(client, { migrations: [{ id: "001_a", up: "SELECT 1;", checksum: "a" }] });
+
+    await expect(
+      migrateDown(client, { migrations: [{ id: "001_a", up: "SELECT 1;", checksum: "a" }] }),
+    ).rejects.toThrow('Migration "001_a" has no down step');
+  });
+});
+
+test.describe("migrate CLI", () => {
+  function runCli(...args: string[]) {
+    return spawnSync("pnpm", ["exec", "tsx", "bin/cli.ts", ...args], {
+      cwd: ROOT,
+      encoding: "utf8",
+    });
+  }
+
+  function startCli(...args: string[]): Promise<{ status: number | null; stderr: string }> {
+    return new Promise((resolve) => {
+      const child = spawn("pnpm", ["exec", "tsx", "bin/cli.ts", ...args], { cwd: ROOT });
+      let stderr = "";
+      child.stderr.setEncoding("utf8").on("data", (chunk: string) => (stderr += chunk));
+      child.on("close", (status) => resolve({ status, stderr }));
+    });
+  }
+
+  test("up, status and down against a SQLite file", async ({}, testInfo) => {
+    const dir = await writeMigrations(testInfo.outputPath("migrations"), {
+      "001_users.sql": USERS,
+    });
+    const db = testInfo.outputPath("dev.db");
+    const common = ["--adapter", "sqlite", "--url", db, "--dir", dir];
+
+    const up = runCli("migrate", "up", ...common);
+    expect(up.status, up.stderr).toBe(0);
+    expect(up.stderr).toContain("✔ applied 001_users");
+
+    const status = runCli("migrate", "status", ...common);
+    expect(status.stdout).toMatch(/^applied {2}001_users {2}\(\d{4}-/);
+
+    const down = runCli("migrate", "down", ...common);
+    expect(down.stderr).toContain("✔ reverted 001_users");
+    expect(runCli("migrate", "status", ...common).stdout).toMatch(/^pending {2}001_users$/m);
+  });
+
+  test("rejects unknown actions", () => {
+    const result = runCli("migrate", "sideways", "-a", "sqlite", "-u", ":memory:", "-d", ".");
+    expect(result.status).not.toBe(0);
+    expect(result.stderr).toContain('Unknown migrate action "sideways"');
+  });
+
+  test("two processes migrating one database apply each migration once", async ({}, testInfo) => {
+    const dir = await writeMigrations(testInfo.outputPath("migrations"), {
+      // waits before writing, so without a lock both runs see it pending
+      "001_users.mjs": `export async function up(client) {
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        await client.execute("CREATE TABLE users (id INTEGER PRIMARY KEY)");
+      }`,
+    });
+    const args = ["migrate", "up", "--adapter", "sqlite", "--url", testInfo.outputPath("shared.db"), "--dir", dir];
+
+    const runs = await Promise.all([startCli(...args), startCli(...args)]);
+
+    for (const run of runs) expect(run.status, run.stderr).toBe(0);
+    expect(runs.filter((run) => run.stderr.includes("✔ applied 001_users"))).toHaveLength(1);
+  });
+});
@@ -10,6 +10,8 @@
  *   §6  generateTypes       — code-generation output shape
  *   §7  introspectSQLite    — live schema introspection (in-memory DB)
  *   §8  pull CLI (e2e)      — spawns the script, checks stdout/exit code
+ *   §9  duckdbToTS          — DuckDB → TS type mapper
+ *   §10 in-process engines  — introspectPg on PGlite, introspectDuckDB, CLI
  */
 
 import { test, expect } from "@playwright/test";
@@ -27,10 +29,16 @@ import {
   sqliteToTS,
   pgToTS,
   mysqlToTS,
+  duckdbToTS,
   generateTypes,
+  schemaToJson,
   introspectSQLite,
+  introspectPg,
+  introspectDuckDB,
 } from "../bin/pull-lib.js";
 import { sqliteAdapter } from "../src/adapters/sqlite.js";
+import { pgliteAdapter } from "../src/adapters/pglite.js";
+import { duckdbAdapter } from "../src/adapters/duckdb.js";
 
 const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), "..");
 
@@ -290,6 +298,24 @@ test.describe("generateTypes", () => {
     expect(out).toContain("  order_items: OrderItemsRow;");
   });
 
+  test("registers Tables with the sql tag when asked to", () => {
+    const plain = generateTypes(simpleSchema, sqliteToTS, "sqlite", ":memory:");
+    expect(plain).not.toContain("declare module");
+
+    const out = generateTypes(simpleSchema, sqliteToTS, "sqlite", ":memory:", {
+      register: true,
+    });
+    expect(out).toContain(
+      [
+        `declare module "@playwright-labs/sql-core" {`,
+        `  interface Register {`,
+        `    tables: Tables;`,
+        `  }`,
+        `}`,
+      ].join("\n"),
+    );
+  });
+
   test("returns only header for empty schema", () => {
     const out = generateTypes([], sqliteToTS, "sqlite", ":memory:");
     expect(out).toContain("// Auto-generated");
@@ -304,6 +330,21 @@ test.describe("generateTypes", () => {
   });
 });
 
+test.describe("schemaToJson", () => {
+  test("adds the mapped TS type to every column", () => {
+    const json = schemaToJson(
+      [{ name: "users", columns: [{ name: "id", type: "INTEGER", nullable: false, default: null }] }],
+      sqliteToTS,
+    );
+    expect(JSON.parse(json)).toEqual([
+      {
+        name: "users",
+        columns: [{ name: "id", type: "INTEGER", nullable: false, default: null, tsType: "number" }],
+      },
+    ]);
+  });
+});
+
 // ─── §7 introspectSQLite ─────────────────────────────────────────────────────
 
 test.describe("introspectSQLite", () => {
@@ -400,6 +441,21 @@ test.describe("introspectSQLite", () => {
 
     expect(schema!.columns[0]!.type).toBe("DECIMAL(10,2)");
   });
+
+  test("reports defaults and foreign key targets", async () => {
+    const client = await makeClient(
+      "CREATE TABLE users (id INTEGER PRIMARY KEY, role TEXT DEFAULT 'member');" +
+        "CREATE TABLE posts (id INTEGER PRIMARY KEY, author_id INTEGER REFERENCES users (id), editor INTEGER REFERENCES users)",
+    );
+    const schemas = await introspectSQLite(client);
+    await client.close();
+
+    const [posts, users] = schemas;
+    expect(users!.columns[1]).toEqual({ name: "role", type: "TEXT", nullable: true, default: "'member'" });
+    expect(posts!.columns[1]!.references).toEqual({ table: "users", column: "id" });
+    expect(posts!.columns[2]!.references).toEqual({ table: "users", column: "rowid" });
+    expect(posts!.columns[0]).not.toHaveProperty("references");
+  });
 });
 
 // ─── §8 pull CLI (e2e) ───────────────────────────────────────────────────────
@@ -445,6 +501,23 @@ test.describe("pull CLI", () => {
     expect(result.stderr).toContain("required option");
   });
 
+  test("reads the URL from SQL_CORE_URL when --url is left out", async ({}, testInfo) => {
+    const dbPath = testInfo.outputPath("env.db");
+    const { default: Database } = await import("better-sqlite3");
+    const db = new Database(dbPath);
+    db.exec("CREATE TABLE tags (id INTEGER PRIMARY KEY)");
+    db.close();
+
+    const result = spawnSync("pnpm", ["exec", "tsx", "bin/cli.ts", "pull", "--adapter", "sqlite", "--json"], {
+      cwd: ROOT,
+      encoding: "utf8",
+      env: { ...process.env, SQL_CORE_URL: dbPath },
+    });
+
+    expect(result.status, result.stderr).toBe(0);
+    expect(JSON.parse(result.stdout).map((table: { name: string }) => table.name)).toEqual(["tags"]);
+  });
+
   test("writes types to stdout for an empty SQLite DB", () => {
     const result = runPull("--adapter", "sqlite", "--url", ":memory:");
     expect(result.status).toBe(0);
@@ -519,3 +592,170 @@ test.describe("pull CLI", () => {
     }
   });
 });
+
+// ─── §9 duckdbToTS ───────────────────────────────────────────────────────────
+
+test.describe("duckdbToTS", () => {
+  const cases: Array<[raw: string, nullable: boolean, expected: string]> = [
+    ["INTEGER", false, "number"],
+    ["SMALLINT", false, "number"],
+    ["TINYINT", false, "number"],
+    ["UINTEGER", false, "number"],
+    ["DOUBLE", false, "number"],
+    ["FLOAT", false, "number"],
+    ["DECIMAL(10,2)", false, "number"],
+    ["BIGINT", false, "bigint"],
+    ["HUGEINT", false, "bigint"],
+    ["UBIGINT", false, "bigint"],
+    ["TIME", false, "bigint"],
+    ["VARCHAR", false, "string"],
+    ["UUID", false, "string"],
+    ["JSON", false, "string"],
+    ["ENUM('a', 'b')", false, "string"],
+    ["BOOLEAN", false, "boolean"],
+    ["DATE", false, "Date"],
+    ["TIMESTAMP", false, "Date"],
+    ["TIMESTAMP_MS", false, "Date"],
+    ["TIMESTAMP WITH TIME ZONE", false, "Date"],
+    ["BLOB", false, "Buffer"],
+    ["INTEGER[]", false, "number[]"],
+    ["VARCHAR[][]", false, "string[][]"],
+    ["DOUBLE[3]", false, "number[]"],
+    ["STRUCT(a INTEGER)", false, "unknown"],
+    ["INTERVAL", false, "unknown"],
+    // nullable
+    ["VARCHAR", true, "string | null"],
+    ["INTEGER[]", true, "number[] | null"],
+  ];
+
+  for (const [raw, nullable, expected] of cases) {
+    test(`${raw} + nullable=${nullable} → ${expected}`, () => {
+      expect(duckdbToTS(raw, nullable)).toBe(expected);
+    });
+  }
+});
+
+// ─── §10 in-process engines ──────────────────────────────────────────────────
+
+test.describe("introspectPg on PGlite", () => {
+  test("reads tables, column types, nullability, defaults and foreign keys", async () => {
+    await using client = await pgliteAdapter().create();
+    await client.execute(
+      "CREATE TABLE users (id SERIAL PRIMARY KEY, email VARCHAR(255) NOT NULL, bio TEXT DEFAULT 'n/a'); " +
+        "CREATE TABLE posts (id INT PRIMARY KEY, author_id INT REFERENCES users (id))",
+    );
+
+    const schemas = await introspectPg(client);
+
+    expect(schemas).toEqual([
+      {
+        name: "posts",
+        columns: [
+          { name: "id", type: "integer", nullable: false, default: null },
+          {
+            name: "author_id",
+            type: "integer",
+            nullable: true,
+            default: null,
+            references: { table: "users", column: "id" },
+          },
+        ],
+      },
+      {
+        name: "users",
+        columns: [
+          {
+            name: "id",
+            type: "integer",
+            nullable: false,
+            default: "nextval('users_id_seq'::regclass)",
+          },
+          { name: "email", type: "character varying", nullable: false, default: null },
+          { name: "bio", type: "text", nullable: true, default: "'n/a'::text" },
+        ],
+      },
+    ]);
+    expect(generateTypes(schemas, pgToTS, "pglite", "memory://")).toContain("  bio: string | null;");
+  });
+});
+
+test.describe("introspectDuckDB", () => {
+  test("reads tables, column types and nullability", async () => {
+    await using client = await duckdbAdapter().create();
+    await client.execute(
+      "CREATE TABLE events (id BIGINT PRIMARY KEY, tags VARCHAR[], happened_at TIMESTAMP NOT NULL); " +
+        "CREATE TABLE clicks (event_id BIGINT REFERENCES events (id), x INTEGER DEFAULT 0); " +
+        "CREATE VIEW recent AS SELECT * FROM events",
+    );
+
+    const schemas = await introspectDuckDB(client);
+
+    expect(schemas).toEqual([
+      {
+        name: "clicks",
+        columns: [
+          {
+            name: "event_id",
+            type: "BIGINT",
+            nullable: true,
+            default: null,
+            references: { table: "events", column: "id" },
+          },
+          { name: "x", type: "INTEGER", nullable: true, default: "0" },
+        ],
+      },
+      {
+        name: "events",
+        columns: [
+          { name: "id", type: "BIGINT", nullable: false, default: null },
+          { name: "tags", type: "VARCHAR[]", nullable: true, default: null },
+          { name: "happened_at", type: "TIMESTAMP", nullable: false, default: null },
+        ],
+      },
+    ]);
+    expect(generateTypes(schemas, duckdbToTS, "duckdb", ":memory:")).toContain(
+      "  tags: string[] | null;",
+    );
+  });
+
+  test("pull CLI emits JSON with SQL and TS types", async ({}, testInfo) => {
+    const dbPath = testInfo.outputPath("app.duckdb");
+    const client = await duckdbAdapter(dbPath).create();
+    await client.execute("CREATE TABLE items (id INTEGER NOT NULL, qty INTEGER DEFAULT 1)");
+    await client.close();
+
+    const result = spawnSync(
+      "pnpm",
+      ["exec", "tsx", "bin/cli.ts", "pull", "--adapter", "duckdb", "--url", dbPath, "--json"],
+      { cwd: ROOT, encoding: "utf8" },
+    );
+
+    expect(result.status, result.stderr).toBe(0);
+    expect(JSON.parse(result.stdout)).toEqual([
+      {
+        name: "items",
+        columns: [
+          { name: "id", type: "INTEGER", nullable: false, default: null, tsType: "number" },
+          { name: "qty", type: "INTEGER", nullable: true, default: "1", tsType: "number | null" },
+        ],
+      },
+    ]);
+  });
+
+  test("pull CLI reads a DuckDB file", async ({}, testInfo) => {
+    const dbPath = testInfo.outputPath("analytics.duckdb");
+    const client = await duckdbAdapter(dbPath).create();
+    await client.execute("CREATE TABLE page_views (id INTEGER NOT NULL, url VARCHAR)");
+    await client.close();
+
+    const result = spawnSync(
+      "pnpm",
+      ["exec", "tsx", "bin/cli.ts", "pull", "--adapter", "duckdb", "--url", dbPath],
+      { cwd: ROOT, encoding: "utf8" },
+    );
+
+    expect(result.status, result.stderr).toBe(0);
+    expect(result.stdout).toContain("export interface PageViewsRow {");
+    expect(result.stdout).toContain("  url: string | null;");
+  });
+});
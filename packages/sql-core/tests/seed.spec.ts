@@ -0,0 +1,79 @@
+import { test, expect } from "@playwright/test";
+import { writeFile } from "node:fs/promises";
+
+import { sqliteAdapter } from "../src/adapters/sqlite.js";
+import { loadSeed, seed } from "../src/seed.js";
+
+const SCHEMA = [
+  "CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, active INTEGER, meta TEXT)",
+  "CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users (id), title TEXT)",
+];
+
+async function createClient() {
+  const client = await sqliteAdapter(":memory:").create();
+  await client.execute("PRAGMA foreign_keys = ON");
+  for (const statement of SCHEMA) await client.execute(statement);
+  return client;
+}
+
+test.describe("loadSeed", () => {
+  test("reads JSON and YAML files", async ({}, testInfo) => {
+    const json = testInfo.outputPath("users.json");
+    const yaml = testInfo.outputPath("users.yaml");
+    await writeFile(json, JSON.stringify({ users: [{ id: 1, name: "Alice" }] }));
+    await writeFile(yaml, "users:\n  - id: 1\n    name: Alice\n");
+
+    expect(await loadSeed(json)).toEqual({ users: [{ id: 1, name: "Alice" }] });
+    expect(await loadSeed(yaml)).toEqual({ users: [{ id: 1, name: "Alice" }] });
+  });
+
+  test("rejects files that are not table → rows maps", async ({}, testInfo) => {
+    const file = testInfo.outputPath("bad.json");
+    await writeFile(file, JSON.stringify([{ id: 1 }]));
+    await expect(loadSeed(file)).rejects.toThrow("must map table names to lists of rows");
+    await expect(loadSeed(testInfo.outputPath("x.csv"))).rejects.toThrow();
+  });
+});
+
+test.describe("seed", () => {
+  test("inserts tables in order and converts values", async () => {
+    await using client = await createClient();
+
+    const inserted = await seed(client, {
+      users: [
+        { id: 1, name: "Alice", active: true, meta: { role: "admin" } },
+        { id: 2, name: "Bob", active: false },
+      ],
+      posts: [{ id: 1, user_id: 2, title: "Hello" }],
+    });
+
+    expect(inserted).toEqual({ users: 2, posts: 1 });
+    expect((await client.query("SELECT * FROM users ORDER BY id")).rows).toEqual([
+      { id: 1, name: "Alice", active: 1, meta: '{"role":"admin"}' },
+      { id: 2, name: "Bob", active: 0, meta: null },
+    ]);
+  });
+
+  test("applies files in order and truncates children first", async ({}, testInfo) => {
+    await using client = await createClient();
+    const users = testInfo.outputPath("users.yml");
+    const posts = testInfo.outputPath("posts.json");
+    await writeFile(users, "users:\n  - { id: 1, name: Alice }\n");
+    await writeFile(posts, JSON.stringify({ posts: [{ id: 1, user_id: 1, title: "Hi" }] }));
+
+    await seed(client, [users, posts]);
+    // the posts reference the users, so they must be deleted first
+    await seed(client, [users, posts], { truncate: true });
+
+    expect((await client.query("SELECT COUNT(*) AS n FROM posts")).rows).toEqual([{ n: 1 }]);
+  });
+
+  test("inserts nothing when a row fails", async () => {
+    await using client = await createClient();
+
+    await expect(
+      seed(client, { users: [{ id: 1, name: "Alice" }, { id: 2 }] }),
+    ).rejects.toThrow(/NOT NULL/);
+    expect((await client.query("SELECT * FROM users")).rows).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Type-level tests for result row inference.
+ *
+ * `InferRow<S, Tables>` reads the column list and the FROM / JOIN sources of
+ * a SELECT; `SqlTag<Tables>` is the `sql` tag with those rows attached, and
+ * `SqlClient.query` resolves to them unless a row type is passed explicitly.
+ *
+ * Run via:  pnpm typecheck
+ */
+
+import type { InferRow } from "../src/SQLRow.js";
+import type {
+  QueryResult,
+  Row,
+  SqlClient,
+  SqlStatement,
+  SqlTag,
+  StmtRow,
+} from "../src/types.js";
+
+// ─── Test helpers ─────────────────────────────────────────────────────────────
+
+type Assert<T extends true> = T;
+
+type Equal<A, B> =
+  (<T>() => T extends A ? 1 : 2) extends
+  (<T>() => T extends B ? 1 : 2) ? true : false;
+
+// Interfaces, as `pull` generates them.
+interface UsersRow {
+  id: number;
+  name: string;
+  email: string | null;
+}
+
+interface PostsRow {
+  id: number;
+  user_id: number;
+  title: string;
+}
+
+type Tables = {
+  users: UsersRow;
+  posts: PostsRow;
+};
+
+// ─── §1 Columns ───────────────────────────────────────────────────────────────
+
+type _col_1 = Assert<Equal<
+  InferRow<"SELECT id, name FROM users", Tables>,
+  { id: number; name: string }
+>>;
+type _col_2 = Assert<Equal<
+  InferRow<"SELECT * FROM users", Tables>,
+  { id: number; name: string; email: string | null }
+>>;
+type _col_3 = Assert<Equal<
+  InferRow<"SELECT DISTINCT name FROM users WHERE id = ? ORDER BY name LIMIT 10;", Tables>,
+  { name: string }
+>>;
+type _col_4 = Assert<Equal<
+  InferRow<"SELECT \"name\", email FROM \"users\"", Tables>,
+  { name: string; email: string | null }
+>>;
+type _col_5 = Assert<Equal<
+  InferRow<"select id\n  from public.users\n  where id = $1", Tables>,
+  { id: number }
+>>;
+type _col_6 = Assert<Equal<
+  InferRow<"SELECT id, missing FROM users", Tables>,
+  { id: number; missing: unknown }
+>>;
+
+// ─── §2 Aliases and expressions ───────────────────────────────────────────────
+
+type _alias_1 = Assert<Equal<
+  InferRow<"SELECT id AS user_id, name label FROM users", Tables>,
+  { user_id: number; label: string }
+>>;
+type _alias_2 = Assert<Equal<
+  InferRow<"SELECT COUNT(*) AS total, 'x' AS tag, 1 AS one FROM users", Tables>,
+  { total: number; tag: string; one: number }
+>>;
+type _alias_3 = Assert<Equal<
+  InferRow<"SELECT COALESCE(email, name) AS contact, id FROM users", Tables>,
+  { contact: unknown; id: number }
+>>;
+// An expression without a name is left out.
+type _alias_4 = Assert<Equal<
+  InferRow<"SELECT id, upper(name) FROM users", Tables>,
+  { id: number }
+>>;
+
+// ─── §3 Joins ────────────────────────────────────────────────────────────────
+
+type _join_1 = Assert<Equal<
+  InferRow<"SELECT u.name, p.title FROM users u JOIN posts p ON p.user_id = u.id", Tables>,
+  { name: string; title: string }
+>>;
+type _join_2 = Assert<Equal<
+  InferRow<"SELECT u.id, p.title AS post FROM users AS u LEFT JOIN posts AS p ON p.user_id = u.id", Tables>,
+  { id: number; post: string | null }
+>>;
+type _join_3 = Assert<Equal<
+  InferRow<"SELECT p.*, u.name FROM posts p INNER JOIN users u ON u.id = p.user_id WHERE u.id = ?", Tables>,
+  { id: number; user_id: number; title: string; name: string }
+>>;
+// `*` over a join: later sources win on duplicate names, like the drivers.
+type _join_4 = Assert<Equal<
+  InferRow<"SELECT * FROM users JOIN posts ON posts.user_id = users.id", Tables>,
+  { id: number; name: string; email: string | null; user_id: number; title: string }
+>>;
+type _join_5 = Assert<Equal<
+  InferRow<"SELECT users.name, title FROM users LEFT OUTER JOIN posts ON posts.user_id = users.id", Tables>,
+  { name: string; title: string | null }
+>>;
+// RIGHT JOIN: the tables before it become nullable, the joined one does not.
+type _join_6 = Assert<Equal<
+  InferRow<"SELECT u.name, p.title FROM users u RIGHT JOIN posts p ON p.user_id = u.id", Tables>,
+  { name: string | null; title: string }
+>>;
+type _join_7 = Assert<Equal<
+  InferRow<"SELECT users.id, title FROM users RIGHT OUTER JOIN posts ON posts.user_id = users.id", Tables>,
+  { id: number | null; title: string }
+>>;
+// FULL JOIN: both sides become nullable.
+type _join_8 = Assert<Equal<
+  InferRow<"SELECT u.name, p.title FROM users u FULL JOIN posts p ON p.user_id = u.id", Tables>,
+  { name: string | null; title: string | null }
+>>;
+type _join_9 = Assert<Equal<
+  InferRow<"SELECT u.name, p.title FROM users u FULL OUTER JOIN posts p ON p.user_id = u.id", Tables>,
+  { name: string | null; title: string | null }
+>>;
+// A RIGHT JOIN after an inner join makes every earlier table nullable.
+type _join_10 = Assert<Equal<
+  InferRow<"SELECT u.name, p.title, c.id FROM users u JOIN posts p ON p.user_id = u.id RIGHT JOIN users c ON c.id = u.id", Tables>,
+  { name: string | null; title: string | null; id: number }
+>>;
+
+// ─── §4 Fallback to Row ──────────────────────────────────────────────────────
+
+type _row_1 = Assert<Equal<InferRow<"SELECT * FROM unknown_table", Tables>, Row>>;
+type _row_2 = Assert<Equal<InferRow<"UPDATE users SET name = ?", Tables>, Row>>;
+type _row_3 = Assert<Equal<InferRow<"SELECT 1", Tables>, Row>>;
+
+// ─── §5 sql tag and query ────────────────────────────────────────────────────
+
+declare const sql: SqlTag<Tables>;
+declare const client: SqlClient;
+
+const _stmt = sql("SELECT id, name FROM users WHERE id = ?");
+type _tag_1 = Assert<Equal<
+  typeof _stmt,
+  SqlStatement<[unknown], { id: number; name: string }>
+>>;
+type _tag_2 = Assert<Equal<StmtRow<typeof _stmt>, { id: number; name: string }>>;
+
+async function _query() {
+  const typed = await client.query(_stmt, [1]);
+  type _q_1 = Assert<Equal<typeof typed, QueryResult<{ id: number; name: string }>>>;
+
+  const noParams = await client.query(sql("SELECT email FROM users"));
+  type _q_2 = Assert<Equal<typeof noParams, QueryResult<{ email: string | null }>>>;
+
+  // An explicit row type still wins.
+  const explicit = await client.query<{ n: number }>(_stmt, [1]);
+  type _q_3 = Assert<Equal<typeof explicit, QueryResult<{ n: number }>>>;
+
+  const plain = await client.query("SELECT id FROM users");
+  type _q_4 = Assert<Equal<typeof plain, QueryResult<Row>>>;
+
+  // Rows are plain object types, assignable to Row.
+  const _rows: Row[] = typed.rows;
+}
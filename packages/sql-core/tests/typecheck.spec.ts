@@ -29,3 +29,9 @@ test("sql tag — compile-time type inference assertions in sql-tag.test-d.ts al
   const diagnostics = (result.stdout ?? "") + (result.stderr ?? "");
   expect(result.status, `TypeScript errors:\n${diagnostics}`).toBe(0);
 });
+
+test("result rows — compile-time row inference assertions in sql-row.test-d.ts all pass", () => {
+  const result = runTypecheck();
+  const diagnostics = (result.stdout ?? "") + (result.stderr ?? "");
+  expect(result.status, `TypeScript errors:\n${diagnostics}`).toBe(0);
+});
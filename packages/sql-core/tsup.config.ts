@@ -19,6 +19,8 @@ export default defineConfig([
       "adapters/sqlite": "src/adapters/sqlite.ts",
       "adapters/pg": "src/adapters/pg.ts",
       "adapters/mysql": "src/adapters/mysql.ts",
+      "adapters/pglite": "src/adapters/pglite.ts",
+      "adapters/duckdb": "src/adapters/duckdb.ts",
     },
     format: ["esm", "cjs"],
     dts: true,
@@ -30,9 +32,9 @@ export default defineConfig([
     entry: { cli: "bin/cli.ts", "pull-lib": "bin/pull-lib.ts" },
     outDir: "bin/dist",
     external: [
-      "better-sqlite3", "pg", "mysql2",
+      "better-sqlite3", "pg", "mysql2", "@electric-sql/pglite", "@duckdb/node-api",
       "@playwright-labs/sql-core",
-      "commander",
+      "commander", "yaml",
     ],
     format: ["esm"],
     splitting: false,
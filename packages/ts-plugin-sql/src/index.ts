@@ -25,4 +25,11 @@
 // Re-export sql tag from sql-core (the single source of truth).
 export { sql } from "@playwright-labs/sql-core";
 export type { SqlStatement, SQLParams } from "@playwright-labs/sql-core";
-export type { PluginConfig, SchemaTable, SchemaColumn } from "./schema/types.js";
+export type {
+  PluginConfig,
+  SchemaTable,
+  SchemaColumn,
+  DatabaseConfig,
+  DatabaseAdapter,
+  SqlFormatConfig,
+} from "./schema/types.js";
@@ -1,9 +1,19 @@
 import type * as tslib from "typescript/lib/tsserverlibrary";
-import type { PluginConfig } from "./schema/types.js";
+import type { PluginConfig, SchemaTable } from "./schema/types.js";
 import { loadSchema } from "./schema/loader.js";
+import { startLiveSchema } from "./schema/introspect.js";
+import { getSqlCodeFixes, SQL_FIXABLE_CODES } from "./providers/code-fixes.js";
 import { getSqlCompletions } from "./providers/completions.js";
 import { getSqlDiagnostics } from "./providers/diagnostics.js";
+import { getSqlFormattingEdits } from "./providers/formatting.js";
 import { getSqlQuickInfo } from "./providers/hover.js";
+import {
+  getSqlDefinition,
+  getSqlReferenceEntries,
+  getSqlReferences,
+  getSqlRenameInfo,
+  getSqlRenameLocations,
+} from "./providers/navigation.js";
 
 /**
  * TypeScript language service plugin factory.
@@ -18,6 +28,7 @@ function init(modules: { typescript: typeof tslib }) {
   function create(info: tslib.server.PluginCreateInfo): tslib.LanguageService {
     const config = (info.config ?? {}) as PluginConfig;
     const tagName = config.tag ?? "sql";
+    const format = config.format === false ? undefined : typeof config.format === "object" ? config.format : {};
     const log = (msg: string) =>
       info.project.projectService.logger.info(`[ts-plugin-sql] ${msg}`);
 
@@ -28,8 +39,27 @@ function init(modules: { typescript: typeof tslib }) {
 
     const readFile = (path: string) => ts.sys.readFile(path, "utf-8");
 
-    const schema = loadSchema(config, projectRoot, ts, readFile, log);
-    log(`schema loaded: ${schema.length} table(s)`);
+    const fileSchema = loadSchema(config, projectRoot, ts, readFile, log);
+    log(`schema loaded: ${fileSchema.length} table(s)`);
+    let schema = fileSchema;
+
+    // live tables win over the file / inline schema, like schemaFile over schema;
+    // a table keeps its `*Row` interface for go-to-definition
+    const withLive = (tables: SchemaTable[]) => {
+      const byName = new Map(fileSchema.map((t) => [t.name, t]));
+      for (const table of tables) {
+        const { rowInterface } = byName.get(table.name) ?? {};
+        byName.set(table.name, rowInterface ? { ...table, rowInterface } : table);
+      }
+      return [...byName.values()];
+    };
+    const live = config.database
+      ? startLiveSchema(config.database, projectRoot, log, (tables) => {
+          schema = withLive(tables);
+          info.project.refreshDiagnostics();
+        })
+      : undefined;
+    if (live?.tables) schema = withLive(live.tables);
 
     // ── Decorate LanguageService ────────────────────────────────────────────
     const proxy = Object.create(null) as tslib.LanguageService;
@@ -66,9 +96,28 @@ function init(modules: { typescript: typeof tslib }) {
     // ── Override: diagnostics ───────────────────────────────────────────────
     proxy.getSemanticDiagnostics = (fileName: string) => {
       const prior = ls.getSemanticDiagnostics(fileName);
-      return getSqlDiagnostics(ts, info, prior, fileName, tagName);
+      return getSqlDiagnostics(ts, info, prior, fileName, tagName, schema);
+    };
+
+    // ── Override: quick fixes ───────────────────────────────────────────────
+    proxy.getCodeFixesAtPosition = (
+      fileName: string,
+      start: number,
+      end: number,
+      errorCodes: readonly number[],
+      formatOptions: tslib.FormatCodeSettings,
+      preferences: tslib.UserPreferences,
+    ) => {
+      const prior = ls.getCodeFixesAtPosition(fileName, start, end, errorCodes, formatOptions, preferences);
+      return getSqlCodeFixes(ts, info, prior, fileName, start, end, errorCodes, tagName, schema);
     };
 
+    // editors only ask for fixes of the codes listed here
+    proxy.getSupportedCodeFixes = (fileName?: string) => [
+      ...ls.getSupportedCodeFixes(fileName),
+      ...SQL_FIXABLE_CODES.map(String),
+    ];
+
     // ── Override: hover ─────────────────────────────────────────────────────
     proxy.getQuickInfoAtPosition = (fileName: string, position: number) => {
       const prior = ls.getQuickInfoAtPosition(fileName, position);
@@ -78,6 +127,71 @@ function init(modules: { typescript: typeof tslib }) {
       );
     };
 
+    // ── Override: formatting ────────────────────────────────────────────────
+    if (format) {
+      proxy.getFormattingEditsForDocument = (fileName: string, options: tslib.FormatCodeSettings) => {
+        const prior = ls.getFormattingEditsForDocument(fileName, options);
+        return getSqlFormattingEdits(ts, info, prior, fileName, 0, Infinity, options, tagName, format);
+      };
+
+      proxy.getFormattingEditsForRange = (
+        fileName: string,
+        start: number,
+        end: number,
+        options: tslib.FormatCodeSettings,
+      ) => {
+        const prior = ls.getFormattingEditsForRange(fileName, start, end, options);
+        return getSqlFormattingEdits(ts, info, prior, fileName, start, end, options, tagName, format);
+      };
+    }
+
+    // ── Override: go to definition ──────────────────────────────────────────
+    proxy.getDefinitionAndBoundSpan = (fileName: string, position: number) => {
+      const prior = ls.getDefinitionAndBoundSpan(fileName, position);
+      return getSqlDefinition(ts, info, prior, fileName, position, tagName, schema);
+    };
+
+    proxy.getDefinitionAtPosition = (fileName: string, position: number) => {
+      const prior = ls.getDefinitionAtPosition(fileName, position);
+      return getSqlDefinition(ts, info, undefined, fileName, position, tagName, schema)?.definitions ?? prior;
+    };
+
+    // ── Override: find references ───────────────────────────────────────────
+    proxy.findReferences = (fileName: string, position: number) => {
+      const prior = ls.findReferences(fileName, position);
+      return getSqlReferences(ts, info, prior, fileName, position, tagName, schema);
+    };
+
+    proxy.getReferencesAtPosition = (fileName: string, position: number) => {
+      const prior = ls.getReferencesAtPosition(fileName, position);
+      return getSqlReferenceEntries(ts, info, prior, fileName, position, tagName, schema);
+    };
+
+    // ── Override: rename ────────────────────────────────────────────────────
+    proxy.getRenameInfo = (fileName: string, position: number, preferences?: tslib.UserPreferences) => {
+      const prior = ls.getRenameInfo(fileName, position, preferences);
+      return getSqlRenameInfo(ts, info, prior, fileName, position, tagName, schema);
+    };
+
+    proxy.findRenameLocations = ((
+      fileName: string,
+      position: number,
+      findInStrings: boolean,
+      findInComments: boolean,
+      preferences?: tslib.UserPreferences | boolean,
+    ) => {
+      const prefs = typeof preferences === "object" ? preferences : { providePrefixAndSuffixTextForRename: preferences };
+      const prior = ls.findRenameLocations(fileName, position, findInStrings, findInComments, prefs);
+      return getSqlRenameLocations(
+        ts, info, prior, fileName, position, findInStrings, findInComments, prefs, tagName, schema,
+      );
+    }) as tslib.LanguageService["findRenameLocations"];
+
+    proxy.dispose = () => {
+      live?.dispose();
+      ls.dispose();
+    };
+
     return proxy;
   }
 
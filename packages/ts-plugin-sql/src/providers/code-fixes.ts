@@ -0,0 +1,52 @@
+import type * as tslib from "typescript/lib/tsserverlibrary";
+import type { SchemaTable } from "../schema/types.js";
+import { SQL_ERROR_CODES } from "../sql/semantic.js";
+import { collectSqlProblems } from "./diagnostics.js";
+
+/** Codes of the SQL diagnostics that come with quick fixes. */
+export const SQL_FIXABLE_CODES: readonly number[] = [
+  SQL_ERROR_CODES.unknownTable,
+  SQL_ERROR_CODES.unknownColumn,
+  SQL_ERROR_CODES.ambiguousColumn,
+  SQL_ERROR_CODES.valueCount,
+  SQL_ERROR_CODES.paramType,
+];
+
+/**
+ * Append quick fixes — "Change to `user_id`", "Remove 1 extra value" … — for
+ * the SQL diagnostics in the requested range to the prior code fixes.
+ */
+export function getSqlCodeFixes(
+  ts: typeof tslib,
+  info: tslib.server.PluginCreateInfo,
+  prior: readonly tslib.CodeFixAction[],
+  fileName: string,
+  start: number,
+  end: number,
+  errorCodes: readonly number[],
+  tagName: string,
+  schema: SchemaTable[],
+): readonly tslib.CodeFixAction[] {
+  if (!errorCodes.some((code) => SQL_FIXABLE_CODES.includes(code))) return prior;
+
+  const program = info.languageService.getProgram();
+  if (!program) return prior;
+
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) return prior;
+
+  const actions: tslib.CodeFixAction[] = [];
+  for (const problem of collectSqlProblems(ts, program, sourceFile, tagName, schema)) {
+    if (!errorCodes.includes(problem.code)) continue;
+    if (problem.start > end || problem.start + problem.length < start) continue;
+    for (const fix of problem.fixes) {
+      actions.push({
+        fixName: "sqlPlugin",
+        description: fix.description,
+        changes: [{ fileName, textChanges: fix.changes }],
+      });
+    }
+  }
+
+  return actions.length === 0 ? prior : [...prior, ...actions];
+}
@@ -1,13 +1,26 @@
 import type * as tslib from "typescript/lib/tsserverlibrary";
+import type { SchemaTable } from "../schema/types.js";
 import { findAllTemplates } from "../sql/ast-walker.js";
+import { analyzeSql, SQL_ERROR_CODES } from "../sql/semantic.js";
 import { validateSql } from "../sql/validator.js";
+import { checkParamType } from "./param-types.js";
 
-/** Synthetic diagnostic category code used to identify our diagnostics. */
-const PLUGIN_CATEGORY = 1; // ts.DiagnosticCategory.Error
+/** A diagnostic with its quick fixes, in file positions. */
+export interface SqlProblem {
+  start: number;
+  length: number;
+  message: string;
+  code: number;
+  category: tslib.DiagnosticCategory;
+  fixes: Array<{ description: string; changes: tslib.TextChange[] }>;
+}
 
 /**
- * Augment the prior semantic diagnostics array with SQL structural errors
- * found inside `sql\`...\`` template literals in the given file.
+ * Augment the prior semantic diagnostics array with SQL errors found inside
+ * `sql\`...\`` template literals in the given file: structural errors, and —
+ * once a schema is known — unknown tables and columns, ambiguous columns,
+ * `INSERT ... VALUES` tuples of the wrong size and interpolated values whose
+ * type does not fit the column.
  */
 export function getSqlDiagnostics(
   ts: typeof tslib,
@@ -15,6 +28,7 @@ export function getSqlDiagnostics(
   prior: tslib.Diagnostic[],
   fileName: string,
   tagName: string,
+  schema: SchemaTable[],
 ): tslib.Diagnostic[] {
   const program = info.languageService.getProgram();
   if (!program) return prior;
@@ -22,25 +36,84 @@ export function getSqlDiagnostics(
   const sourceFile = program.getSourceFile(fileName);
   if (!sourceFile) return prior;
 
-  const templates = findAllTemplates(ts, sourceFile, tagName);
-  if (templates.length === 0) return prior;
+  const extra = collectSqlProblems(ts, program, sourceFile, tagName, schema).map(
+    (p): tslib.Diagnostic => ({
+      file: sourceFile,
+      start: p.start,
+      length: p.length,
+      messageText: p.message,
+      category: p.category,
+      code: p.code,
+      source: "sql-plugin",
+    }),
+  );
 
-  const extra: tslib.Diagnostic[] = [];
+  return extra.length === 0 ? prior : [...prior, ...extra];
+}
 
-  for (const tmpl of templates) {
-    const errors = validateSql(tmpl.sqlText);
+/** Every SQL problem in `sourceFile`; shared by diagnostics and code fixes. */
+export function collectSqlProblems(
+  ts: typeof tslib,
+  program: tslib.Program,
+  sourceFile: tslib.SourceFile,
+  tagName: string,
+  schema: SchemaTable[],
+): SqlProblem[] {
+  const problems: SqlProblem[] = [];
+
+  for (const tmpl of findAllTemplates(ts, sourceFile, tagName)) {
+    for (const e of validateSql(tmpl.sqlText)) {
+      problems.push({
+        start: tmpl.templateStart + e.offset,
+        length: e.length,
+        message: e.message,
+        category: ts.DiagnosticCategory.Error,
+        code: SQL_ERROR_CODES.syntax,
+        fixes: [],
+      });
+    }
+
+    const { errors, params } = analyzeSql(tmpl.sqlText, schema);
     for (const e of errors) {
-      extra.push({
-        file: sourceFile,
+      problems.push({
         start: tmpl.templateStart + e.offset,
         length: e.length,
-        messageText: e.message,
-        category: PLUGIN_CATEGORY as tslib.DiagnosticCategory,
-        code: 100001, // unique plugin error code
-        source: "sql-plugin",
+        message: e.message,
+        category: ts.DiagnosticCategory.Error,
+        code: e.code,
+        fixes: e.fixes.map((fix) => ({
+          description: fix.description,
+          changes: fix.edits.map((edit) => ({
+            span: { start: tmpl.templateStart + edit.offset, length: edit.length },
+            newText: edit.text,
+          })),
+        })),
+      });
+    }
+
+    // only interpolations have a TypeScript type; `?` written in the SQL has none
+    if (params.length === 0) continue;
+    const checker = program.getTypeChecker();
+    for (const target of params) {
+      const param = tmpl.params.find((p) => p.offset === target.offset);
+      if (!param) continue;
+      const mismatch = checkParamType(ts, checker, param.expression, target, sourceFile);
+      if (!mismatch) continue;
+      const start = param.expression.getStart(sourceFile);
+      const length = param.expression.getEnd() - start;
+      problems.push({
+        start,
+        length,
+        message: mismatch.message,
+        // the driver may still coerce the value — a warning, not an error
+        category: ts.DiagnosticCategory.Warning,
+        code: SQL_ERROR_CODES.paramType,
+        fixes: mismatch.conversion
+          ? [{ description: mismatch.conversion.description, changes: [{ span: { start, length }, newText: mismatch.conversion.text }] }]
+          : [],
       });
     }
   }
 
-  return [...prior, ...extra];
+  return problems;
 }
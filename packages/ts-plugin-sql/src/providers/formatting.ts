@@ -0,0 +1,72 @@
+import type * as tslib from "typescript/lib/tsserverlibrary";
+import type { SqlFormatConfig } from "../schema/types.js";
+import { findAllTemplates } from "../sql/ast-walker.js";
+import { FORMATTABLE_STATEMENTS, formatSql } from "../sql/formatter.js";
+import { tokenizeSql } from "../sql/tokenizer.js";
+
+/**
+ * Add edits that pretty-print the `sql\`...\`` templates overlapping
+ * `[start, end)` to the prior formatting edits.
+ *
+ * A template spanning several lines gets one clause per line, indented one
+ * level past the line holding the template; a single-line template stays on
+ * one line. Prior edits inside a reformatted template are dropped — they
+ * would overlap ours.
+ */
+export function getSqlFormattingEdits(
+  ts: typeof tslib,
+  info: tslib.server.PluginCreateInfo,
+  prior: tslib.TextChange[],
+  fileName: string,
+  start: number,
+  end: number,
+  options: tslib.FormatCodeSettings,
+  tagName: string,
+  config: SqlFormatConfig,
+): tslib.TextChange[] {
+  const program = info.languageService.getProgram();
+  if (!program) return prior;
+
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) return prior;
+
+  const text = sourceFile.text;
+  const unit = options.convertTabsToSpaces === false ? "\t" : " ".repeat(options.indentSize ?? 4);
+  const newLine = options.newLineCharacter ?? "\n";
+  const edits: tslib.TextChange[] = [];
+
+  for (const tmpl of findAllTemplates(ts, sourceFile, tagName)) {
+    if (tmpl.templateEnd < start || tmpl.templateStart > end) continue;
+    // a template nested in `${}` of one already reformatted
+    if (edits.some((e) => tmpl.templateStart < e.span.start + e.span.length)) continue;
+    const first = tokenizeSql(tmpl.sqlText)[0];
+    if (first?.kind !== "word" || !FORMATTABLE_STATEMENTS.has(first.value.toUpperCase())) continue;
+
+    const raw = text.slice(tmpl.templateStart, tmpl.templateEnd);
+    const multiline = raw.includes("\n");
+    const lineStart = text.lastIndexOf("\n", tmpl.templateStart - 1) + 1;
+    const base = /^[ \t]*/.exec(text.slice(lineStart))![0];
+
+    const body = formatSql(tmpl.sqlText, {
+      multiline,
+      keywordCase: config.keywordCase,
+      newline: newLine + base + unit,
+      indent: unit,
+      source: raw,
+      params: tmpl.params,
+    });
+    const newText = multiline ? `${newLine}${base}${unit}${body}${newLine}${base}` : body;
+    if (newText !== raw) {
+      edits.push({ span: { start: tmpl.templateStart, length: raw.length }, newText });
+    }
+  }
+
+  if (edits.length === 0) return prior;
+  const outside = prior.filter((change) =>
+    !edits.some((edit) =>
+      change.span.start < edit.span.start + edit.span.length
+      && change.span.start + change.span.length > edit.span.start,
+    ),
+  );
+  return [...outside, ...edits].sort((a, b) => a.span.start - b.span.start);
+}
@@ -1,5 +1,5 @@
 import type * as tslib from "typescript/lib/tsserverlibrary";
-import type { SchemaTable } from "../schema/types.js";
+import type { SchemaColumn, SchemaTable } from "../schema/types.js";
 import { getSqlContext } from "../sql/context.js";
 import { findTemplateAtPosition } from "../sql/ast-walker.js";
 
@@ -37,7 +37,9 @@ export function getSqlQuickInfo(
   // Try to match word to a table name
   const table = schema.find((t) => t.name.toLowerCase() === word.text.toLowerCase());
   if (table) {
-    const cols = table.columns.map((c) => `  ${c.name}: ${c.type}`).join("\n");
+    const cols = table.columns
+      .map((c) => `  ${c.name}: ${c.type}${c.sqlType ? `  // ${describeColumn(c)}` : ""}`)
+      .join("\n");
     return quickInfo(
       position - word.offset,
       word.text.length,
@@ -54,7 +56,7 @@ export function getSqlQuickInfo(
         position - word.offset,
         word.text.length,
         `column ${t.name}.${col.name}`,
-        col.type,
+        col.sqlType ? `${col.type}\n${describeColumn(col)}` : col.type,
       );
     }
   }
@@ -64,6 +66,15 @@ export function getSqlQuickInfo(
 
 // ─── Helpers ─────────────────────────────────────────────────────────────────
 
+/** Column definition as SQL, e.g. `integer NOT NULL DEFAULT 0 REFERENCES users(id)`. */
+function describeColumn(col: SchemaColumn): string {
+  let sql = col.sqlType ?? "";
+  if (col.nullable === false) sql += " NOT NULL";
+  if (col.default != null) sql += ` DEFAULT ${col.default}`;
+  if (col.references) sql += ` REFERENCES ${col.references.table}(${col.references.column})`;
+  return sql;
+}
+
 interface WordAtOffset {
   text: string;
   /** Character offset from sqlOffset back to the start of the word. */
@@ -0,0 +1,348 @@
+import type * as tslib from "typescript/lib/tsserverlibrary";
+import type { SchemaColumn, SchemaTable } from "../schema/types.js";
+import { findAllTemplates, findTemplateAtPosition } from "../sql/ast-walker.js";
+import { analyzeSql } from "../sql/semantic.js";
+
+/** A table, or one of its columns. */
+interface SchemaTarget {
+  table: SchemaTable;
+  column?: SchemaColumn;
+}
+
+/** Where a target was found in the schema file. */
+type DeclarationKind = "interface" | "property" | "tablesKey";
+
+/**
+ * Go to definition from a table or column name in a `sql\`...\`` template
+ * to its `*Row` interface (or property) in the schema file.
+ */
+export function getSqlDefinition(
+  ts: typeof tslib,
+  info: tslib.server.PluginCreateInfo,
+  prior: tslib.DefinitionInfoAndBoundSpan | undefined,
+  fileName: string,
+  position: number,
+  tagName: string,
+  schema: SchemaTable[],
+): tslib.DefinitionInfoAndBoundSpan | undefined {
+  const program = info.languageService.getProgram();
+  const sourceFile = program?.getSourceFile(fileName);
+  if (!program || !sourceFile) return prior;
+
+  const hit = sqlTargetAt(ts, sourceFile, position, tagName, schema);
+  if (!hit) return prior;
+  const declaration = findDeclaration(ts, program, hit.target);
+  if (!declaration) return prior;
+  return { definitions: [declaration], textSpan: hit.textSpan };
+}
+
+/**
+ * Find all references of a table or column: its uses in every `sql`
+ * template of the project, next to the TypeScript references of its `*Row`
+ * interface or property. Works from a template and from the schema file.
+ */
+export function getSqlReferences(
+  ts: typeof tslib,
+  info: tslib.server.PluginCreateInfo,
+  prior: tslib.ReferencedSymbol[] | undefined,
+  fileName: string,
+  position: number,
+  tagName: string,
+  schema: SchemaTable[],
+): tslib.ReferencedSymbol[] | undefined {
+  const program = info.languageService.getProgram();
+  const sourceFile = program?.getSourceFile(fileName);
+  if (!program || !sourceFile) return prior;
+
+  const hit = sqlTargetAt(ts, sourceFile, position, tagName, schema);
+  const target = hit?.target ?? declarationTargetAt(ts, sourceFile, position, schema)?.target;
+  if (!target) return prior;
+  const references = collectSqlReferences(ts, program, tagName, schema, target);
+
+  let symbols = prior;
+  if (hit) {
+    const declaration = findDeclaration(ts, program, target);
+    symbols = declaration && program.getSourceFile(declaration.fileName)
+      ? info.languageService.findReferences(declaration.fileName, declaration.textSpan.start)
+      : undefined;
+    if (!symbols?.length) {
+      const definition = declaration ?? { fileName, textSpan: hit.textSpan, ...describe(ts, target) };
+      return [{
+        definition: { ...definition, displayParts: [{ text: title(target), kind: "text" }] },
+        references: declaration
+          ? [{ ...declaration, isWriteAccess: false, isDefinition: true }, ...references]
+          : references,
+      }];
+    }
+  }
+
+  if (!symbols?.length) return prior;
+  symbols[0]!.references.push(...references);
+  return symbols;
+}
+
+/** Flat variant of {@link getSqlReferences}, for `getReferencesAtPosition`. */
+export function getSqlReferenceEntries(
+  ts: typeof tslib,
+  info: tslib.server.PluginCreateInfo,
+  prior: tslib.ReferenceEntry[] | undefined,
+  fileName: string,
+  position: number,
+  tagName: string,
+  schema: SchemaTable[],
+): tslib.ReferenceEntry[] | undefined {
+  const program = info.languageService.getProgram();
+  const sourceFile = program?.getSourceFile(fileName);
+  if (!program || !sourceFile) return prior;
+
+  if (sqlTargetAt(ts, sourceFile, position, tagName, schema)) {
+    return getSqlReferences(ts, info, undefined, fileName, position, tagName, schema)
+      ?.flatMap((symbol) => symbol.references);
+  }
+  const target = declarationTargetAt(ts, sourceFile, position, schema)?.target;
+  if (!target) return prior;
+  return [...(prior ?? []), ...collectSqlReferences(ts, program, tagName, schema, target)];
+}
+
+/** Allow renaming a table or column from a `sql` template. */
+export function getSqlRenameInfo(
+  ts: typeof tslib,
+  info: tslib.server.PluginCreateInfo,
+  prior: tslib.RenameInfo,
+  fileName: string,
+  position: number,
+  tagName: string,
+  schema: SchemaTable[],
+): tslib.RenameInfo {
+  const sourceFile = info.languageService.getProgram()?.getSourceFile(fileName);
+  if (!sourceFile) return prior;
+
+  const hit = sqlTargetAt(ts, sourceFile, position, tagName, schema);
+  if (!hit) return prior;
+  const { table, column } = hit.target;
+  return {
+    canRename: true,
+    displayName: column?.name ?? table.name,
+    fullDisplayName: column ? `${table.name}.${column.name}` : table.name,
+    ...describe(ts, hit.target),
+    kindModifiers: "",
+    triggerSpan: hit.textSpan,
+  };
+}
+
+/**
+ * Rename a table or column in every `sql` template. A column's property in
+ * the `*Row` interface — and its TypeScript uses — are renamed with it, as is
+ * a table's key in `Tables`. Renaming the property or key in the schema file
+ * renames the SQL references too.
+ */
+export function getSqlRenameLocations(
+  ts: typeof tslib,
+  info: tslib.server.PluginCreateInfo,
+  prior: readonly tslib.RenameLocation[] | undefined,
+  fileName: string,
+  position: number,
+  findInStrings: boolean,
+  findInComments: boolean,
+  preferences: tslib.UserPreferences,
+  tagName: string,
+  schema: SchemaTable[],
+): readonly tslib.RenameLocation[] | undefined {
+  const program = info.languageService.getProgram();
+  const sourceFile = program?.getSourceFile(fileName);
+  if (!program || !sourceFile) return prior;
+
+  const hit = sqlTargetAt(ts, sourceFile, position, tagName, schema);
+  if (hit) {
+    const declaration = findRenameDeclaration(ts, program, hit.target);
+    const schemaLocations = declaration
+      ? info.languageService.findRenameLocations(
+          declaration.fileName,
+          declaration.start,
+          findInStrings,
+          findInComments,
+          preferences,
+        ) ?? []
+      : [];
+    return [...schemaLocations, ...collectSqlReferences(ts, program, tagName, schema, hit.target)];
+  }
+
+  // the interface itself is a TypeScript name, not the table's
+  const declared = declarationTargetAt(ts, sourceFile, position, schema);
+  if (!declared || declared.kind === "interface") return prior;
+  return [...(prior ?? []), ...collectSqlReferences(ts, program, tagName, schema, declared.target)];
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+/** The table or column name under `position` in a `sql` template. */
+function sqlTargetAt(
+  ts: typeof tslib,
+  sourceFile: tslib.SourceFile,
+  position: number,
+  tagName: string,
+  schema: SchemaTable[],
+): { target: SchemaTarget; textSpan: tslib.TextSpan } | undefined {
+  const tmpl = findTemplateAtPosition(ts, sourceFile, position, tagName);
+  if (!tmpl) return undefined;
+
+  const offset = position - tmpl.templateStart;
+  const ref = analyzeSql(tmpl.sqlText, schema).refs.find(
+    (r) => offset >= r.offset && offset <= r.offset + r.length,
+  );
+  if (!ref) return undefined;
+  return {
+    target: { table: ref.table, column: ref.column },
+    textSpan: { start: tmpl.templateStart + ref.offset, length: ref.length },
+  };
+}
+
+/** The table or column declared under `position` in the schema file. */
+function declarationTargetAt(
+  ts: typeof tslib,
+  sourceFile: tslib.SourceFile,
+  position: number,
+  schema: SchemaTable[],
+): { target: SchemaTarget; kind: DeclarationKind } | undefined {
+  const tables = schema.filter((t) => t.rowInterface?.fileName === sourceFile.fileName);
+  if (tables.length === 0) return undefined;
+
+  const within = (node: tslib.Node) => position >= node.getStart(sourceFile) && position <= node.getEnd();
+
+  for (const stmt of sourceFile.statements) {
+    if (!ts.isInterfaceDeclaration(stmt)) continue;
+    const table = tables.find((t) => t.rowInterface!.name === stmt.name.text);
+    if (!table) continue;
+    if (within(stmt.name)) return { target: { table }, kind: "interface" };
+    for (const member of stmt.members) {
+      if (!ts.isPropertySignature(member) || !within(member.name)) continue;
+      const column = table.columns.find((c) => c.name === member.name.getText(sourceFile));
+      return column ? { target: { table, column }, kind: "property" } : undefined;
+    }
+  }
+
+  const key = tablesKeys(ts, sourceFile).find((member) => within(member.name!));
+  const table = key && tables.find((t) => t.name === unquote(key.name!.getText(sourceFile)));
+  return table ? { target: { table }, kind: "tablesKey" } : undefined;
+}
+
+/** The `*Row` interface of a table, or the property of a column. */
+function findDeclaration(
+  ts: typeof tslib,
+  program: tslib.Program,
+  target: SchemaTarget,
+): tslib.DefinitionInfo | undefined {
+  const iface = target.table.rowInterface;
+  if (!iface) return undefined;
+  const sourceFile = schemaSourceFile(ts, program, iface.fileName);
+  const decl = sourceFile?.statements.find(
+    (s): s is tslib.InterfaceDeclaration => ts.isInterfaceDeclaration(s) && s.name.text === iface.name,
+  );
+  if (!sourceFile || !decl) return undefined;
+
+  let name: tslib.Node = decl.name;
+  if (target.column) {
+    const member = decl.members.find(
+      (m) => ts.isPropertySignature(m) && m.name.getText(sourceFile) === target.column!.name,
+    );
+    if (!member) return undefined;
+    name = member.name!;
+  }
+  const start = name.getStart(sourceFile);
+  return {
+    ...describe(ts, target),
+    fileName: sourceFile.fileName,
+    textSpan: { start, length: name.getEnd() - start },
+    name: target.column?.name ?? iface.name,
+    containerKind: target.column ? ts.ScriptElementKind.interfaceElement : ts.ScriptElementKind.unknown,
+    containerName: target.column ? iface.name : "",
+  };
+}
+
+/**
+ * What renaming `target` renames in the schema file: a column's property, or
+ * a table's key in `Tables`. Only for a schema file in the program.
+ */
+function findRenameDeclaration(
+  ts: typeof tslib,
+  program: tslib.Program,
+  target: SchemaTarget,
+): { fileName: string; start: number } | undefined {
+  const iface = target.table.rowInterface;
+  const sourceFile = iface && program.getSourceFile(iface.fileName);
+  if (!sourceFile) return undefined;
+
+  if (target.column) {
+    const declaration = findDeclaration(ts, program, target);
+    return declaration && { fileName: declaration.fileName, start: declaration.textSpan.start };
+  }
+  const key = tablesKeys(ts, sourceFile).find((m) => unquote(m.name!.getText(sourceFile)) === target.table.name);
+  return key && { fileName: sourceFile.fileName, start: key.name!.getStart(sourceFile) };
+}
+
+/** Members of `export type Tables = { users: UsersRow; ... }`. */
+function tablesKeys(ts: typeof tslib, sourceFile: tslib.SourceFile): tslib.TypeElement[] {
+  for (const stmt of sourceFile.statements) {
+    if (ts.isTypeAliasDeclaration(stmt) && stmt.name.text === "Tables" && ts.isTypeLiteralNode(stmt.type)) {
+      return stmt.type.members.filter((m) => m.name !== undefined);
+    }
+  }
+  return [];
+}
+
+/** The schema file as the program has it — or from disk, when it is not part of the project. */
+function schemaSourceFile(
+  ts: typeof tslib,
+  program: tslib.Program,
+  fileName: string,
+): tslib.SourceFile | undefined {
+  const inProgram = program.getSourceFile(fileName);
+  if (inProgram) return inProgram;
+  const text = ts.sys.readFile(fileName);
+  return text === undefined ? undefined : ts.createSourceFile(fileName, text, ts.ScriptTarget.Latest, true);
+}
+
+/** Every reference to `target` in the `sql` templates of the project's own files. */
+function collectSqlReferences(
+  ts: typeof tslib,
+  program: tslib.Program,
+  tagName: string,
+  schema: SchemaTable[],
+  target: SchemaTarget,
+): tslib.ReferencedSymbolEntry[] {
+  const name = (target.column?.name ?? target.table.name).toLowerCase();
+  const entries: tslib.ReferencedSymbolEntry[] = [];
+
+  for (const sourceFile of program.getSourceFiles()) {
+    if (sourceFile.isDeclarationFile || program.isSourceFileFromExternalLibrary(sourceFile)) continue;
+    if (!sourceFile.text.toLowerCase().includes(name)) continue;
+
+    for (const tmpl of findAllTemplates(ts, sourceFile, tagName)) {
+      for (const ref of analyzeSql(tmpl.sqlText, schema).refs) {
+        const same = ref.table.name === target.table.name
+          && (target.column ? ref.column?.name === target.column.name : !ref.column);
+        if (!same) continue;
+        entries.push({
+          fileName: sourceFile.fileName,
+          textSpan: { start: tmpl.templateStart + ref.offset, length: ref.length },
+          isWriteAccess: false,
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+function describe(ts: typeof tslib, target: SchemaTarget) {
+  return target.column
+    ? { kind: ts.ScriptElementKind.memberVariableElement, name: target.column.name, containerKind: ts.ScriptElementKind.interfaceElement, containerName: target.table.name }
+    : { kind: ts.ScriptElementKind.interfaceElement, name: target.table.name, containerKind: ts.ScriptElementKind.unknown, containerName: "" };
+}
+
+function title(target: SchemaTarget): string {
+  return target.column ? `column ${target.table.name}.${target.column.name}` : `table ${target.table.name}`;
+}
+
+function unquote(name: string): string {
+  return name.replace(/^['"]|['"]$/g, "");
+}
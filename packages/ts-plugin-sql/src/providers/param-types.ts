@@ -0,0 +1,108 @@
+import type * as tslib from "typescript/lib/tsserverlibrary";
+import type { ParamTarget } from "../sql/semantic.js";
+
+/** What a value looks like to the database driver. */
+type ValueKind = "number" | "bigint" | "string" | "boolean" | "Date" | "Buffer" | "null" | "object";
+
+/** Value kinds each column type accepts; drivers serialise `Date` to text and back. */
+const ACCEPTS: Record<string, ValueKind[]> = {
+  number: ["number", "bigint"],
+  bigint: ["bigint", "number"],
+  string: ["string", "Date"],
+  boolean: ["boolean"],
+  Date: ["Date", "string"],
+  Buffer: ["Buffer"],
+};
+
+/** How to convert a value for a column type, offered as a quick fix. */
+const CONVERSIONS: Record<string, (expr: string) => string> = {
+  number: (expr) => `Number(${expr})`,
+  bigint: (expr) => `BigInt(${expr})`,
+  string: (expr) => `String(${expr})`,
+  boolean: (expr) => `Boolean(${expr})`,
+  Date: (expr) => `new Date(${expr})`,
+};
+
+export interface ParamMismatch {
+  message: string;
+  /** Replacement text for the expression, e.g. `Number(id)`. */
+  conversion?: { description: string; text: string };
+}
+
+/**
+ * Compare the TypeScript type of an interpolated expression with the column
+ * it is compared with or written to. Returns `undefined` when the value fits,
+ * or when either side is too loose to tell (`any`, generics, JSON columns).
+ */
+export function checkParamType(
+  ts: typeof tslib,
+  checker: tslib.TypeChecker,
+  expression: tslib.Expression,
+  target: ParamTarget,
+  sourceFile: tslib.SourceFile,
+): ParamMismatch | undefined {
+  const column = parseColumnType(target.column.type);
+  if (!column) return undefined;
+  const nullable = column.nullable || target.column.nullable === true;
+
+  const type = checker.getTypeAtLocation(expression);
+  const kinds = valueKinds(ts, type);
+  if (!kinds) return undefined;
+
+  const accepted = ACCEPTS[column.kind]!;
+  const rejected = kinds.filter((kind) =>
+    kind === "null" ? target.write && !nullable : !accepted.includes(kind),
+  );
+  if (rejected.length === 0) return undefined;
+
+  const typeText = checker.typeToString(checker.getBaseTypeOfLiteralType(type));
+  const columnText = `${target.table}.${target.column.name}`;
+  const message = rejected.every((kind) => kind === "null")
+    ? `Type '${typeText}' may be null, but column ${columnText} is NOT NULL`
+    : `Type '${typeText}' does not match column ${columnText} (${target.column.type})`;
+
+  const convert = CONVERSIONS[column.kind];
+  if (!convert || rejected.includes("null")) return { message };
+  const text = convert(expression.getText(sourceFile));
+  return { message, conversion: { description: `Convert to ${column.kind} with \`${text}\``, text } };
+}
+
+/** `"string | null"` → `{ kind: "string", nullable: true }`; `undefined` for other types. */
+function parseColumnType(type: string): { kind: string; nullable: boolean } | undefined {
+  const parts = type.split("|").map((part) => part.trim());
+  const nullable = parts.includes("null");
+  const rest = parts.filter((part) => part !== "null" && part !== "undefined");
+  // literal unions from CHECK constraints / enums: "'draft' | 'published'"
+  const kinds = new Set(rest.map((part) => (/^(['"]).*\1$/.test(part) ? "string" : /^-?\d/.test(part) ? "number" : part)));
+  const [kind] = kinds;
+  if (kinds.size !== 1 || !(kind! in ACCEPTS)) return undefined;
+  return { kind: kind!, nullable };
+}
+
+function valueKinds(ts: typeof tslib, type: tslib.Type): ValueKind[] | undefined {
+  const { flags } = type;
+  if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.Never | ts.TypeFlags.TypeParameter)) {
+    return undefined;
+  }
+  if (type.isUnion()) {
+    const kinds: ValueKind[] = [];
+    for (const member of type.types) {
+      const memberKinds = valueKinds(ts, member);
+      if (!memberKinds) return undefined;
+      kinds.push(...memberKinds);
+    }
+    return [...new Set(kinds)];
+  }
+  if (flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined | ts.TypeFlags.Void)) return ["null"];
+  if (flags & ts.TypeFlags.NumberLike) return ["number"];
+  if (flags & ts.TypeFlags.BigIntLike) return ["bigint"];
+  if (flags & ts.TypeFlags.StringLike) return ["string"];
+  if (flags & ts.TypeFlags.BooleanLike) return ["boolean"];
+  if (flags & ts.TypeFlags.Object) {
+    const name = type.getSymbol()?.getName();
+    if (name === "Date") return ["Date"];
+    if (name === "Buffer" || name === "Uint8Array") return ["Buffer"];
+    return ["object"];
+  }
+  return undefined;
+}
@@ -0,0 +1,170 @@
+import { execFile } from "node:child_process";
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { dirname, join } from "node:path";
+import type { DatabaseAdapter, DatabaseConfig, SchemaTable } from "./types.js";
+
+/** Column as printed by `sql-core pull --json`. */
+interface PulledColumn {
+  name: string;
+  type: string;
+  nullable: boolean;
+  default?: string | null;
+  references?: { table: string; column: string };
+  tsType: string;
+}
+
+interface CacheEntry {
+  fetchedAt: number;
+  tables: SchemaTable[];
+}
+
+export interface LiveSchema {
+  /** Last introspected (or cached) tables; `undefined` until the first run finishes. */
+  readonly tables: SchemaTable[] | undefined;
+  /** Introspect now, unless a run is already in progress. */
+  refresh(): void;
+  dispose(): void;
+}
+
+const PULL_TIMEOUT = 30_000;
+
+export function inferAdapter(url: string): DatabaseAdapter {
+  if (/^postgres(ql)?:\/\//i.test(url)) return "pg";
+  if (/^mysql:\/\//i.test(url)) return "mysql";
+  if (/\.duckdb$/i.test(url)) return "duckdb";
+  return "sqlite";
+}
+
+/** Replaces `${VAR}` with the environment variable; unknown variables become empty. */
+export function expandEnv(value: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] ?? "");
+}
+
+/** The sql-core CLI the project resolves, falling back to the plugin's own dependency. */
+function resolveCli(projectRoot: string): string {
+  let main: string;
+  try {
+    main = createRequire(join(projectRoot, "package.json")).resolve("@playwright-labs/sql-core");
+  } catch {
+    main = createRequire(__filename).resolve("@playwright-labs/sql-core");
+  }
+  // dist/index.cjs → bin/dist/cli.js
+  return join(dirname(main), "..", "bin", "dist", "cli.js");
+}
+
+function toTables(pulled: Array<{ name: string; columns: PulledColumn[] }>): SchemaTable[] {
+  return pulled.map(({ name, columns }) => ({
+    name,
+    columns: columns.map((col) => ({
+      name: col.name,
+      type: col.tsType,
+      sqlType: col.type,
+      nullable: col.nullable,
+      default: col.default,
+      references: col.references,
+    })),
+  }));
+}
+
+/**
+ * Introspects `config` in a child process — tsserver must never block on a
+ * database — on startup and every `refreshInterval` ms. The last result is
+ * cached on disk, so a restarted server has a schema right away.
+ * `onChange` fires whenever a run returns a different schema.
+ */
+export function startLiveSchema(
+  config: DatabaseConfig,
+  projectRoot: string,
+  log: (msg: string) => void,
+  onChange: (tables: SchemaTable[]) => void,
+): LiveSchema {
+  const url = expandEnv(config.url);
+  const adapter = config.adapter ?? inferAdapter(url);
+  const interval = config.refreshInterval ?? 60_000;
+  // the URL may hold credentials — only its hash goes into the file name
+  const key = createHash("sha1").update(`${adapter}\n${url}`).digest("hex").slice(0, 16);
+  const cacheFile = join(projectRoot, "node_modules", ".cache", "ts-plugin-sql", `${key}.json`);
+
+  let tables: SchemaTable[] | undefined;
+  let fetchedAt = 0;
+  let running = false;
+  let disposed = false;
+
+  try {
+    const cached = JSON.parse(readFileSync(cacheFile, "utf8")) as CacheEntry;
+    tables = cached.tables;
+    fetchedAt = cached.fetchedAt;
+    log(`database: ${tables.length} table(s) from cache`);
+  } catch {
+    // no cache yet
+  }
+
+  function refresh(): void {
+    if (running || disposed) return;
+    running = true;
+    let cli: string;
+    try {
+      cli = resolveCli(projectRoot);
+    } catch (err) {
+      running = false;
+      log(`database: cannot find @playwright-labs/sql-core — ${(err as Error).message}`);
+      return;
+    }
+
+    execFile(
+      process.execPath,
+      [cli, "pull", "--adapter", adapter, "--json"],
+      {
+        cwd: projectRoot,
+        // through the environment, so credentials do not show up in `ps`
+        env: { ...process.env, SQL_CORE_URL: url },
+        timeout: PULL_TIMEOUT,
+        maxBuffer: 16 * 1024 * 1024,
+        windowsHide: true,
+      },
+      (err, stdout, stderr) => {
+        running = false;
+        if (disposed) return;
+        if (err) {
+          log(`database: introspection failed — ${stderr.trim() || err.message}`);
+          return;
+        }
+        let next: SchemaTable[];
+        try {
+          next = toTables(JSON.parse(stdout));
+        } catch (parseErr) {
+          log(`database: unexpected pull output — ${(parseErr as Error).message}`);
+          return;
+        }
+        fetchedAt = Date.now();
+        try {
+          mkdirSync(dirname(cacheFile), { recursive: true });
+          writeFileSync(cacheFile, JSON.stringify({ fetchedAt, tables: next } satisfies CacheEntry));
+        } catch (writeErr) {
+          log(`database: cannot write cache — ${(writeErr as Error).message}`);
+        }
+        const changed = JSON.stringify(next) !== JSON.stringify(tables);
+        tables = next;
+        log(`database: ${next.length} table(s) introspected${changed ? "" : " (unchanged)"}`);
+        if (changed) onChange(next);
+      },
+    );
+  }
+
+  if (!tables || interval === 0 || Date.now() - fetchedAt >= interval) refresh();
+  const timer = interval > 0 ? setInterval(refresh, interval) : undefined;
+  timer?.unref();
+
+  return {
+    get tables() {
+      return tables;
+    },
+    refresh,
+    dispose() {
+      disposed = true;
+      if (timer) clearInterval(timer);
+    },
+  };
+}
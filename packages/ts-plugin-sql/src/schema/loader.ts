@@ -37,7 +37,7 @@ export function loadSchema(
     if (!source) {
       log(`schemaFile not found: ${absPath}`);
     } else {
-      const parsed = parseSchemaFile(source, ts, log);
+      const parsed = parseSchemaFile(source, absPath, ts, log);
       for (const table of parsed) {
         tables.set(table.name, table);
       }
@@ -56,6 +56,7 @@ export function loadSchema(
  */
 function parseSchemaFile(
   source: string,
+  fileName: string,
   ts: typeof tslib,
   log: (msg: string) => void,
 ): SchemaTable[] {
@@ -115,7 +116,7 @@ function parseSchemaFile(
   const result: SchemaTable[] = [];
   for (const [tableName, ifaceName] of tableToInterface) {
     const columns = interfaces.get(ifaceName) ?? [];
-    result.push({ name: tableName, columns });
+    result.push({ name: tableName, columns, rowInterface: { fileName, name: ifaceName } });
   }
   return result;
 }
@@ -3,17 +3,59 @@ export interface SchemaColumn {
   name: string;
   /** TypeScript type string as it appears in the generated interface, e.g. "string | null" */
   type: string;
+  /** Database type, e.g. "character varying" — only known for a live `database` schema. */
+  sqlType?: string;
+  nullable?: boolean;
+  /** Default expression as the database reports it. */
+  default?: string | null;
+  /** Target of a foreign key on this column. */
+  references?: { table: string; column: string };
 }
 
 /** A table extracted from the schema. */
 export interface SchemaTable {
   name: string;
   columns: SchemaColumn[];
+  /** The `*Row` interface declaring the table — only known for a `schemaFile`. */
+  rowInterface?: { fileName: string; name: string };
 }
 
 /** Inline schema definition accepted in tsconfig.json plugins config. */
 export type InlineSchema = Record<string, Record<string, string>>;
 
+/** sql-core adapter used to introspect a live database. */
+export type DatabaseAdapter = "sqlite" | "pg" | "mysql" | "pglite" | "duckdb";
+
+/** A live database the plugin introspects in the background. */
+export interface DatabaseConfig {
+  /**
+   * SQLite / DuckDB file path (relative to tsconfig.json), PGlite data
+   * directory, or connection string. `${VAR}` is replaced with the
+   * environment variable, so credentials can stay out of tsconfig.json.
+   */
+  url: string;
+  /**
+   * Adapter to introspect with. Inferred from the URL when omitted:
+   * `postgres(ql)://` → pg, `mysql://` → mysql, `*.duckdb` → duckdb,
+   * anything else → sqlite.
+   */
+  adapter?: DatabaseAdapter;
+  /**
+   * Milliseconds between re-introspections; `0` introspects only on startup.
+   * @default 60000
+   */
+  refreshInterval?: number;
+}
+
+/** How "Format Document" prints SQL inside templates. */
+export interface SqlFormatConfig {
+  /**
+   * Case of SQL keywords.
+   * @default "upper"
+   */
+  keywordCase?: "upper" | "lower" | "preserve";
+}
+
 /**
  * Plugin configuration accepted as the second element of the plugins array in
  * tsconfig.json:
@@ -53,4 +95,24 @@ export interface PluginConfig {
    * ```
    */
   schema?: InlineSchema;
+
+  /**
+   * Introspect a live database with `@playwright-labs/sql-core pull --json`
+   * in a background process. The result is cached under
+   * `node_modules/.cache/ts-plugin-sql` and wins over `schemaFile` and
+   * `schema` on conflict.
+   *
+   * @example
+   * ```json
+   * { "url": "./dev.db", "refreshInterval": 30000 }
+   * ```
+   */
+  database?: DatabaseConfig;
+
+  /**
+   * Format SQL inside templates along with the rest of the document. `false`
+   * leaves templates as written.
+   * @default true
+   */
+  format?: boolean | SqlFormatConfig;
 }
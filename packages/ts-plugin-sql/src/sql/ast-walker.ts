@@ -1,7 +1,11 @@
 import type * as tslib from "typescript/lib/tsserverlibrary";
 
 export interface TemplateInfo {
-  /** Full SQL text with each `${expr}` substitution replaced by `?`. */
+  /**
+   * Full SQL text with each `${expr}` substitution replaced by `?`, padded
+   * with spaces to the substitution's length — so an offset into `sqlText`
+   * plus `templateStart` is always a file position.
+   */
   sqlText: string;
   /** Absolute file position of the first character INSIDE the template (after `` ` ``). */
   templateStart: number;
@@ -9,6 +13,15 @@ export interface TemplateInfo {
   templateEnd: number;
   /** The tagged template expression node. */
   node: tslib.TaggedTemplateExpression;
+  /** Interpolated expressions, in order, with the offset of their `?` in `sqlText`. */
+  params: TemplateParam[];
+}
+
+export interface TemplateParam {
+  offset: number;
+  /** Length of the `${expr}` substitution in the source. */
+  length: number;
+  expression: tslib.Expression;
 }
 
 /**
@@ -35,12 +48,7 @@ export function findTemplateAtPosition(
       const end = tmpl.getEnd() - 1;
 
       if (position >= start && position <= end) {
-        return {
-          sqlText: extractSqlText(ts, tmpl, sourceFile),
-          templateStart: start,
-          templateEnd: end,
-          node,
-        };
+        return { ...extractSqlText(ts, tmpl, sourceFile), templateStart: start, templateEnd: end, node };
       }
     }
     return ts.forEachChild(node, visit);
@@ -69,12 +77,7 @@ export function findAllTemplates(
       const tmpl = node.template;
       const start = tmpl.getStart(sourceFile) + 1;
       const end = tmpl.getEnd() - 1;
-      results.push({
-        sqlText: extractSqlText(ts, tmpl, sourceFile),
-        templateStart: start,
-        templateEnd: end,
-        node,
-      });
+      results.push({ ...extractSqlText(ts, tmpl, sourceFile), templateStart: start, templateEnd: end, node });
     }
     ts.forEachChild(node, visit);
   }
@@ -83,19 +86,31 @@ export function findAllTemplates(
   return results;
 }
 
-/** Build a plain SQL string: head + `?` for each interpolated expression + tail. */
+/**
+ * Build a plain SQL string from the template's source text: each `${expr}`
+ * becomes `?` followed by spaces, keeping every other character in place.
+ */
 function extractSqlText(
   ts: typeof tslib,
   template: tslib.TemplateLiteral,
   sourceFile: tslib.SourceFile,
-): string {
+): { sqlText: string; params: TemplateParam[] } {
+  const start = template.getStart(sourceFile) + 1;
+  const raw = sourceFile.text.slice(start, template.getEnd() - 1);
   if (ts.isNoSubstitutionTemplateLiteral(template)) {
-    return template.text;
+    return { sqlText: raw, params: [] };
   }
   // Template expression: `head ${expr1} middle ${expr2} tail`
-  let sql = template.head.text;
+  let sqlText = "";
+  let last = 0;
+  const params: TemplateParam[] = [];
   for (const span of template.templateSpans) {
-    sql += "?" + span.literal.text;
+    // from `${` up to and including `}`
+    const from = span.expression.getFullStart() - 2 - start;
+    const to = span.literal.getStart(sourceFile) + 1 - start;
+    sqlText += raw.slice(last, from) + "?".padEnd(to - from);
+    params.push({ offset: from, length: to - from, expression: span.expression });
+    last = to;
   }
-  return sql;
+  return { sqlText: sqlText + raw.slice(last), params };
 }
@@ -0,0 +1,201 @@
+/**
+ * SQL pretty-printer for `sql` templates.
+ *
+ * Only whitespace and keyword case change: every token is copied from the
+ * template source, so `${}` substitutions, string literals and comments come
+ * out exactly as written. In multi-line mode each clause starts a line,
+ * `AND` / `OR` in WHERE and HAVING start an indented line, and subqueries
+ * are indented one level:
+ *
+ * ```sql
+ * SELECT u.id, COUNT(*) AS posts
+ * FROM users u
+ * LEFT JOIN posts p ON p.user_id = u.id
+ * WHERE u.active
+ *   AND u.id IN (
+ *     SELECT user_id
+ *     FROM sessions
+ *   )
+ * GROUP BY u.id
+ * ```
+ */
+
+import { RESERVED_WORDS, SQL_KEYWORDS } from "./keywords.js";
+import { tokenizeSql, type SqlToken } from "./tokenizer.js";
+
+export type KeywordCase = "upper" | "lower" | "preserve";
+
+export interface FormatSqlOptions {
+  /** Put each clause on its own line; otherwise only spacing and keyword case change. */
+  multiline: boolean;
+  /** @default "upper" */
+  keywordCase?: KeywordCase;
+  /** Line break followed by the base indentation. @default "\n" */
+  newline?: string;
+  /** One level of indentation. @default "  " */
+  indent?: string;
+  /**
+   * Text to copy tokens from — the template source, where each `?` of `sql`
+   * is a `${expr}` substitution. Must line up with `sql` character by character.
+   */
+  source?: string;
+  /** Substitutions in `source`, by offset. */
+  params?: ReadonlyArray<{ offset: number; length: number }>;
+}
+
+/** Statements the formatter lays out; DDL is left as written. */
+export const FORMATTABLE_STATEMENTS: ReadonlySet<string> = new Set([
+  "SELECT", "INSERT", "UPDATE", "DELETE", "WITH", "REPLACE", "VALUES",
+]);
+
+const KEYWORDS = new Set([...RESERVED_WORDS, ...SQL_KEYWORDS]);
+
+const JOIN_MODIFIERS = new Set(["LEFT", "RIGHT", "FULL", "INNER", "CROSS", "NATURAL", "OUTER"]);
+
+const CLAUSES = new Set([
+  "SELECT", "WHERE", "HAVING", "LIMIT", "OFFSET", "FETCH", "VALUES", "RETURNING",
+  "WINDOW", "UNION", "INTERSECT", "EXCEPT", "SET", "WITH", "INSERT", "DELETE",
+]);
+
+/** Per-subquery layout state. */
+interface Frame {
+  level: number;
+  /** Open non-subquery parentheses — no line breaks inside them. */
+  depth: number;
+  clause: string;
+  /** Inside `BETWEEN x AND y`, where the AND must not break. */
+  between: boolean;
+}
+
+/** Pretty-print `sql`. */
+export function formatSql(sql: string, options: FormatSqlOptions): string {
+  const { multiline, keywordCase = "upper", newline = "\n", indent = "  " } = options;
+  const source = options.source ?? sql;
+  const paramEnds = new Map(options.params?.map((p) => [p.offset, p.offset + p.length]));
+  const tokens = tokenizeSql(sql, { comments: true });
+  const end = (tok: SqlToken) => (tok.kind === "param" ? paramEnds.get(tok.offset) ?? tok.end : tok.end);
+
+  let out = "";
+  let frame: Frame = { level: 0, depth: 0, clause: "", between: false };
+  /** Enclosing frames, with the level of the line that opened the subquery. */
+  const stack: Array<{ frame: Frame; line: number }> = [];
+  let line = 0;
+  let breakLevel: number | undefined;
+
+  tokens.forEach((tok, i) => {
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+    // `t.from` is a column, not a clause
+    const word = tok.kind === "word" && prev?.text !== "." ? tok.value.toUpperCase() : "";
+
+    if (tok.text === ")") {
+      if (frame.depth === 0 && stack.length > 0) {
+        // closes a subquery: `)` goes back to the line that opened it
+        const outer = stack.pop()!;
+        frame = outer.frame;
+        if (multiline) breakLevel = outer.line;
+      } else if (frame.depth > 0) {
+        frame.depth--;
+      }
+    }
+
+    if (multiline && frame.depth === 0 && word) {
+      if (startsClause(tokens, i)) {
+        frame.clause = word;
+        frame.between = false;
+        breakLevel = frame.level;
+      } else if ((word === "AND" || word === "OR") && (frame.clause === "WHERE" || frame.clause === "HAVING")) {
+        if (frame.between && word === "AND") frame.between = false;
+        else breakLevel = frame.level + 1;
+      }
+      if (word === "BETWEEN") frame.between = true;
+    }
+
+    if (out === "") {
+      // the caller places the first line
+    } else if (breakLevel !== undefined) {
+      out += newline + indent.repeat(breakLevel);
+      line = breakLevel;
+    } else {
+      out += gap(prev!, tok, end(prev!) < tok.offset);
+    }
+    breakLevel = undefined;
+
+    const text = source.slice(tok.offset, end(tok));
+    out += isKeyword(tok, prev, next) ? applyCase(text, keywordCase) : text;
+
+    if (tok.kind === "comment" && tok.text.startsWith("--")) breakLevel = line;
+    if (tok.text === ";" && frame.depth === 0) {
+      stack.length = 0;
+      line = 0;
+      frame = { level: 0, depth: 0, clause: "", between: false };
+      breakLevel = 0;
+    }
+    if (tok.text === "(") {
+      if (next?.kind === "word" && ["SELECT", "WITH"].includes(next.value.toUpperCase())) {
+        stack.push({ frame, line });
+        frame = { level: line + 1, depth: 0, clause: "", between: false };
+      } else {
+        frame.depth++;
+      }
+    }
+  });
+
+  return out;
+}
+
+/** Whether the word at `i` begins a clause: `FROM`, `LEFT JOIN`, `ORDER BY` … */
+function startsClause(tokens: SqlToken[], i: number): boolean {
+  const word = upper(tokens[i]);
+  const prev = upper(tokens[i - 1]);
+  const next = upper(tokens[i + 1]);
+
+  if (CLAUSES.has(word)) return true;
+  switch (word) {
+    case "FROM":
+      return prev !== "DISTINCT"; // `IS DISTINCT FROM`
+    case "GROUP":
+    case "ORDER":
+      return next === "BY";
+    case "UPDATE":
+      return prev !== "DO" && prev !== "KEY"; // `DO UPDATE`, `ON DUPLICATE KEY UPDATE`
+    case "REPLACE":
+      return next !== "(";
+    case "ON":
+      return next === "CONFLICT" || next === "DUPLICATE";
+    case "JOIN":
+      return !JOIN_MODIFIERS.has(prev);
+  }
+  if (!JOIN_MODIFIERS.has(word) || JOIN_MODIFIERS.has(prev)) return false;
+  // `LEFT OUTER JOIN` — but not `left(name, 1)`
+  let j = i + 1;
+  while (JOIN_MODIFIERS.has(upper(tokens[j]))) j++;
+  return upper(tokens[j]) === "JOIN";
+}
+
+/** Whitespace between two tokens on the same line. */
+function gap(prev: SqlToken, tok: SqlToken, hadSpace: boolean): string {
+  if (tok.text === "," || tok.text === ";" || tok.text === ")") return "";
+  if (tok.text === "." || prev.text === "." || tok.text === "::" || prev.text === "::") return "";
+  if (prev.text === "(") return "";
+  if (prev.text === "," || prev.kind === "comment" || tok.kind === "comment") return " ";
+  // operators and `(` keep their spacing: `count(*)`, `a->>'b'`, `IN (...)`
+  return hadSpace ? " " : "";
+}
+
+function isKeyword(tok: SqlToken, prev: SqlToken | undefined, next: SqlToken | undefined): boolean {
+  return tok.kind === "word"
+    && KEYWORDS.has(tok.value.toUpperCase())
+    && prev?.text !== "."
+    && next?.text !== ".";
+}
+
+function applyCase(text: string, keywordCase: KeywordCase): string {
+  if (keywordCase === "upper") return text.toUpperCase();
+  if (keywordCase === "lower") return text.toLowerCase();
+  return text;
+}
+
+function upper(tok: SqlToken | undefined): string {
+  return tok?.kind === "word" ? tok.value.toUpperCase() : "";
+}
@@ -41,3 +41,30 @@ export const TABLE_CONTEXT_KEYWORDS: readonly string[] = [
 export const COLUMN_CONTEXT_KEYWORDS: readonly string[] = [
   "SELECT", "WHERE", "AND", "OR", "ON", "SET", "HAVING", "GROUP", "ORDER",
 ];
+
+/** Words that are never a column, table or alias. */
+export const RESERVED_WORDS: ReadonlySet<string> = new Set([
+  "SELECT", "FROM", "WHERE", "AND", "OR", "NOT", "INSERT", "INTO", "VALUES",
+  "UPDATE", "SET", "DELETE", "REPLACE", "JOIN", "INNER", "LEFT", "RIGHT",
+  "FULL", "OUTER", "CROSS", "NATURAL", "LATERAL", "ON", "USING", "ORDER",
+  "BY", "GROUP", "HAVING", "LIMIT", "OFFSET", "FETCH", "FIRST", "NEXT",
+  "ROWS", "ROW", "ONLY", "TIES", "AS", "IN", "IS", "LIKE", "ILIKE", "GLOB",
+  "REGEXP", "SIMILAR", "TO", "ESCAPE", "BETWEEN", "SYMMETRIC", "NULL", "TRUE",
+  "FALSE", "UNKNOWN", "DISTINCT", "ALL", "ANY", "SOME", "UNION",
+  "INTERSECT", "EXCEPT", "ASC", "DESC", "NULLS", "LAST", "WITH", "RECURSIVE",
+  "MATERIALIZED", "EXISTS", "CASE", "WHEN", "THEN", "ELSE", "END", "CAST",
+  "INTERVAL", "COLLATE", "OVER", "PARTITION", "WINDOW", "RANGE", "GROUPS",
+  "PRECEDING", "FOLLOWING", "UNBOUNDED", "CURRENT", "FILTER", "WITHIN",
+  "RETURNING", "DEFAULT", "CONFLICT", "DO", "NOTHING", "DUPLICATE", "KEY",
+  "IGNORE", "ABORT", "FAIL", "ROLLBACK", "OF", "FOR", "SHARE", "NOWAIT",
+  "SKIP", "LOCKED", "ARRAY", "CURRENT_DATE", "CURRENT_TIME",
+  "CURRENT_TIMESTAMP", "LOCALTIME", "LOCALTIMESTAMP", "CURRENT_USER",
+  "SESSION_USER", "YEAR", "MONTH", "DAY", "HOUR", "MINUTE", "SECOND", "EPOCH",
+  "BOTH", "LEADING", "TRAILING",
+  // type names, e.g. in `x::text` or `CAST(x AS INTEGER)`
+  "INTEGER", "INT", "TEXT", "REAL", "BOOLEAN", "TIMESTAMP", "TIMESTAMPTZ",
+  "DATE", "TIME", "ZONE", "WITHOUT", "VARCHAR", "CHAR", "CHARACTER",
+  "VARYING", "BIGINT", "SMALLINT", "FLOAT", "DOUBLE", "PRECISION", "DECIMAL",
+  "NUMERIC", "BLOB", "JSON", "JSONB", "UUID",
+]);
+
@@ -0,0 +1,722 @@
+/**
+ * Schema-aware SQL analysis.
+ *
+ * Where `validator.ts` only checks the shape of a statement, this resolves
+ * every table and column reference against the schema — honouring aliases,
+ * joins and subquery scopes — and reports unknown tables, unknown or
+ * ambiguous columns and `INSERT ... VALUES` tuples of the wrong size. Each
+ * error carries quick fixes as plain text edits.
+ *
+ * It also reports which column each `?` placeholder is compared with or
+ * written to, so the diagnostics provider can check the type of the
+ * interpolated expression. Like the validator, it does not use TypeScript.
+ */
+
+import type { SchemaColumn, SchemaTable } from "../schema/types.js";
+import type { SqlError } from "./validator.js";
+import { RESERVED_WORDS } from "./keywords.js";
+import { tokenizeSql, type SqlToken } from "./tokenizer.js";
+
+/** Diagnostic codes of the plugin; `syntax` is used for `validateSql` errors. */
+export const SQL_ERROR_CODES = {
+  syntax: 100001,
+  unknownTable: 100002,
+  unknownColumn: 100003,
+  ambiguousColumn: 100004,
+  valueCount: 100005,
+  paramType: 100006,
+} as const;
+
+/** Replace `length` characters at `offset` (within the SQL string) with `text`. */
+export interface SqlEdit {
+  offset: number;
+  length: number;
+  text: string;
+}
+
+export interface SqlFix {
+  /** Code action title, e.g. "Change to `user_id`". */
+  description: string;
+  edits: SqlEdit[];
+}
+
+export interface SemanticError extends SqlError {
+  code: number;
+  fixes: SqlFix[];
+}
+
+/** A `?` placeholder compared with, or written to, a known column. */
+export interface ParamTarget {
+  /** Offset of the placeholder in the SQL string. */
+  offset: number;
+  table: string;
+  column: SchemaColumn;
+  /** `true` for `INSERT` values and `SET col = ?`, where `NULL` must fit the column. */
+  write: boolean;
+}
+
+/** A resolved reference to a table, or to a column when `column` is set. */
+export interface SqlRef {
+  /** Offset of the name in the SQL string, inside quotes for a quoted name. */
+  offset: number;
+  length: number;
+  table: SchemaTable;
+  column?: SchemaColumn;
+}
+
+export interface SemanticResult {
+  errors: SemanticError[];
+  params: ParamTarget[];
+  refs: SqlRef[];
+}
+
+/**
+ * Resolve table and column references of `sql` against `schema`.
+ * Only DML statements are checked, and nothing is reported for an empty schema.
+ */
+export function analyzeSql(sql: string, schema: SchemaTable[]): SemanticResult {
+  const result: SemanticResult = { errors: [], params: [], refs: [] };
+  if (schema.length === 0) return result;
+
+  for (const statement of splitStatements(tokenizeSql(sql))) {
+    const kind = statement[0]?.kind === "word" ? statement[0].value.toUpperCase() : "";
+    if (DML.has(kind)) new StatementAnalyzer(statement, schema, result).run();
+  }
+  return result;
+}
+
+// ─── Scopes ──────────────────────────────────────────────────────────────────
+
+/** A table reference in FROM / JOIN / UPDATE / INTO. */
+interface Source {
+  name: string;
+  /** The (last part of the) name token. */
+  token?: SqlToken;
+  alias?: string;
+  /** `undefined` for CTEs, subqueries, table functions and unknown tables. */
+  table?: SchemaTable;
+}
+
+/** One SELECT (or the statement itself): the sources its columns resolve against. */
+interface Block {
+  parent?: Block;
+  sources: Source[];
+}
+
+type Resolution =
+  | { status: "ok"; source: Source; column: SchemaColumn }
+  | { status: "ambiguous"; matches: Source[] }
+  | { status: "unknown"; candidates: string[]; tables: string[] }
+  | { status: "opaque" };
+
+const DML = new Set(["SELECT", "INSERT", "UPDATE", "DELETE", "WITH", "REPLACE"]);
+
+const COMPARISON = new Set(["=", "<>", "!=", "<", ">", "<=", ">=", "LIKE", "ILIKE"]);
+
+const CLAUSE_END = new Set(["WHERE", "FROM", "RETURNING", "ORDER", "LIMIT"]);
+
+/** Words after which a bare word is an output alias: `CASE ... END total`. */
+const OPERAND_END = new Set(["END", "NULL", "TRUE", "FALSE", "CURRENT_DATE", "CURRENT_TIME", "CURRENT_TIMESTAMP"]);
+
+class StatementAnalyzer {
+  private readonly blockOf: Block[] = [];
+  /** Paren depth of each token within its block. */
+  private readonly depthOf: number[] = [];
+  private readonly blocks: Block[] = [];
+  /** Tokens that are not column references: table names, aliases, CTE names. */
+  private readonly skip = new Set<number>();
+  /** Output aliases (`AS x`, `expr x`) which ORDER BY / HAVING may reference. */
+  private readonly aliases = new Set<string>();
+  private readonly ctes = new Set<string>();
+  /** Column token index → resolution. */
+  private readonly refs = new Map<number, Resolution>();
+  /** Token ranges of SET clauses, where `col = ?` is a write. */
+  private readonly setRanges: Array<[number, number]> = [];
+  /** The table of UPDATE / INSERT, which SET assigns to. */
+  private writeTarget: Source | undefined;
+
+  constructor(
+    private readonly tokens: SqlToken[],
+    private readonly schema: SchemaTable[],
+    private readonly result: SemanticResult,
+  ) {}
+
+  run(): void {
+    this.assignBlocks();
+    for (const block of this.blocks) this.collectSources(block);
+    this.checkColumns();
+    this.collectComparisons();
+  }
+
+  // ── Block structure ───────────────────────────────────────────────────────
+
+  /** Parenthesised SELECTs open a nested block; UNION & co. start a sibling. */
+  private assignBlocks(): void {
+    const root: Block = { sources: [] };
+    this.blocks.push(root);
+    const stack: Array<{ block: Block; depth: number }> = [];
+    let block = root;
+    let depth = 0;
+
+    this.tokens.forEach((tok, i) => {
+      if (tok.text === ")" && stack.length > 0) {
+        ({ block, depth } = stack.pop()!);
+      }
+      if (depth === 0 && isWord(tok, "UNION", "INTERSECT", "EXCEPT")) {
+        block = { parent: block.parent, sources: [] };
+        this.blocks.push(block);
+      }
+      this.blockOf[i] = block;
+      this.depthOf[i] = depth;
+
+      if (tok.text === "(") {
+        stack.push({ block, depth });
+        if (isWord(this.tokens[i + 1], "SELECT", "WITH")) {
+          block = { parent: block, sources: [] };
+          this.blocks.push(block);
+          depth = 0;
+        } else {
+          depth++;
+        }
+      }
+    });
+  }
+
+  /** Indices of the tokens directly in `block`, outside any parentheses. */
+  private topTokens(block: Block): number[] {
+    const top: number[] = [];
+    this.tokens.forEach((_, i) => {
+      if (this.blockOf[i] === block && this.depthOf[i] === 0) top.push(i);
+    });
+    return top;
+  }
+
+  // ── Sources ───────────────────────────────────────────────────────────────
+
+  private collectSources(block: Block): void {
+    const top = this.topTokens(block);
+    let inserting = false;
+
+    for (let k = 0; k < top.length; k++) {
+      const i = top[k]!;
+      const tok = this.tokens[i]!;
+      const prev = this.tokens[top[k - 1] ?? -1];
+      if (tok.kind !== "word") continue;
+
+      switch (tok.value.toUpperCase()) {
+        case "WITH":
+          if (k === 0) k = this.collectCtes(top, k + 1) - 1;
+          break;
+        case "INSERT":
+        case "REPLACE":
+          inserting = this.tokens[i + 1]?.text !== "(";
+          break;
+        case "INTO":
+          if (inserting) k = this.collectInsert(block, top, k + 1) - 1;
+          break;
+        case "FROM":
+          if (isWord(prev, "DISTINCT")) break;
+          k = this.collectSourceList(block, top, k + 1) - 1;
+          break;
+        case "USING":
+          // `JOIN ... USING (col)` names columns of both sides
+          if (this.tokens[i + 1]?.text === "(") this.skipParens(i + 1);
+          else k = this.collectSourceList(block, top, k + 1) - 1;
+          break;
+        case "JOIN":
+          k = this.collectSource(block, top, k + 1) - 1;
+          break;
+        case "UPDATE":
+          // not `ON CONFLICT DO UPDATE` / `ON DUPLICATE KEY UPDATE`
+          if (isWord(prev, "DO", "KEY")) break;
+          k = this.collectSource(block, top, k + 1) - 1;
+          this.writeTarget ??= block.sources.at(-1);
+          break;
+        case "SET":
+          this.setRanges.push([i, this.clauseEnd(top, k)]);
+          break;
+      }
+    }
+  }
+
+  private collectSourceList(block: Block, top: number[], k: number): number {
+    k = this.collectSource(block, top, k);
+    while (this.tokens[top[k] ?? -1]?.text === ",") {
+      k = this.collectSource(block, top, k + 1);
+    }
+    return k;
+  }
+
+  /**
+   * Parse `name [[AS] alias]`, `(subquery) [AS] alias` or `fn(...) [AS] alias`
+   * at `top[k]`. An INSERT target is never a function: `users (id, name)`.
+   */
+  private collectSource(block: Block, top: number[], k: number, insert = false): number {
+    while (isWord(this.tokens[top[k] ?? -1], "LATERAL", "ONLY")) k++;
+    const i = top[k];
+    if (i === undefined) return k;
+    const tok = this.tokens[i]!;
+
+    if (tok.kind === "param" || tok.text === "(") {
+      // interpolated table name, subquery or parenthesised join — columns unknown
+      const source: Source = { name: "" };
+      k = this.collectAlias(source, top, tok.kind === "param" ? k + 1 : k + 2);
+      source.name = source.alias ?? "";
+      block.sources.push(source);
+      return k;
+    }
+    if (!isName(tok)) return k;
+
+    // schema-qualified: `public.users`
+    let nameIndex = i;
+    this.skip.add(i);
+    while (this.tokens[top[k + 1] ?? -1]?.text === "." && isName(this.tokens[top[k + 2] ?? -1])) {
+      k += 2;
+      nameIndex = top[k]!;
+      this.skip.add(nameIndex);
+    }
+    const nameTok = this.tokens[nameIndex]!;
+
+    if (!insert && this.tokens[top[k + 1] ?? -1]?.text === "(") {
+      // table function: `generate_series(1, 10) AS g`
+      const source: Source = { name: nameTok.value };
+      k = this.collectAlias(source, top, k + 3);
+      block.sources.push(source);
+      return k;
+    }
+
+    const source: Source = { name: nameTok.value, token: nameTok, table: this.findTable(nameTok.value) };
+    if (source.table) {
+      this.reference(nameTok, source.table);
+    } else if (!this.ctes.has(nameTok.value.toLowerCase())) {
+      this.unknownTable(nameTok);
+    }
+    k = this.collectAlias(source, top, k + 1);
+    block.sources.push(source);
+    return k;
+  }
+
+  private collectAlias(source: Source, top: number[], k: number): number {
+    let i = top[k];
+    if (isWord(this.tokens[i ?? -1], "AS")) i = top[++k];
+    const tok = this.tokens[i ?? -1];
+    if (i !== undefined && tok && isName(tok)) {
+      source.alias = tok.value;
+      this.skip.add(i);
+      k++;
+    }
+    return k;
+  }
+
+  /** `INSERT INTO t [AS a] [(cols)] VALUES (...), ...` */
+  private collectInsert(block: Block, top: number[], k: number): number {
+    const scratch: Block = { sources: [] };
+    k = this.collectSource(scratch, top, k, true);
+    const target = scratch.sources[0];
+    if (!target) return k;
+    this.writeTarget = target;
+    // the target is visible to RETURNING / ON CONFLICT, after the statement's own sources
+    const root = this.blocks[0]!;
+    root.parent = { sources: [target] };
+
+    let columns: SqlToken[] | undefined;
+    if (this.tokens[top[k] ?? -1]?.text === "(") {
+      columns = this.innerTokens(top[k]!).filter((t) => t.text !== ",");
+      for (const col of columns) {
+        this.skip.add(this.tokens.indexOf(col));
+        if (!target.table || !isName(col)) continue;
+        const column = findColumn(target.table, col.value);
+        if (column) {
+          this.reference(col, target.table, column);
+        } else {
+          this.unknownColumn(col, { status: "unknown", candidates: target.table.columns.map((c) => c.name), tables: [target.table.name] });
+        }
+      }
+      k += 2;
+    }
+
+    if (!isWord(this.tokens[top[k] ?? -1], "VALUES") || block !== root) return k;
+    const expected = columns?.map((c) => c.value) ?? target.table?.columns.map((c) => c.name);
+    k++;
+    while (this.tokens[top[k] ?? -1]?.text === "(") {
+      this.checkTuple(top[k]!, target, expected, columns);
+      k++;
+      if (this.tokens[top[k] ?? -1]?.text !== ",") break;
+      k++;
+    }
+    return k;
+  }
+
+  private checkTuple(
+    open: number,
+    target: Source,
+    expected: string[] | undefined,
+    columns: SqlToken[] | undefined,
+  ): void {
+    const values = this.splitValues(open);
+    const close = this.tokens[this.closingParen(open)]!;
+
+    values.forEach((value, n) => {
+      const name = expected?.[n];
+      const column = name !== undefined && target.table ? findColumn(target.table, name) : undefined;
+      if (value.length === 1 && value[0]!.kind === "param" && column) {
+        this.result.params.push({ offset: value[0]!.offset, table: target.table!.name, column, write: true });
+      }
+    });
+
+    if (!expected || values.length === expected.length) return;
+    const openTok = this.tokens[open]!;
+    const fixes: SqlFix[] = [];
+    if (values.some((value) => value.length === 0)) {
+      // `(?, )` — nothing sensible to offer
+    } else if (values.length > expected.length && expected.length > 0) {
+      const extra = values.length - expected.length;
+      fixes.push({
+        description: `Remove ${plural(extra, "extra value")}`,
+        edits: [span(values[expected.length - 1]!.at(-1)!.end, values.at(-1)!.at(-1)!.end, "")],
+      });
+    } else if (values.length > 0 && columns) {
+      const dropped = columns.slice(values.length);
+      fixes.push({
+        description: `Remove ${dropped.map((c) => `\`${c.text}\``).join(", ")} from the column list`,
+        edits: [span(columns[values.length - 1]!.end, columns.at(-1)!.end, "")],
+      });
+    } else if (values.length > 0 && target.table && target.token) {
+      const names = target.table.columns.slice(0, values.length).map((c) => c.name);
+      fixes.push({
+        description: `Insert into (${names.join(", ")})`,
+        edits: [span(target.token.end, target.token.end, ` (${names.join(", ")})`)],
+      });
+    }
+
+    this.result.errors.push({
+      message: `INSERT into ${target.table?.name ?? target.name} has ${plural(expected.length, "target column")} but ${plural(values.length, "value")}`,
+      offset: openTok.offset,
+      length: close.end - openTok.offset,
+      code: SQL_ERROR_CODES.valueCount,
+      fixes,
+    });
+  }
+
+  /** `WITH [RECURSIVE] name [(cols)] AS [[NOT] MATERIALIZED] (...), ...` */
+  private collectCtes(top: number[], k: number): number {
+    if (isWord(this.tokens[top[k] ?? -1], "RECURSIVE")) k++;
+    for (;;) {
+      const i = top[k];
+      if (i === undefined || !isName(this.tokens[i]!)) return k;
+      this.ctes.add(this.tokens[i]!.value.toLowerCase());
+      this.skip.add(i);
+      k++;
+      if (this.tokens[top[k] ?? -1]?.text === "(") {
+        this.skipParens(top[k]!);
+        k += 2;
+      }
+      while (isWord(this.tokens[top[k] ?? -1], "AS", "NOT", "MATERIALIZED")) k++;
+      // the body: `(` and `)` are both top tokens of this block
+      const open = top[k];
+      if (open !== undefined && this.blockOf[open + 1] !== this.blockOf[open]) {
+        // a CTE does not see the FROM of the query it is attached to
+        this.blockOf[open + 1]!.parent = this.blockOf[open]!.parent;
+      }
+      k += 2;
+      if (this.tokens[top[k] ?? -1]?.text !== ",") return k;
+      k++;
+    }
+  }
+
+  // ── Columns ───────────────────────────────────────────────────────────────
+
+  private checkColumns(): void {
+    const { tokens } = this;
+
+    // first pass: output aliases
+    tokens.forEach((tok, i) => {
+      if (this.skip.has(i) || !isName(tok) || tokens[i - 1]?.text === ".") return;
+      if (isWord(tokens[i - 1], "AS") || (endsOperand(tokens[i - 1]) && !this.isPartOfName(i - 1))) {
+        this.aliases.add(tok.value.toLowerCase());
+        this.skip.add(i);
+      }
+    });
+
+    tokens.forEach((tok, i) => {
+      if (this.skip.has(i) || !isName(tok)) return;
+      const next = tokens[i + 1];
+      if (next?.text === "(" || next?.kind === "string") return; // function call, typed literal
+      if (tokens[i - 1]?.text === "::" || tokens[i - 1]?.text === ".") return;
+      if (isWord(tokens[i - 1], "OVER", "WINDOW", "COLLATE")) return;
+
+      if (next?.text === ".") {
+        // `a.col`, `schema.table.col` — check the last two parts
+        let j = i;
+        while (tokens[j + 1]?.text === "." && isName(tokens[j + 2])) j += 2;
+        if (j === i) return; // `a.*`
+        this.checkQualified(tokens[j - 2]!, j);
+        return;
+      }
+
+      if (this.aliases.has(tok.value.toLowerCase())) return;
+      const resolution = this.isSetTarget(i)
+        ? this.resolve(tok.value, { sources: [this.writeTarget!] })
+        : this.resolve(tok.value, this.blockOf[i]!);
+      this.refs.set(i, resolution);
+      if (resolution.status === "ok") this.reference(tok, resolution.source.table!, resolution.column);
+      if (resolution.status === "unknown" && resolution.tables.length > 0) this.unknownColumn(tok, resolution);
+      if (resolution.status === "ambiguous") this.ambiguousColumn(tok, resolution.matches);
+    });
+  }
+
+  private checkQualified(qualifier: SqlToken, index: number): void {
+    const tok = this.tokens[index]!;
+    const name = qualifier.value.toLowerCase();
+    for (let block: Block | undefined = this.blockOf[index]; block; block = block.parent) {
+      const source = block.sources.find((s) => (s.alias ?? s.name).toLowerCase() === name)
+        ?? block.sources.find((s) => !s.alias && s.name.toLowerCase() === name);
+      if (!source) continue;
+      if (!source.table) return;
+      const column = findColumn(source.table, tok.value);
+      if (!source.alias) this.reference(qualifier, source.table);
+      if (column) {
+        this.refs.set(index, { status: "ok", source, column });
+        this.reference(tok, source.table, column);
+      } else {
+        this.unknownColumn(tok, { status: "unknown", candidates: source.table.columns.map((c) => c.name), tables: [source.table.name] });
+      }
+      return;
+    }
+  }
+
+  private resolve(name: string, block: Block | undefined): Resolution {
+    const candidates: string[] = [];
+    const tables: string[] = [];
+    for (; block; block = block.parent) {
+      const matches = block.sources.filter((s) => s.table && findColumn(s.table, name));
+      if (matches.length === 1) {
+        return { status: "ok", source: matches[0]!, column: findColumn(matches[0]!.table!, name)! };
+      }
+      if (matches.length > 1) return { status: "ambiguous", matches };
+      // the column may come from a subquery or an unknown table
+      if (block.sources.some((s) => !s.table)) return { status: "opaque" };
+      for (const s of block.sources) {
+        tables.push(s.table!.name);
+        candidates.push(...s.table!.columns.map((c) => c.name));
+      }
+    }
+    return { status: "unknown", candidates, tables };
+  }
+
+  // ── Placeholders ──────────────────────────────────────────────────────────
+
+  /** `col = ?`, `? <> t.col`, `SET col = ?` … */
+  private collectComparisons(): void {
+    const { tokens } = this;
+    tokens.forEach((tok, i) => {
+      if (tok.kind !== "param") return;
+      let column: number | undefined;
+      if (isComparison(tokens[i - 1])) column = i - 2;
+      else if (isComparison(tokens[i + 1])) column = tokens[i + 3]?.text === "." ? i + 4 : i + 2;
+      const ref = column === undefined ? undefined : this.refs.get(column);
+      if (ref?.status !== "ok" || !ref.source.table) return;
+
+      const write = column === i - 2 && this.isSetTarget(column);
+      this.result.params.push({ offset: tok.offset, table: ref.source.table.name, column: ref.column, write });
+    });
+  }
+
+  // ── Errors ────────────────────────────────────────────────────────────────
+
+  private unknownTable(tok: SqlToken): void {
+    const suggestions = suggest(tok.value, this.schema.map((t) => t.name));
+    this.result.errors.push({
+      message: `Unknown table "${tok.value}"${didYouMean(suggestions)}`,
+      offset: tok.offset,
+      length: tok.end - tok.offset,
+      code: SQL_ERROR_CODES.unknownTable,
+      fixes: suggestions.map((name) => replaceWith(tok, name)),
+    });
+  }
+
+  private unknownColumn(tok: SqlToken, resolution: Extract<Resolution, { status: "unknown" }>): void {
+    const suggestions = suggest(tok.value, [...new Set(resolution.candidates)]);
+    this.result.errors.push({
+      message: `Unknown column "${tok.value}" in ${[...new Set(resolution.tables)].join(", ")}${didYouMean(suggestions)}`,
+      offset: tok.offset,
+      length: tok.end - tok.offset,
+      code: SQL_ERROR_CODES.unknownColumn,
+      fixes: suggestions.map((name) => replaceWith(tok, name)),
+    });
+  }
+
+  private ambiguousColumn(tok: SqlToken, matches: Source[]): void {
+    const qualified = matches.map((s) => `${s.alias ?? s.name}.${tok.text}`);
+    this.result.errors.push({
+      message: `Column "${tok.value}" is ambiguous: ${qualified.join(" or ")}`,
+      offset: tok.offset,
+      length: tok.end - tok.offset,
+      code: SQL_ERROR_CODES.ambiguousColumn,
+      fixes: qualified.map((text) => ({
+        description: `Change to \`${text}\``,
+        edits: [span(tok.offset, tok.end, text)],
+      })),
+    });
+  }
+
+  private reference(tok: SqlToken, table: SchemaTable, column?: SchemaColumn): void {
+    const quoted = tok.kind === "quoted" ? 1 : 0;
+    this.result.refs.push({
+      offset: tok.offset + quoted,
+      length: tok.end - tok.offset - 2 * quoted,
+      table,
+      column,
+    });
+  }
+
+  // ── Token helpers ─────────────────────────────────────────────────────────
+
+  private findTable(name: string): SchemaTable | undefined {
+    const lower = name.toLowerCase();
+    return this.schema.find((t) => t.name.toLowerCase() === lower);
+  }
+
+  /** Whether token `i` is the column assigned in `SET col = ...`. */
+  private isSetTarget(i: number): boolean {
+    return this.writeTarget !== undefined
+      && this.tokens[i + 1]?.text === "="
+      && (isWord(this.tokens[i - 1], "SET") || this.tokens[i - 1]?.text === ",")
+      && this.setRanges.some(([from, to]) => i > from && i < to);
+  }
+
+  /** Whether token `i` is a table name or alias, i.e. not the end of an expression. */
+  private isPartOfName(i: number): boolean {
+    return this.skip.has(i) || this.ctes.has(this.tokens[i]?.value.toLowerCase() ?? "");
+  }
+
+  private closingParen(open: number): number {
+    let depth = 0;
+    for (let i = open; i < this.tokens.length; i++) {
+      if (this.tokens[i]!.text === "(") depth++;
+      else if (this.tokens[i]!.text === ")" && --depth === 0) return i;
+    }
+    return this.tokens.length - 1;
+  }
+
+  private innerTokens(open: number): SqlToken[] {
+    return this.tokens.slice(open + 1, this.closingParen(open));
+  }
+
+  private skipParens(open: number): void {
+    for (let i = open + 1; i < this.closingParen(open); i++) this.skip.add(i);
+  }
+
+  /** The comma-separated values of the tuple opened at `open`. */
+  private splitValues(open: number): SqlToken[][] {
+    const values: SqlToken[][] = [];
+    let current: SqlToken[] = [];
+    let depth = 0;
+    for (const tok of this.innerTokens(open)) {
+      if (tok.text === "(") depth++;
+      if (tok.text === ")") depth--;
+      if (tok.text === "," && depth === 0) {
+        values.push(current);
+        current = [];
+      } else {
+        current.push(tok);
+      }
+    }
+    if (current.length > 0 || values.length > 0) values.push(current);
+    return values;
+  }
+
+  /** Index of the token ending the clause that starts at `top[k]`. */
+  private clauseEnd(top: number[], k: number): number {
+    for (let j = k + 1; j < top.length; j++) {
+      const tok = this.tokens[top[j]!]!;
+      if (tok.kind === "word" && CLAUSE_END.has(tok.value.toUpperCase())) return top[j]!;
+    }
+    return this.tokens.length;
+  }
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+function splitStatements(tokens: SqlToken[]): SqlToken[][] {
+  const statements: SqlToken[][] = [[]];
+  let depth = 0;
+  for (const tok of tokens) {
+    if (tok.text === "(") depth++;
+    if (tok.text === ")") depth--;
+    if (tok.text === ";" && depth <= 0) statements.push([]);
+    else statements.at(-1)!.push(tok);
+  }
+  return statements.filter((s) => s.length > 0);
+}
+
+function isWord(tok: SqlToken | undefined, ...words: string[]): boolean {
+  return tok?.kind === "word" && words.includes(tok.value.toUpperCase());
+}
+
+/** An identifier that may name a table, column or alias. */
+function isName(tok: SqlToken | undefined): tok is SqlToken {
+  return tok?.kind === "quoted" || (tok?.kind === "word" && !RESERVED_WORDS.has(tok.value.toUpperCase()));
+}
+
+function isComparison(tok: SqlToken | undefined): boolean {
+  return tok !== undefined && tok.kind !== "string" && tok.kind !== "quoted" && COMPARISON.has(tok.text.toUpperCase());
+}
+
+/** Whether `tok` can end an operand — then a following bare word is an alias. */
+function endsOperand(tok: SqlToken | undefined): boolean {
+  if (!tok) return false;
+  if (tok.text === ")" || (tok.kind === "word" && OPERAND_END.has(tok.value.toUpperCase()))) return true;
+  return tok.kind === "quoted" || tok.kind === "number" || tok.kind === "string" || tok.kind === "param" || isName(tok);
+}
+
+function findColumn(table: SchemaTable, name: string): SchemaColumn | undefined {
+  const lower = name.toLowerCase();
+  return table.columns.find((c) => c.name.toLowerCase() === lower);
+}
+
+function span(from: number, to: number, text: string): SqlEdit {
+  return { offset: from, length: to - from, text };
+}
+
+function plural(n: number, word: string): string {
+  return `${n} ${word}${n === 1 ? "" : "s"}`;
+}
+
+function replaceWith(tok: SqlToken, name: string): SqlFix {
+  const text = tok.kind === "quoted" ? `${tok.text[0]}${name}${tok.text[0]}` : name;
+  return { description: `Change to \`${name}\``, edits: [span(tok.offset, tok.end, text)] };
+}
+
+function didYouMean(suggestions: string[]): string {
+  return suggestions.length > 0 ? `. Did you mean "${suggestions[0]}"?` : "";
+}
+
+/** Up to three names closest to `name`, by edit distance. */
+function suggest(name: string, names: string[]): string[] {
+  const lower = name.toLowerCase();
+  const limit = Math.max(2, Math.floor(lower.length / 3));
+  return names
+    .map((candidate) => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+    .filter(({ distance }) => distance <= limit)
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, 3)
+    .map(({ candidate }) => candidate);
+}
+
+/** Levenshtein distance. */
+function editDistance(a: string, b: string): number {
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(
+        row[j]! + 1,
+        next[j - 1]! + 1,
+        row[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    row = next;
+  }
+  return row[b.length]!;
+}
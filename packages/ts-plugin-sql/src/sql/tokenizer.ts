@@ -0,0 +1,93 @@
+/**
+ * Offset-preserving SQL tokenizer.
+ *
+ * Unlike the word splitter in `context.ts`, every token keeps its position in
+ * the SQL string so semantic errors can point at the exact identifier.
+ * Whitespace is dropped, and so are comments unless the formatter asks for them.
+ */
+
+export type SqlTokenKind =
+  | "word" //      identifier or keyword
+  | "quoted" //    "identifier" or `identifier`
+  | "string" //    'literal'
+  | "number"
+  | "param" //     ? (an interpolation), $1, :name
+  | "punct"
+  | "comment"; //  only with `{ comments: true }`
+
+export interface SqlToken {
+  kind: SqlTokenKind;
+  /** Source text of the token. */
+  text: string;
+  /** Identifier name: unquoted for `quoted`, as written otherwise. */
+  value: string;
+  offset: number;
+  end: number;
+}
+
+/** Tokenize `sql`, skipping whitespace and — unless `comments` is set — `--` / `/* *\/` comments. */
+export function tokenizeSql(sql: string, options: { comments?: boolean } = {}): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (kind: SqlTokenKind, end: number, value = sql.slice(i, end)) => {
+    tokens.push({ kind, text: sql.slice(i, end), value, offset: i, end });
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "-" && sql[i + 1] === "-") {
+      const nl = sql.indexOf("\n", i);
+      const end = nl < 0 ? sql.length : nl;
+      if (options.comments) push("comment", end);
+      else i = end;
+    } else if (ch === "/" && sql[i + 1] === "*") {
+      const close = sql.indexOf("*/", i + 2);
+      const end = close < 0 ? sql.length : close + 2;
+      if (options.comments) push("comment", end);
+      else i = end;
+    } else if (ch === "'") {
+      push("string", closing(sql, i, "'"));
+    } else if (ch === '"' || ch === "`") {
+      const end = closing(sql, i, ch);
+      push("quoted", end, sql.slice(i + 1, end - 1).replaceAll(ch + ch, ch));
+    } else if (/\d/.test(ch) || (ch === "." && /\d/.test(sql[i + 1] ?? ""))) {
+      push("number", i + /^[\d.]*(e[+-]?\d+)?/i.exec(sql.slice(i))![0].length);
+    } else if (/[A-Za-z_\u0080-\uffff]/.test(ch)) {
+      push("word", i + /^[\w$\u0080-\uffff]+/.exec(sql.slice(i))![0].length);
+    } else if (ch === "?") {
+      push("param", i + 1);
+    } else if (ch === "$" && /\d/.test(sql[i + 1] ?? "")) {
+      push("param", i + /^\$\d+/.exec(sql.slice(i))![0].length);
+    } else if (ch === ":" && sql[i + 1] === ":") {
+      push("punct", i + 2);
+    } else if (ch === ":" && /[A-Za-z_]/.test(sql[i + 1] ?? "")) {
+      push("param", i + /^:\w+/.exec(sql.slice(i))![0].length);
+    } else if ("<>!".includes(ch) && sql[i + 1] === "=") {
+      push("punct", i + 2);
+    } else if (ch === "<" && sql[i + 1] === ">") {
+      push("punct", i + 2);
+    } else {
+      push("punct", i + 1);
+    }
+  }
+
+  return tokens;
+}
+
+/** End offset of a quoted run opened at `start`; a doubled quote is an escape. */
+function closing(sql: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) return i + 1;
+      i++;
+    }
+    i++;
+  }
+  return sql.length;
+}
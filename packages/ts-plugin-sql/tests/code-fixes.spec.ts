@@ -0,0 +1,47 @@
+import { test, expect } from "@playwright/test";
+
+import { getSqlCodeFixes, SQL_FIXABLE_CODES } from "../src/providers/code-fixes.js";
+import type { SchemaTable } from "../src/schema/types.js";
+import { SQL_ERROR_CODES } from "../src/sql/semantic.js";
+import { createProject } from "./helpers/project.js";
+
+const SCHEMA: SchemaTable[] = [
+  {
+    name: "users",
+    columns: [
+      { name: "id", type: "number" },
+      { name: "name", type: "string" },
+    ],
+  },
+];
+
+const QUERY = `
+declare function sql(strings: TemplateStringsArray, ...values: unknown[]): string;
+declare const id: string;
+export const query = sql\`SELECT nme FROM users WHERE id = \${id}\`;
+`;
+
+/** The fixes offered over the whole file, applied one at a time. */
+function fixesFor(errorCodes: readonly number[]): Array<[string, string]> {
+  const { ts, info } = createProject({ "query.ts": QUERY });
+  return getSqlCodeFixes(ts, info, [], "/project/query.ts", 0, QUERY.length, errorCodes, "sql", SCHEMA)
+    .map((action) => {
+      const { span, newText } = action.changes[0]!.textChanges[0]!;
+      const line = QUERY.slice(0, span.start) + newText + QUERY.slice(span.start + span.length);
+      return [action.description, line.split("\n")[3]!];
+    });
+}
+
+test("offers the fixes of SQL diagnostics as code actions", () => {
+  expect(fixesFor(SQL_FIXABLE_CODES)).toEqual([
+    ["Change to `name`", "export const query = sql`SELECT name FROM users WHERE id = ${id}`;"],
+    ["Convert to number with `Number(id)`", "export const query = sql`SELECT nme FROM users WHERE id = ${Number(id)}`;"],
+  ]);
+});
+
+test("only offers fixes for the requested codes", () => {
+  expect(fixesFor([SQL_ERROR_CODES.paramType]).map(([description]) => description)).toEqual([
+    "Convert to number with `Number(id)`",
+  ]);
+  expect(fixesFor([2304])).toEqual([]);
+});
@@ -0,0 +1,118 @@
+import { test, expect } from "@playwright/test";
+
+import { formatSql, type FormatSqlOptions } from "../src/sql/formatter.js";
+
+/**
+ * Format the source of a `sql` template the way the formatting provider
+ * does: each `${expr}` is a `?` padded to the substitution's length.
+ */
+function format(raw: string, options: Partial<FormatSqlOptions> = {}): string {
+  const params: Array<{ offset: number; length: number }> = [];
+  const sql = raw.replace(/\$\{(?:[^{}]|\{[^{}]*\})*\}/g, (match, offset: number) => {
+    params.push({ offset, length: match.length });
+    return "?".padEnd(match.length);
+  });
+  return formatSql(sql, { multiline: true, ...options, source: raw, params });
+}
+
+/** The text without whitespace, as a check that only whitespace and case changed. */
+function words(text: string): string {
+  return text.replace(/\s+/g, "").toLowerCase();
+}
+
+const cases: Array<{ name: string; raw: string; formatted: string; options?: Partial<FormatSqlOptions> }> = [
+  {
+    name: "clauses, joins, conditions and subqueries",
+    raw: "select u.id, count(*) as posts from users u left join posts p on p.user_id = u.id where u.active and u.id in (select user_id from sessions) group by u.id",
+    formatted: [
+      "SELECT u.id, COUNT(*) AS posts",
+      "FROM users u",
+      "LEFT JOIN posts p ON p.user_id = u.id",
+      "WHERE u.active",
+      "  AND u.id IN (",
+      "    SELECT user_id",
+      "    FROM sessions",
+      "  )",
+      "GROUP BY u.id",
+    ].join("\n"),
+  },
+  {
+    name: "single line: only spacing and keyword case",
+    raw: "select  id ,name\nfrom users where id=1",
+    formatted: "SELECT id, name FROM users WHERE id=1",
+    options: { multiline: false },
+  },
+  {
+    name: "lower-case keywords",
+    raw: "SELECT id FROM users WHERE name IS NOT NULL",
+    formatted: "select id\nfrom users\nwhere name is not null",
+    options: { keywordCase: "lower" },
+  },
+  {
+    name: "keyword case preserved",
+    raw: "Select id From users",
+    formatted: "Select id\nFrom users",
+    options: { keywordCase: "preserve" },
+  },
+  {
+    name: "the AND of BETWEEN stays on its line",
+    raw: "select * from t where a between 1 and 2 and b = 3",
+    formatted: "SELECT *\nFROM t\nWHERE a BETWEEN 1 AND 2\n  AND b = 3",
+  },
+  {
+    name: "newline and indentation options",
+    raw: "select id from users where a and b",
+    formatted: "SELECT id\r\n    FROM users\r\n    WHERE a\r\n    \tAND b",
+    options: { newline: "\r\n    ", indent: "\t" },
+  },
+  {
+    name: "substitutions are copied as written",
+    raw: "select * from users where id = ${user.id} and role in (${roles.map((r) => `'${r}'`)}) and name=${ name }",
+    formatted: "SELECT *\nFROM users\nWHERE id = ${user.id}\n  AND role IN (${roles.map((r) => `'${r}'`)})\n  AND name=${ name }",
+  },
+  {
+    name: "a substitution keeps its case and never starts a clause",
+    raw: "select ${select} from ${where}",
+    formatted: "SELECT ${select}\nFROM ${where}",
+  },
+  {
+    name: "line comments end the line, block comments stay inline",
+    raw: "select id -- the key\nfrom users /* every user */ where id = 1",
+    formatted: "SELECT id -- the key\nFROM users /* every user */\nWHERE id = 1",
+  },
+  {
+    name: "keywords in comments and strings are left alone",
+    raw: "select 'from  where' as label /* select from */ from t",
+    formatted: "SELECT 'from  where' AS label /* select from */\nFROM t",
+  },
+  {
+    name: "quoted identifiers and qualified names keep their case",
+    raw: 'select "Order".select, t.from from "Order" join t on t.id = "Order".id',
+    formatted: 'SELECT "Order".select, t.from\nFROM "Order"\nJOIN t ON t.id = "Order".id',
+  },
+  {
+    name: "one statement per line group",
+    raw: "delete from a where id = 1; insert into b (id) values (1)",
+    formatted: "DELETE\nFROM a\nWHERE id = 1;\nINSERT INTO b (id)\nVALUES (1)",
+  },
+];
+
+test.describe("formatSql", () => {
+  for (const { name, raw, formatted, options } of cases) {
+    test(name, () => {
+      expect(format(raw, options)).toBe(formatted);
+    });
+  }
+});
+
+test.describe("formatSql — round trip", () => {
+  for (const { name, raw, options } of cases) {
+    test(name, () => {
+      const once = format(raw, options);
+      // only whitespace and keyword case change
+      expect(words(once)).toBe(words(raw));
+      // formatting the result again changes nothing
+      expect(format(once, options)).toBe(once);
+    });
+  }
+});
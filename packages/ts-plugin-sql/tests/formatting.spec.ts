@@ -0,0 +1,64 @@
+import { test, expect } from "@playwright/test";
+import type * as tslib from "typescript/lib/tsserverlibrary";
+
+import { getSqlFormattingEdits } from "../src/providers/formatting.js";
+import { createProject } from "./helpers/project.js";
+
+const QUERIES = `declare function sql(strings: TemplateStringsArray, ...values: unknown[]): string;
+declare const id: number;
+
+export function load() {
+  return sql\`
+    select id, name from users
+      where id = \${id} -- by key
+  \`;
+}
+
+export const one = sql\`select  id from users where name=\${ "a" + \`b\` }\`;
+
+export const ddl = sql\`create table  t (id int)\`;
+`;
+
+const SETTINGS: tslib.FormatCodeSettings = { indentSize: 2, convertTabsToSpaces: true, newLineCharacter: "\n" };
+
+/** Format `[start, end)` of the file and apply the edits. */
+function formatRange(start = 0, end = QUERIES.length, prior: tslib.TextChange[] = []): string {
+  const { ts, info } = createProject({ "queries.ts": QUERIES });
+  const edits = getSqlFormattingEdits(ts, info, prior, "/project/queries.ts", start, end, SETTINGS, "sql", {});
+  return [...edits]
+    .sort((a, b) => b.span.start - a.span.start)
+    .reduce((text, e) => text.slice(0, e.span.start) + e.newText + text.slice(e.span.start + e.span.length), QUERIES);
+}
+
+test("lays out multi-line templates below their line and keeps single-line ones on one line", () => {
+  expect(formatRange()).toBe(`declare function sql(strings: TemplateStringsArray, ...values: unknown[]): string;
+declare const id: number;
+
+export function load() {
+  return sql\`
+    SELECT id, name
+    FROM users
+    WHERE id = \${id} -- by key
+  \`;
+}
+
+export const one = sql\`SELECT id FROM users WHERE name=\${ "a" + \`b\` }\`;
+
+export const ddl = sql\`create table  t (id int)\`;
+`);
+});
+
+test("formats only the templates in the range", () => {
+  const start = QUERIES.indexOf("select  id");
+  expect(formatRange(start, start + 6)).toBe(
+    QUERIES.replace("select  id from users where name=", "SELECT id FROM users WHERE name="),
+  );
+});
+
+test("drops prior edits inside a reformatted template", () => {
+  const inside = { span: { start: QUERIES.indexOf("select  id") + 6, length: 2 }, newText: " " };
+  const outside = { span: { start: QUERIES.indexOf("export const ddl") + 6, length: 1 }, newText: "  " };
+  const formatted = formatRange(0, QUERIES.length, [inside, outside]);
+  expect(formatted).toContain("export  const ddl");
+  expect(formatted).toContain("sql`SELECT id FROM users WHERE");
+});
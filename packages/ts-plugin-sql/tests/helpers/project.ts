@@ -0,0 +1,59 @@
+import ts from "typescript";
+import type * as tslib from "typescript/lib/tsserverlibrary";
+
+export interface Project {
+  ts: typeof tslib;
+  /** Just enough of the plugin's create info for the providers: the language service. */
+  info: tslib.server.PluginCreateInfo;
+  program: tslib.Program;
+  /** Offset of the `occurrence`-th (0-based) `marker` in `fileName`. */
+  offset(fileName: string, marker: string, occurrence?: number): number;
+}
+
+/**
+ * An in-memory TypeScript project over `files` (name → content, relative to
+ * `/project`), with the default lib read from disk. Lets provider tests run
+ * against a real program and type checker without a tsserver.
+ */
+export function createProject(files: Record<string, string>): Project {
+  const sources = new Map(Object.entries(files).map(([name, text]) => [`/project/${name}`, text]));
+  const options: tslib.CompilerOptions = {
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    strict: true,
+    noEmit: true,
+  };
+
+  const host: tslib.LanguageServiceHost = {
+    getCompilationSettings: () => options,
+    getScriptFileNames: () => [...sources.keys()],
+    getScriptVersion: () => "1",
+    getScriptSnapshot: (fileName) => {
+      const text = sources.get(fileName) ?? ts.sys.readFile(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => "/project",
+    getDefaultLibFileName: (settings) => ts.getDefaultLibFilePath(settings),
+    fileExists: (fileName) => sources.has(fileName) || ts.sys.fileExists(fileName),
+    readFile: (fileName) => sources.get(fileName) ?? ts.sys.readFile(fileName),
+  };
+
+  const languageService = ts.createLanguageService(host);
+  const program = languageService.getProgram()!;
+
+  return {
+    ts: ts as typeof tslib,
+    info: { languageService } as tslib.server.PluginCreateInfo,
+    program,
+    offset(fileName, marker, occurrence = 0) {
+      const text = sources.get(`/project/${fileName}`)!;
+      let at = -1;
+      for (let i = 0; i <= occurrence; i++) {
+        at = text.indexOf(marker, at + 1);
+        if (at === -1) throw new Error(`"${marker}" #${occurrence} is not in ${fileName}`);
+      }
+      return at;
+    },
+  };
+}
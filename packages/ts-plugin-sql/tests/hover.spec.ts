@@ -0,0 +1,95 @@
+import { test, expect } from "@playwright/test";
+
+import { getSqlQuickInfo } from "../src/providers/hover.js";
+import type { SchemaTable } from "../src/schema/types.js";
+import { createProject } from "./helpers/project.js";
+
+const FILES = {
+  "queries.ts": `declare function sql(strings: TemplateStringsArray, ...values: unknown[]): string;
+
+export const posts = sql\`SELECT title, author_id, status FROM posts\`;
+export const users = sql\`SELECT email FROM users\`;
+`,
+};
+
+/** A live schema: SQL types, nullability, defaults and foreign keys are known. */
+const LIVE: SchemaTable[] = [
+  {
+    name: "users",
+    columns: [{ name: "id", type: "number", sqlType: "integer", nullable: false }],
+  },
+  {
+    name: "posts",
+    columns: [
+      { name: "title", type: "string", sqlType: "text", nullable: false },
+      {
+        name: "author_id",
+        type: "number | null",
+        sqlType: "integer",
+        nullable: true,
+        references: { table: "users", column: "id" },
+      },
+      { name: "status", type: "string", sqlType: "character varying", nullable: false, default: "'draft'::character varying" },
+    ],
+  },
+];
+
+/** The same tables as a `schemaFile` declares them: TypeScript types only. */
+const FROM_FILE: SchemaTable[] = [
+  { name: "users", columns: [{ name: "email", type: "string | null" }] },
+];
+
+const project = createProject(FILES);
+const { ts, info } = project;
+const QUERIES = "/project/queries.ts";
+
+function hover(marker: string, schema: SchemaTable[]) {
+  const position = project.offset("queries.ts", marker) + 1;
+  const quickInfo = getSqlQuickInfo(ts, info, undefined, QUERIES, position, "sql", schema);
+  return quickInfo && {
+    display: quickInfo.displayParts?.map((part) => part.text).join(""),
+    documentation: quickInfo.documentation?.map((part) => part.text).join(""),
+    span: quickInfo.textSpan,
+  };
+}
+
+test.describe("getSqlQuickInfo", () => {
+  test("a live column shows its TypeScript type and SQL definition", () => {
+    expect(hover("title", LIVE)).toEqual({
+      display: "column posts.title",
+      documentation: "string\ntext NOT NULL",
+      span: { start: project.offset("queries.ts", "title"), length: "title".length },
+    });
+  });
+
+  test("defaults and foreign keys are part of the definition", () => {
+    expect(hover("author_id", LIVE)?.documentation).toBe("number | null\ninteger REFERENCES users(id)");
+    expect(hover("status", LIVE)?.documentation).toBe(
+      "string\ncharacter varying NOT NULL DEFAULT 'draft'::character varying",
+    );
+  });
+
+  test("a schemaFile column shows its TypeScript type only", () => {
+    expect(hover("email", FROM_FILE)).toMatchObject({
+      display: "column users.email",
+      documentation: "string | null",
+    });
+  });
+
+  test("a table lists its columns with their definitions", () => {
+    expect(hover("posts`", LIVE)).toMatchObject({
+      display: "table posts",
+      documentation: [
+        "{",
+        "  title: string  // text NOT NULL",
+        "  author_id: number | null  // integer REFERENCES users(id)",
+        "  status: string  // character varying NOT NULL DEFAULT 'draft'::character varying",
+        "}",
+      ].join("\n"),
+    });
+  });
+
+  test("unknown words fall through", () => {
+    expect(hover("SELECT email", LIVE)).toBeUndefined();
+  });
+});
@@ -0,0 +1,179 @@
+import { test, expect } from "@playwright/test";
+import type * as tslib from "typescript/lib/tsserverlibrary";
+
+import {
+  getSqlDefinition,
+  getSqlReferenceEntries,
+  getSqlReferences,
+  getSqlRenameInfo,
+  getSqlRenameLocations,
+} from "../src/providers/navigation.js";
+import type { SchemaTable } from "../src/schema/types.js";
+import { createProject } from "./helpers/project.js";
+
+const FILES = {
+  "schema.ts": `export interface UsersRow {
+  id: number;
+  name: string;
+}
+
+export interface PostsRow {
+  id: number;
+  user_id: number;
+}
+
+export type Tables = {
+  users: UsersRow;
+  posts: PostsRow;
+};
+`,
+  "queries.ts": `import type { UsersRow } from "./schema";
+
+declare function sql(strings: TemplateStringsArray, ...values: unknown[]): string;
+
+export const names = sql\`SELECT name FROM users WHERE id = 1\`;
+export const authors = sql\`SELECT u.name FROM users u JOIN posts ON posts.user_id = u.id\`;
+
+export function label(row: UsersRow): string {
+  return row.name;
+}
+`,
+};
+
+const SCHEMA: SchemaTable[] = [
+  {
+    name: "users",
+    columns: [{ name: "id", type: "number" }, { name: "name", type: "string" }],
+    rowInterface: { fileName: "/project/schema.ts", name: "UsersRow" },
+  },
+  {
+    name: "posts",
+    columns: [{ name: "id", type: "number" }, { name: "user_id", type: "number" }],
+    rowInterface: { fileName: "/project/schema.ts", name: "PostsRow" },
+  },
+];
+
+const project = createProject(FILES);
+const { ts, info } = project;
+const QUERIES = "/project/queries.ts";
+const SCHEMA_FILE = "/project/schema.ts";
+
+/** The line of a span with the span in brackets: `queries.ts: SELECT [name] FROM users`. */
+function show(location: { fileName: string; textSpan: tslib.TextSpan }): string {
+  const name = location.fileName.replace("/project/", "") as keyof typeof FILES;
+  const text = FILES[name];
+  const { start, length } = location.textSpan;
+  const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = text.indexOf("\n", start);
+  const marked = `${text.slice(lineStart, start)}[${text.slice(start, start + length)}]${text.slice(start + length, lineEnd)}`;
+  return `${name}: ${marked.trim()}`;
+}
+
+/** Position inside the `occurrence`-th `marker` of `file`. */
+function at(marker: string, occurrence = 0, file: keyof typeof FILES = "queries.ts"): number {
+  return project.offset(file, marker, occurrence) + 1;
+}
+
+test.describe("go to definition", () => {
+  test("goes from a column to its property in the row interface", () => {
+    const result = getSqlDefinition(ts, info, undefined, QUERIES, at("name FROM"), "sql", SCHEMA);
+    expect(result!.definitions!.map(show)).toEqual(["schema.ts: [name]: string;"]);
+    expect(show({ fileName: QUERIES, textSpan: result!.textSpan })).toBe(
+      "queries.ts: export const names = sql`SELECT [name] FROM users WHERE id = 1`;",
+    );
+  });
+
+  test("goes from a table to its row interface", () => {
+    const result = getSqlDefinition(ts, info, undefined, QUERIES, at("posts ON"), "sql", SCHEMA);
+    expect(result!.definitions!.map(show)).toEqual(["schema.ts: export interface [PostsRow] {"]);
+  });
+
+  test("leaves positions outside SQL names to TypeScript", () => {
+    const prior = { definitions: [], textSpan: { start: 0, length: 0 } };
+    expect(getSqlDefinition(ts, info, prior, QUERIES, at("SELECT"), "sql", SCHEMA)).toBe(prior);
+    expect(getSqlDefinition(ts, info, prior, QUERIES, at("row.name"), "sql", SCHEMA)).toBe(prior);
+  });
+});
+
+test.describe("find all references", () => {
+  const NAME_REFERENCES = [
+    "schema.ts: [name]: string;",
+    "queries.ts: return row.[name];",
+    "queries.ts: export const names = sql`SELECT [name] FROM users WHERE id = 1`;",
+    "queries.ts: export const authors = sql`SELECT u.[name] FROM users u JOIN posts ON posts.user_id = u.id`;",
+  ];
+
+  test("finds a column in templates and in TypeScript, from a template", () => {
+    const symbols = getSqlReferences(ts, info, undefined, QUERIES, at("name FROM"), "sql", SCHEMA);
+    expect(symbols!.flatMap((s) => s.references).map(show)).toEqual(NAME_REFERENCES);
+  });
+
+  test("finds the template uses of a property, from the schema file", () => {
+    const position = at("name: string", 0, "schema.ts");
+    const prior = info.languageService.getReferencesAtPosition(SCHEMA_FILE, position);
+    const entries = getSqlReferenceEntries(ts, info, prior, SCHEMA_FILE, position, "sql", SCHEMA);
+    expect(entries!.map(show)).toEqual(NAME_REFERENCES);
+  });
+
+  test("finds a table, but not its columns", () => {
+    const entries = getSqlReferenceEntries(ts, info, undefined, QUERIES, at("users u"), "sql", SCHEMA);
+    // TypeScript groups its references by symbol: compare as a set
+    expect(entries!.map(show).sort()).toEqual([
+      "schema.ts: export interface [UsersRow] {",
+      "schema.ts: users: [UsersRow];",
+      "queries.ts: import type { [UsersRow] } from \"./schema\";",
+      "queries.ts: export const names = sql`SELECT name FROM [users] WHERE id = 1`;",
+      "queries.ts: export const authors = sql`SELECT u.name FROM [users] u JOIN posts ON posts.user_id = u.id`;",
+      "queries.ts: export function label(row: [UsersRow]): string {",
+    ].sort());
+  });
+});
+
+test.describe("rename", () => {
+  test("allows renaming a column from a template", () => {
+    const result = getSqlRenameInfo(ts, info, { canRename: false, localizedErrorMessage: "" }, QUERIES, at("name FROM"), "sql", SCHEMA);
+    expect(result).toMatchObject({ canRename: true, displayName: "name", fullDisplayName: "users.name" });
+    expect(show({ fileName: QUERIES, textSpan: (result as tslib.RenameInfoSuccess).triggerSpan })).toBe(
+      "queries.ts: export const names = sql`SELECT [name] FROM users WHERE id = 1`;",
+    );
+  });
+
+  test("leaves other positions to TypeScript", () => {
+    const prior: tslib.RenameInfo = { canRename: false, localizedErrorMessage: "nope" };
+    expect(getSqlRenameInfo(ts, info, prior, QUERIES, at("WHERE"), "sql", SCHEMA)).toBe(prior);
+  });
+
+  /** Rename locations from `position` in `fileName`, shown as their lines. */
+  function renameLocations(fileName: string, position: number): string[] {
+    const prior = info.languageService.findRenameLocations(fileName, position, false, false, {});
+    return getSqlRenameLocations(ts, info, prior, fileName, position, false, false, {}, "sql", SCHEMA)!
+      .map((location) => show(location));
+  }
+
+  test("renames a column's property, its TypeScript uses and its template uses", () => {
+    const expected = [
+      "schema.ts: [name]: string;",
+      "queries.ts: return row.[name];",
+      "queries.ts: export const names = sql`SELECT [name] FROM users WHERE id = 1`;",
+      "queries.ts: export const authors = sql`SELECT u.[name] FROM users u JOIN posts ON posts.user_id = u.id`;",
+    ];
+    expect(renameLocations(QUERIES, at("name FROM"))).toEqual(expected);
+    expect(renameLocations(SCHEMA_FILE, at("name: string", 0, "schema.ts"))).toEqual(expected);
+  });
+
+  test("renames a table's key in Tables and its template uses, not the interface", () => {
+    const expected = [
+      "schema.ts: [posts]: PostsRow;",
+      "queries.ts: export const authors = sql`SELECT u.name FROM users u JOIN [posts] ON posts.user_id = u.id`;",
+      "queries.ts: export const authors = sql`SELECT u.name FROM users u JOIN posts ON [posts].user_id = u.id`;",
+    ];
+    expect(renameLocations(QUERIES, at("posts ON"))).toEqual(expected);
+    expect(renameLocations(SCHEMA_FILE, at("posts: PostsRow", 0, "schema.ts"))).toEqual(expected);
+  });
+
+  test("renaming the row interface does not touch the templates", () => {
+    const position = at("PostsRow {", 0, "schema.ts");
+    const prior = info.languageService.findRenameLocations(SCHEMA_FILE, position, false, false, {});
+    expect(getSqlRenameLocations(ts, info, prior, SCHEMA_FILE, position, false, false, {}, "sql", SCHEMA)).toBe(prior);
+  });
+});
@@ -0,0 +1,127 @@
+import { test, expect } from "@playwright/test";
+import type * as tslib from "typescript/lib/tsserverlibrary";
+
+import { checkParamType, type ParamMismatch } from "../src/providers/param-types.js";
+import type { SchemaColumn } from "../src/schema/types.js";
+import { createProject } from "./helpers/project.js";
+
+/** Check `value` declared as `valueType` against `column` of table `t`. */
+function check(valueType: string, column: Omit<SchemaColumn, "name">, write = false): ParamMismatch | undefined {
+  const { ts, program } = createProject({ "query.ts": `declare const value: ${valueType};\nvalue;\n` });
+  const sourceFile = program.getSourceFile("/project/query.ts")!;
+  const statement = sourceFile.statements.at(-1) as tslib.ExpressionStatement;
+  return checkParamType(
+    ts,
+    program.getTypeChecker(),
+    statement.expression,
+    { offset: 0, table: "t", column: { name: "c", ...column }, write },
+    sourceFile,
+  );
+}
+
+test.describe("checkParamType — accepted values", () => {
+  const cases: Array<{ value: string; column: string; write?: boolean; nullable?: boolean }> = [
+    { value: "number", column: "number" },
+    { value: "42", column: "number" },
+    { value: "bigint", column: "number" },
+    { value: "number", column: "bigint" },
+    { value: "string", column: "string" },
+    { value: "Date", column: "string" },
+    { value: "string", column: "Date" },
+    { value: "boolean", column: "boolean" },
+    { value: "Uint8Array", column: "Buffer" },
+    { value: "'draft'", column: "'draft' | 'published'" },
+    // comparing with NULL is the caller's business
+    { value: "string | null", column: "string" },
+    { value: "string | null", column: "string | null", write: true },
+    { value: "string | undefined", column: "string", write: true, nullable: true },
+    // too loose to tell
+    { value: "any", column: "number" },
+    { value: "unknown", column: "number" },
+    { value: "string", column: "Record<string, unknown>" },
+    { value: "string", column: "string | number" },
+  ];
+
+  for (const { value, column, write, nullable } of cases) {
+    test(`${value} → ${column}${write ? " (write)" : ""}`, () => {
+      expect(check(value, { type: column, nullable }, write)).toBeUndefined();
+    });
+  }
+});
+
+test.describe("checkParamType — mismatches", () => {
+  const cases: Array<{ value: string; column: string; write?: boolean; mismatch: ParamMismatch }> = [
+    {
+      value: "string",
+      column: "number",
+      mismatch: {
+        message: "Type 'string' does not match column t.c (number)",
+        conversion: { description: "Convert to number with `Number(value)`", text: "Number(value)" },
+      },
+    },
+    {
+      value: "'42'",
+      column: "number",
+      mismatch: {
+        message: "Type 'string' does not match column t.c (number)",
+        conversion: { description: "Convert to number with `Number(value)`", text: "Number(value)" },
+      },
+    },
+    {
+      value: "number",
+      column: "string | null",
+      mismatch: {
+        message: "Type 'number' does not match column t.c (string | null)",
+        conversion: { description: "Convert to string with `String(value)`", text: "String(value)" },
+      },
+    },
+    {
+      value: "number",
+      column: "boolean",
+      mismatch: {
+        message: "Type 'number' does not match column t.c (boolean)",
+        conversion: { description: "Convert to boolean with `Boolean(value)`", text: "Boolean(value)" },
+      },
+    },
+    {
+      value: "number",
+      column: "Date",
+      mismatch: {
+        message: "Type 'number' does not match column t.c (Date)",
+        conversion: { description: "Convert to Date with `new Date(value)`", text: "new Date(value)" },
+      },
+    },
+    {
+      value: "number",
+      column: "'draft' | 'published'",
+      mismatch: {
+        message: "Type 'number' does not match column t.c ('draft' | 'published')",
+        conversion: { description: "Convert to string with `String(value)`", text: "String(value)" },
+      },
+    },
+    {
+      value: "string",
+      column: "Buffer",
+      mismatch: { message: "Type 'string' does not match column t.c (Buffer)" },
+    },
+    {
+      value: "string | null",
+      column: "string",
+      write: true,
+      mismatch: { message: "Type 'string | null' may be null, but column t.c is NOT NULL" },
+    },
+    {
+      // null as well as a wrong type: no conversion, `Number(null)` would hide the null
+      value: "string | null",
+      column: "number",
+      write: true,
+      mismatch: { message: "Type 'string | null' does not match column t.c (number)" },
+    },
+  ];
+
+  for (const { value, column, write, mismatch } of cases) {
+    test(`${value} → ${column}${write ? " (write)" : ""}`, () => {
+      expect(check(value, { type: column }, write)).toEqual(mismatch);
+    });
+  }
+});
@@ -0,0 +1,221 @@
+import { test, expect } from "@playwright/test";
+
+import type { SchemaTable } from "../src/schema/types.js";
+import { analyzeSql, SQL_ERROR_CODES } from "../src/sql/semantic.js";
+
+const SCHEMA: SchemaTable[] = [
+  {
+    name: "users",
+    columns: [
+      { name: "id", type: "number" },
+      { name: "name", type: "string" },
+      { name: "email", type: "string | null", nullable: true },
+    ],
+  },
+  {
+    name: "posts",
+    columns: [
+      { name: "id", type: "number" },
+      { name: "user_id", type: "number" },
+      { name: "title", type: "string" },
+      { name: "body", type: "string | null", nullable: true },
+    ],
+  },
+];
+
+/** An error as `[code name, message, highlighted text, fix descriptions]`. */
+type ExpectedError = [keyof typeof SQL_ERROR_CODES, string, string, string[]];
+
+function errorsOf(sql: string): ExpectedError[] {
+  const codes = Object.entries(SQL_ERROR_CODES);
+  return analyzeSql(sql, SCHEMA).errors.map((error) => [
+    codes.find(([, code]) => code === error.code)![0] as keyof typeof SQL_ERROR_CODES,
+    error.message,
+    sql.slice(error.offset, error.offset + error.length),
+    error.fixes.map((fix) => fix.description),
+  ]);
+}
+
+/** Apply the first fix of the first error. */
+function fixed(sql: string): string {
+  const [fix] = analyzeSql(sql, SCHEMA).errors[0]!.fixes;
+  return [...fix!.edits]
+    .sort((a, b) => b.offset - a.offset)
+    .reduce((text, edit) => text.slice(0, edit.offset) + edit.text + text.slice(edit.offset + edit.length), sql);
+}
+
+test.describe("analyzeSql — errors", () => {
+  const cases: Array<{ name: string; sql: string; errors: ExpectedError[] }> = [
+    {
+      name: "known tables and columns",
+      sql: "SELECT id, name FROM users WHERE email IS NULL ORDER BY name",
+      errors: [],
+    },
+    {
+      name: "column through an alias",
+      sql: "SELECT u.id, u.name FROM users AS u",
+      errors: [],
+    },
+    {
+      name: "unknown table",
+      sql: "SELECT id FROM user",
+      errors: [["unknownTable", 'Unknown table "user". Did you mean "users"?', "user", ["Change to `users`"]]],
+    },
+    {
+      name: "unknown column through an alias",
+      sql: "SELECT u.nme FROM users u",
+      errors: [["unknownColumn", 'Unknown column "nme" in users. Did you mean "name"?', "nme", ["Change to `name`"]]],
+    },
+    {
+      name: "unknown column without a close match",
+      sql: "DELETE FROM posts WHERE published_at IS NULL",
+      errors: [["unknownColumn", 'Unknown column "published_at" in posts', "published_at", []]],
+    },
+    {
+      name: "column of the joined table",
+      sql: "SELECT title, name FROM users JOIN posts ON posts.user_id = users.id",
+      errors: [],
+    },
+    {
+      name: "ambiguous column in a join",
+      sql: "SELECT id FROM users u JOIN posts p ON p.user_id = u.id",
+      errors: [[
+        "ambiguousColumn",
+        'Column "id" is ambiguous: u.id or p.id',
+        "id",
+        ["Change to `u.id`", "Change to `p.id`"],
+      ]],
+    },
+    {
+      name: "columns of a CTE are not checked against the schema",
+      sql: "WITH recent AS (SELECT id, title FROM posts) SELECT title, anything FROM recent",
+      errors: [],
+    },
+    {
+      name: "unknown column inside a CTE",
+      sql: "WITH recent AS (SELECT id, titel FROM posts) SELECT * FROM recent",
+      errors: [["unknownColumn", 'Unknown column "titel" in posts. Did you mean "title"?', "titel", ["Change to `title`"]]],
+    },
+    {
+      name: "a CTE may use an earlier one",
+      sql: "WITH a AS (SELECT id FROM users), b AS (SELECT id FROM a) SELECT id FROM b",
+      errors: [],
+    },
+    {
+      name: "subquery in WHERE",
+      sql: "SELECT name FROM users WHERE id IN (SELECT user_id FROM posts)",
+      errors: [],
+    },
+    {
+      name: "correlated subquery sees the outer alias",
+      sql: "SELECT name FROM users u WHERE EXISTS (SELECT 1 FROM posts p WHERE p.user_id = u.id)",
+      errors: [],
+    },
+    {
+      name: "unknown column inside a subquery",
+      sql: "SELECT name FROM users WHERE id IN (SELECT author_id FROM posts)",
+      // the outer query's tables are in scope too
+      errors: [["unknownColumn", 'Unknown column "author_id" in posts, users', "author_id", []]],
+    },
+    {
+      name: "derived table columns are opaque",
+      sql: "SELECT t.n FROM (SELECT name AS n FROM users) t",
+      errors: [],
+    },
+    {
+      name: "INSERT with matching values",
+      sql: "INSERT INTO posts (user_id, title) VALUES (1, 'hello')",
+      errors: [],
+    },
+    {
+      name: "INSERT with an extra value",
+      sql: "INSERT INTO posts (user_id, title) VALUES (1, 'hello', 'world')",
+      errors: [[
+        "valueCount",
+        "INSERT into posts has 2 target columns but 3 values",
+        "(1, 'hello', 'world')",
+        ["Remove 1 extra value"],
+      ]],
+    },
+    {
+      name: "INSERT into an unknown column",
+      sql: "INSERT INTO posts (user_id, titel) VALUES (1, 'hello')",
+      errors: [["unknownColumn", 'Unknown column "titel" in posts. Did you mean "title"?', "titel", ["Change to `title`"]]],
+    },
+    {
+      name: "UPDATE of an unknown column",
+      sql: "UPDATE users SET nme = 'x' WHERE id = 1",
+      errors: [["unknownColumn", 'Unknown column "nme" in users. Did you mean "name"?', "nme", ["Change to `name`"]]],
+    },
+    {
+      name: "DDL is not checked",
+      sql: "CREATE TABLE audit (id INTEGER, whatever TEXT)",
+      errors: [],
+    },
+  ];
+
+  for (const { name, sql, errors } of cases) {
+    test(name, () => {
+      expect(errorsOf(sql)).toEqual(errors);
+    });
+  }
+
+  test("nothing is reported for an empty schema", () => {
+    expect(analyzeSql("SELECT nope FROM nowhere WHERE x = ?", [])).toEqual({ errors: [], params: [], refs: [] });
+  });
+});
+
+test.describe("analyzeSql — fixes", () => {
+  const cases: Array<{ sql: string; fixed: string }> = [
+    { sql: "SELECT id FROM user", fixed: "SELECT id FROM users" },
+    { sql: 'SELECT "nme" FROM users', fixed: 'SELECT "name" FROM users' },
+    { sql: "SELECT id FROM users u JOIN posts p ON p.user_id = u.id", fixed: "SELECT u.id FROM users u JOIN posts p ON p.user_id = u.id" },
+    { sql: "INSERT INTO posts (user_id, title) VALUES (1, 'a', 'b')", fixed: "INSERT INTO posts (user_id, title) VALUES (1, 'a')" },
+  ];
+
+  for (const { sql, fixed: expected } of cases) {
+    test(sql, () => {
+      expect(fixed(sql)).toBe(expected);
+    });
+  }
+});
+
+test.describe("analyzeSql — params", () => {
+  const cases: Array<{ sql: string; params: Array<[string, boolean]> }> = [
+    { sql: "SELECT * FROM users WHERE id = ? AND email = ?", params: [["users.id", false], ["users.email", false]] },
+    { sql: "SELECT * FROM users u WHERE ? = u.name", params: [["users.name", false]] },
+    { sql: "INSERT INTO posts (user_id, title, body) VALUES (?, ?, ?)", params: [["posts.user_id", true], ["posts.title", true], ["posts.body", true]] },
+    { sql: "UPDATE users SET name = ? WHERE id = ?", params: [["users.name", true], ["users.id", false]] },
+    { sql: "SELECT * FROM users WHERE id IN (SELECT user_id FROM posts WHERE title = ?)", params: [["posts.title", false]] },
+    { sql: "SELECT * FROM users LIMIT ?", params: [] },
+  ];
+
+  for (const { sql, params } of cases) {
+    test(sql, () => {
+      const result = analyzeSql(sql, SCHEMA).params;
+      expect(result.map((p) => [`${p.table}.${p.column.name}`, p.write])).toEqual(params);
+      expect(result.every((p) => sql[p.offset] === "?")).toBe(true);
+    });
+  }
+});
+
+test.describe("analyzeSql — refs", () => {
+  const cases: Array<{ sql: string; refs: string[] }> = [
+    { sql: "SELECT u.name FROM users u", refs: ["name → users.name", "users → users"] },
+    {
+      sql: "SELECT title FROM posts JOIN users ON users.id = posts.user_id",
+      refs: ["title → posts.title", "posts → posts", "users → users", "users → users", "id → users.id", "posts → posts", "user_id → posts.user_id"],
+    },
+    { sql: 'SELECT "email" FROM "users"', refs: ["email → users.email", "users → users"] },
+    { sql: "SELECT nope FROM users", refs: ["users → users"] },
+  ];
+
+  for (const { sql, refs } of cases) {
+    test(sql, () => {
+      const result = analyzeSql(sql, SCHEMA).refs
+        .sort((a, b) => a.offset - b.offset)
+        .map((ref) => `${sql.slice(ref.offset, ref.offset + ref.length)} → ${ref.table.name}${ref.column ? `.${ref.column.name}` : ""}`);
+      expect(result).toEqual(refs);
+    });
+  }
+});